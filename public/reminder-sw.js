@@ -0,0 +1,184 @@
+// Match reminder handling for the DamiTV service worker.
+// Loaded into the generated workbox worker via `importScripts` (see vite.config.ts).
+// The page mirrors pending reminders here with a REMINDERS_SYNC message; they are kept
+// in IndexedDB so they survive the worker being stopped, and fired from timers while the
+// worker is alive or from periodic background sync (installed app) when it is not.
+
+const REMINDER_DB = 'damitv-reminders';
+const REMINDER_STORE = 'reminders';
+const DELIVERED_STORE = 'delivered';
+const REMINDER_ICON = '/favicon.png';
+// Timers only survive while the worker is alive, so only arm the ones due soon
+const TIMER_WINDOW = 10 * 60 * 1000; // 10 minutes
+// Same cutoff as the page (reminderService.ts): a reminder for a match that kicked off
+// longer ago than this is dropped, not delivered
+const DELIVERED_RETENTION = 6 * 60 * 60 * 1000; // 6 hours
+
+const reminderTimers = new Map();
+
+const openReminderDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(REMINDER_DB, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(REMINDER_STORE)) {
+      db.createObjectStore(REMINDER_STORE, { keyPath: 'matchId' });
+    }
+    if (!db.objectStoreNames.contains(DELIVERED_STORE)) {
+      db.createObjectStore(DELIVERED_STORE, { keyPath: 'matchId' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readAll = async (storeName) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName).objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeReminders = async (reminders) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REMINDER_STORE, 'readwrite');
+    const store = tx.objectStore(REMINDER_STORE);
+    store.clear();
+    reminders.forEach((reminder) => store.put(reminder));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const deleteReminders = async (matchIds) => {
+  if (matchIds.length === 0) return;
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REMINDER_STORE, 'readwrite');
+    const store = tx.objectStore(REMINDER_STORE);
+    matchIds.forEach((matchId) => store.delete(matchId));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const isStale = (reminder, now) => !(reminder.matchDate > now - DELIVERED_RETENTION);
+
+// recorded: whether a page has been asked to record the delivery remotely
+const markDelivered = async (matchId, recorded, deliveredAt = Date.now()) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([REMINDER_STORE, DELIVERED_STORE], 'readwrite');
+    tx.objectStore(REMINDER_STORE).delete(matchId);
+    tx.objectStore(DELIVERED_STORE).put({ matchId, deliveredAt, recorded });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Every open tab updates its reminder list, but only one records the delivery remotely
+const notifyClients = async (matchId) => {
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clientList.forEach((client, index) => client.postMessage({ type: 'REMINDER_DELIVERED', matchId, record: index === 0 }));
+  return clientList.length > 0;
+};
+
+const reminderOptions = (reminder) => ({
+  body: `Kicks off in ${reminder.leadMinutes >= 60 ? `${Math.round(reminder.leadMinutes / 60)}h` : `${reminder.leadMinutes} minutes`}. Tap to watch on DamiTV.`,
+  icon: REMINDER_ICON,
+  badge: REMINDER_ICON,
+  tag: `reminder-${reminder.matchId}`,
+  data: { url: reminder.url, matchId: reminder.matchId }
+});
+
+const deliverReminder = async (reminder) => {
+  reminderTimers.delete(reminder.matchId);
+  await self.registration.showNotification(`⏰ Starting soon: ${reminder.title}`, reminderOptions(reminder));
+  const recorded = await notifyClients(reminder.matchId);
+  await markDelivered(reminder.matchId, recorded);
+};
+
+const scheduleReminders = async (reminders) => {
+  reminderTimers.forEach((timer) => clearTimeout(timer));
+  reminderTimers.clear();
+
+  const now = Date.now();
+  const stale = reminders.filter((r) => isStale(r, now));
+  await deleteReminders(stale.map((r) => r.matchId));
+
+  for (const reminder of reminders.filter((r) => !isStale(r, now))) {
+    const delay = reminder.fireAt - now;
+
+    if (delay <= 0) {
+      await deliverReminder(reminder);
+    } else if (delay <= TIMER_WINDOW) {
+      reminderTimers.set(reminder.matchId, setTimeout(() => deliverReminder(reminder), delay));
+    }
+  }
+};
+
+// Fire anything that came due while the worker was asleep
+const checkDueReminders = async () => {
+  const reminders = await readAll(REMINDER_STORE);
+  const now = Date.now();
+  await deleteReminders(reminders.filter((r) => isStale(r, now)).map((r) => r.matchId));
+
+  const current = reminders.filter((r) => !isStale(r, now));
+  await Promise.all(current.filter((r) => r.fireAt <= now).map(deliverReminder));
+  await scheduleReminders(current.filter((r) => r.fireAt > now));
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'REMINDERS_SYNC') return;
+
+  event.waitUntil((async () => {
+    const delivered = await readAll(DELIVERED_STORE);
+    const deliveredById = new Map(delivered.map((d) => [d.matchId, d]));
+    const deliveredIds = new Set(deliveredById.keys());
+    const incoming = Array.isArray(event.data.reminders) ? event.data.reminders : [];
+
+    // Let the page know about reminders we already fired while it was closed - the first
+    // page to hear about one that no page recorded yet records it
+    for (const r of incoming.filter((r) => deliveredIds.has(r.matchId))) {
+      const entry = deliveredById.get(r.matchId);
+      event.source?.postMessage({ type: 'REMINDER_DELIVERED', matchId: r.matchId, record: !entry.recorded });
+      if (!entry.recorded && event.source) await markDelivered(r.matchId, true, entry.deliveredAt);
+    }
+
+    const pending = incoming.filter((r) => !deliveredIds.has(r.matchId));
+
+    await writeReminders(pending);
+    await scheduleReminders(pending);
+  })());
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'match-reminders') {
+    event.waitUntil(checkDueReminders());
+  }
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(checkDueReminders().catch(() => undefined));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  // Kickoff reminders and in-match alerts (goals, red cards) both open their match
+  const tag = event.notification.tag || '';
+  if (!tag.startsWith('reminder-') && !tag.startsWith('match-alert-')) return;
+
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil((async () => {
+    const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = clientList.find((client) => 'focus' in client);
+    if (existing) {
+      await existing.focus();
+      if ('navigate' in existing) return existing.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
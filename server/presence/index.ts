@@ -0,0 +1,52 @@
+import { MemoryPresenceStore } from './memoryStore.js';
+import { createPresenceServer } from './server.js';
+import { SupabasePresenceStore } from './supabaseStore.js';
+import type { PresenceStore } from './types.js';
+
+// Presence service entry point
+// PRESENCE_STORE=memory (default) or supabase, which needs SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY. Behind a reverse proxy, list its addresses in
+// PRESENCE_TRUSTED_PROXIES (comma-separated) so rate limits key on the real client.
+// Build with `npm run presence:build`.
+
+const PORT = Number(process.env.PORT) || 3005;
+const SESSION_TIMEOUT = 60000;
+const PRUNE_INTERVAL = 30000;
+const TRUSTED_PROXIES = (process.env.PRESENCE_TRUSTED_PROXIES || '').split(',').map(ip => ip.trim()).filter(Boolean);
+
+const createStore = (): PresenceStore => {
+  if (process.env.PRESENCE_STORE === 'supabase') {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !key) {
+      throw new Error('PRESENCE_STORE=supabase needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    }
+    return new SupabasePresenceStore(url, key);
+  }
+  return new MemoryPresenceStore();
+};
+
+const store = createStore();
+const server = createPresenceServer(store, {
+  sessionTimeout: SESSION_TIMEOUT,
+  trustedProxies: TRUSTED_PROXIES
+});
+
+const pruneTimer = setInterval(() => {
+  store.prune(Date.now() - SESSION_TIMEOUT).catch(error => {
+    console.error('❌ Presence prune failed:', error);
+  });
+}, PRUNE_INTERVAL);
+
+server.listen(PORT, () => {
+  console.log(`👀 Presence service (${store.name} store) running on port ${PORT}`);
+});
+
+const shutdown = () => {
+  clearInterval(pruneTimer);
+  server.close(() => process.exit(0));
+  server.closeAllConnections();
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
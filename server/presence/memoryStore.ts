@@ -0,0 +1,59 @@
+import type { PresenceStats, PresenceStore, RoomId } from './types.js';
+
+// In-process store for local dev - counts reset on restart and aren't shared between instances
+export class MemoryPresenceStore implements PresenceStore {
+  readonly name = 'memory';
+  private rooms = new Map<RoomId, Map<string, number>>(); // room -> session -> last heartbeat
+
+  async heartbeat(room: RoomId, sessionId: string, now: number): Promise<void> {
+    let sessions = this.rooms.get(room);
+    if (!sessions) {
+      sessions = new Map();
+      this.rooms.set(room, sessions);
+    }
+    sessions.set(sessionId, now);
+  }
+
+  async leave(room: RoomId, sessionId: string): Promise<void> {
+    const sessions = this.rooms.get(room);
+    if (!sessions) return;
+    sessions.delete(sessionId);
+    if (sessions.size === 0) this.rooms.delete(room);
+  }
+
+  async count(room: RoomId, since: number): Promise<number> {
+    let count = 0;
+    this.rooms.get(room)?.forEach(lastSeen => {
+      if (lastSeen >= since) count++;
+    });
+    return count;
+  }
+
+  async counts(rooms: RoomId[], since: number): Promise<Record<RoomId, number>> {
+    const result: Record<RoomId, number> = {};
+    for (const room of rooms) {
+      result[room] = await this.count(room, since);
+    }
+    return result;
+  }
+
+  async stats(since: number): Promise<PresenceStats> {
+    const stats: PresenceStats = { totalViewers: 0, rooms: {} };
+    for (const room of this.rooms.keys()) {
+      const count = await this.count(room, since);
+      if (count === 0) continue;
+      stats.rooms[room] = count;
+      stats.totalViewers += count;
+    }
+    return stats;
+  }
+
+  async prune(before: number): Promise<void> {
+    for (const [room, sessions] of this.rooms) {
+      for (const [sessionId, lastSeen] of sessions) {
+        if (lastSeen < before) sessions.delete(sessionId);
+      }
+      if (sessions.size === 0) this.rooms.delete(room);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import type { ServerResponse } from 'node:http';
+import type { PresenceStore, RoomId } from './types.js';
+
+// Server-Sent Events push channel
+// Each client subscribes to a set of rooms and gets an "counts" event whenever
+// one of their counts changes, instead of polling /counts.
+
+interface Subscriber {
+  res: ServerResponse;
+  rooms: RoomId[];
+  // room -> key the client asked for it by (legacy clients use bare match IDs)
+  keys: Map<RoomId, string>;
+  sent: Map<RoomId, number>;
+}
+
+export interface PushHubOptions {
+  refreshInterval: number;   // full refresh of every subscribed room
+  changeDebounce: number;    // refresh soon after a local heartbeat/leave
+  pingInterval: number;      // keeps proxies from closing idle streams
+  sessionTimeout: number;
+}
+
+export class PushHub {
+  private subscribers = new Set<Subscriber>();
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing = false;
+
+  constructor(private store: PresenceStore, private options: PushHubOptions) {}
+
+  get size() {
+    return this.subscribers.size;
+  }
+
+  subscribe(res: ServerResponse, keys: Map<RoomId, string>) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const subscriber: Subscriber = { res, rooms: Array.from(keys.keys()), keys, sent: new Map() };
+    this.subscribers.add(subscriber);
+    res.on('close', () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0) this.stop();
+    });
+
+    this.start();
+    // Initial snapshot so the client doesn't wait for the next refresh
+    void this.refresh([subscriber]);
+  }
+
+  // A heartbeat or leave landed here - push the new count without waiting a full interval
+  notifyChange() {
+    if (this.changeTimer || this.subscribers.size === 0) return;
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      void this.refresh();
+    }, this.options.changeDebounce);
+  }
+
+  close() {
+    this.stop();
+    this.subscribers.forEach(subscriber => subscriber.res.end());
+    this.subscribers.clear();
+  }
+
+  private start() {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setInterval(() => void this.refresh(), this.options.refreshInterval);
+    this.pingTimer = setInterval(() => {
+      this.subscribers.forEach(subscriber => subscriber.res.write(': ping\n\n'));
+    }, this.options.pingInterval);
+  }
+
+  private stop() {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.changeTimer) clearTimeout(this.changeTimer);
+    this.refreshTimer = null;
+    this.pingTimer = null;
+    this.changeTimer = null;
+  }
+
+  private async refresh(targets: Subscriber[] = Array.from(this.subscribers)) {
+    if (targets.length === 0) return;
+    // A slow store shouldn't pile up overlapping refreshes; initial snapshots still go through
+    const isFullRefresh = targets.length === this.subscribers.size;
+    if (isFullRefresh && this.refreshing) return;
+    if (isFullRefresh) this.refreshing = true;
+
+    try {
+      const rooms = Array.from(new Set(targets.flatMap(subscriber => subscriber.rooms)));
+      const counts = await this.store.counts(rooms, Date.now() - this.options.sessionTimeout);
+
+      for (const subscriber of targets) {
+        const changed: Record<string, number> = {};
+        let hasChanges = false;
+
+        for (const room of subscriber.rooms) {
+          const count = counts[room] ?? 0;
+          if (subscriber.sent.get(room) === count) continue;
+          subscriber.sent.set(room, count);
+          changed[subscriber.keys.get(room) ?? room] = count;
+          hasChanges = true;
+        }
+
+        if (hasChanges) {
+          subscriber.res.write(`event: counts\ndata: ${JSON.stringify(changed)}\n\n`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Presence push refresh failed:', error);
+    } finally {
+      if (isFullRefresh) this.refreshing = false;
+    }
+  }
+}
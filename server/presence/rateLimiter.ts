@@ -0,0 +1,29 @@
+// Fixed-window request limiter keyed by anything (IP, session + room...)
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /**
+   * Count a request. Returns 0 when allowed, otherwise the milliseconds until it would be.
+   */
+  hit(key: string, now: number = Date.now()): number {
+    const window = this.windows.get(key);
+    if (!window || now - window.start >= this.windowMs) {
+      this.windows.set(key, { start: now, count: 1 });
+      return 0;
+    }
+    if (window.count >= this.limit) {
+      return this.windowMs - (now - window.start);
+    }
+    window.count++;
+    return 0;
+  }
+
+  // Forget finished windows so the map doesn't grow with every visitor ever seen
+  prune(now: number = Date.now()) {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= this.windowMs) this.windows.delete(key);
+    }
+  }
+}
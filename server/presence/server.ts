@@ -0,0 +1,215 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { PushHub } from './pushHub.js';
+import { RateLimiter } from './rateLimiter.js';
+import type { PresenceStore, RoomId, RoomKind } from './types.js';
+
+// Presence HTTP server
+// POST /heartbeat, POST /leave        ?room=match:ID&session=ID
+// GET  /count?room=  /counts?rooms=   current viewers
+// GET  /stats                         totals across every room
+// GET  /events?rooms=                 SSE push of count changes
+// The old match=/matches= parameters still work and mean match rooms.
+
+export interface PresenceServerOptions {
+  sessionTimeout?: number;
+  heartbeatInterval?: number;  // fastest a session may heartbeat one room
+  requestsPerMinute?: number;  // per client IP, all routes
+  maxRoomsPerRequest?: number;
+  trustedProxies?: string[];   // only these peers may set X-Forwarded-For
+}
+
+const ROUTE_PREFIX = '/api/viewers';
+const ROOM_KINDS: RoomKind[] = ['match', 'channel'];
+const SAFE_ID = /^[\w.:-]{1,128}$/;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// "::ffff:127.0.0.1" and "127.0.0.1" are the same peer
+const normalizeIp = (ip: string) => ip.trim().replace(/^::ffff:(?=\d+\.)/, '');
+
+/**
+ * Rate-limit key for a request. X-Forwarded-For is anyone's to write, so it only counts
+ * when the connection comes from a trusted proxy - then the client is the last hop that
+ * isn't one of ours.
+ */
+const getClientIp = (req: IncomingMessage, trustedProxies: Set<string>): string => {
+  const peer = req.socket.remoteAddress ? normalizeIp(req.socket.remoteAddress) : '';
+  if (!peer || !trustedProxies.has(peer)) return peer || 'unknown';
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(Boolean);
+  while (hops.length > 0 && trustedProxies.has(hops[hops.length - 1])) hops.pop();
+  return hops.pop() || peer;
+};
+
+/**
+ * "match:123" -> itself, a bare legacy ID -> "match:<id>", anything malformed -> null
+ */
+const parseRoom = (value: string, legacy: boolean): RoomId | null => {
+  if (!SAFE_ID.test(value)) return null;
+  if (legacy) return `match:${value}`;
+  const [kind, ...rest] = value.split(':');
+  const id = rest.join(':');
+  return ROOM_KINDS.includes(kind as RoomKind) && id ? `${kind as RoomKind}:${id}` : null;
+};
+
+/**
+ * Rooms a request asks about, mapped to the key its response should use
+ */
+const getRequestedRooms = (url: URL, maxRooms: number): Map<RoomId, string> | null => {
+  const single = url.searchParams.get('room') ?? url.searchParams.get('match');
+  const list = url.searchParams.get('rooms') ?? url.searchParams.get('matches');
+  const legacy = !url.searchParams.has('room') && !url.searchParams.has('rooms');
+
+  const values = single !== null ? [single] : (list || '').split(',').filter(Boolean);
+  if (values.length > maxRooms) return null;
+
+  const rooms = new Map<RoomId, string>();
+  for (const value of values) {
+    const room = parseRoom(value, legacy);
+    if (!room) return null;
+    rooms.set(room, value);
+  }
+  return rooms;
+};
+
+export const createPresenceServer = (store: PresenceStore, options: PresenceServerOptions = {}): Server => {
+  const sessionTimeout = options.sessionTimeout ?? 60000;
+  const maxRooms = options.maxRoomsPerRequest ?? 100;
+  const trustedProxies = new Set((options.trustedProxies ?? []).map(normalizeIp));
+
+  const heartbeatLimiter = new RateLimiter(1, options.heartbeatInterval ?? 10000);
+  const requestLimiter = new RateLimiter(options.requestsPerMinute ?? 120, 60000);
+  const limiterCleanup = setInterval(() => {
+    heartbeatLimiter.prune();
+    requestLimiter.prune();
+  }, 60000);
+
+  const hub = new PushHub(store, {
+    refreshInterval: 5000,
+    changeDebounce: 1000,
+    pingInterval: 25000,
+    sessionTimeout
+  });
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // Same routes whether or not the proxy strips its prefix
+    const path = url.pathname.startsWith(ROUTE_PREFIX)
+      ? url.pathname.slice(ROUTE_PREFIX.length) || '/'
+      : url.pathname;
+
+    if (path === '/health') {
+      sendJson(res, 200, { status: 'ok', store: store.name, subscribers: hub.size });
+      return;
+    }
+
+    const retryAfter = requestLimiter.hit(getClientIp(req, trustedProxies));
+    if (retryAfter > 0) {
+      sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(retryAfter / 1000)) });
+      return;
+    }
+
+    const rooms = getRequestedRooms(url, maxRooms);
+    if (!rooms) {
+      sendJson(res, 400, { error: `Invalid rooms (at most ${maxRooms}, "match:<id>" or "channel:<id>")` });
+      return;
+    }
+
+    if (req.method === 'POST' && (path === '/heartbeat' || path === '/leave')) {
+      const sessionId = url.searchParams.get('session');
+      const [room] = Array.from(rooms.keys());
+      if (!room || rooms.size !== 1 || !sessionId || !SAFE_ID.test(sessionId)) {
+        sendJson(res, 400, { error: 'One room and a session are required' });
+        return;
+      }
+
+      if (path === '/heartbeat') {
+        const wait = heartbeatLimiter.hit(`${room}|${sessionId}`);
+        if (wait > 0) {
+          sendJson(res, 429, { error: 'Heartbeat too soon' }, { 'Retry-After': String(Math.ceil(wait / 1000)) });
+          return;
+        }
+        await store.heartbeat(room, sessionId, Date.now());
+      } else {
+        await store.leave(room, sessionId);
+      }
+
+      hub.notifyChange();
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (req.method !== 'GET') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const since = Date.now() - sessionTimeout;
+
+    switch (path) {
+      case '/count': {
+        const [room] = Array.from(rooms.keys());
+        sendJson(res, 200, { count: room ? await store.count(room, since) : 0 });
+        return;
+      }
+      case '/counts': {
+        const counts = await store.counts(Array.from(rooms.keys()), since);
+        const body: Record<string, number> = {};
+        rooms.forEach((key, room) => { body[key] = counts[room] ?? 0; });
+        sendJson(res, 200, body);
+        return;
+      }
+      case '/stats': {
+        const stats = await store.stats(since);
+        // "matches" keeps the prototype's response shape for existing callers
+        const matches: Record<string, number> = {};
+        Object.entries(stats.rooms).forEach(([room, count]) => {
+          if (room.startsWith('match:')) matches[room.slice('match:'.length)] = count;
+        });
+        sendJson(res, 200, { ...stats, matches });
+        return;
+      }
+      case '/events':
+        if (rooms.size === 0) {
+          sendJson(res, 400, { error: 'At least one room is required' });
+          return;
+        }
+        hub.subscribe(res, rooms);
+        return;
+      default:
+        sendJson(res, 404, { error: 'Not found' });
+    }
+  };
+
+  const server = createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    handle(req, res).catch(error => {
+      console.error('❌ Presence request failed:', error);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Presence store unavailable' });
+      else res.end();
+    });
+  });
+
+  server.on('close', () => {
+    clearInterval(limiterCleanup);
+    hub.close();
+  });
+
+  return server;
+};
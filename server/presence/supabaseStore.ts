@@ -0,0 +1,99 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../src/integrations/supabase/types.js';
+import type { PresenceStats, PresenceStore, RoomId } from './types.js';
+
+// PostgREST caps every response at this many rows (max-rows) - larger reads are paged,
+// and room lists are sent in chunks that can't come back longer than this
+const PAGE_SIZE = 1000;
+
+const toTimestamp = (ms: number) => new Date(ms).toISOString();
+
+/**
+ * Production store: viewer_sessions rows, upserted by the heartbeat_viewer RPC.
+ * The room ID goes in match_id - channels share the table under a "channel:" prefix.
+ */
+export class SupabasePresenceStore implements PresenceStore {
+  readonly name = 'supabase';
+  private client: SupabaseClient<Database>;
+
+  constructor(url: string, serviceRoleKey: string) {
+    this.client = createClient<Database>(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+
+  async heartbeat(room: RoomId, sessionId: string): Promise<void> {
+    const { error } = await this.client.rpc('heartbeat_viewer', {
+      match_id_param: room,
+      session_id_param: sessionId
+    });
+    if (error) throw new Error(`heartbeat_viewer failed: ${error.message}`);
+  }
+
+  async leave(room: RoomId, sessionId: string): Promise<void> {
+    const { error } = await this.client
+      .from('viewer_sessions')
+      .delete()
+      .eq('match_id', room)
+      .eq('session_id', sessionId);
+    if (error) throw new Error(`viewer_sessions delete failed: ${error.message}`);
+  }
+
+  async count(room: RoomId, since: number): Promise<number> {
+    const { count, error } = await this.client
+      .from('viewer_sessions')
+      .select('id', { count: 'exact', head: true })
+      .eq('match_id', room)
+      .gte('last_heartbeat', toTimestamp(since));
+    if (error) throw new Error(`viewer_sessions count failed: ${error.message}`);
+    return count ?? 0;
+  }
+
+  // Grouped in the database (count_viewer_sessions) - one request per PAGE_SIZE rooms
+  async counts(rooms: RoomId[], since: number): Promise<Record<RoomId, number>> {
+    const result: Record<RoomId, number> = {};
+
+    for (let i = 0; i < rooms.length; i += PAGE_SIZE) {
+      const batch = rooms.slice(i, i + PAGE_SIZE);
+      const { data, error } = await this.client.rpc('count_viewer_sessions', {
+        since_param: toTimestamp(since),
+        room_ids_param: batch
+      });
+      if (error) throw new Error(`count_viewer_sessions failed: ${error.message}`);
+
+      // Rooms nobody is watching have no row
+      batch.forEach(room => { result[room] = 0; });
+      data?.forEach(row => { result[row.match_id as RoomId] = Number(row.viewers); });
+    }
+
+    return result;
+  }
+
+  // Every room with viewers, a page of rooms at a time
+  async stats(since: number): Promise<PresenceStats> {
+    const stats: PresenceStats = { totalViewers: 0, rooms: {} };
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.client
+        .rpc('count_viewer_sessions', { since_param: toTimestamp(since) })
+        .order('match_id')
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(`count_viewer_sessions failed: ${error.message}`);
+
+      data?.forEach(row => {
+        const viewers = Number(row.viewers);
+        stats.rooms[row.match_id as RoomId] = viewers;
+        stats.totalViewers += viewers;
+      });
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return stats;
+  }
+
+  // The database owns the staleness rule for its own cleanup
+  async prune(): Promise<void> {
+    const { error } = await this.client.rpc('cleanup_stale_viewer_sessions');
+    if (error) throw new Error(`cleanup_stale_viewer_sessions failed: ${error.message}`);
+  }
+}
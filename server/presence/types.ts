@@ -0,0 +1,25 @@
+// Presence service types
+// A room is one thing people can be watching: "match:<id>" or "channel:<id>".
+
+export type RoomKind = 'match' | 'channel';
+
+export type RoomId = `${RoomKind}:${string}`;
+
+export interface PresenceStats {
+  totalViewers: number;
+  rooms: Record<RoomId, number>;
+}
+
+/**
+ * Where sessions live. Memory for local dev, Supabase in production -
+ * anything that can answer "who sent a heartbeat recently" will do.
+ */
+export interface PresenceStore {
+  readonly name: string;
+  heartbeat(room: RoomId, sessionId: string, now: number): Promise<void>;
+  leave(room: RoomId, sessionId: string): Promise<void>;
+  count(room: RoomId, since: number): Promise<number>;
+  counts(rooms: RoomId[], since: number): Promise<Record<RoomId, number>>;
+  stats(since: number): Promise<PresenceStats>;
+  prune(before: number): Promise<void>;
+}
@@ -9,6 +9,8 @@ import { HelmetProvider } from "react-helmet-async";
 import SEOPageTracker from "./components/SEOPageTracker";
 import MonetizationTracker from "./components/MonetizationTracker";
 import { SportsDataProvider } from "@/contexts/SportsDataContext";
+import { FavouritesProvider } from "@/contexts/FavouritesContext";
+import { MiniPlayerProvider } from "@/contexts/MiniPlayerContext";
 
 // Import pages directly instead of lazy loading to avoid module import errors
 import Index from "./pages/Index";
@@ -50,8 +52,16 @@ import Article from "./pages/Article";
 import MatchDetail from "./pages/MatchDetail";
 import Dashboard from "./pages/Dashboard";
 import MatchPreview from "./pages/MatchPreview";
+import MyMatches from "./pages/MyMatches";
+import Multiview from "./pages/Multiview";
+import League from "./pages/League";
 
 import TelegramFAB from "./components/TelegramFAB";
+import MatchReminderScheduler from "./components/MatchReminderScheduler";
+import MatchEventAlerts from "./components/MatchEventAlerts";
+import OfflineBanner from "./components/OfflineBanner";
+import MiniPlayer from "./components/MiniPlayer";
+import UpdatePrompt from "./components/UpdatePrompt";
 
 // Optimized query client configuration
 const queryClient = new QueryClient({
@@ -71,9 +81,16 @@ const App: React.FC = () => {
       <HelmetProvider>
         <BrowserRouter>
           <SportsDataProvider>
+          <FavouritesProvider>
+          <MiniPlayerProvider>
           <MonetizationTracker>
             <TooltipProvider>
               <TelegramFAB />
+              <MatchReminderScheduler />
+              <MatchEventAlerts />
+              <OfflineBanner />
+              <MiniPlayer />
+              {import.meta.env.PROD && <UpdatePrompt />}
               <Toaster />
               <Sonner />
             <Routes>
@@ -108,6 +125,21 @@ const App: React.FC = () => {
                   <Live />
                 </SEOPageTracker>
               } />
+              <Route path="/my-matches" element={
+                <SEOPageTracker pageTitle="My Matches - Followed Teams & Leagues" contentType="home">
+                  <MyMatches />
+                </SEOPageTracker>
+              } />
+              <Route path="/leagues/:leagueId" element={
+                <SEOPageTracker contentType="schedule">
+                  <League />
+                </SEOPageTracker>
+              } />
+              <Route path="/multiview" element={
+                <SEOPageTracker pageTitle="Multi-view - Watch Several Matches at Once" contentType="live">
+                  <Multiview />
+                </SEOPageTracker>
+              } />
               <Route path="/channels" element={
                 <SEOPageTracker pageTitle="Free Sports TV Channels" contentType="channels">
                   <Channels />
@@ -212,6 +244,8 @@ const App: React.FC = () => {
             </Routes>
           </TooltipProvider>
         </MonetizationTracker>
+        </MiniPlayerProvider>
+        </FavouritesProvider>
         </SportsDataProvider>
       </BrowserRouter>
     </HelmetProvider>
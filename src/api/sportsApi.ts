@@ -1,26 +1,60 @@
-// Sports API Service - Using Streamed.pk/su API
-// Re-export all functions from streamedApi
+// Sports API - pages and hooks fetch match data through here
+// Listings and streams come from the configured MatchProvider (see services/matchProvider.ts)
+import { Match, Stream } from '../types/sports';
+import { matchProvider } from '../services/matchProvider';
+import { consolidateMatches } from '../utils/matchUtils';
+import { findMatchById } from '../services/matchIdentity';
 
+// Image helpers (pass absolute URLs through unchanged)
 export {
-  clearStreamCache,
-  fetchSports,
-  fetchAllMatches,
-  fetchMatches,
-  fetchLiveMatches,
-  fetchMatch,
-  fetchPopularMatches,
-  fetchSimpleStream,
-  fetchAllMatchStreams,
-  fetchAllStreams,
   getBohoImageUrl,
   getTeamBadgeUrl,
   getLeagueLogoUrl,
   STREAMED_API_BASE
 } from '../services/streamedApi';
 
+export const clearStreamCache = (matchId?: string) => matchProvider.clearCache?.(matchId);
+export const fetchSports = () => matchProvider.fetchSports();
+
+// Listings are always de-duplicated, so every match carries its canonical ID
+export const fetchAllMatches = async () => consolidateMatches(await matchProvider.fetchAllMatches());
+export const fetchMatches = async (sportId: string) => consolidateMatches(await matchProvider.fetchMatches(sportId));
+export const fetchLiveMatches = async () => consolidateMatches(await matchProvider.fetchLiveMatches());
+export const fetchPopularMatches = async () => consolidateMatches(await matchProvider.fetchPopularMatches());
+
+// Match pages are addressed by canonical ID (or an old upstream ID) - resolve it against
+// the merged listings first so the page gets every source for the event
+export const fetchMatch = async (sportId: string, matchId: string): Promise<Match> => {
+  const merged = await fetchAllMatches();
+  const found = findMatchById(merged, matchId);
+  if (found) return found;
+
+  const [match] = consolidateMatches([await matchProvider.fetchMatch(sportId, matchId)]);
+  return match;
+};
+
+export const fetchSimpleStream = (source: string, id: string, category?: string) =>
+  matchProvider.fetchStreams(source, id, category);
+export const fetchAllMatchStreams = (match: Match) => matchProvider.fetchMatchStreams(match);
+
+// Fetch all streams grouped by "source/id" (legacy compatibility)
+export const fetchAllStreams = async (match: Match): Promise<Record<string, Stream[]>> => {
+  const result = await fetchAllMatchStreams(match);
+  const streamsRecord: Record<string, Stream[]> = {};
+
+  result.streams.forEach(stream => {
+    const key = `${stream.source}/${stream.id}`;
+    if (!streamsRecord[key]) {
+      streamsRecord[key] = [];
+    }
+    streamsRecord[key].push(stream);
+  });
+
+  return streamsRecord;
+};
+
 // Legacy function for backward compatibility
 export const fetchStream = async (source: string, id: string, streamNo?: number) => {
-  const { fetchSimpleStream } = await import('../services/streamedApi');
   const streams = await fetchSimpleStream(source, id);
 
   if (streamNo !== undefined) {
@@ -1,70 +1,232 @@
-
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, format, isSameDay, startOfDay } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Tv } from 'lucide-react';
+import { Tv, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useCDNChannels } from '../hooks/useCDNChannels';
+import { useEPGGuide } from '../hooks/useEPGGuide';
+import { EPGProgram } from '../services/epgService';
+
+const GUIDE_DAYS = 3;
+const PX_PER_MINUTE = 4; // 30 minute slot = 120px
+const SLOT_MINUTES = 30;
+const CHANNEL_COLUMN_WIDTH = 160;
+const DAY_MINUTES = 24 * 60;
+
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const getInitials = (title: string) =>
+  title.split(' ').map(word => word[0]).join('').slice(0, 2).toUpperCase();
+
+const ChannelGuide = ({ selectedCountry = '' }: { selectedCountry?: string }) => {
+  const navigate = useNavigate();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { channelsByCountry, countries, isLoading: channelsLoading } = useCDNChannels();
+  const [country, setCountry] = useState(selectedCountry);
+  const [dayOffset, setDayOffset] = useState(0);
+  const [now, setNow] = useState(() => new Date());
+
+  // Default to the UK guide, or the first country with channels
+  useEffect(() => {
+    if (!country && countries.length > 0) {
+      setCountry(countries.includes('United Kingdom') ? 'United Kingdom' : countries[0]);
+    }
+  }, [country, countries]);
+
+  useEffect(() => {
+    if (selectedCountry) setCountry(selectedCountry);
+  }, [selectedCountry]);
+
+  // Keep the "now" line moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const channels = useMemo(() => channelsByCountry[country] || [], [channelsByCountry, country]);
+  const { rows, isLoading: guideLoading } = useEPGGuide(country, channels);
+
+  const dayStart = useMemo(() => startOfDay(addDays(new Date(), dayOffset)), [dayOffset]);
+  const dayEnd = useMemo(() => addDays(dayStart, 1), [dayStart]);
+  const days = useMemo(
+    () => Array.from({ length: GUIDE_DAYS }, (_, i) => addDays(startOfDay(new Date()), i)),
+    []
+  );
+
+  const slots = useMemo(
+    () => Array.from({ length: DAY_MINUTES / SLOT_MINUTES }, (_, i) => new Date(dayStart.getTime() + i * SLOT_MINUTES * 60 * 1000)),
+    [dayStart]
+  );
+
+  const showNowLine = isSameDay(now, dayStart);
+  const nowOffset = ((now.getTime() - dayStart.getTime()) / 60000) * PX_PER_MINUTE;
+
+  // Read at scroll time only - the clock ticking shouldn't pull the guide back to now
+  const nowOffsetRef = useRef(nowOffset);
+  nowOffsetRef.current = nowOffset;
+
+  // Jump to the current time on today's guide, otherwise to the start of the day
+  useEffect(() => {
+    if (!scrollRef.current) return;
+    scrollRef.current.scrollLeft = dayOffset === 0
+      ? Math.max(0, nowOffsetRef.current - 60 * PX_PER_MINUTE)
+      : 0;
+  }, [dayOffset, rows.length]);
+
+  const getProgramBlock = (program: EPGProgram) => {
+    const start = Math.max(new Date(program.startTime).getTime(), dayStart.getTime());
+    const end = Math.min(new Date(program.endTime).getTime(), dayEnd.getTime());
+    if (end <= start) return null;
+
+    return {
+      left: ((start - dayStart.getTime()) / 60000) * PX_PER_MINUTE,
+      width: ((end - start) / 60000) * PX_PER_MINUTE,
+    };
+  };
+
+  const handleSelectProgram = (channelId: string) => {
+    navigate(`/channel/${country}/${channelId}`);
+  };
+
+  const isLoading = channelsLoading || guideLoading;
+  const gridWidth = DAY_MINUTES * PX_PER_MINUTE;
 
-const ChannelGuide = ({ selectedCountry }: { selectedCountry: string }) => {
   return (
-    <Card className="bg-[#151922] border-[#343a4d] mt-6">
+    <Card className="bg-card border-border mt-6">
       <CardHeader>
-        <CardTitle className="text-white text-lg flex items-center">
-          <Tv className="h-5 w-5 text-[#ff5a36] mr-2" />
-          Live Sports TV Guide
+        <CardTitle className="text-foreground text-lg flex items-center">
+          <Tv className="h-5 w-5 text-primary mr-2" />
+          TV Guide
         </CardTitle>
-        <p className="text-gray-400 text-sm">
-          Real-time sports schedule and TV guide for all major sports
+        <p className="text-muted-foreground text-sm">
+          What's on across {country || 'our'} channels · times shown in {timeZone}
         </p>
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          {days.map((day, index) => (
+            <button
+              key={day.toISOString()}
+              type="button"
+              onClick={() => setDayOffset(index)}
+              className={cn(
+                'px-3 py-1 rounded-full border text-sm font-medium transition-colors',
+                dayOffset === index
+                  ? 'bg-primary border-primary text-primary-foreground'
+                  : 'bg-muted border-border text-foreground hover:border-primary'
+              )}
+            >
+              {index === 0 ? 'Today' : index === 1 ? 'Tomorrow' : format(day, 'EEE d MMM')}
+            </button>
+          ))}
+
+          <select
+            value={country}
+            onChange={(e) => setCountry(e.target.value)}
+            className="ml-auto bg-muted border border-border rounded-md px-3 py-1 text-sm text-foreground"
+            aria-label="Guide country"
+          >
+            {countries.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
       </CardHeader>
+
       <CardContent className="p-0">
-        <div className="w-full">
-          <style dangerouslySetInnerHTML={{
-            __html: `
-              .containerFrame {width: 100%;}
-              .frameData {width: 100%;}
-              .hosting{margin:20px; font-size:70%; padding:6px; border:1px solid #17628b; margin-bottom:10px;}
-              .hosting a{font-weight:bold;color:#17628b;}
-              .dataList{padding:20px;}
-            `
-          }} />
-          
-          <script dangerouslySetInnerHTML={{
-            __html: `
-              var eventMethod = window.addEventListener ? "addEventListener" : "attachEvent";
-              var eventer = window[eventMethod];
-              var messageEvent = eventMethod == "attachEvent" ? "onmessage" : "message";
-              eventer(messageEvent,function(e) {
-                if(typeof e.data == "number" && e.data > 100)
-                  document.getElementById("outputFrame").height = e.data + "px";
-              },false);
-            `
-          }} />
-          
-          <iframe
-            className="frameData"
-            id="outputFrame"
-            src="https://sport-tv-guide.live/sportwidget/e56305453cb8?time_zone=Australia%2FSydney&fc=102,16,2,1,7,18&time12=0&sports=28,29,1,5,18,7,8,10,39,40,13&bg=f8f8f9&bgs=b7b7b7&grp=1&sd=0&lng=1"
-            style={{
-              position: 'relative',
-              border: 'none',
-              width: '100%',
-              minHeight: '600px'
-            }}
-            frameBorder="0"
-            title="Live Sports TV Guide"
-          />
-          
-          <div className="p-2 text-center text-xs text-gray-400">
-            Powered by{' '}
-            <a 
-              href="https://sport-tv-guide.live" 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="text-[#ff5a36] hover:underline"
-            >
-              Live Sports TV Guide
-            </a>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading TV guide...
           </div>
-        </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground text-sm">
+            No guide listings available for {country || 'this country'} yet.
+          </div>
+        ) : (
+          <div ref={scrollRef} className="overflow-x-auto max-h-[640px] overflow-y-auto">
+            <div className="relative" style={{ width: CHANNEL_COLUMN_WIDTH + gridWidth }}>
+              {/* Time header */}
+              <div className="flex sticky top-0 z-20 bg-card border-b border-border">
+                <div
+                  className="sticky left-0 z-30 bg-card border-r border-border flex-shrink-0"
+                  style={{ width: CHANNEL_COLUMN_WIDTH }}
+                />
+                {slots.map(slot => (
+                  <div
+                    key={slot.toISOString()}
+                    className="flex-shrink-0 px-2 py-2 text-xs text-muted-foreground border-l border-border"
+                    style={{ width: SLOT_MINUTES * PX_PER_MINUTE }}
+                  >
+                    {format(slot, 'HH:mm')}
+                  </div>
+                ))}
+              </div>
+
+              {/* Channel rows */}
+              {rows.map(({ channel, epg }) => (
+                <div key={channel.id} className="flex border-b border-border h-16">
+                  <button
+                    type="button"
+                    onClick={() => handleSelectProgram(channel.id)}
+                    className="sticky left-0 z-10 flex items-center gap-2 px-3 bg-card border-r border-border flex-shrink-0 text-left hover:bg-accent"
+                    style={{ width: CHANNEL_COLUMN_WIDTH }}
+                  >
+                    <div className="w-8 h-8 rounded-md overflow-hidden flex items-center justify-center bg-muted flex-shrink-0">
+                      {channel.logo ? (
+                        <img src={channel.logo} alt="" className="w-full h-full object-contain" />
+                      ) : (
+                        <span className="text-[10px] font-bold text-foreground">{getInitials(channel.title)}</span>
+                      )}
+                    </div>
+                    <span className="text-sm font-medium text-foreground truncate">{channel.title}</span>
+                  </button>
+
+                  <div className="relative flex-shrink-0" style={{ width: gridWidth }}>
+                    {epg.programs.map(program => {
+                      const block = getProgramBlock(program);
+                      if (!block) return null;
+
+                      const start = new Date(program.startTime);
+                      const end = new Date(program.endTime);
+                      const isOnNow = start <= now && end > now;
+
+                      return (
+                        <button
+                          key={program.id}
+                          type="button"
+                          onClick={() => handleSelectProgram(channel.id)}
+                          title={program.description || program.title}
+                          className={cn(
+                            'absolute top-1 bottom-1 rounded-md border px-2 py-1 text-left overflow-hidden transition-colors',
+                            isOnNow
+                              ? 'bg-primary/20 border-primary/60 hover:bg-primary/30'
+                              : 'bg-muted border-border hover:border-primary'
+                          )}
+                          style={{ left: block.left + 1, width: Math.max(block.width - 2, 4) }}
+                        >
+                          <p className="text-xs font-semibold text-foreground truncate">{program.title}</p>
+                          <p className="text-[10px] text-muted-foreground truncate">
+                            {format(start, 'HH:mm')} - {format(end, 'HH:mm')}
+                          </p>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {/* Now line */}
+              {showNowLine && (
+                <div
+                  className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 pointer-events-none"
+                  style={{ left: CHANNEL_COLUMN_WIDTH + nowOffset }}
+                  aria-hidden="true"
+                />
+              )}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface FavouriteToggleProps {
+  active: boolean;
+  onToggle: () => void;
+  label: string;          // Name of the team/league, used for the accessible label
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const FavouriteToggle: React.FC<FavouriteToggleProps> = ({
+  active,
+  onToggle,
+  label,
+  size = 'sm',
+  className = ''
+}) => {
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards are wrapped in links - don't navigate when starring
+    e.preventDefault();
+    e.stopPropagation();
+    onToggle();
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={active}
+      aria-label={active ? `Unfollow ${label}` : `Follow ${label}`}
+      title={active ? `Unfollow ${label}` : `Follow ${label}`}
+      className={cn(
+        'inline-flex items-center justify-center rounded-full transition-colors flex-shrink-0',
+        size === 'sm' ? 'h-6 w-6' : 'h-8 w-8',
+        active ? 'text-yellow-400 hover:text-yellow-300' : 'text-muted-foreground hover:text-foreground',
+        className
+      )}
+    >
+      <Star
+        className={size === 'sm' ? 'h-3.5 w-3.5' : 'h-4 w-4'}
+        fill={active ? 'currentColor' : 'none'}
+      />
+    </button>
+  );
+};
+
+export default FavouriteToggle;
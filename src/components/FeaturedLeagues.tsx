@@ -7,6 +7,8 @@ import serieALogo from '@/assets/leagues/serie-a.png';
 import bundesligaLogo from '@/assets/leagues/bundesliga.png';
 import ligue1Logo from '@/assets/leagues/ligue-1.png';
 import mlsLogo from '@/assets/leagues/mls.png';
+import { useFavourites } from '@/contexts/FavouritesContext';
+import FavouriteToggle from './FavouriteToggle';
 
 interface League {
   id: string;
@@ -15,21 +17,23 @@ interface League {
   sportKey: string;
 }
 
+// leagueId is TheSportsDB's, for the standings page
 const FEATURED_LEAGUES = [
-  { name: 'UEFA Champions League', sportKey: 'soccer_uefa_champs_league', logo: championsLeagueLogo },
-  { name: 'English Premier League', sportKey: 'soccer_epl', logo: premierLeagueLogo },
-  { name: 'Spanish La Liga', sportKey: 'soccer_spain_la_liga', logo: laLigaLogo },
-  { name: 'Italian Serie A', sportKey: 'soccer_italy_serie_a', logo: serieALogo },
-  { name: 'German Bundesliga', sportKey: 'soccer_germany_bundesliga', logo: bundesligaLogo },
-  { name: 'French Ligue 1', sportKey: 'soccer_france_ligue_one', logo: ligue1Logo },
-  { name: 'Major League Soccer', sportKey: 'soccer_usa_mls', logo: mlsLogo },
+  { name: 'UEFA Champions League', sportKey: 'soccer_uefa_champs_league', leagueId: '4480', logo: championsLeagueLogo, keywords: ['champions league', 'ucl'] },
+  { name: 'English Premier League', sportKey: 'soccer_epl', leagueId: '4328', logo: premierLeagueLogo, keywords: ['premier league', 'epl'] },
+  { name: 'Spanish La Liga', sportKey: 'soccer_spain_la_liga', leagueId: '4335', logo: laLigaLogo, keywords: ['la liga', 'laliga'] },
+  { name: 'Italian Serie A', sportKey: 'soccer_italy_serie_a', leagueId: '4332', logo: serieALogo, keywords: ['serie a'] },
+  { name: 'German Bundesliga', sportKey: 'soccer_germany_bundesliga', leagueId: '4331', logo: bundesligaLogo, keywords: ['bundesliga'] },
+  { name: 'French Ligue 1', sportKey: 'soccer_france_ligue_one', leagueId: '4334', logo: ligue1Logo, keywords: ['ligue 1'] },
+  { name: 'Major League Soccer', sportKey: 'soccer_usa_mls', leagueId: '4346', logo: mlsLogo, keywords: ['mls'] },
 ];
 
 const FeaturedLeagues: React.FC = () => {
   const navigate = useNavigate();
+  const { isLeagueFollowed, toggleLeague } = useFavourites();
 
-  const handleLeagueClick = (sportKey: string) => {
-    navigate(`/league/${sportKey}`);
+  const handleLeagueClick = (leagueId: string) => {
+    navigate(`/leagues/${leagueId}`);
   };
 
 
@@ -38,23 +42,35 @@ const FeaturedLeagues: React.FC = () => {
       <h2 className="text-2xl font-bold mb-4 text-foreground">Featured Leagues</h2>
       <div className="flex gap-3 overflow-x-auto pb-4 scrollbar-hide">
         {FEATURED_LEAGUES.map((league) => (
-          <button
-            key={league.sportKey}
-            onClick={() => handleLeagueClick(league.sportKey)}
-            className="flex-shrink-0 w-28 h-28 bg-white rounded-xl border border-border hover:border-primary transition-all duration-200 hover:shadow-lg hover:scale-105 flex flex-col items-center justify-center p-2 gap-2 group"
-            aria-label={`View ${league.name}`}
-          >
-            <div className="w-20 h-20 flex items-center justify-center p-2">
-              <img
-                src={league.logo}
-                alt={`${league.name} logo`}
-                className="max-w-full max-h-full object-contain"
-              />
-            </div>
-            <p className="text-xs font-semibold text-center text-foreground line-clamp-2">
-              {league.name}
-            </p>
-          </button>
+          <div key={league.sportKey} className="relative flex-shrink-0">
+            <button
+              onClick={() => handleLeagueClick(league.leagueId)}
+              className="w-28 h-28 bg-white rounded-xl border border-border hover:border-primary transition-all duration-200 hover:shadow-lg hover:scale-105 flex flex-col items-center justify-center p-2 gap-2 group"
+              aria-label={`View ${league.name}`}
+            >
+              <div className="w-20 h-20 flex items-center justify-center p-2">
+                <img
+                  src={league.logo}
+                  alt={`${league.name} logo`}
+                  className="max-w-full max-h-full object-contain"
+                />
+              </div>
+              <p className="text-xs font-semibold text-center text-foreground line-clamp-2">
+                {league.name}
+              </p>
+            </button>
+            <FavouriteToggle
+              active={isLeagueFollowed(league.sportKey)}
+              onToggle={() => toggleLeague({
+                id: league.sportKey,
+                name: league.name,
+                sport: 'football',
+                keywords: league.keywords
+              })}
+              label={league.name}
+              className="absolute top-1 right-1 bg-background/80"
+            />
+          </div>
         ))}
       </div>
     </div>
@@ -5,7 +5,10 @@ import { Link } from 'react-router-dom';
 import { Match } from '@/types/sports';
 import { getBohoImageUrl } from '@/api/sportsApi';
 import { getCarouselMatches, isHotMatch, formatViewerCount } from '@/utils/heroCarouselFilter';
-import { isMatchLive } from '@/utils/matchUtils';
+import { getViewerReading } from '@/utils/matchUtils';
+import { getMatchLifecycle, getPhaseLabel } from '@/services/matchLifecycle';
+import { useLifecycleClock } from '@/hooks/useMatchLifecycle';
+import { getViewerCountLabel } from '@/services/viewerCountService';
 import { ViewerCount } from './ViewerCount';
 import { Clock, Calendar, Eye } from 'lucide-react';
 import { format } from 'date-fns';
@@ -27,6 +30,8 @@ export const HeroCarousel = () => {
   
   // Use shared sports data context instead of fetching independently
   const { allMatches, loading } = useSportsData();
+  // Re-render badges when a match changes phase
+  const lifecycleNow = useLifecycleClock();
   
   // Static cover photo slide
   const coverSlide = {
@@ -138,10 +143,10 @@ export const HeroCarousel = () => {
                 <div className="relative z-10 p-3 sm:p-5 md:p-8 max-w-xl">
                   <div className="flex flex-wrap items-center gap-1.5 sm:gap-2 md:gap-3 mb-2 sm:mb-3">
                     <div className="inline-block px-2 py-0.5 sm:px-2.5 sm:py-1 md:px-3 md:py-1 bg-red-600 text-white text-[10px] sm:text-xs font-bold rounded-full">
-                      {isMatchLive(slide) ? 'LIVE NOW' : 'UPCOMING'}
+                      {getMatchLifecycle(slide, lifecycleNow).phase === 'live' ? 'LIVE NOW' : getPhaseLabel(getMatchLifecycle(slide, lifecycleNow))}
                     </div>
                     
-                    {/* HOT Badge for high-viewer matches (500+) */}
+                    {/* HOT Badge for high-viewer matches */}
                     {isHotMatch(slide) && (
                       <div className="inline-flex items-center gap-1 px-2 py-0.5 sm:px-2.5 sm:py-1 md:px-3 md:py-1 bg-gradient-to-r from-orange-500 to-red-500 text-white text-[10px] sm:text-xs font-bold rounded-full animate-pulse">
                         🔥 HOT
@@ -149,10 +154,13 @@ export const HeroCarousel = () => {
                     )}
                     
                     {/* Viewer Count Badge */}
-                    {slide.viewerCount && slide.viewerCount > 0 && (
-                      <div className="flex items-center gap-1 sm:gap-1.5 px-2 py-0.5 sm:px-2.5 sm:py-1 md:px-3 md:py-1 bg-white/10 backdrop-blur-md border border-white/20 rounded-full text-white text-[10px] sm:text-xs font-semibold animate-fade-in">
+                    {getViewerReading(slide).kind !== 'none' && (
+                      <div
+                        className="flex items-center gap-1 sm:gap-1.5 px-2 py-0.5 sm:px-2.5 sm:py-1 md:px-3 md:py-1 bg-white/10 backdrop-blur-md border border-white/20 rounded-full text-white text-[10px] sm:text-xs font-semibold animate-fade-in"
+                        title={getViewerCountLabel(getViewerReading(slide).kind)}
+                      >
                         <Eye className="w-2.5 h-2.5 sm:w-3 sm:h-3" />
-                        {formatViewerCount(slide.viewerCount)} watching
+                        {formatViewerCount(getViewerReading(slide).count)} watching
                       </div>
                     )}
                   </div>
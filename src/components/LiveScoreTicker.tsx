@@ -2,6 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useSportsData } from '@/contexts/SportsDataContext';
 import { isMatchLive } from '@/utils/matchUtils';
+import { getMatchLifecycle, getPhaseLabel } from '@/services/matchLifecycle';
 import { generateMatchSlug, extractNumericId } from '@/utils/matchSlug';
 
 interface TickerItem {
@@ -63,7 +64,7 @@ const LiveScoreTicker: React.FC = () => {
         awayTeam: away || match.title.split(' vs ')[1] || '',
         homeScore: null,
         awayScore: null,
-        status: isMatchLive(match) ? 'LIVE' : getTimeUntil(match.date),
+        status: isMatchLive(match) ? getPhaseLabel(getMatchLifecycle(match)) : getTimeUntil(match.date),
         sport: match.category?.replace(/-/g, ' ') || 'Sports',
         league: match.category?.replace(/-/g, ' ') || '',
         homeBadge,
@@ -1,7 +1,10 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { Users, TrendingUp, TrendingDown } from 'lucide-react';
-import { Match } from '@/types/sports';
-import { fetchMatchViewerCount, formatViewerCount, isMatchLive } from '@/services/viewerCountService';
+import { Match, ViewerCountReading } from '@/types/sports';
+import { fetchMatchViewerCount, formatViewerCount, getViewerCountLabel, isMatchLive } from '@/services/viewerCountService';
+import { getViewerReading } from '@/utils/matchUtils';
+import { getPresenceRoom } from '@/services/realViewerService';
+import { usePresenceCount } from '@/hooks/useViewerTracking';
 import { cn } from '@/lib/utils';
 
 // Smooth counter animation
@@ -58,10 +61,7 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
   rounded = false,
   className
 }) => {
-  const [viewerCount, setViewerCount] = useState<number | null>(() => {
-    const initial = match.viewerCount;
-    return typeof initial === 'number' && initial > 0 ? initial : null;
-  });
+  const [reading, setReading] = useState<ViewerCountReading>(() => getViewerReading(match));
   const [trend, setTrend] = useState<'up' | 'down' | 'neutral'>('neutral');
   const [isVisible, setIsVisible] = useState(false);
   const [inView, setInView] = useState(false);
@@ -69,10 +69,15 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
   const updateIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const idleHandleRef = useRef<number | null>(null);
   const sentinelRef = useRef<HTMLSpanElement | null>(null);
-  const previousCountRef = useRef<number | null>(null);
+  const previousRef = useRef<ViewerCountReading | null>(null);
+
+  // Our own viewers, pushed live by the presence service - no polling while it reports any
+  const isLive = isMatchLive(match);
+  const presenceCount = usePresenceCount(inView && isLive ? getPresenceRoom('match', match.id) : null);
+  const hasPresence = presenceCount !== null && presenceCount > 0;
 
   // Animated counter value
-  const animatedCount = useCounterAnimation(viewerCount || 0, 500);
+  const animatedCount = useCounterAnimation(reading.count, 500);
 
   const sizeClasses = {
     sm: 'text-xs gap-1',
@@ -88,13 +93,12 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
 
   // Reset when match changes
   useEffect(() => {
-    const initial = match.viewerCount;
-    const nextInitial = typeof initial === 'number' && initial > 0 ? initial : null;
+    const initial = getViewerReading(match);
 
-    setViewerCount(nextInitial);
-    previousCountRef.current = nextInitial;
+    setReading(initial);
+    previousRef.current = initial.kind !== 'none' ? initial : null;
     setTrend('neutral');
-    setIsVisible(!!nextInitial);
+    setIsVisible(initial.kind !== 'none');
     setInView(false);
   }, [match.id]);
 
@@ -117,40 +121,61 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
     return () => observer.disconnect();
   }, [inView]);
 
+  const applyReading = useCallback((next: ViewerCountReading) => {
+    const prev = previousRef.current;
+
+    // A measured count and an upstream one aren't comparable, so switching kinds isn't a trend
+    if (showTrend && prev && prev.kind === next.kind) {
+      if (next.count > prev.count) setTrend('up');
+      else if (next.count < prev.count) setTrend('down');
+      else setTrend('neutral');
+    } else {
+      setTrend('neutral');
+    }
+
+    previousRef.current = next;
+    setReading(next);
+    setIsVisible(true);
+  }, [showTrend]);
+
+  useEffect(() => {
+    if (hasPresence) {
+      applyReading({ count: presenceCount, kind: 'measured' });
+    } else if (presenceCount === 0 && previousRef.current?.kind === 'measured') {
+      // Everyone left - hide the stale measured count until polling finds an upstream one
+      previousRef.current = null;
+      setReading({ count: 0, kind: 'none' });
+      setTrend('neutral');
+    }
+  }, [hasPresence, presenceCount, applyReading]);
+
   const fetchCount = useCallback(async () => {
     try {
-      const count = await fetchMatchViewerCount(match);
+      const next = await fetchMatchViewerCount(match);
 
-      if (count === null || count <= 0) {
+      if (next.kind === 'none') {
         // No valid data: don't spam retries; keep whatever we already have.
         return;
       }
 
-      const prev = previousCountRef.current;
-
-      if (showTrend && typeof prev === 'number') {
-        if (count > prev) setTrend('up');
-        else if (count < prev) setTrend('down');
-        else setTrend('neutral');
-      }
-
-      previousCountRef.current = count;
-      setViewerCount(count);
-      setIsVisible(true);
+      applyReading(next);
     } catch {
       // silent
     }
-  }, [match, showTrend]);
+  }, [match, applyReading]);
 
+  // Poll only while the presence service isn't pushing a count for this match
   useEffect(() => {
     if (!inView) return;
 
     // Only fetch for live matches
-    if (!isMatchLive(match)) {
+    if (!isLive) {
       setIsVisible(false);
       return;
     }
 
+    if (hasPresence) return;
+
     const start = () => {
       fetchCount();
       updateIntervalRef.current = setInterval(fetchCount, 30000);
@@ -181,7 +206,7 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
         idleHandleRef.current = null;
       }
     };
-  }, [inView, match, fetchCount]);
+  }, [inView, isLive, hasPresence, fetchCount]);
 
   const getTrendIcon = () => {
     if (!showTrend || trend === 'neutral') return null;
@@ -193,7 +218,7 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
   };
 
   // Always render a tiny sentinel so we can lazy-fetch when it scrolls into view.
-  if (viewerCount === null || viewerCount === 0 || !isVisible) {
+  if (reading.kind === 'none' || !isVisible) {
     return <span ref={sentinelRef} className="inline-block w-px h-px" aria-hidden="true" />;
   }
 
@@ -206,10 +231,16 @@ export const LiveViewerCount: React.FC<LiveViewerCountProps> = ({
         isVisible ? 'animate-fade-in opacity-100' : 'opacity-0',
         className
       )}
-      aria-label={`Current viewer count: ${animatedCount.toLocaleString()}`}
-      title="Live viewer count"
+      aria-label={`${getViewerCountLabel(reading.kind)}: ${animatedCount.toLocaleString()}`}
+      title={getViewerCountLabel(reading.kind)}
+      data-viewer-count-kind={reading.kind}
     >
-      <Users className={cn(iconSizes[size], 'text-sports-primary animate-pulse')} />
+      <Users
+        className={cn(
+          iconSizes[size],
+          reading.kind === 'measured' ? 'text-sports-primary animate-pulse' : 'text-muted-foreground'
+        )}
+      />
       <span className="transition-all duration-500">{formatViewerCount(animatedCount, rounded)}</span>
       {getTrendIcon()}
     </span>
@@ -14,7 +14,9 @@ const MainNav = () => {
     { title: "Home", path: "/" },
     { title: "Live", path: "/live" },
     { title: "Schedule", path: "/schedule" },
-    { title: "Channels", path: "/channels" }
+    { title: "Channels", path: "/channels" },
+    { title: "Multi-view", path: "/multiview" },
+    { title: "My Matches", path: "/my-matches" }
   ];
 
   const handleNavigate = (path: string) => {
@@ -2,13 +2,17 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Match } from '../types/sports';
-import { isMatchLive } from '../utils/matchUtils';
+import { getPhaseLabel, isLivePhase } from '../services/matchLifecycle';
+import { useMatchLifecycle } from '../hooks/useMatchLifecycle';
 import { useMatchTeamLogos } from '../hooks/useTeamLogo';
 import { useLiveScore } from '../hooks/useLiveScore';
 import { LiveViewerCount } from './LiveViewerCount';
 import { generateMatchSlug, extractNumericId } from '../utils/matchSlug';
 import { getMatchPosterImage } from '../utils/matchImageMapping';
 import { getBohoImageUrl } from '../api/sportsApi';
+import { useFavourites } from '../contexts/FavouritesContext';
+import FavouriteToggle from './FavouriteToggle';
+import RemindMeButton from './RemindMeButton';
 
 interface MatchCardProps {
   match: Match;
@@ -31,6 +35,7 @@ const MatchCard: React.FC<MatchCardProps> = ({
 }) => {
   const [countdown, setCountdown] = React.useState<string>('');
   const [isMatchStarting, setIsMatchStarting] = React.useState(false);
+  const { isTeamFollowed, toggleTeam } = useFavourites();
 
   // Use TheSportsDB API for team logos and fanart
   const { homeLogo, awayLogo, homeFanart, awayFanart } = useMatchTeamLogos(
@@ -46,7 +51,11 @@ const MatchCard: React.FC<MatchCardProps> = ({
   const home = match.teams?.home?.name || '';
   const away = match.teams?.away?.name || '';
   const hasStream = match.sources?.length > 0;
-  const isLive = isMatchLive(match);
+  const lifecycle = useMatchLifecycle(match)!;
+  const isLive = isLivePhase(lifecycle.phase);
+  const isBreak = lifecycle.phase === 'break';
+  // Postponed, cancelled or over - no countdown, no live badge
+  const isOffSchedule = ['postponed', 'cancelled', 'finished'].includes(lifecycle.phase);
 
   // Get live score from TheSportsDB
   const liveScore = useLiveScore(
@@ -193,6 +202,16 @@ const MatchCard: React.FC<MatchCardProps> = ({
   // Team row component with score
   const TeamRow = ({ name, score, isHome }: { name: string; score?: string | null; isHome: boolean }) => (
     <div className="flex items-center justify-between">
+      <FavouriteToggle
+        active={isTeamFollowed(name, match.category)}
+        onToggle={() => toggleTeam({
+          name,
+          sport: match.category,
+          badge: (isHome ? match.teams?.home?.badge : match.teams?.away?.badge) || undefined
+        })}
+        label={name}
+        className="-ml-1 mr-1"
+      />
       <span
         className={`text-foreground font-bold truncate flex-1 ${isCompact ? 'text-xs sm:text-sm' : 'text-sm'}`}
       >
@@ -222,7 +241,15 @@ const MatchCard: React.FC<MatchCardProps> = ({
 
           {/* WATCH IN / LIVE Badge - Smaller size */}
           <div className="absolute bottom-2 left-2 z-10">
-            {isLive || isMatchStarting ? (
+            {isOffSchedule ? (
+              <div className="bg-muted text-muted-foreground text-[10px] sm:text-[9px] font-bold uppercase px-2 py-1 rounded tracking-wide">
+                {getPhaseLabel(lifecycle)}
+              </div>
+            ) : isBreak ? (
+              <div className="bg-amber-500 text-black text-[10px] sm:text-[9px] font-bold uppercase px-2 py-1 rounded tracking-wide">
+                {getPhaseLabel(lifecycle)}
+              </div>
+            ) : isLive || isMatchStarting ? (
               <div className="bg-destructive text-destructive-foreground text-[10px] sm:text-[9px] font-bold uppercase px-2 py-1 rounded tracking-wide flex items-center gap-1">
                 <span className="w-1.5 h-1.5 bg-current rounded-full animate-pulse" />
                 {liveScore.matchTime ? `${liveScore.matchTime}'` : 'LIVE'}
@@ -234,6 +261,12 @@ const MatchCard: React.FC<MatchCardProps> = ({
             ) : null}
           </div>
 
+          {/* Remind me - upcoming matches only */}
+          {!isLive && !isOffSchedule && !isMatchStarting && countdown && (
+            <div className="absolute top-2 right-2 z-10">
+              <RemindMeButton match={match} />
+            </div>
+          )}
         </div>
 
         {/* Info Section - Compact has smaller text area */}
@@ -266,11 +299,12 @@ const MatchCard: React.FC<MatchCardProps> = ({
                 {/* Match is Live on right */}
                 <span className={`text-destructive font-bold flex items-center gap-1.5 ${isCompact ? 'text-[11px] sm:text-xs' : 'text-xs'}`}>
                   <span className={`${isCompact ? 'w-1.5 h-1.5' : 'w-2 h-2'} bg-destructive rounded-full animate-pulse`} />
-                  Match is Live
+                  {isBreak ? (lifecycle.statusLabel?.toUpperCase() === 'HT' ? 'Half-time' : 'Break in play') : 'Match is Live'}
                 </span>
               </div>
             ) : (
               <p className={`${isCompact ? 'text-[11px] sm:text-xs' : 'text-xs'} text-muted-foreground font-medium`}>
+                {isOffSchedule && `${getPhaseLabel(lifecycle)} • `}
                 {match.date ? formatMatchDate(match.date) : 'Time TBD'}
               </p>
             )}
@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useSportsData } from '@/contexts/SportsDataContext';
+import { useFavourites } from '@/contexts/FavouritesContext';
+import { useMatchEventWatcher } from '@/hooks/useMatchEventWatcher';
+import { MatchAlert, showMatchAlertNotification, subscribeMatchAlerts } from '@/services/matchEventWatcher';
+import { extractMatchIdFromUrl, extractNumericId } from '@/utils/matchSlug';
+
+const ALERT_DURATION = 10 * 1000; // 10 seconds
+
+// Goal and red card alerts for followed and open matches (renders nothing)
+const MatchEventAlerts = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { liveMatches } = useSportsData();
+  const { favourites } = useFavourites();
+
+  useMatchEventWatcher(liveMatches, favourites);
+
+  useEffect(() => {
+    return subscribeMatchAlerts((alert: MatchAlert) => {
+      const openAlertMatch = () => navigate(alert.path);
+
+      if (document.hidden) {
+        showMatchAlertNotification(alert, openAlertMatch);
+        return;
+      }
+
+      // Already watching it - the in-player scorebug shows the goal
+      const currentMatchId = extractMatchIdFromUrl(location.pathname);
+      if (currentMatchId && extractNumericId(currentMatchId) === extractNumericId(alert.matchId)) return;
+
+      toast(alert.title, {
+        id: alert.id,
+        description: alert.description,
+        duration: ALERT_DURATION,
+        action: {
+          label: 'Watch',
+          onClick: openAlertMatch
+        }
+      });
+    });
+  }, [navigate, location.pathname]);
+
+  return null;
+};
+
+export default MatchEventAlerts;
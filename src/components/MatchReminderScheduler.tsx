@@ -0,0 +1,11 @@
+import { useSportsData } from '@/contexts/SportsDataContext';
+import { useLiveMatchNotifier } from '@/hooks/useLiveMatchNotifier';
+
+// Runs the kickoff reminder checks for the whole app (renders nothing)
+const MatchReminderScheduler = () => {
+  const { allMatches } = useSportsData();
+  useLiveMatchNotifier(allMatches);
+  return null;
+};
+
+export default MatchReminderScheduler;
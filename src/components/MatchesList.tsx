@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Match } from '../types/sports';
-import { consolidateMatches, filterCleanMatches, isMatchLive, sortMatchesByViewers } from '../utils/matchUtils';
+import { consolidateMatches, filterCleanMatches, isMatchEnded, isMatchLive, sortMatchesByViewers } from '../utils/matchUtils';
 import { enrichMatchesWithViewerCounts } from '../utils/viewerCount';
 import MatchSection from './MatchSection';
 import LoadingGrid from './LoadingGrid';
@@ -74,7 +74,7 @@ const MatchesList: React.FC<MatchesListProps> = ({
 
   // Separate matches into live and upcoming
   const liveMatches = filteredMatches.filter(match => isMatchLive(match));
-  const upcomingMatches = filteredMatches.filter(match => !isMatchLive(match));
+  const upcomingMatches = filteredMatches.filter(match => !isMatchLive(match) && !isMatchEnded(match));
 
   if (isLoading || isEnriching) {
     return <LoadingGrid />;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Maximize2, PictureInPicture2, X } from 'lucide-react';
+import { useMiniPlayer } from '@/contexts/MiniPlayerContext';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { usePlaybackQuality } from '@/hooks/usePlaybackQuality';
+import StreamQualitySelector from '@/components/StreamQualitySelector';
+import { isHlsSource } from '@/services/hlsEngine';
+import { useMatchScoreboard, useScoreOverlayPreference } from '@/hooks/useMatchScoreboard';
+
+const toHttps = (url: string) => url.replace(/^http:\/\//i, 'https://');
+
+const canUsePictureInPicture = () =>
+  typeof document !== 'undefined' && 'pictureInPictureEnabled' in document && document.pictureInPictureEnabled;
+
+// HLS streams: own <video>, handed to native picture-in-picture when the browser allows it
+const MiniHlsVideo: React.FC<{ src: string; onPipChange: (active: boolean) => void }> = ({ src, onPipChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const playback = useHlsPlayback(videoRef, src, {
+    telemetry: { player: 'mini' },
+    config: { maxBufferLength: 20 },
+    onEvent: (event) => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      if (event.type === 'autoplayBlocked') {
+        // Autoplay with sound blocked - keep playing muted
+        video.muted = true;
+        video.play().catch(() => undefined);
+      }
+
+      if (event.type === 'ready' && canUsePictureInPicture() && !document.pictureInPictureElement) {
+        // Usually allowed straight after the navigation click; otherwise the corner player stays
+        video.requestPictureInPicture().catch(() => undefined);
+      }
+    }
+  });
+  const quality = usePlaybackQuality(playback);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleEnterPip = () => onPipChange(true);
+    const handleLeavePip = () => onPipChange(false);
+
+    video.addEventListener('enterpictureinpicture', handleEnterPip);
+    video.addEventListener('leavepictureinpicture', handleLeavePip);
+
+    return () => {
+      video.removeEventListener('enterpictureinpicture', handleEnterPip);
+      video.removeEventListener('leavepictureinpicture', handleLeavePip);
+      if (document.pictureInPictureElement === video) {
+        document.exitPictureInPicture().catch(() => undefined);
+      }
+      onPipChange(false);
+    };
+  }, [onPipChange]);
+
+  return (
+    <>
+      <video
+        ref={videoRef}
+        className="w-full h-full bg-black object-contain"
+        playsInline
+        autoPlay
+        controls
+        data-mini-player-video
+      />
+      <StreamQualitySelector {...quality} className="absolute top-1 right-1 h-7 px-2 text-xs" />
+    </>
+  );
+};
+
+// Docked corner player - keeps the last stream going after leaving Match / ChannelPlayer
+const MiniPlayer = () => {
+  const { session, isDocked, closeSession, expand } = useMiniPlayer();
+  const [inPip, setInPip] = useState(false);
+  const scoreboard = useMatchScoreboard(isDocked ? session?.match : null);
+  const [showScore] = useScoreOverlayPreference();
+
+  const scoreLine = scoreboard && showScore
+    ? `${scoreboard.homeName} ${scoreboard.homeScore}-${scoreboard.awayScore} ${scoreboard.awayName}${scoreboard.clock ? ` ${scoreboard.clock}` : ''}`
+    : null;
+
+  // The picture-in-picture window shows the media session title on most platforms
+  useEffect(() => {
+    if (!scoreLine || !('mediaSession' in navigator) || typeof MediaMetadata === 'undefined') return;
+    navigator.mediaSession.metadata = new MediaMetadata({ title: scoreLine, artist: 'DAMITV' });
+    return () => {
+      navigator.mediaSession.metadata = null;
+    };
+  }, [scoreLine]);
+
+  if (!session || !isDocked || !session.stream.embedUrl) return null;
+
+  const src = toHttps(session.stream.embedUrl);
+  const isHls = isHlsSource(src);
+
+  const togglePip = () => {
+    const video = document.querySelector<HTMLVideoElement>('[data-mini-player-video]');
+    if (!video) return;
+    if (document.pictureInPictureElement) {
+      document.exitPictureInPicture().catch(() => undefined);
+    } else {
+      video.requestPictureInPicture().catch(() => undefined);
+    }
+  };
+
+  return (
+    <div
+      role="region"
+      aria-label={`Mini player: ${session.title}`}
+      className="fixed bottom-4 right-4 z-50 w-72 sm:w-80 rounded-xl overflow-hidden border border-white/10 bg-[#0d1220] shadow-2xl"
+    >
+      <div className="flex items-center gap-1 px-2 py-1.5 bg-black/60">
+        <button
+          onClick={expand}
+          className={`flex-1 min-w-0 text-left text-xs font-medium truncate hover:text-primary ${
+            scoreboard?.justScored ? 'text-primary' : 'text-white'
+          }`}
+          title="Back to the full player"
+        >
+          <span role="status" aria-live="polite">{scoreLine || session.title}</span>
+        </button>
+        {isHls && canUsePictureInPicture() && (
+          <button
+            onClick={togglePip}
+            className="p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+            aria-label={inPip ? 'Exit picture-in-picture' : 'Picture-in-picture'}
+          >
+            <PictureInPicture2 className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={expand}
+          className="p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+          aria-label="Expand player"
+        >
+          <Maximize2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={closeSession}
+          className="p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+          aria-label="Close mini player"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="relative aspect-video bg-black">
+        {isHls ? (
+          <MiniHlsVideo src={src} onPipChange={setInPip} />
+        ) : (
+          <iframe
+            src={src}
+            title={`${session.title} - mini player`}
+            className="absolute inset-0 w-full h-full"
+            allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+            referrerPolicy="no-referrer-when-downgrade"
+            allowFullScreen
+            style={{ border: 'none' }}
+          />
+        )}
+
+        {inPip && (
+          <button
+            onClick={togglePip}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 text-xs text-gray-300 hover:text-white"
+          >
+            Playing in picture-in-picture
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MiniPlayer;
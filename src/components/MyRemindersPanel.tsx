@@ -0,0 +1,99 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { BellRing, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { useMatchReminders } from '@/hooks/useMatchReminders';
+import { clearDeliveredReminders } from '@/services/reminderService';
+
+const MyRemindersPanel: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { reminders, pendingReminders, cancel } = useMatchReminders();
+  const deliveredReminders = reminders.filter(r => r.notifiedAt);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <BellRing className="h-4 w-4 mr-2" />
+          My reminders
+          {pendingReminders.length > 0 && (
+            <span className="ml-2 rounded-full bg-primary text-primary-foreground text-[10px] font-bold px-1.5 py-0.5">
+              {pendingReminders.length}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>My reminders</SheetTitle>
+          <SheetDescription>
+            We'll send a notification before each of these matches kicks off.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {pendingReminders.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No reminders yet. Use the bell on any upcoming match to set one.
+            </p>
+          )}
+
+          {pendingReminders.map(reminder => (
+            <div
+              key={reminder.matchId}
+              className="flex items-center justify-between gap-3 rounded-lg border border-border bg-card p-3"
+            >
+              <div className="min-w-0">
+                <Link to={reminder.url} className="block font-semibold text-sm text-foreground truncate hover:text-primary">
+                  {reminder.title}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(reminder.matchDate), "EEE, do MMM, h:mm a")} · {reminder.leadMinutes} min before
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => cancel(reminder.matchId)}
+                aria-label={`Cancel reminder for ${reminder.title}`}
+                className="h-8 w-8 p-0 flex-shrink-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          {deliveredReminders.length > 0 && (
+            <div className="pt-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Sent</h4>
+                <button onClick={clearDeliveredReminders} className="text-xs text-primary hover:underline">
+                  Clear
+                </button>
+              </div>
+              {deliveredReminders.map(reminder => (
+                <Link
+                  key={reminder.matchId}
+                  to={reminder.url}
+                  className="block text-sm text-muted-foreground hover:text-foreground truncate py-1"
+                >
+                  {reminder.title}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MyRemindersPanel;
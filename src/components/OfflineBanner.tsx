@@ -0,0 +1,22 @@
+import { WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+// Shown while the browser is offline - listings come from the last saved snapshot
+const OfflineBanner = () => {
+  const online = useOnlineStatus();
+
+  if (online) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed top-0 inset-x-0 z-[60] flex items-center justify-center gap-2 bg-amber-500 px-4 py-1.5 text-sm font-medium text-black"
+    >
+      <WifiOff className="h-4 w-4" />
+      <span>You're offline - showing the last saved schedule. Streams need a connection.</span>
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -4,7 +4,7 @@ import { Match } from '../types/sports';
 import MatchCard from './MatchCard';
 import { useIsMobile } from '../hooks/use-mobile';
 import { isTrendingMatch } from '../utils/popularLeagues';
-import { consolidateMatches, filterCleanMatches, sortMatchesByViewers } from '../utils/matchUtils';
+import { compareByViewers, consolidateMatches, filterCleanMatches, sortMatchesByViewers } from '../utils/matchUtils';
 import { enrichMatchesWithViewerCounts } from '../utils/viewerCount';
 
 interface PopularGamesProps {
@@ -46,11 +46,9 @@ const PopularGames: React.FC<PopularGamesProps> = ({
         
         // Sort by viewer count first, then by trending score
         const sortedMatches = matchesWithViewers.sort((a, b) => {
-          const aViewers = a.viewerCount || 0;
-          const bViewers = b.viewerCount || 0;
-          
-          if (aViewers !== bViewers) {
-            return bViewers - aViewers; // Higher viewers first
+          const byViewers = compareByViewers(a, b);
+          if (byViewers !== 0) {
+            return byViewers;
           }
           
           // If viewer counts are equal, sort by trending score
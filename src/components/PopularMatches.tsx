@@ -1,7 +1,7 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { Match } from '../types/sports';
 import MatchCard from './MatchCard';
-import { consolidateMatches, filterCleanMatches } from '../utils/matchUtils';
+import { compareByViewers, consolidateMatches, filterCleanMatches, getViewerReading } from '../utils/matchUtils';
 import { enrichMatchesWithViewers, isMatchLive } from '../services/viewerCountService';
 import { Flame } from 'lucide-react';
 
@@ -62,12 +62,12 @@ const PopularMatches: React.FC<PopularMatchesProps> = ({
         if (cancelled) return;
 
         // Merge viewer counts into the full list - never remove matches
-        const withViewers = matchesWithViewers.filter(m => (m.viewerCount || 0) > 0);
-        const withoutViewers = matchesWithViewers.filter(m => !(m.viewerCount || 0));
+        const withViewers = matchesWithViewers.filter(m => getViewerReading(m).kind !== 'none');
+        const withoutViewers = matchesWithViewers.filter(m => getViewerReading(m).kind === 'none');
 
-        // Viewer matches first (sorted by count), then the rest
+        // Viewer matches first (measured and upstream on one scale), then the rest
         const merged = [
-          ...withViewers.sort((a, b) => (b.viewerCount || 0) - (a.viewerCount || 0)),
+          ...withViewers.sort(compareByViewers),
           ...withoutViewers
         ];
         if (!cancelled) {
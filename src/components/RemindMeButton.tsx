@@ -0,0 +1,103 @@
+import React from 'react';
+import { Bell, BellRing } from 'lucide-react';
+import { Match } from '../types/sports';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useMatchReminders } from '@/hooks/useMatchReminders';
+import { REMINDER_LEAD_OPTIONS } from '@/services/reminderService';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface RemindMeButtonProps {
+  match: Match;
+  variant?: 'icon' | 'full';
+  className?: string;
+}
+
+const formatLead = (minutes: number) => minutes >= 60 ? `${minutes / 60} hour before` : `${minutes} min before`;
+
+const RemindMeButton: React.FC<RemindMeButtonProps> = ({ match, variant = 'icon', className = '' }) => {
+  const { toast } = useToast();
+  const { getReminder, remind, cancel } = useMatchReminders();
+  const reminder = getReminder(match.id);
+
+  // Only upcoming matches can be reminded
+  if (!match.date || match.date <= Date.now()) {
+    return null;
+  }
+
+  const title = match.teams?.home?.name && match.teams?.away?.name
+    ? `${match.teams.home.name} vs ${match.teams.away.name}`
+    : match.title;
+
+  const handleRemind = async (leadMinutes: number) => {
+    const permission = await remind(match, leadMinutes);
+    toast({
+      title: "Reminder set",
+      description: permission === 'granted'
+        ? `We'll notify you ${formatLead(leadMinutes)} ${title} starts.`
+        : `Saved ${formatLead(leadMinutes)} kickoff. Enable notifications in your browser to get the alert.`,
+    });
+  };
+
+  const handleCancel = () => {
+    cancel(match.id);
+    toast({ title: "Reminder cancelled", description: title });
+  };
+
+  // Cards are wrapped in links - keep clicks inside the menu
+  const stopNavigation = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          onClick={stopNavigation}
+          aria-label={reminder ? `Reminder set for ${title}` : `Remind me about ${title}`}
+          title={reminder ? 'Reminder set' : 'Remind me'}
+          className={cn(
+            'inline-flex items-center justify-center gap-1.5 rounded-full transition-colors',
+            variant === 'icon' ? 'h-7 w-7 bg-black/60 hover:bg-black/80' : 'px-3 py-1.5 text-xs font-semibold border border-border bg-card hover:border-primary',
+            reminder ? 'text-primary' : 'text-white',
+            className
+          )}
+        >
+          {reminder ? <BellRing className="h-3.5 w-3.5" /> : <Bell className="h-3.5 w-3.5" />}
+          {variant === 'full' && (reminder ? 'Reminder set' : 'Remind me')}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={stopNavigation}>
+        <DropdownMenuLabel>Notify me</DropdownMenuLabel>
+        {REMINDER_LEAD_OPTIONS.map(minutes => (
+          <DropdownMenuItem
+            key={minutes}
+            onSelect={() => handleRemind(minutes)}
+            className={reminder?.leadMinutes === minutes ? 'text-primary font-semibold' : ''}
+          >
+            {formatLead(minutes)} kickoff
+          </DropdownMenuItem>
+        ))}
+        {reminder && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={handleCancel} className="text-destructive">
+              Cancel reminder
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default RemindMeButton;
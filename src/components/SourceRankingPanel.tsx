@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { getSourceRanking, resetSourceRanking, subscribeSourceRanking, SourceRankingEntry } from '@/services/sourceRanking';
+
+const formatAge = (timestamp?: number) => {
+  if (!timestamp) return '-';
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+};
+
+// Debug view of the learned stream source ranking on this device
+const SourceRankingPanel: React.FC = () => {
+  const [ranking, setRanking] = useState<SourceRankingEntry[]>(() => getSourceRanking());
+
+  useEffect(() => subscribeSourceRanking(() => setRanking(getSourceRanking())), []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Stream Source Ranking</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Learned from playback on this device. Older results fade out; the prior decides until a source has history.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={resetSourceRanking}>
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead className="text-right">Score</TableHead>
+              <TableHead className="text-right">Prior</TableHead>
+              <TableHead className="text-right">Success</TableHead>
+              <TableHead className="text-right">Plays / Fails</TableHead>
+              <TableHead className="text-right">Avg load</TableHead>
+              <TableHead>Last failure</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ranking.map((entry, index) => (
+              <TableRow key={entry.source}>
+                <TableCell>{index + 1}</TableCell>
+                <TableCell className="font-medium">
+                  {entry.source}
+                  {!entry.stats && <Badge variant="secondary" className="ml-2">prior only</Badge>}
+                </TableCell>
+                <TableCell className="text-right font-mono">{entry.score.toFixed(2)}</TableCell>
+                <TableCell className="text-right font-mono">{entry.prior}</TableCell>
+                <TableCell className="text-right font-mono">{Math.round(entry.successRate * 100)}%</TableCell>
+                <TableCell className="text-right font-mono">
+                  {entry.stats ? `${entry.stats.successes.toFixed(1)} / ${entry.stats.failures.toFixed(1)}` : '-'}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {entry.stats?.avgLoadMs != null ? `${(entry.stats.avgLoadMs / 1000).toFixed(1)}s` : '-'}
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {entry.stats?.lastFailureReason
+                    ? `${entry.stats.lastFailureReason} (${formatAge(entry.stats.lastFailureAt)})`
+                    : '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SourceRankingPanel;
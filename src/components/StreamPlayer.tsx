@@ -7,6 +7,7 @@ import StreamOptimizer from './StreamPlayer/StreamOptimizer';
 import MatchDetails from './MatchDetails';
 import { ViewerCount } from './ViewerCount';
 import { useViewerTracking } from '@/hooks/useViewerTracking';
+import type { FailoverReason } from '@/hooks/useAutoFallback';
 
 interface StreamPlayerProps {
   stream: Stream | null;
@@ -19,7 +20,10 @@ interface StreamPlayerProps {
   onTheaterModeToggle?: () => void;
   match?: Match | ManualMatch | null;
   showMatchDetails?: boolean;
-  onAutoFallback?: () => void;
+  onAutoFallback?: (reason: FailoverReason) => void;
+  autoFailover?: boolean;
+  onNextSource?: () => void;
+  onPreviousSource?: () => void;
   allStreams?: Record<string, Stream[]>;
 }
 
@@ -35,6 +39,9 @@ const StreamPlayer: React.FC<StreamPlayerProps> = ({
   match = null,
   showMatchDetails = true,
   onAutoFallback,
+  autoFailover = false,
+  onNextSource,
+  onPreviousSource,
   allStreams = {}
 }) => {
   // Track viewer for this match
@@ -56,6 +63,9 @@ const StreamPlayer: React.FC<StreamPlayerProps> = ({
         isTheaterMode={isTheaterMode}
         onTheaterModeToggle={onTheaterModeToggle}
         onAutoFallback={onAutoFallback}
+        autoFailover={autoFailover}
+        onNextSource={onNextSource}
+        onPreviousSource={onPreviousSource}
         match={match}
       />
       
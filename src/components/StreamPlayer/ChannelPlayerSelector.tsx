@@ -75,6 +75,7 @@ const ChannelPlayerSelector: React.FC<ChannelPlayerSelectorProps> = ({
             embedUrl={embedUrl}
             title={title}
             onError={handleError}
+            stream={stream}
           />
         </div>
       );
@@ -98,6 +99,7 @@ const ChannelPlayerSelector: React.FC<ChannelPlayerSelectorProps> = ({
             onLoad={handleLoad}
             onError={handleError}
             videoRef={videoRef}
+            stream={stream}
           />
         </div>
       );
@@ -123,6 +125,7 @@ const ChannelPlayerSelector: React.FC<ChannelPlayerSelectorProps> = ({
           onError={handleError}
           title={title}
           matchStartTime={matchStartTime}
+          stream={stream}
         />
       );
     
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { HlsPlaybackEngine } from '@/services/hlsEngine';
+import { useLiveDvr } from '@/hooks/useLiveDvr';
+
+interface DvrTimelineProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  engineRef: React.MutableRefObject<HlsPlaybackEngine | null>;
+  className?: string;
+}
+
+const SKIP_SECONDS = 10;
+
+const formatBehind = (seconds: number) => {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return minutes >= 60
+    ? `-${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}:${rest}`
+    : `-${minutes}:${rest}`;
+};
+
+/**
+ * Catch-up bar for live HLS: scrub the buffered window, skip ±10s, jump back to live
+ * Renders nothing for VOD or streams without a usable window.
+ */
+const DvrTimeline: React.FC<DvrTimelineProps> = ({ videoRef, engineRef, className = '' }) => {
+  const { dvr, seekTo, skip, goLive } = useLiveDvr(videoRef, engineRef);
+  // Position under the thumb while dragging - seeking on every step would thrash the buffer
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  if (!dvr) return null;
+
+  const position = scrubPosition ?? Math.min(dvr.currentTime, dvr.liveEdge);
+  const behind = Math.max(0, dvr.liveEdge - position);
+  const commitScrub = () => {
+    if (scrubPosition === null) return;
+    seekTo(scrubPosition);
+    setScrubPosition(null);
+  };
+
+  const buttonClass = 'flex items-center gap-0.5 px-1.5 py-1 rounded text-xs text-white/90 hover:bg-white/20 transition-colors';
+
+  return (
+    <div className={`dvr-timeline flex items-center gap-2 ${className}`}>
+      <button onClick={() => skip(-SKIP_SECONDS)} className={buttonClass} aria-label={`Back ${SKIP_SECONDS} seconds`}>
+        <RotateCcw className="h-3.5 w-3.5" />
+        {SKIP_SECONDS}
+      </button>
+      <button
+        onClick={() => skip(SKIP_SECONDS)}
+        disabled={dvr.atLiveEdge}
+        className={`${buttonClass} disabled:opacity-40 disabled:hover:bg-transparent`}
+        aria-label={`Forward ${SKIP_SECONDS} seconds`}
+      >
+        {SKIP_SECONDS}
+        <RotateCw className="h-3.5 w-3.5" />
+      </button>
+
+      <input
+        type="range"
+        min={dvr.start}
+        max={dvr.liveEdge}
+        step={1}
+        value={position}
+        onChange={event => setScrubPosition(parseFloat(event.target.value))}
+        onPointerUp={commitScrub}
+        onKeyUp={commitScrub}
+        onBlur={commitScrub}
+        className="flex-1 min-w-0 h-1 accent-red-500 cursor-pointer"
+        aria-label="Live timeline"
+        aria-valuetext={behind < 1 ? 'Live' : `${formatBehind(behind)} behind live`}
+      />
+
+      <span className="text-xs tabular-nums text-white/80 min-w-[3.25rem] text-right" aria-hidden="true">
+        {dvr.atLiveEdge && scrubPosition === null ? 'LIVE' : formatBehind(behind)}
+      </span>
+
+      <button
+        onClick={goLive}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-bold transition-colors ${
+          dvr.atLiveEdge ? 'bg-red-600 text-white' : 'bg-white/15 text-white/80 hover:bg-red-600 hover:text-white'
+        }`}
+        aria-label={dvr.atLiveEdge ? 'Watching live' : `Jump to live, ${formatBehind(dvr.behindLive)} behind`}
+        aria-pressed={dvr.atLiveEdge}
+      >
+        <span className={`h-1.5 w-1.5 rounded-full ${dvr.atLiveEdge ? 'bg-white animate-pulse' : 'bg-white/60'}`} />
+        LIVE
+      </button>
+    </div>
+  );
+};
+
+export default DvrTimeline;
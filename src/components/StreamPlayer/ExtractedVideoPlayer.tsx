@@ -1,23 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Play, Pause, Volume2, VolumeX, Home, RotateCcw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import Hls from 'hls.js';
 import { getStreamUrl, ExtractedStream } from '../../utils/streamExtractor';
 import { triggerPopunderAd } from '../../utils/popunderAd';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { usePlaybackQuality } from '@/hooks/usePlaybackQuality';
+import StreamQualitySelector from '@/components/StreamQualitySelector';
+import PlayerShortcuts from './PlayerShortcuts';
+import DvrTimeline from './DvrTimeline';
+import { Stream } from '../../types/sports';
 
 interface ExtractedVideoPlayerProps {
   embedUrl: string;
   title?: string;
   onError?: () => void;
+  stream?: Pick<Stream, 'source' | 'id' | 'streamNo'> | null;  // labels QoE telemetry
 }
 
 const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
   embedUrl,
   title = "Live Stream",
-  onError
+  onError,
+  stream
 }) => {
   const navigate = useNavigate();
   const videoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(0.7);
@@ -26,15 +34,9 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
   const [extractedStream, setExtractedStream] = useState<ExtractedStream | null>(null);
   const [error, setError] = useState(false);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
-  const hlsRef = useRef<Hls | null>(null);
 
   useEffect(() => {
     extractStream();
-    return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-      }
-    };
   }, [embedUrl]);
 
   const extractStream = async () => {
@@ -45,7 +47,6 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
       const stream = await getStreamUrl(embedUrl);
       if (stream) {
         setExtractedStream(stream);
-        loadStream(stream);
       } else {
         setError(true);
         onError?.();
@@ -59,98 +60,38 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
     }
   };
 
-  const loadStream = (stream: ExtractedStream) => {
-    if (!videoRef.current) return;
-
-    const video = videoRef.current;
-    
-    if (stream.type === 'hls') {
-      // Load HLS stream
-      if (video.canPlayType('application/vnd.apple.mpegurl')) {
-        // Native HLS support (Safari)
-        video.src = stream.url;
-      } else if (Hls.isSupported()) {
-        // Use hls.js for other browsers
-        if (hlsRef.current) {
-          hlsRef.current.destroy();
-        }
-        
-        hlsRef.current = new Hls({
-          enableWorker: true,
-          lowLatencyMode: false, // Disable for smoother buffering
-          // Optimized buffering for smooth playback
-          maxBufferLength: 45,
-          maxMaxBufferLength: 90,
-          maxBufferSize: 120 * 1000 * 1000, // 120MB
-          maxBufferHole: 1.0,
-          highBufferWatchdogPeriod: 3,
-          nudgeOffset: 0.2,
-          nudgeMaxRetry: 15,
-          maxLoadingDelay: 6,
-          maxFragLookUpTolerance: 0.5,
-          liveSyncDurationCount: 5,
-          liveMaxLatencyDurationCount: 15,
-          enableSoftwareAES: true,
-          startFragPrefetch: true,
-          testBandwidth: true,
-          backBufferLength: 20,
-          capLevelToPlayerSize: false,
-          abrEwmaDefaultEstimate: 2000000,
-          abrEwmaFastLive: 5.0,
-          abrEwmaSlowLive: 15.0,
-          fragLoadingTimeOut: 30000,
-          manifestLoadingTimeOut: 15000,
-          levelLoadingTimeOut: 15000,
-          startLevel: -1,
-          autoStartLoad: true,
-          progressive: false,
-          fragLoadingMaxRetry: 6,
-          fragLoadingMaxRetryTimeout: 64000,
-          manifestLoadingMaxRetry: 6,
-          levelLoadingMaxRetry: 6
-        });
-        
-        hlsRef.current.loadSource(stream.url);
-        hlsRef.current.attachMedia(video);
-        
-        hlsRef.current.on(Hls.Events.ERROR, (event, data) => {
-          console.error('HLS Error:', data);
-          if (data.fatal) {
-            switch(data.type) {
-              case Hls.ErrorTypes.NETWORK_ERROR:
-                console.log('Network error, attempting recovery...');
-                hlsRef.current?.startLoad();
-                break;
-              case Hls.ErrorTypes.MEDIA_ERROR:
-                console.log('Media error, attempting recovery...');
-                hlsRef.current?.recoverMediaError();
-                break;
-              default:
-                console.log('Fatal error, destroying HLS instance');
-                setError(true);
-                onError?.();
-                break;
-            }
-          }
-        });
-
-        // Optimize for smooth playback
-        hlsRef.current.on(Hls.Events.MANIFEST_PARSED, () => {
-          console.log('HLS manifest parsed, optimizing for smooth playback');
-          if (hlsRef.current && hlsRef.current.levels.length > 1) {
-            hlsRef.current.currentLevel = -1; // Auto quality
-          }
-        });
+  // Playback via the shared engine - tuned for smooth buffering over low latency
+  const playback = useHlsPlayback(videoRef, extractedStream?.url, {
+    isHls: extractedStream?.type === 'hls',
+    lowLatency: false,
+    dvr: true,
+    telemetry: stream
+      ? { source: stream.source, streamId: stream.id, streamNo: stream.streamNo, player: 'extracted' }
+      : { player: 'extracted' },
+    config: {
+      maxBufferLength: 45,
+      maxMaxBufferLength: 90,
+      maxBufferSize: 120 * 1000 * 1000, // 120MB
+      maxBufferHole: 1.0,
+      nudgeMaxRetry: 15,
+      liveSyncDurationCount: 5,
+      enableSoftwareAES: true,
+      startFragPrefetch: true,
+      testBandwidth: true,
+      abrEwmaDefaultEstimate: 2000000,
+      abrEwmaFastLive: 5.0,
+      abrEwmaSlowLive: 15.0,
+      progressive: false
+    },
+    onEvent: (event) => {
+      if (event.type === 'loading' && videoRef.current) {
+        videoRef.current.volume = volume;
+        videoRef.current.muted = isMuted;
       }
-    } else {
-      // Direct MP4 or other formats
-      video.src = stream.url;
+      if (event.type === 'fatal') handleError();
     }
-
-    // Set volume
-    video.volume = volume;
-    video.muted = isMuted;
-  };
+  });
+  const quality = usePlaybackQuality(playback);
 
   const resetControlsTimeout = () => {
     if (controlsTimeoutRef.current) {
@@ -262,10 +203,17 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
 
   return (
     <div 
-      className="relative w-full max-w-5xl mx-auto aspect-video bg-background rounded-lg overflow-hidden group"
+      ref={containerRef}
+      tabIndex={0}
+      role="region"
+      aria-label={`Video player: ${title}`}
+      className="relative w-full max-w-5xl mx-auto aspect-video bg-background rounded-lg overflow-hidden group focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
       onMouseMove={handleMouseMove}
       onMouseEnter={() => setShowControls(true)}
+      onFocus={handleMouseMove}
     >
+      <PlayerShortcuts containerRef={containerRef} />
+
       {/* Video Element */}
       <video
         ref={videoRef}
@@ -274,7 +222,13 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
         onPause={handlePause}
         onLoadStart={handleLoadStart}
         onCanPlay={handleCanPlay}
-        onError={handleError}
+        onVolumeChange={() => {
+          // Keep the controls in sync with keyboard shortcuts
+          if (videoRef.current) {
+            setVolume(videoRef.current.volume);
+            setIsMuted(videoRef.current.muted);
+          }
+        }}
         onLoadedData={() => console.log('Extracted video data loaded')}
         onProgress={() => console.log('Extracted video buffering progress')}
         playsInline
@@ -305,6 +259,7 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
         onClick={handleHomeClick}
         className="absolute top-4 left-4 z-50 bg-background/70 hover:bg-background/90 text-foreground p-2 rounded-lg transition-all duration-200 backdrop-blur-sm"
         title="Go to Home"
+        aria-label="Go to Home"
       >
         <Home size={20} />
       </button>
@@ -315,6 +270,7 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
       }`}>
         {/* Bottom Controls */}
         <div className="absolute bottom-0 left-0 right-0 p-4">
+          <DvrTimeline videoRef={videoRef} engineRef={playback.engineRef} className="mb-2" />
           <div className="flex items-center justify-between text-foreground">
             {/* Left controls */}
             <div className="flex items-center gap-3">
@@ -322,6 +278,7 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
                 onClick={togglePlay}
                 className="p-2 hover:bg-muted/40 rounded-full transition-colors"
                 title={isPlaying ? "Pause" : "Play"}
+                aria-label={isPlaying ? 'Pause (K)' : 'Play (K)'}
               >
                 {isPlaying ? <Pause size={24} /> : <Play size={24} />}
               </button>
@@ -330,6 +287,8 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
                 onClick={toggleMute}
                 className="p-2 hover:bg-muted/40 rounded-full transition-colors"
                 title={isMuted ? "Unmute" : "Mute"}
+                aria-label={isMuted ? 'Unmute (M)' : 'Mute (M)'}
+                aria-pressed={isMuted}
               >
                 {isMuted ? <VolumeX size={24} /> : <Volume2 size={24} />}
               </button>
@@ -343,12 +302,16 @@ const ExtractedVideoPlayer: React.FC<ExtractedVideoPlayerProps> = ({
                 onChange={handleVolumeChange}
                 className="w-20 h-1 bg-muted rounded-lg appearance-none cursor-pointer"
                 title="Volume"
+                aria-label="Volume"
+                aria-valuetext={`${Math.round(volume * 100)}%`}
               />
             </div>
 
             {/* Center spacer */}
             <div className="flex-1"></div>
 
+            <StreamQualitySelector {...quality} />
+
           </div>
         </div>
       </div>
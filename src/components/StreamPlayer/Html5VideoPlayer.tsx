@@ -1,19 +1,25 @@
 import React, { useRef, useEffect, useState } from 'react';
-import Hls from 'hls.js';
 import { useIsMobile } from '../../hooks/use-mobile';
 import { Play, Pause, Volume2, VolumeX, Home, RefreshCw } from 'lucide-react';
 import { Button } from '../ui/button';
 import { useNavigate } from 'react-router-dom';
 import { triggerPopunderAd } from '../../utils/popunderAd';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { usePlaybackQuality } from '@/hooks/usePlaybackQuality';
+import StreamQualitySelector from '@/components/StreamQualitySelector';
+import PlayerShortcuts from './PlayerShortcuts';
+import DvrTimeline from './DvrTimeline';
+import { Stream } from '../../types/sports';
 
 interface Html5VideoPlayerProps {
   src: string;
   onLoad: () => void;
   onError: () => void;
   videoRef: React.RefObject<HTMLVideoElement>;
+  stream?: Pick<Stream, 'source' | 'id' | 'streamNo'> | null;  // labels QoE telemetry
 }
 
-const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onError, videoRef }) => {
+const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onError, videoRef, stream }) => {
   const isMobile = useIsMobile();
   const navigate = useNavigate();
   const [isPlaying, setIsPlaying] = useState(false);
@@ -23,8 +29,8 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
   const [hasError, setHasError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
-  const hlsRef = useRef<Hls | null>(null);
   const internalVideoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const actualVideoRef = videoRef || internalVideoRef;
 
   // Handle home navigation
@@ -46,95 +52,31 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
     }, 4000);
   };
 
-  // Initialize HLS.js for m3u8 streams
-  useEffect(() => {
-    if (!src || !actualVideoRef.current) return;
-    
-    const video = actualVideoRef.current;
-    const isHLS = /\.m3u8(\?|$)/i.test(src);
-    
-    // Clean up previous HLS instance
-    if (hlsRef.current) {
-      hlsRef.current.destroy();
-      hlsRef.current = null;
-    }
-    
-    setHasError(false);
-    setIsLoading(true);
-    
-    if (isHLS) {
-      // Check for native HLS support (Safari, iOS)
-      if (video.canPlayType('application/vnd.apple.mpegurl')) {
-        console.log('📺 Using native HLS support');
-        video.src = src;
-        video.load();
-      } else if (Hls.isSupported()) {
-        console.log('📺 Using HLS.js for stream playback');
-        const hls = new Hls({
-          enableWorker: true,
-          lowLatencyMode: true,
-          maxBufferLength: 30,
-          maxMaxBufferLength: 60,
-          maxBufferSize: 60 * 1000 * 1000,
-          fragLoadingTimeOut: 20000,
-          manifestLoadingTimeOut: 10000,
-          levelLoadingTimeOut: 10000,
-          startLevel: -1,
-          autoStartLoad: true,
-        });
-        
-        hlsRef.current = hls;
-        hls.loadSource(src);
-        hls.attachMedia(video);
-        
-        hls.on(Hls.Events.MANIFEST_PARSED, () => {
-          console.log('📺 HLS manifest parsed, starting playback');
+  // Playback (hls.js / native HLS / direct) via the shared engine
+  const playback = useHlsPlayback(actualVideoRef, src, {
+    dvr: true,
+    telemetry: stream
+      ? { source: stream.source, streamId: stream.id, streamNo: stream.streamNo, player: 'html5' }
+      : { player: 'html5' },
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'loading':
+          setHasError(false);
+          setIsLoading(true);
+          break;
+        case 'ready':
           setIsLoading(false);
-          video.play().catch((e) => {
-            console.log('Autoplay blocked:', e);
-          });
-        });
-        
-        hls.on(Hls.Events.ERROR, (_event, data) => {
-          console.error('HLS error:', data.type, data.details);
-          if (data.fatal) {
-            switch (data.type) {
-              case Hls.ErrorTypes.NETWORK_ERROR:
-                console.log('🔄 Network error, attempting recovery...');
-                hls.startLoad();
-                break;
-              case Hls.ErrorTypes.MEDIA_ERROR:
-                console.log('🔄 Media error, attempting recovery...');
-                hls.recoverMediaError();
-                break;
-              default:
-                console.error('💥 Fatal HLS error');
-                setHasError(true);
-                setIsLoading(false);
-                onError();
-                break;
-            }
-          }
-        });
-      } else {
-        console.error('HLS is not supported in this browser');
-        setHasError(true);
-        setIsLoading(false);
-        onError();
+          break;
+        case 'fatal':
+          setHasError(true);
+          setIsLoading(false);
+          onError();
+          break;
       }
-    } else {
-      // Regular video source
-      video.src = src;
-      video.load();
     }
-    
-    return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
-    };
-  }, [src, onError]);
+  });
+  const { retry } = playback;
+  const quality = usePlaybackQuality(playback);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -152,13 +94,6 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
     onLoad();
   };
 
-  const handleVideoError = () => {
-    console.error('❌ Video failed to load');
-    setHasError(true);
-    setIsLoading(false);
-    onError();
-  };
-
   const handlePlay = () => {
     setIsPlaying(true);
     resetControlsTimeout();
@@ -175,9 +110,7 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
   const handleRetry = () => {
     setHasError(false);
     setIsLoading(true);
-    if (actualVideoRef.current) {
-      actualVideoRef.current.load();
-    }
+    retry();
   };
 
   // Show error state
@@ -197,10 +130,17 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
 
   return (
     <div 
-      className="relative w-full h-full bg-black overflow-hidden"
+      ref={containerRef}
+      tabIndex={0}
+      role="region"
+      aria-label="Video player"
+      className="relative w-full h-full bg-black overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
       onMouseMove={() => resetControlsTimeout()}
       onTouchStart={() => resetControlsTimeout()}
+      onFocus={() => resetControlsTimeout()}
     >
+      <PlayerShortcuts containerRef={containerRef} />
+
       {isLoading && (
         <div className="absolute inset-0 flex items-center justify-center bg-black z-10">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
@@ -216,7 +156,6 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
         preload="auto"
         crossOrigin="anonymous"
         onLoadedData={handleLoadedData}
-        onError={handleVideoError}
         onPlay={handlePlay}
         onPause={handlePause}
         onVolumeChange={() => {
@@ -234,6 +173,7 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
           onClick={handleHomeClick}
           className="bg-black/80 hover:bg-black/90 text-white px-2 py-1 h-7 flex items-center gap-1 border border-white/20 shadow-lg"
           title="Go to DAMITV Home"
+          aria-label="Go to DAMITV Home"
         >
           <Home className="h-3 w-3" />
           <span className="font-bold text-xs">DAMITV</span>
@@ -257,6 +197,7 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
         {/* Play/Pause Overlay */}
         <div 
           className="absolute inset-0 flex items-center justify-center cursor-pointer"
+          aria-hidden="true"
           onClick={() => {
             if (actualVideoRef.current) {
               if (isPlaying) {
@@ -278,6 +219,7 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
         
         {/* Bottom Controls Bar */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
+          <DvrTimeline videoRef={actualVideoRef} engineRef={playback.engineRef} className="mb-2" />
           <div className="flex items-center gap-3">
             {/* Play/Pause Button */}
             <Button
@@ -295,6 +237,7 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
                 }
               }}
               className="text-white hover:bg-white/20 h-8 w-8"
+              aria-label={isPlaying ? 'Pause (K)' : 'Play (K)'}
             >
               {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
             </Button>
@@ -311,6 +254,8 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
                   }
                 }}
                 className="text-white hover:bg-white/20 h-8 w-8"
+                aria-label={isMuted || volume === 0 ? 'Unmute (M)' : 'Mute (M)'}
+                aria-pressed={isMuted}
               >
                 {isMuted || volume === 0 ? 
                   <VolumeX className="h-4 w-4" /> : 
@@ -334,10 +279,15 @@ const Html5VideoPlayer: React.FC<Html5VideoPlayerProps> = ({ src, onLoad, onErro
                     }
                   }}
                   className="w-16 h-1 bg-white/30 rounded-lg appearance-none cursor-pointer"
+                  aria-label="Volume"
+                  aria-valuetext={`${Math.round(volume * 100)}%`}
                 />
               )}
             </div>
-            
+
+            <div className="flex-1" />
+
+            <StreamQualitySelector {...quality} className="h-8" />
           </div>
         </div>
       </div>
@@ -14,12 +14,13 @@ interface IframeVideoPlayerProps {
   onLoad: () => void;
   onError: () => void;
   onEmbedFailed?: (failedDomain: string) => void;
+  onLoadTimeout?: () => void;  // treat a silent iframe as failed instead of assuming it loaded
   title?: string;
   matchStartTime?: number | Date | null;
   match?: Match | ManualMatch | null;
 }
 
-const IframeVideoPlayer: React.FC<IframeVideoPlayerProps> = ({ src, onLoad, onError, onEmbedFailed, title, matchStartTime, match }) => {
+const IframeVideoPlayer: React.FC<IframeVideoPlayerProps> = ({ src, onLoad, onError, onEmbedFailed, onLoadTimeout, title, matchStartTime, match }) => {
   const isMobile = useIsMobile();
   const navigate = useNavigate();
   const iframeRef = useRef<HTMLIFrameElement>(null);
@@ -93,20 +94,31 @@ const IframeVideoPlayer: React.FC<IframeVideoPlayerProps> = ({ src, onLoad, onEr
     }
   }, [src]);
 
+  // Latest callbacks - inline handlers from the parent must not restart the timeout below
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+  const onLoadTimeoutRef = useRef(onLoadTimeout);
+  onLoadTimeoutRef.current = onLoadTimeout;
+
   // Timeout handling with longer duration for streaming content
   useEffect(() => {
     if (!isLoading) return;
     
     const timeout = setTimeout(() => {
       if (isLoading) {
-        console.log('⏰ Iframe load timeout - assuming successful');
         setIsLoading(false);
-        onLoad();
+        if (onLoadTimeoutRef.current) {
+          console.log('⏰ Iframe load timeout - reporting failure');
+          onLoadTimeoutRef.current();
+        } else {
+          console.log('⏰ Iframe load timeout - assuming successful');
+          onLoadRef.current();
+        }
       }
     }, 15000);
 
     return () => clearTimeout(timeout);
-  }, [isLoading, onLoad]);
+  }, [isLoading]);
 
   // Auto-hide controls
   useEffect(() => {
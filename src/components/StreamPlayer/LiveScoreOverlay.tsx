@@ -0,0 +1,74 @@
+import React from 'react';
+import { Eye, X } from 'lucide-react';
+import { Match } from '../../types/sports';
+import { ManualMatch } from '../../types/manualMatch';
+import { useMatchScoreboard, useScoreOverlayPreference } from '../../hooks/useMatchScoreboard';
+
+interface LiveScoreOverlayProps {
+  match: Match | ManualMatch | null | undefined;
+  className?: string;
+}
+
+const TeamBadge: React.FC<{ name: string; logo?: string }> = ({ name, logo }) =>
+  logo ? (
+    <img src={logo} alt="" className="h-5 w-5 object-contain" loading="lazy" />
+  ) : (
+    <span className="h-5 w-5 flex items-center justify-center rounded-full bg-white/15 text-[10px] font-bold" aria-hidden="true">
+      {name.charAt(0).toUpperCase()}
+    </span>
+  );
+
+// In-player scorebug - lives inside the player container so it stays visible in fullscreen
+const LiveScoreOverlay: React.FC<LiveScoreOverlayProps> = ({ match, className = '' }) => {
+  const scoreboard = useMatchScoreboard(match);
+  const [enabled, setEnabled] = useScoreOverlayPreference();
+
+  if (!scoreboard) return null;
+
+  if (!enabled) {
+    return (
+      <button
+        onClick={() => setEnabled(true)}
+        className={`z-30 flex items-center gap-1 px-2 py-1 rounded-md bg-black/50 hover:bg-black/70 text-[11px] text-white/80 ${className}`}
+        aria-label="Show live score"
+      >
+        <Eye className="h-3 w-3" />
+        Score
+      </button>
+    );
+  }
+
+  const { homeName, awayName, homeLogo, awayLogo, homeScore, awayScore, clock, justScored } = scoreboard;
+
+  return (
+    <div
+      className={`z-30 flex items-center gap-2 pl-2 pr-1 py-1 rounded-lg backdrop-blur-sm text-white shadow-lg transition-colors duration-500 ${
+        justScored ? 'bg-primary/90 animate-pulse' : 'bg-black/70'
+      } ${className}`}
+    >
+      <div className="flex items-center gap-1.5" role="status" aria-live="polite">
+        <TeamBadge name={homeName} logo={homeLogo} />
+        <span className="max-w-[6rem] truncate text-xs font-semibold">{homeName}</span>
+        <span className="px-1.5 text-sm font-black tabular-nums">
+          {homeScore}
+          <span className="mx-0.5 text-white/60">-</span>
+          {awayScore}
+        </span>
+        <span className="max-w-[6rem] truncate text-xs font-semibold">{awayName}</span>
+        <TeamBadge name={awayName} logo={awayLogo} />
+        {clock && (
+          <span className="ml-1 px-1.5 py-0.5 rounded bg-red-600 text-[10px] font-bold tabular-nums">{clock}</span>
+        )}
+      </div>
+      <button
+        onClick={() => setEnabled(false)}
+        className="p-0.5 rounded text-white/60 hover:text-white hover:bg-white/10"
+        aria-label="Hide live score"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+};
+
+export default LiveScoreOverlay;
@@ -30,6 +30,7 @@ const PlayerControls: React.FC<PlayerControlsProps> = ({
           size="sm"
           className="bg-gradient-to-br from-primary/90 to-primary/70 hover:from-primary hover:to-primary/90 backdrop-blur-sm rounded-xl h-11 w-11 p-0 touch-manipulation transition-all duration-200 hover:scale-105 shadow-lg hover:shadow-xl"
           onClick={onGoBack}
+          aria-label="Go back"
         >
           <ArrowLeft className="h-5 w-5 text-white drop-shadow" />
         </Button>
@@ -38,7 +39,7 @@ const PlayerControls: React.FC<PlayerControlsProps> = ({
       {/* Controls overlay - only external link button */}
       <div className={cn(
         "absolute top-3 right-3 sm:top-4 sm:right-4 transition-all duration-200 flex gap-2.5",
-        isMobile ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+        isMobile ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus-within:opacity-100"
       )}>
         <button 
           onClick={onOpenInNewTab}
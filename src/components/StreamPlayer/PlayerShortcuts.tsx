@@ -0,0 +1,57 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog';
+import { usePlayerShortcuts, PLAYER_SHORTCUTS } from '../../hooks/usePlayerShortcuts';
+
+interface PlayerShortcutsProps {
+  containerRef: React.RefObject<HTMLElement>;
+  enabled?: boolean;
+  onNextSource?: () => void;
+  onPreviousSource?: () => void;
+}
+
+// Keyboard layer for a player: shortcuts, the "?" overlay and screen reader announcements
+const PlayerShortcuts: React.FC<PlayerShortcutsProps> = ({ containerRef, enabled = true, onNextSource, onPreviousSource }) => {
+  const { showHelp, setShowHelp, announcement } = usePlayerShortcuts(containerRef, {
+    enabled,
+    onNextSource,
+    onPreviousSource
+  });
+
+  return (
+    <>
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
+
+      <Dialog open={showHelp} onOpenChange={setShowHelp}>
+        <DialogContent className="max-w-sm bg-[#0d1220] border-white/10 text-white">
+          <DialogHeader>
+            <DialogTitle>Keyboard shortcuts</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Work while the player or the page has focus.
+            </DialogDescription>
+          </DialogHeader>
+          <dl className="space-y-2 text-sm">
+            {PLAYER_SHORTCUTS.map(shortcut => (
+              <div key={shortcut.description} className="flex items-center justify-between gap-4">
+                <dt className="text-gray-300">{shortcut.description}</dt>
+                <dd className="flex gap-1">
+                  {shortcut.keys.map(key => (
+                    <kbd
+                      key={key}
+                      className="min-w-[1.75rem] px-1.5 py-0.5 rounded border border-white/20 bg-white/10 text-center text-xs font-mono"
+                    >
+                      {key}
+                    </kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PlayerShortcuts;
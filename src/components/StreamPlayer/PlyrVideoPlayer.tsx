@@ -1,14 +1,18 @@
 import React, { useRef, useEffect, useState } from 'react';
 import Plyr from 'plyr';
-import Hls from 'hls.js';
 import 'plyr/dist/plyr.css';
 import { Stream, Match } from '../../types/sports';
 import { ManualMatch } from '../../types/manualMatch';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { usePlaybackQuality } from '@/hooks/usePlaybackQuality';
+import StreamQualitySelector from '@/components/StreamQualitySelector';
+import DvrTimeline from './DvrTimeline';
 
 interface PlyrVideoPlayerProps {
   stream: Stream | null;
   onError?: () => void;
   onReady?: () => void;
+  onStall?: () => void;
   match?: Match | ManualMatch | null;
 }
 
@@ -16,20 +20,44 @@ const PlyrVideoPlayer: React.FC<PlyrVideoPlayerProps> = ({
   stream,
   onError,
   onReady,
+  onStall,
   match
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const playerRef = useRef<Plyr | null>(null);
-  const hlsRef = useRef<Hls | null>(null);
   const [isReady, setIsReady] = useState(false);
 
+  // Playback (hls.js / native HLS / direct) via the shared engine
+  const playback = useHlsPlayback(videoRef, stream?.embedUrl, {
+    dvr: true,
+    telemetry: stream
+      ? { source: stream.source, streamId: stream.id, streamNo: stream.streamNo, player: 'plyr' }
+      : undefined,
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'ready':
+          setIsReady(true);
+          onReady?.();
+          break;
+        case 'levelSwitched':
+          if (event.level) console.log(`Quality switched to: ${event.level.name}`);
+          break;
+        case 'stalled':
+          onStall?.();
+          break;
+        case 'fatal':
+          onError?.();
+          break;
+      }
+    }
+  });
+  // HLS levels go through the shared quality menu rather than Plyr's fixed list
+  const quality = usePlaybackQuality(playback);
+
   useEffect(() => {
     if (!videoRef.current || !stream?.embedUrl) return;
 
     const video = videoRef.current;
-    const src = stream.embedUrl.startsWith('http://')
-      ? stream.embedUrl.replace(/^http:\/\//i, 'https://')
-      : stream.embedUrl;
 
     // Initialize Plyr with custom options
     const player = new Plyr(video, {
@@ -46,26 +74,13 @@ const PlyrVideoPlayer: React.FC<PlyrVideoPlayerProps> = ({
         'airplay',
         'fullscreen'
       ],
-      settings: ['quality', 'speed'],
-      quality: {
-        default: 720,
-        options: [1080, 720, 480, 360],
-        forced: false,
-        onChange: (quality: number) => {
-          if (hlsRef.current) {
-            const levels = hlsRef.current.levels;
-            const levelIndex = levels.findIndex(l => l.height === quality);
-            if (levelIndex !== -1) {
-              hlsRef.current.currentLevel = levelIndex;
-            }
-          }
-        }
-      },
+      settings: ['speed'],
       speed: { selected: 1, options: [0.5, 0.75, 1, 1.25, 1.5, 2] },
-      keyboard: { focused: true, global: true },
+      keyboard: { focused: false, global: false }, // handled by PlayerShortcuts
       tooltips: { controls: true, seek: true },
       captions: { active: false, language: 'auto' },
-      fullscreen: { enabled: true, fallback: true, iosNative: true },
+      // Fullscreen the surrounding player so overlays (scorebug, quality, DVR) come along
+      fullscreen: { enabled: true, fallback: true, iosNative: true, container: '[data-player-fullscreen]' },
       storage: { enabled: true, key: 'damitv-plyr' },
       i18n: {
         restart: 'Restart',
@@ -112,116 +127,26 @@ const PlyrVideoPlayer: React.FC<PlyrVideoPlayerProps> = ({
 
     playerRef.current = player;
 
-    // Handle HLS streams
-    if (src.includes('.m3u8')) {
-      if (Hls.isSupported()) {
-        const hls = new Hls({
-          enableWorker: true,
-          lowLatencyMode: true,
-          maxBufferLength: 30,
-          maxMaxBufferLength: 60,
-          maxBufferSize: 60 * 1000 * 1000,
-          maxBufferHole: 0.5,
-          fragLoadingTimeOut: 20000,
-          manifestLoadingTimeOut: 10000,
-          levelLoadingTimeOut: 10000,
-          startLevel: -1,
-          autoStartLoad: true,
-        });
-
-        hlsRef.current = hls;
-        hls.loadSource(src);
-        hls.attachMedia(video);
-
-        hls.on(Hls.Events.MANIFEST_PARSED, (_, data) => {
-          console.log('HLS manifest parsed:', data.levels.length, 'quality levels');
-
-          // Update Plyr quality options based on HLS levels
-          const qualities = data.levels.map(level => level.height);
-          player.quality = qualities[0] || 720;
-
-          setIsReady(true);
-          onReady?.();
-
-          // Auto-play
-          video.play().catch(() => {
-            console.log('Auto-play prevented by browser');
-          });
-        });
-
-        hls.on(Hls.Events.ERROR, (_, data) => {
-          console.error('HLS error:', data.type, data.details);
-          if (data.fatal) {
-            switch (data.type) {
-              case Hls.ErrorTypes.NETWORK_ERROR:
-                console.log('Network error, attempting recovery...');
-                hls.startLoad();
-                break;
-              case Hls.ErrorTypes.MEDIA_ERROR:
-                console.log('Media error, attempting recovery...');
-                hls.recoverMediaError();
-                break;
-              default:
-                console.log('Fatal error, destroying HLS');
-                hls.destroy();
-                onError?.();
-                break;
-            }
-          }
-        });
-
-        hls.on(Hls.Events.LEVEL_SWITCHED, (_, data) => {
-          const level = hls.levels[data.level];
-          console.log(`Quality switched to: ${level.height}p`);
-        });
-
-      } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-        // Safari native HLS
-        video.src = src;
-        video.addEventListener('loadedmetadata', () => {
-          setIsReady(true);
-          onReady?.();
-          video.play().catch(() => {});
-        });
-      }
-    } else {
-      // Direct video source
-      video.src = src;
-      video.addEventListener('loadedmetadata', () => {
-        setIsReady(true);
-        onReady?.();
-      });
-    }
-
-    // Player events
-    player.on('error', () => {
-      console.error('Plyr error');
-      onError?.();
-    });
-
     player.on('playing', () => {
       console.log('Video playing');
     });
 
     // Cleanup
     return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
       if (playerRef.current) {
         playerRef.current.destroy();
         playerRef.current = null;
       }
     };
-  }, [stream?.embedUrl, onError, onReady]);
+  }, [stream?.embedUrl]);
 
   if (!stream?.embedUrl) {
     return null;
   }
 
   return (
-    <div className="plyr-container w-full h-full">
+    <div className="plyr-container relative w-full h-full">
+      <StreamQualitySelector {...quality} className="absolute top-3 right-3 z-20" />
       <video
         ref={videoRef}
         className="w-full h-full"
@@ -229,6 +154,11 @@ const PlyrVideoPlayer: React.FC<PlyrVideoPlayerProps> = ({
         crossOrigin="anonymous"
         poster={match?.poster || undefined}
       />
+      <DvrTimeline
+        videoRef={videoRef}
+        engineRef={playback.engineRef}
+        className="absolute left-4 right-4 bottom-16 z-20 px-2 py-1 rounded-lg bg-black/60 transition-opacity duration-300"
+      />
 
       {/* Custom Plyr Styles - DAMITV Brand Colors */}
       <style>{`
@@ -375,6 +305,17 @@ const PlyrVideoPlayer: React.FC<PlyrVideoPlayerProps> = ({
           color: #F54927;
         }
 
+        /* Live catch-up: the DVR bar replaces Plyr's progress bar and follows its controls */
+        .plyr-container:has(.dvr-timeline) .plyr__progress__container,
+        .plyr-container:has(.dvr-timeline) .plyr__time {
+          display: none;
+        }
+
+        .plyr-container:not(:hover):not(:focus-within):has(.plyr--hide-controls) .dvr-timeline {
+          opacity: 0;
+          pointer-events: none;
+        }
+
         .plyr-container .plyr__poster {
           background-size: cover;
         }
@@ -1,21 +1,35 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useId } from 'react';
 import { Stream, Match } from '../../types/sports';
 import { ManualMatch } from '../../types/manualMatch';
 import { Button } from '../ui/button';
-import { RotateCcw, ExternalLink, Monitor, Clock } from 'lucide-react';
+import { RotateCcw, ExternalLink, Monitor, Clock, Play } from 'lucide-react';
 import IframeVideoPlayer from './IframeVideoPlayer';
 import PlyrVideoPlayer from './PlyrVideoPlayer';
+import PlayerShortcuts from './PlayerShortcuts';
+import LiveScoreOverlay from './LiveScoreOverlay';
 import { trackVideoStart, trackVideoError } from '../../utils/videoAnalytics';
 import { markDomainFailed, getFallbackDomain, buildEmbedUrl, hasFallbackAvailable, getEmbedDomainSync } from '../../utils/embedDomains';
+import { recordSourceSuccess, recordSourceFailure } from '../../services/sourceRanking';
+import type { FailoverReason } from '../../hooks/useAutoFallback';
 import { toast } from 'sonner';
 
+// An iframe's load event fires for error pages and blank players too. An embed still on
+// screen this long after loading, with no error, failover or source switch, is playing.
+const EMBED_CONFIRM_MS = 60 * 1000;
+
 interface SimpleVideoPlayerProps {
   stream: Stream | null;
   isLoading?: boolean;
   onRetry?: () => void;
   isTheaterMode?: boolean;
   onTheaterModeToggle?: () => void;
-  onAutoFallback?: () => void;
+  onAutoFallback?: (reason: FailoverReason) => void;
+  autoFailover?: boolean;  // also hand over on long stalls and silent iframes, not just errors
+  onNextSource?: () => void;
+  onPreviousSource?: () => void;
+  shortcutsEnabled?: boolean;  // off for players that share the page with others (multi-view)
+  embedSuspended?: boolean;  // embeds can't be muted from outside - unload the iframe instead (multi-view)
+  onResumeEmbed?: () => void;
   match?: Match | ManualMatch | null;
 }
 
@@ -26,13 +40,24 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
   isTheaterMode = false,
   onTheaterModeToggle,
   onAutoFallback,
+  autoFailover = false,
+  onNextSource,
+  onPreviousSource,
+  shortcutsEnabled = true,
+  embedSuspended = false,
+  onResumeEmbed,
   match = null
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const shortcutsHintId = useId();
   const [error, setError] = useState(false);
   const [errorCount, setErrorCount] = useState(0);
   const [lastStreamUrl, setLastStreamUrl] = useState<string>('');
   const [countdown, setCountdown] = useState<string>('');
+  // Source ranking: one outcome per stream for embeds (HLS is reported through QoE telemetry)
+  const loadStartRef = useRef(Date.now());
+  const outcomeRecordedRef = useRef(false);
+  const embedConfirmTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   // Check if stream is M3U8 (HLS)
   const originalIsM3U8 = !!stream?.embedUrl && /\.m3u8(\?|$)/i.test(stream.embedUrl || '');
@@ -101,6 +126,8 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
       setEmbedFallbackAttempted(false);
       setHlsFailedUseIframe(false);
       setWaitingForAutoFallback(false);
+      loadStartRef.current = Date.now();
+      outcomeRecordedRef.current = false;
       console.log('🎬 New stream loaded');
 
       // Track video start
@@ -142,7 +169,40 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
     if (onRetry) onRetry();
   };
 
+  // Whatever the embed is showing changed (new stream, backup domain, suspended) - it
+  // hasn't proved itself yet
+  useEffect(() => {
+    return () => clearTimeout(embedConfirmTimerRef.current);
+  }, [stream?.embedUrl, fallbackEmbedUrl, hlsFailedUseIframe, embedSuspended]);
+
+  const handleIframeLoad = () => {
+    setError(false);
+    if (!stream?.source || outcomeRecordedRef.current) return;
+
+    const source = stream.source;
+    const loadTimeMs = Date.now() - loadStartRef.current;
+    clearTimeout(embedConfirmTimerRef.current);
+    embedConfirmTimerRef.current = setTimeout(() => {
+      if (outcomeRecordedRef.current) return;
+      outcomeRecordedRef.current = true;
+      recordSourceSuccess(source, loadTimeMs);
+    }, EMBED_CONFIRM_MS);
+  };
+
+  const handleLoadTimeout = () => {
+    if (stream?.source && !outcomeRecordedRef.current) {
+      outcomeRecordedRef.current = true;
+      recordSourceFailure(stream.source, 'embed-timeout');
+    }
+    onAutoFallback?.('timeout');
+  };
+
   const handleError = () => {
+    if (!isM3U8 && stream?.source && !outcomeRecordedRef.current) {
+      outcomeRecordedRef.current = true;
+      recordSourceFailure(stream.source, 'embed-error');
+    }
+
     const newErrorCount = errorCount + 1;
     setErrorCount(newErrorCount);
     console.log(`❌ Stream error (count: ${newErrorCount})`);
@@ -164,7 +224,7 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
       console.log('🔄 Trying next stream source automatically...');
       toast.info('Stream failed, trying next source...', { duration: 2000 });
       setWaitingForAutoFallback(true);
-      onAutoFallback();
+      onAutoFallback('error');
 
       // Timeout: if no new stream after 5 seconds, show error
       setTimeout(() => {
@@ -246,8 +306,23 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
     <div className={`w-full ${isTheaterMode ? 'max-w-none' : 'max-w-5xl mx-auto'}`}>
       <div
         ref={containerRef}
-        className="relative bg-black rounded-2xl overflow-hidden aspect-video w-full"
+        tabIndex={0}
+        role="region"
+        aria-label={`Video player${match?.title ? `: ${match.title}` : ''}`}
+        aria-describedby={shortcutsHintId}
+        data-player-fullscreen
+        aria-keyshortcuts="Space K M F P N Shift+N ArrowLeft ArrowRight ?"
+        className="relative bg-black rounded-2xl overflow-hidden aspect-video w-full focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
       >
+        <span id={shortcutsHintId} className="sr-only">Press question mark for keyboard shortcuts.</span>
+        <PlayerShortcuts
+          containerRef={containerRef}
+          enabled={shortcutsEnabled}
+          onNextSource={onNextSource}
+          onPreviousSource={onPreviousSource}
+        />
+        <LiveScoreOverlay match={match} className="absolute top-3 left-1/2 -translate-x-1/2" />
+
         {/* Countdown Overlay */}
         {isM3U8 && countdown && match && (
           <div className="absolute inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-gray-900 to-black">
@@ -281,8 +356,19 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
             stream={stream}
             onError={handleError}
             onReady={() => console.log('Plyr ready')}
+            onStall={autoFailover ? () => onAutoFallback?.('stall') : undefined}
             match={match}
           />
+        ) : embedSuspended ? (
+          <button
+            onClick={onResumeEmbed}
+            className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-gray-300 hover:text-white bg-gradient-to-br from-gray-900 to-black transition-colors"
+          >
+            <span className="w-14 h-14 rounded-full bg-primary/20 flex items-center justify-center">
+              <Play className="w-7 h-7 text-primary" />
+            </span>
+            <span className="text-sm font-medium">Click to watch with sound</span>
+          </button>
         ) : (
           <IframeVideoPlayer
             src={(() => {
@@ -291,9 +377,10 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
               }
               return fallbackEmbedUrl || stream.embedUrl;
             })()}
-            onLoad={() => setError(false)}
+            onLoad={handleIframeLoad}
             onError={handleError}
             onEmbedFailed={handleEmbedFailed}
+            onLoadTimeout={autoFailover ? handleLoadTimeout : undefined}
             title={match?.title}
             matchStartTime={match?.date ? (typeof match.date === 'string' ? new Date(match.date).getTime() : match.date) : undefined}
             match={match}
@@ -317,6 +404,8 @@ const SimpleVideoPlayer: React.FC<SimpleVideoPlayerProps> = ({
           <div className="absolute top-4 right-4">
             <Button
               onClick={onTheaterModeToggle}
+              aria-label={isTheaterMode ? 'Exit theater mode' : 'Theater mode'}
+              aria-pressed={isTheaterMode}
               className={`bg-black/50 hover:bg-black/70 text-white border-0 ${isTheaterMode ? 'bg-primary/70 hover:bg-primary/90' : ''}`}
               size="sm"
             >
@@ -1,6 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
-import Hls from 'hls.js';
 import { Clock } from 'lucide-react';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { usePlaybackQuality } from '@/hooks/usePlaybackQuality';
+import StreamQualitySelector from '@/components/StreamQualitySelector';
+import { Stream } from '../../types/sports';
 
 interface VideoPlayerSelectorProps {
   src: string;
@@ -11,6 +14,7 @@ interface VideoPlayerSelectorProps {
   isTvChannel?: boolean;
   videoRef?: React.RefObject<HTMLVideoElement>;
   matchStartTime?: number | Date | null;
+  stream?: Pick<Stream, 'source' | 'id' | 'streamNo'> | null;  // labels QoE telemetry
 }
 
 const VideoPlayerSelector: React.FC<VideoPlayerSelectorProps> = ({
@@ -19,11 +23,11 @@ const VideoPlayerSelector: React.FC<VideoPlayerSelectorProps> = ({
   onError,
   title = "Live Stream",
   videoRef: externalVideoRef,
-  matchStartTime
+  matchStartTime,
+  stream
 }) => {
   const internalVideoRef = useRef<HTMLVideoElement>(null);
   const videoRef = externalVideoRef || internalVideoRef;
-  const hlsRef = useRef<Hls | null>(null);
   const [countdown, setCountdown] = useState<string>('');
   
   // Check if it's a direct HLS stream
@@ -74,95 +78,17 @@ const VideoPlayerSelector: React.FC<VideoPlayerSelectorProps> = ({
     return () => clearInterval(interval);
   }, [matchStartTime]);
   
-  useEffect(() => {
-    if (!isHlsStream || !videoRef.current) return;
-
-    const video = videoRef.current;
-    console.log('🎬 Initializing HLS player for:', src);
-    
-    // Clear any existing source
-    video.src = '';
-    video.load();
-
-    // Small delay to ensure video element is ready
-    const timer = setTimeout(() => {
-      if (Hls.isSupported()) {
-        console.log('✅ HLS.js is supported, loading stream...');
-        const hls = new Hls({
-          enableWorker: true,
-          lowLatencyMode: true,
-          backBufferLength: 90,
-          maxBufferLength: 30,
-          maxMaxBufferLength: 60,
-          debug: true,
-          xhrSetup: (xhr: any) => {
-            xhr.withCredentials = false;
-          }
-        });
-        
-        hls.loadSource(src);
-        hls.attachMedia(video);
-        
-        hls.on(Hls.Events.MANIFEST_PARSED, () => {
-          console.log('✅ HLS manifest parsed, starting playback...');
-          video.play().then(() => {
-            console.log('✅ Video playing');
-            onLoad?.();
-          }).catch(err => {
-            console.error('❌ Error playing video:', err);
-            onError?.();
-          });
-        });
-
-        hls.on(Hls.Events.ERROR, (event, data) => {
-          console.error('❌ HLS error:', data);
-          if (data.fatal) {
-            switch (data.type) {
-              case Hls.ErrorTypes.NETWORK_ERROR:
-                console.log('🔄 Network error, trying to recover...');
-                hls.startLoad();
-                break;
-              case Hls.ErrorTypes.MEDIA_ERROR:
-                console.log('🔄 Media error, trying to recover...');
-                hls.recoverMediaError();
-                break;
-              default:
-                console.error('💀 Fatal error, cannot recover');
-                hls.destroy();
-                onError?.();
-                break;
-            }
-          }
-        });
-
-        hlsRef.current = hls;
-      } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-        // Native HLS support (Safari)
-        console.log('✅ Using native HLS support (Safari)');
-        video.src = src;
-        video.load();
-        video.play().then(() => {
-          console.log('✅ Video playing (native HLS)');
-          onLoad?.();
-        }).catch(err => {
-          console.error('❌ Error playing video:', err);
-          onError?.();
-        });
-      } else {
-        console.error('❌ HLS is not supported in this browser');
-        onError?.();
-      }
-    }, 100);
-
-    return () => {
-      clearTimeout(timer);
-      if (hlsRef.current) {
-        console.log('🧹 Cleaning up HLS instance');
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
-    };
-  }, [src, isHlsStream, onLoad, onError, videoRef]);
+  // HLS playback via the shared engine (iframes below handle everything else)
+  const playback = useHlsPlayback(videoRef, isHlsStream ? src : null, {
+    telemetry: stream
+      ? { source: stream.source, streamId: stream.id, streamNo: stream.streamNo, player: 'selector' }
+      : { player: 'selector' },
+    onEvent: (event) => {
+      if (event.type === 'ready') onLoad?.();
+      if (event.type === 'fatal') onError?.();
+    }
+  });
+  const quality = usePlaybackQuality(playback);
 
   // For HLS streams, render video element
   if (isHlsStream) {
@@ -199,6 +125,8 @@ const VideoPlayerSelector: React.FC<VideoPlayerSelectorProps> = ({
           </div>
         )}
         
+        <StreamQualitySelector {...quality} className="absolute top-3 right-3 z-20" />
+
         <video
           ref={videoRef}
           className="w-full h-full"
@@ -1,87 +1,54 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from './ui/button';
-import { Settings, Check, Wifi, WifiOff } from 'lucide-react';
+import { Settings, Check, Wifi, WifiOff, Leaf } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
-import { getConnectionInfo, getRecommendedQuality, StreamQuality } from '../utils/connectionOptimizer';
+import { getConnectionInfo, onConnectionChange } from '../utils/connectionOptimizer';
+import { QualityLevel } from '../services/hlsEngine';
+import { QualityPreference, findLevelForHeight } from '../hooks/usePlaybackQuality';
 
 interface StreamQualitySelectorProps {
-  onQualityChange: (level: number) => void;
-  currentLevel: number;
-  availableLevels?: Array<{ width: number; height: number; bitrate: number }>;
+  levels: QualityLevel[];
+  playingLevel: QualityLevel | null;      // what hls.js is actually playing right now
+  preference: QualityPreference;
+  onPreferenceChange: (preference: QualityPreference) => void;
+  saveData?: boolean;
   className?: string;
 }
 
+const formatBitrate = (bitrate: number) =>
+  bitrate >= 1000000 ? `${(bitrate / 1000000).toFixed(1)} Mbps` : `${Math.round(bitrate / 1000)} kbps`;
+
 const StreamQualitySelector: React.FC<StreamQualitySelectorProps> = ({
-  onQualityChange,
-  currentLevel,
-  availableLevels = [],
+  levels,
+  playingLevel,
+  preference,
+  onPreferenceChange,
+  saveData = false,
   className = ''
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [connectionInfo, setConnectionInfo] = useState(getConnectionInfo());
-  const [recommendedQualities, setRecommendedQualities] = useState<StreamQuality[]>([]);
-
-  // Update connection info and recommendations
-  useEffect(() => {
-    const updateConnection = () => {
-      const info = getConnectionInfo();
-      setConnectionInfo(info);
-      setRecommendedQualities(getRecommendedQuality(info));
-    };
-
-    updateConnection();
-
-    // Listen for connection changes
-    const nav = navigator as any;
-    const connection = nav.connection || nav.mozConnection || nav.webkitConnection;
-    
-    if (connection) {
-      connection.addEventListener('change', updateConnection);
-      return () => connection.removeEventListener('change', updateConnection);
-    }
-  }, []);
-
-  // Map HLS levels to quality names
-  const getQualityName = (levelIndex: number): string => {
-    if (levelIndex === -1 || levelIndex === 0) return 'Auto';
-    
-    const level = availableLevels[levelIndex - 1]; // HLS levels are 0-indexed but we show them as 1-indexed
-    if (!level) return `Level ${levelIndex}`;
-    
-    // Determine quality name based on resolution
-    if (level.height >= 1080) return '1080p';
-    if (level.height >= 720) return '720p';
-    if (level.height >= 480) return '480p';
-    if (level.height >= 360) return '360p';
-    return `${level.height}p`;
-  };
 
-  // Get bitrate display
-  const getBitrateDisplay = (levelIndex: number): string => {
-    if (levelIndex === -1 || levelIndex === 0) return '';
-    
-    const level = availableLevels[levelIndex - 1];
-    if (!level) return '';
-    
-    return ` (${Math.round(level.bitrate / 1000)}k)`;
-  };
+  // Listen for connection changes
+  useEffect(() => onConnectionChange(setConnectionInfo), []);
 
-  // Check if quality is recommended
-  const isRecommended = (levelIndex: number): boolean => {
-    if (levelIndex === -1 || levelIndex === 0) {
-      return recommendedQualities.find(q => q.level === 0)?.recommended || false;
-    }
-    
-    const level = availableLevels[levelIndex - 1];
-    if (!level) return false;
-    
-    return recommendedQualities.some(q => 
-      q.recommended && level.bitrate <= q.maxBitrate
-    );
-  };
+  // One entry per resolution (highest bitrate), best first
+  const resolutions = [...levels]
+    .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate)
+    .filter((level, index, sorted) => index === 0 || sorted[index - 1].height !== level.height);
+
+  if (levels.length < 2) return null;
+
+  const selectedLevel = typeof preference === 'number' ? findLevelForHeight(levels, preference) : undefined;
+  const playingName = playingLevel ? ` (${playingLevel.name})` : '';
 
-  const handleQualitySelect = (level: number) => {
-    onQualityChange(level);
+  const triggerLabel =
+    preference === 'auto' ? `Auto${playingName}`
+      : preference === 'data-saver' ? `Saver${playingName}`
+        : selectedLevel?.name || 'Quality';
+
+  const handleSelect = (next: QualityPreference) => {
+    onPreferenceChange(next);
     setIsOpen(false);
   };
 
@@ -98,17 +65,33 @@ const StreamQualitySelector: React.FC<StreamQualitySelectorProps> = ({
     }
   };
 
-  // Create quality options including auto and available levels
-  const qualityOptions = [
-    { level: -1, name: 'Auto', isRecommended: isRecommended(-1), bitrate: '' },
-    ...availableLevels.map((level, index) => ({
-      level: index + 1,
-      name: getQualityName(index + 1),
-      isRecommended: isRecommended(index + 1),
-      bitrate: getBitrateDisplay(index + 1)
+  const options: Array<{ key: string; value: QualityPreference; label: string; detail: string; isRecommended: boolean }> = [
+    {
+      key: 'auto',
+      value: 'auto',
+      label: 'Auto',
+      detail: preference === 'auto' && playingLevel ? `Playing ${playingLevel.name}` : 'Adjusts to your connection',
+      isRecommended: !saveData
+    },
+    {
+      key: 'data-saver',
+      value: 'data-saver',
+      label: 'Data saver',
+      detail: preference === 'data-saver' && playingLevel ? `Playing ${playingLevel.name}` : 'Auto, capped at low bitrates',
+      isRecommended: saveData
+    },
+    ...resolutions.map(level => ({
+      key: `level-${level.index}`,
+      value: level.height,
+      label: level.name,
+      detail: level.height ? formatBitrate(level.bitrate) : '',
+      isRecommended: false
     }))
   ];
 
+  const isSelected = (value: QualityPreference) =>
+    typeof value === 'number' ? selectedLevel?.height === value : preference === value;
+
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
@@ -116,9 +99,10 @@ const StreamQualitySelector: React.FC<StreamQualitySelectorProps> = ({
           variant="ghost"
           size="sm"
           className={`bg-black/50 hover:bg-black/70 text-white border-0 ${className}`}
+          aria-label={`Stream quality: ${triggerLabel}`}
         >
           <Settings className="w-4 h-4 mr-1" />
-          {getQualityName(currentLevel)}
+          {triggerLabel}
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-64 p-0 bg-black/90 border-white/20" align="end">
@@ -127,44 +111,52 @@ const StreamQualitySelector: React.FC<StreamQualitySelectorProps> = ({
           <div className="flex items-center gap-2 mb-3 pb-2 border-b border-white/20">
             {getConnectionIcon()}
             <span className="text-xs text-white/70">
-              {connectionInfo.effectiveType.toUpperCase()} 
+              {connectionInfo.effectiveType.toUpperCase()}
               {connectionInfo.downlink > 0 && ` • ${connectionInfo.downlink}Mbps`}
               {connectionInfo.saveData && ' • Data Saver'}
             </span>
           </div>
 
           {/* Quality Options */}
-          <div className="space-y-1">
-            {qualityOptions.map((option) => (
-              <button
-                key={option.level}
-                onClick={() => handleQualitySelect(option.level)}
-                className={`w-full flex items-center justify-between px-3 py-2 rounded-md text-sm transition-colors ${
-                  currentLevel === option.level
-                    ? 'bg-blue-600 text-white'
-                    : 'text-white/90 hover:bg-white/10'
-                }`}
-              >
-                <div className="flex items-center gap-2">
-                  <span>{option.name}{option.bitrate}</span>
-                  {option.isRecommended && (
-                    <span className="text-xs bg-green-600 text-white px-1.5 py-0.5 rounded">
-                      Recommended
+          <div className="space-y-1" role="listbox" aria-label="Stream quality">
+            {options.map(option => {
+              const selected = isSelected(option.value);
+              return (
+                <button
+                  key={option.key}
+                  role="option"
+                  aria-selected={selected}
+                  onClick={() => handleSelect(option.value)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-md text-sm transition-colors ${
+                    selected
+                      ? 'bg-blue-600 text-white'
+                      : 'text-white/90 hover:bg-white/10'
+                  }`}
+                >
+                  <div className="flex flex-col items-start">
+                    <span className="flex items-center gap-2">
+                      {option.value === 'data-saver' && <Leaf className="w-3 h-3" />}
+                      {option.label}
+                      {option.isRecommended && (
+                        <span className="text-xs bg-green-600 text-white px-1.5 py-0.5 rounded">
+                          Recommended
+                        </span>
+                      )}
                     </span>
+                    {option.detail && <span className="text-xs text-white/60">{option.detail}</span>}
+                  </div>
+                  {selected && (
+                    <Check className="w-4 h-4" />
                   )}
-                </div>
-                {currentLevel === option.level && (
-                  <Check className="w-4 h-4" />
-                )}
-              </button>
-            ))}
+                </button>
+              );
+            })}
           </div>
 
           {/* Help Text */}
           <div className="mt-3 pt-2 border-t border-white/20">
             <p className="text-xs text-white/60">
-              Quality is automatically adjusted based on your connection speed. 
-              Choose manual settings if you experience buffering.
+              Your choice is remembered on this device. Pick a lower quality if you experience buffering.
             </p>
           </div>
         </div>
@@ -173,4 +165,4 @@ const StreamQualitySelector: React.FC<StreamQualitySelectorProps> = ({
   );
 };
 
-export default StreamQualitySelector;
\ No newline at end of file
+export default StreamQualitySelector;
@@ -11,6 +11,7 @@ import {
 import { Link } from 'react-router-dom';
 import { Match } from '@/types/sports';
 import { isTrendingMatch } from '@/utils/popularLeagues';
+import { isMatchLive } from '@/utils/matchUtils';
 import { TrendingUp, Clock, Eye } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
@@ -72,18 +73,9 @@ const TrendingGamesSidebar: React.FC<TrendingGamesSidebarProps> = ({
   .sort((a, b) => b.trendingData.score - a.trendingData.score)
   .slice(0, 8);
 
-  // Helper function to determine if a match is live
-  const isMatchLive = (match: Match): boolean => {
-    const matchTime = new Date(match.date).getTime();
-    const now = new Date().getTime();
-    const twoHoursInMs = 2 * 60 * 60 * 1000;
-    
-    return (
-      match.sources && 
-      match.sources.length > 0 && 
-      Math.abs(matchTime - now) < twoHoursInMs
-    );
-  };
+  // Live per the match lifecycle, and actually watchable
+  const isWatchableLive = (match: Match): boolean =>
+    !!match.sources && match.sources.length > 0 && isMatchLive(match);
 
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -121,7 +113,7 @@ const TrendingGamesSidebar: React.FC<TrendingGamesSidebarProps> = ({
           <SidebarGroupContent>
             <SidebarMenu>
               {trendingMatches.map((match, index) => {
-                const isLive = isMatchLive(match);
+                const isLive = isWatchableLive(match);
                 return (
                   <SidebarMenuItem key={`sidebar-${match.id}-${index}`}>
                     <Link 
@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Registers the PWA service worker and asks before switching to a newly deployed build (renders nothing)
+const UpdatePrompt = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW(_swUrl, registration) {
+      if (!registration) return;
+      // Long-lived tabs (live matches) would otherwise never notice a deploy
+      setInterval(() => {
+        registration.update().catch(() => undefined);
+      }, UPDATE_CHECK_INTERVAL);
+    },
+    onRegisterError(error) {
+      console.error('❌ Service worker registration failed:', error);
+    }
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    console.log('📦 App shell cached - available offline');
+    toast.success('DamiTV is ready to use offline', { duration: 3000 });
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast('A new version of DamiTV is available', {
+      id: 'pwa-update',
+      duration: Infinity,
+      action: {
+        label: 'Reload',
+        onClick: () => updateServiceWorker(true)
+      },
+      onDismiss: () => setNeedRefresh(false)
+    });
+  }, [needRefresh, setNeedRefresh, updateServiceWorker]);
+
+  return null;
+};
+
+export default UpdatePrompt;
@@ -1,5 +1,11 @@
-// Viewer count component - disabled (frontend only)
-import React from 'react';
+// Viewer count for a match by ID - measured presence only, nothing shown when unknown
+import React, { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { ViewerCountReading } from '@/types/sports';
+import { getMeasuredViewerCount, getPresenceRoom } from '@/services/realViewerService';
+import { formatViewerCount, getViewerCountLabel } from '@/services/viewerCountService';
+import { usePresenceCount } from '@/hooks/useViewerTracking';
+import { cn } from '@/lib/utils';
 
 interface ViewerCountProps {
   matchId: string;
@@ -7,7 +13,47 @@ interface ViewerCountProps {
   size?: 'sm' | 'md' | 'lg';
 }
 
+const sizeClasses = {
+  sm: 'text-[11px] gap-1',
+  md: 'text-sm gap-1.5',
+  lg: 'text-base gap-2'
+};
+
+const iconSizes = {
+  sm: 'w-3 h-3',
+  md: 'w-4 h-4',
+  lg: 'w-5 h-5'
+};
+
 export const ViewerCount: React.FC<ViewerCountProps> = ({ matchId, enableRealtime = false, size = 'sm' }) => {
-  // Viewer count disabled - return null
-  return null;
+  const [reading, setReading] = useState<ViewerCountReading>({ count: 0, kind: 'none' });
+
+  // Realtime: pushed by the presence service. Otherwise one lookup per match.
+  const pushedCount = usePresenceCount(enableRealtime ? getPresenceRoom('match', matchId) : null);
+
+  useEffect(() => {
+    if (enableRealtime) return;
+
+    let cancelled = false;
+    getMeasuredViewerCount(matchId).then(next => {
+      if (!cancelled) setReading(next);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, enableRealtime]);
+
+  const count = enableRealtime ? pushedCount ?? 0 : reading.count;
+  if (count <= 0) return null;
+
+  return (
+    <span
+      className={cn('inline-flex items-center font-medium', sizeClasses[size])}
+      title={getViewerCountLabel('measured')}
+    >
+      <Users className={iconSizes[size]} />
+      {formatViewerCount(count, true)} watching
+    </span>
+  );
 };
@@ -1,4 +1,5 @@
 import { useSportsDashboard } from '@/hooks/useSportsDashboard';
+import { useLeagueTable } from '@/hooks/useLeagueTable';
 import { HeroCarouselDashboard } from './HeroCarouselDashboard';
 import { LiveScoresTable } from './LiveScoresTable';
 import { FixturesTable } from './FixturesTable';
@@ -9,11 +10,13 @@ import { Badge } from '@/components/ui/badge';
 import { RefreshCw, Zap } from 'lucide-react';
 import { format } from 'date-fns';
 
+// TheSportsDB's A-League Men
+const A_LEAGUE_ID = '4356';
+
 export function SportsDashboard() {
   const {
     liveMatches,
     fixtures,
-    standings,
     news,
     loading,
     error,
@@ -21,6 +24,7 @@ export function SportsDashboard() {
     refreshAll,
     isAnyLoading
   } = useSportsDashboard();
+  const aLeague = useLeagueTable(A_LEAGUE_ID);
 
   return (
     <div className="space-y-6">
@@ -85,9 +89,11 @@ export function SportsDashboard() {
 
       {/* Standings */}
       <StandingsTable 
-        standings={standings} 
-        loading={loading.standings} 
-        error={error.standings} 
+        title={aLeague.league?.name || 'A-League'}
+        leagueId={A_LEAGUE_ID}
+        rows={aLeague.rows} 
+        loading={aLeague.loading} 
+        error={aLeague.error} 
       />
 
       {/* News */}
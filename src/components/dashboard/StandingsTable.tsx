@@ -1,4 +1,5 @@
-import { Standing } from '@/hooks/useSportsDashboard';
+import { Link } from 'react-router-dom';
+import { LeagueTableRow } from '@/services/leagueTableService';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
@@ -12,22 +13,30 @@ import {
 import { Trophy, AlertCircle } from 'lucide-react';
 
 interface StandingsTableProps {
-  standings: Standing[];
+  title: string;
+  leagueId: string;
+  rows: LeagueTableRow[];
   loading: boolean;
   error: string | null;
+  limit?: number;
 }
 
-export function StandingsTable({ standings, loading, error }: StandingsTableProps) {
+export function StandingsTable({ title, leagueId, rows, loading, error, limit = 8 }: StandingsTableProps) {
+  const standings = rows.slice(0, limit);
+
   return (
     <Card>
-      <CardHeader className="pb-3">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="flex items-center gap-2 text-lg">
           <Trophy className="w-5 h-5 text-yellow-500" />
-          A-League Standings (Top 8)
+          {title} (Top {limit})
         </CardTitle>
+        <Link to={`/leagues/${leagueId}`} className="text-sm text-primary hover:underline">
+          Full table
+        </Link>
       </CardHeader>
       <CardContent>
-        {error ? (
+        {error && standings.length === 0 ? (
           <div className="flex items-center gap-2 text-destructive p-4">
             <AlertCircle className="w-5 h-5" />
             <span>{error}</span>
@@ -58,26 +67,33 @@ export function StandingsTable({ standings, loading, error }: StandingsTableProp
             <TableBody>
               {standings.map((team) => (
                 <TableRow 
-                  key={team.pos}
-                  className={team.pos <= 3 ? 'bg-primary/5' : team.pos <= 6 ? 'bg-muted/30' : ''}
+                  key={team.teamId || team.team}
+                  className={team.live ? 'bg-destructive/5' : team.zone ? 'bg-primary/5' : ''}
                 >
                   <TableCell className="text-center font-bold">
-                    {team.pos <= 3 ? (
+                    {team.zone ? (
                       <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs">
-                        {team.pos}
+                        {team.rank}
                       </span>
                     ) : (
-                      team.pos
+                      team.rank
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {team.team}
+                    {team.live && (
+                      <span className="ml-2 text-xs font-bold text-destructive">
+                        {team.live.goalsFor}-{team.live.goalsAgainst} {team.live.clock}
+                      </span>
                     )}
                   </TableCell>
-                  <TableCell className="font-medium">{team.team}</TableCell>
-                  <TableCell className="text-center text-muted-foreground">{team.pld}</TableCell>
-                  <TableCell className="text-center text-green-600 dark:text-green-400">{team.w}</TableCell>
-                  <TableCell className="text-center text-muted-foreground">{team.d}</TableCell>
-                  <TableCell className="text-center text-destructive">{team.l}</TableCell>
-                  <TableCell className="text-center text-muted-foreground hidden sm:table-cell">{team.gf}</TableCell>
-                  <TableCell className="text-center text-muted-foreground hidden sm:table-cell">{team.ga}</TableCell>
-                  <TableCell className="text-center font-bold text-primary">{team.pts}</TableCell>
+                  <TableCell className="text-center text-muted-foreground">{team.played}</TableCell>
+                  <TableCell className="text-center text-green-600 dark:text-green-400">{team.wins}</TableCell>
+                  <TableCell className="text-center text-muted-foreground">{team.draws}</TableCell>
+                  <TableCell className="text-center text-destructive">{team.losses}</TableCell>
+                  <TableCell className="text-center text-muted-foreground hidden sm:table-cell">{team.goalsFor}</TableCell>
+                  <TableCell className="text-center text-muted-foreground hidden sm:table-cell">{team.goalsAgainst}</TableCell>
+                  <TableCell className="text-center font-bold text-primary">{team.points}</TableCell>
                 </TableRow>
               ))}
             </TableBody>
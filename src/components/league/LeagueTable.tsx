@@ -0,0 +1,185 @@
+import React, { useMemo } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { LeagueTableRow, SplitRecord, TableZone } from '@/services/leagueTableService';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+export type LeagueTableView = 'overall' | 'home' | 'away';
+
+interface LeagueTableProps {
+  rows: LeagueTableRow[];
+  view?: LeagueTableView;
+  showProjection?: boolean;
+}
+
+const ZONE_STYLES: Record<TableZone, { label: string; bar: string }> = {
+  champions: { label: 'Champions League', bar: 'bg-blue-500' },
+  europe: { label: 'Europa League', bar: 'bg-orange-500' },
+  conference: { label: 'Conference League', bar: 'bg-emerald-500' },
+  promotion: { label: 'Promotion', bar: 'bg-green-500' },
+  playoff: { label: 'Play-offs', bar: 'bg-yellow-500' },
+  relegation: { label: 'Relegation', bar: 'bg-red-500' }
+};
+
+const FORM_STYLES: Record<string, string> = {
+  W: 'bg-green-600 text-white',
+  D: 'bg-muted-foreground/60 text-white',
+  L: 'bg-destructive text-destructive-foreground'
+};
+
+const FormGuide: React.FC<{ form: string }> = ({ form }) => {
+  const results = form.toUpperCase().replace(/[^WDL]/g, '').slice(-5).split('');
+  if (results.length === 0) return <span className="text-muted-foreground">-</span>;
+
+  return (
+    <span className="inline-flex gap-0.5" aria-label={`Form: ${results.join(' ')}`}>
+      {results.map((result, index) => (
+        <span
+          key={index}
+          className={cn('w-5 h-5 rounded-sm text-[10px] font-bold flex items-center justify-center', FORM_STYLES[result])}
+        >
+          {result}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+const ProjectedMove: React.FC<{ row: LeagueTableRow }> = ({ row }) => {
+  if (!row.projectedRank || row.projectedRank === row.rank) return null;
+
+  const up = row.projectedRank < row.rank;
+  const Icon = up ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={cn('inline-flex items-center text-[10px] font-bold', up ? 'text-green-500' : 'text-destructive')}
+      title={`Projected ${row.projectedRank} if the live scores stand`}
+    >
+      <Icon className="w-3 h-3" />
+      {row.projectedRank}
+    </span>
+  );
+};
+
+// Split views rank by their own record: points where the sport has them, wins otherwise
+const compareSplits = (a: SplitRecord, b: SplitRecord): number =>
+  (b.points ?? b.wins) - (a.points ?? a.wins) ||
+  (b.goalsFor - b.goalsAgainst) - (a.goalsFor - a.goalsAgainst) ||
+  b.goalsFor - a.goalsFor;
+
+export const LeagueTable: React.FC<LeagueTableProps> = ({ rows, view = 'overall', showProjection = true }) => {
+  const displayRows = useMemo(() => {
+    if (view === 'overall') {
+      return rows.map(row => ({ row, record: null as SplitRecord | null }));
+    }
+
+    return rows
+      .filter(row => row[view])
+      .map(row => ({ row, record: row[view] }))
+      .sort((a, b) => compareSplits(a.record!, b.record!) || a.row.rank - b.row.rank);
+  }, [rows, view]);
+
+  const zones = useMemo(
+    () => Array.from(new Set(rows.map(row => row.zone).filter((zone): zone is TableZone => !!zone))),
+    [rows]
+  );
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[56px] text-center">Pos</TableHead>
+            <TableHead>Team</TableHead>
+            <TableHead className="w-[44px] text-center">P</TableHead>
+            <TableHead className="w-[40px] text-center">W</TableHead>
+            <TableHead className="w-[40px] text-center">D</TableHead>
+            <TableHead className="w-[40px] text-center">L</TableHead>
+            <TableHead className="w-[48px] text-center hidden sm:table-cell">GF</TableHead>
+            <TableHead className="w-[48px] text-center hidden sm:table-cell">GA</TableHead>
+            <TableHead className="w-[48px] text-center">GD</TableHead>
+            <TableHead className="w-[56px] text-center font-bold">Pts</TableHead>
+            {view === 'overall' && <TableHead className="hidden md:table-cell">Form</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {displayRows.map(({ row, record }, index) => {
+            const stats = record || row;
+            const goalDifference = stats.goalsFor - stats.goalsAgainst;
+            const points = record ? record.points : row.points;
+
+            return (
+              <TableRow key={row.teamId || row.team} className={row.live ? 'bg-destructive/5' : undefined}>
+                <TableCell className="relative text-center font-bold">
+                  {view === 'overall' && row.zone && (
+                    <span
+                      className={cn('absolute left-0 top-1 bottom-1 w-1 rounded-r', ZONE_STYLES[row.zone].bar)}
+                      title={row.zoneLabel || ZONE_STYLES[row.zone].label}
+                    />
+                  )}
+                  <span className="inline-flex flex-col items-center leading-tight">
+                    {view === 'overall' ? row.rank : index + 1}
+                    {view === 'overall' && showProjection && <ProjectedMove row={row} />}
+                  </span>
+                </TableCell>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {row.badge && (
+                      <img src={row.badge} alt="" className="w-5 h-5 object-contain flex-shrink-0" loading="lazy" />
+                    )}
+                    <span className="truncate">{row.team}</span>
+                    {view === 'overall' && row.live && (
+                      <span
+                        className="flex-shrink-0 inline-flex items-center gap-1 rounded bg-destructive px-1.5 py-0.5 text-[10px] font-bold text-destructive-foreground"
+                        title={`${row.live.isHome ? 'vs' : 'at'} ${row.live.opponent}`}
+                      >
+                        <span className="w-1.5 h-1.5 bg-current rounded-full animate-pulse" />
+                        {row.live.goalsFor}-{row.live.goalsAgainst}
+                        {row.live.clock && <span className="font-medium opacity-90">{row.live.clock}</span>}
+                      </span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-center text-muted-foreground">{stats.played}</TableCell>
+                <TableCell className="text-center">{stats.wins}</TableCell>
+                <TableCell className="text-center text-muted-foreground">{stats.draws}</TableCell>
+                <TableCell className="text-center">{stats.losses}</TableCell>
+                <TableCell className="text-center text-muted-foreground hidden sm:table-cell">{stats.goalsFor}</TableCell>
+                <TableCell className="text-center text-muted-foreground hidden sm:table-cell">{stats.goalsAgainst}</TableCell>
+                <TableCell className="text-center text-muted-foreground">
+                  {goalDifference > 0 ? `+${goalDifference}` : goalDifference}
+                </TableCell>
+                <TableCell className="text-center font-bold text-primary">{points ?? '-'}</TableCell>
+                {view === 'overall' && (
+                  <TableCell className="hidden md:table-cell">
+                    <FormGuide form={row.form} />
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {view === 'overall' && zones.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 mt-4 text-xs text-muted-foreground">
+          {zones.map(zone => (
+            <span key={zone} className="inline-flex items-center gap-1.5">
+              <span className={cn('w-2.5 h-2.5 rounded-sm', ZONE_STYLES[zone].bar)} />
+              {ZONE_STYLES[zone].label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeagueTable;
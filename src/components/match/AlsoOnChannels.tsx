@@ -0,0 +1,40 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Tv } from 'lucide-react';
+import { Match } from '@/types/sports';
+import { cn } from '@/lib/utils';
+import { useMatchBroadcasts } from '@/hooks/useMatchBroadcasts';
+
+interface AlsoOnChannelsProps {
+  match: Match;
+  className?: string;
+}
+
+// "Also on: Sky Sports Main Event, beIN Sports 1" - TV channels listing this match in their guide
+const AlsoOnChannels = ({ match, className = '' }: AlsoOnChannelsProps) => {
+  const { broadcasts } = useMatchBroadcasts(match);
+
+  if (broadcasts.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2 text-sm', className)}>
+      <span className="flex items-center gap-1.5 text-muted-foreground font-medium">
+        <Tv className="h-4 w-4 text-primary" />
+        Also on:
+      </span>
+      {broadcasts.map(({ channel, country, program, channelPath }) => (
+        <Link
+          key={`${country}-${channel.id}`}
+          to={channelPath}
+          title={`${program.title} · ${format(new Date(program.startTime), 'HH:mm')} (${country})`}
+          className="px-2.5 py-1 rounded-full border border-border bg-card text-foreground hover:border-primary hover:text-primary transition-colors"
+        >
+          {channel.title}
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default AlsoOnChannels;
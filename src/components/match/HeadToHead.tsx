@@ -1,5 +1,6 @@
 import React from 'react';
 import { H2HMatch } from '@/hooks/useSportsDBMatch';
+import { teamsMatch } from '@/services/teamIdentity';
 import { Trophy, History } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -22,15 +23,13 @@ const HeadToHead: React.FC<HeadToHeadProps> = ({ h2h, homeTeam, awayTeam }) => {
   h2h.forEach((match) => {
     if (match.homeScore > match.awayScore) {
       // Check if home team in this match is our home team
-      if (match.homeTeam.toLowerCase().includes(homeTeam.toLowerCase().split(' ')[0]) ||
-          homeTeam.toLowerCase().includes(match.homeTeam.toLowerCase().split(' ')[0])) {
+      if (teamsMatch(match.homeTeam, homeTeam)) {
         homeWins++;
       } else {
         awayWins++;
       }
     } else if (match.awayScore > match.homeScore) {
-      if (match.awayTeam.toLowerCase().includes(homeTeam.toLowerCase().split(' ')[0]) ||
-          homeTeam.toLowerCase().includes(match.awayTeam.toLowerCase().split(' ')[0])) {
+      if (teamsMatch(match.awayTeam, homeTeam)) {
         homeWins++;
       } else {
         awayWins++;
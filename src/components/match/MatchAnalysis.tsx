@@ -3,6 +3,7 @@ import { Match } from '@/types/sports';
 import { Loader2, RefreshCw, MapPin, User, Clock, TrendingUp, Trophy, Target, BarChart3, Users, Shield } from 'lucide-react';
 import { useSportsDBMatch, StandingsEntry } from '@/hooks/useSportsDBMatch';
 import { MatchExtras } from '@/services/perplexityMatchService';
+import { teamsMatch } from '@/services/teamIdentity';
 import TeamLineups from './TeamLineups';
 import MatchStats from './MatchStats';
 import HeadToHead from './HeadToHead';
@@ -499,13 +500,7 @@ const StandingsTable: React.FC<{
   homeTeam: string;
   awayTeam: string;
 }> = ({ standings, homeTeam, awayTeam }) => {
-  const isHighlighted = (team: string) => {
-    const t = team.toLowerCase();
-    const h = homeTeam.toLowerCase().split(' ')[0];
-    const a = awayTeam.toLowerCase().split(' ')[0];
-    return t.includes(h) || homeTeam.toLowerCase().includes(t.split(' ')[0]) ||
-           t.includes(a) || awayTeam.toLowerCase().includes(t.split(' ')[0]);
-  };
+  const isHighlighted = (team: string) => teamsMatch(team, homeTeam) || teamsMatch(team, awayTeam);
 
   return (
     <div className="overflow-x-auto -mx-4 px-4">
@@ -40,6 +40,7 @@ const MatchBanner: React.FC<MatchBannerProps> = ({ match, streamAvailable, isMob
                   <TeamDisplay 
                     name={home} 
                     badge={match.teams?.home?.badge} 
+                    sport={match.category}
                     size="small" 
                   />
                 </div>
@@ -60,6 +61,7 @@ const MatchBanner: React.FC<MatchBannerProps> = ({ match, streamAvailable, isMob
                   <TeamDisplay 
                     name={away} 
                     badge={match.teams?.away?.badge} 
+                    sport={match.category}
                     size="small" 
                   />
                 </div>
@@ -97,6 +99,7 @@ const MatchBanner: React.FC<MatchBannerProps> = ({ match, streamAvailable, isMob
               <TeamDisplay 
                 name={home} 
                 badge={match.teams?.home?.badge} 
+                sport={match.category}
                 size="large" 
               />
               
@@ -113,6 +116,7 @@ const MatchBanner: React.FC<MatchBannerProps> = ({ match, streamAvailable, isMob
               <TeamDisplay 
                 name={away} 
                 badge={match.teams?.away?.badge} 
+                sport={match.category}
                 size="large" 
               />
             </>
@@ -5,6 +5,7 @@ import { enrichMatchesWithViewers, isMatchLive } from '@/services/viewerCountSer
 import { Flame } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { generateMatchSlug } from '@/utils/matchSlug';
+import { compareByViewers } from '@/utils/matchUtils';
 import { useTeamLogo } from '@/hooks/useTeamLogo';
 import { fetchLiveScore, LiveScore } from '@/services/liveScoreService';
 
@@ -135,7 +136,7 @@ const PopularMatchesList: React.FC<PopularMatchesListProps> = ({
         // Enrich with viewer counts
         const enriched = await enrichMatchesWithViewers(liveMatches);
         const sorted = enriched
-          .sort((a, b) => (b.viewerCount || 0) - (a.viewerCount || 0))
+          .sort(compareByViewers)
           .slice(0, 5);
         
         setPopularMatches(sorted);
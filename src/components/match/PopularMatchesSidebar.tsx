@@ -3,9 +3,10 @@ import { Match } from '@/types/sports';
 import { useSportsData } from '@/contexts/SportsDataContext';
 import { enrichMatchesWithViewers, isMatchLive } from '@/services/viewerCountService';
 import { Flame, Users } from 'lucide-react';
-import { formatViewerCount } from '@/services/viewerCountService';
+import { formatViewerCount, getViewerCountLabel } from '@/services/viewerCountService';
 import { useNavigate } from 'react-router-dom';
 import { generateMatchSlug } from '@/utils/matchSlug';
+import { compareByViewers, getViewerReading } from '@/utils/matchUtils';
 import { useTeamLogo } from '@/hooks/useTeamLogo';
 import { fetchLiveScore, LiveScore } from '@/services/liveScoreService';
 
@@ -17,7 +18,7 @@ const MatchItem: React.FC<{
 }> = ({ match, onClick, liveScore }) => {
   const homeTeam = match.teams?.home?.name || match.title.split(' vs ')[0] || 'Home';
   const awayTeam = match.teams?.away?.name || match.title.split(' vs ')[1] || 'Away';
-  const viewerCount = match.viewerCount || 0;
+  const viewers = getViewerReading(match);
   
   // Get scores - prioritize live score from API, fallback to match data
   const homeScore = liveScore?.homeScore ?? (match as any).homeScore ?? (match as any).home_score;
@@ -77,10 +78,10 @@ const MatchItem: React.FC<{
             <span className="text-xs text-muted-foreground ml-1">{matchProgress}</span>
           )}
         </span>
-        {viewerCount > 0 && (
-          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        {viewers.kind !== 'none' && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground" title={getViewerCountLabel(viewers.kind)}>
             <Users className="w-3 h-3" />
-            <span>{formatViewerCount(viewerCount, false)}</span>
+            <span>{formatViewerCount(viewers.count, false)}</span>
           </div>
         )}
       </div>
@@ -147,7 +148,7 @@ const PopularMatchesSidebar: React.FC<PopularMatchesSidebarProps> = ({
         // Enrich with viewer counts
         const enriched = await enrichMatchesWithViewers(liveMatches);
         const sorted = enriched
-          .sort((a, b) => (b.viewerCount || 0) - (a.viewerCount || 0))
+          .sort(compareByViewers)
           .slice(0, 6);
         
         setPopularMatches(sorted);
@@ -6,6 +6,7 @@ import { Loader, Play, Users } from 'lucide-react';
 import { getConnectionInfo } from '@/utils/connectionOptimizer';
 import { LiveViewerCount } from '@/components/LiveViewerCount';
 import { triggerPopunderAd } from '@/utils/popunderAd';
+import { getSourceScores } from '@/services/sourceRanking';
 
 interface StreamSourcesProps {
   sources: Source[];
@@ -143,8 +144,11 @@ const StreamSources = ({
 
     if (allAvailable.length === 0) return;
 
-    // Sort by viewer count (highest first) and auto-select immediately
-    const sorted = [...allAvailable].sort((a, b) => b.viewers - a.viewers);
+    // Best-ranked source first (learned from playback outcomes), viewers break ties
+    const scores = getSourceScores(allAvailable.map(item => item.source));
+    const sorted = [...allAvailable].sort((a, b) =>
+      ((scores.get(b.source) ?? 0) - (scores.get(a.source) ?? 0)) || (b.viewers - a.viewers)
+    );
     const bestStream = sorted[0];
 
     console.log(`🎯 Auto-selecting stream: ${bestStream.source}/${bestStream.id}`);
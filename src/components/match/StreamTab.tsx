@@ -5,6 +5,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import StreamPlayer from '@/components/StreamPlayer';
 import StreamSources from './StreamSources';
 import PopularMatchesList from './PopularMatchesList';
+import AlsoOnChannels from './AlsoOnChannels';
 import MatchCard from '@/components/MatchCard';
 import BannerAd from '@/components/BannerAd';
 import { Match as MatchType, Stream } from '@/types/sports';
@@ -14,7 +15,10 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
 import { isTrendingMatch } from '@/utils/popularLeagues';
-import { useAutoFallback } from '@/hooks/useAutoFallback';
+import { getMatchLifecycle, isLivePhase } from '@/services/matchLifecycle';
+import { useAutoFallback, FailoverReason } from '@/hooks/useAutoFallback';
+import { ToastAction } from '@/components/ui/toast';
+import { Switch } from '@/components/ui/switch';
 
 interface StreamTabProps {
   match: MatchType;
@@ -50,7 +54,16 @@ const StreamTab = ({
   const [retryCount, setRetryCount] = useState(0);
   
   // Auto-fallback hook
-  const { tryNextSource, isAutoRetrying, attemptedSourcesCount, totalSourcesCount } = useAutoFallback({
+  const {
+    tryNextSource,
+    failover,
+    undoFailover,
+    watchdogEnabled,
+    setWatchdogEnabled,
+    isAutoRetrying,
+    attemptedSourcesCount,
+    totalSourcesCount
+  } = useAutoFallback({
     allStreams,
     onSourceChange: handleSourceChange,
     currentStream: stream
@@ -122,8 +135,40 @@ const StreamTab = ({
     }
   };
   
-  // Auto-fallback handler
-  const handleAutoFallback = () => {
+  // Keyboard n / shift+n - step through streams in the order the source buttons show them
+  const switchStream = (direction: 1 | -1) => {
+    const streams = Object.values(allStreams).flat();
+    if (streams.length < 2) return;
+    const currentIndex = stream
+      ? streams.findIndex(s => s.source === stream.source && s.id === stream.id && (s.streamNo || 1) === (stream.streamNo || 1))
+      : -1;
+    const next = streams[(currentIndex + direction + streams.length) % streams.length];
+    handleSourceChange(next.source, next.id, next.streamNo || 1);
+  };
+
+  // Auto-fallback handler - the player gave up, stalled, or an embed never loaded
+  const handleAutoFallback = (reason: FailoverReason) => {
+    if (watchdogEnabled) {
+      const result = failover(reason);
+      if (result) {
+        toast({
+          title: `Switched to ${result.to.label}`,
+          description: reason === 'stall'
+            ? 'The previous stream kept buffering.'
+            : reason === 'timeout'
+              ? 'The previous stream did not load.'
+              : 'The previous stream stopped working.',
+          action: result.from ? (
+            <ToastAction altText="Go back to the previous stream" onClick={() => undoFailover(result)}>
+              Undo
+            </ToastAction>
+          ) : undefined
+        });
+        return;
+      }
+      if (reason !== 'error') return;
+    }
+
     const hasNextSource = tryNextSource();
     
     if (hasNextSource) {
@@ -146,16 +191,12 @@ const StreamTab = ({
   };
   
   const isMatchLive = (): boolean => {
-    const matchTime = typeof match.date === 'number' ? match.date : new Date(match.date).getTime();
-    const now = new Date().getTime();
-    const threeHoursInMs = 3 * 60 * 60 * 1000;
-    const oneHourInMs = 60 * 60 * 1000;
-    
+    const lifecycle = getMatchLifecycle(match);
+    // Streams open ahead of kickoff, so pre-match counts here
     return (
-      match.sources && 
-      match.sources.length > 0 && 
-      matchTime - now < oneHourInMs &&
-      now - matchTime < threeHoursInMs
+      !!match.sources &&
+      match.sources.length > 0 &&
+      (isLivePhase(lifecycle.phase) || lifecycle.phase === 'pre-match')
     );
   };
 
@@ -175,6 +216,9 @@ const StreamTab = ({
         isLoading={loadingStream || isAutoRetrying}
         onRetry={handleRetry}
         onAutoFallback={handleAutoFallback}
+        autoFailover={watchdogEnabled}
+        onNextSource={() => switchStream(1)}
+        onPreviousSource={() => switchStream(-1)}
         title={match.title}
         isManualChannel={false}
         isTvChannel={false}
@@ -185,6 +229,12 @@ const StreamTab = ({
 
       {/* Stream source buttons - sits right below the player with small gap */}
       <div className="mt-2">
+        {totalSourcesCount > 1 && (
+          <label className="flex items-center justify-end gap-2 mb-2 text-xs text-muted-foreground cursor-pointer">
+            Auto-switch if the stream fails
+            <Switch checked={watchdogEnabled} onCheckedChange={setWatchdogEnabled} aria-label="Auto-switch streams on failure" />
+          </label>
+        )}
         <StreamSources
           sources={match.sources}
           activeSource={activeSource}
@@ -196,6 +246,9 @@ const StreamTab = ({
           autoSelectByViewers={true}
         />
       </div>
+
+      {/* TV channels showing this match - a fallback when the sources above fail */}
+      <AlsoOnChannels match={match} className="mt-3" />
       
       {/* Banner Ad - Desktop: below stream links, Mobile: before Popular Now */}
       {!isMobile && (
@@ -1,5 +1,7 @@
 
 import React from 'react';
+import { useFavourites } from '@/contexts/FavouritesContext';
+import FavouriteToggle from '../FavouriteToggle';
 
 interface TeamDisplayProps {
   name: string;
@@ -7,9 +9,13 @@ interface TeamDisplayProps {
   logo?: string;
   isHome?: boolean;
   size?: 'small' | 'medium' | 'large';
+  sport?: string;
+  showFavourite?: boolean;
 }
 
-const TeamDisplay: React.FC<TeamDisplayProps> = ({ name, badge, logo, isHome = false, size = 'medium' }) => {
+const TeamDisplay: React.FC<TeamDisplayProps> = ({ name, badge, logo, isHome = false, size = 'medium', sport, showFavourite = true }) => {
+  const { isTeamFollowed, toggleTeam } = useFavourites();
+
   // Prioritize logo over badge, construct URL from streamed.pk
   const getBadgeUrl = (badgeStr: string | undefined): string => {
     if (!badgeStr) return '';
@@ -91,7 +97,17 @@ const TeamDisplay: React.FC<TeamDisplayProps> = ({ name, badge, logo, isHome = f
       >
         <span className={`${classes.fallback} font-bold text-white`}>{name.charAt(0)}</span>
       </div>
-      <h2 className={`${classes.text} font-bold text-white`}>{name}</h2>
+      <div className="flex items-center justify-center gap-1">
+        <h2 className={`${classes.text} font-bold text-white`}>{name}</h2>
+        {showFavourite && name && (
+          <FavouriteToggle
+            active={isTeamFollowed(name, sport)}
+            onToggle={() => toggleTeam({ name, sport, badge })}
+            label={name}
+            size={size === 'large' ? 'md' : 'sm'}
+          />
+        )}
+      </div>
     </div>
   );
 };
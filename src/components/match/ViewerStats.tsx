@@ -2,8 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Users, TrendingUp, TrendingDown, Eye, EyeOff } from 'lucide-react';
-import { Match } from '@/types/sports';
-import { fetchMatchViewerCount, formatViewerCount, isMatchLive } from '@/services/viewerCountService';
+import { Match, ViewerCountKind } from '@/types/sports';
+import { fetchMatchViewerCount, formatViewerCount, getViewerCountLabel, isMatchLive } from '@/services/viewerCountService';
 import { cn } from '@/lib/utils';
 import confetti from 'canvas-confetti';
 
@@ -15,6 +15,7 @@ interface ViewerStatsProps {
 export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) => {
   const [viewerCount, setViewerCount] = useState<number | null>(null);
   const [previousCount, setPreviousCount] = useState<number | null>(null);
+  const [countKind, setCountKind] = useState<ViewerCountKind>('none');
   const [trend, setTrend] = useState<'up' | 'down' | 'neutral'>('neutral');
   const [showRounded, setShowRounded] = useState(() => {
     const saved = localStorage.getItem('viewer-count-format');
@@ -31,9 +32,9 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
 
     const fetchCount = async () => {
       try {
-        const count = await fetchMatchViewerCount(match);
+        const { count, kind } = await fetchMatchViewerCount(match);
 
-        if (count !== null && count > 0) {
+        if (kind !== 'none') {
           // Trigger celebration for high viewer counts with confetti
           if (count > 10000 && viewerCount !== null && count > viewerCount) {
             setShowConfetti(true);
@@ -69,8 +70,11 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
             }, 250);
           }
 
-          // Calculate trend
-          if (previousCount !== null) {
+          // Calculate trend - only between counts from the same place
+          const sameKind = kind === countKind;
+          if (!sameKind) {
+            setTrend('neutral');
+          } else if (previousCount !== null) {
             if (count > previousCount) {
               setTrend('up');
             } else if (count < previousCount) {
@@ -82,8 +86,9 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
 
           // Animate count change
           setIsAnimating(true);
-          setPreviousCount(viewerCount);
+          setPreviousCount(sameKind ? viewerCount : null);
           setViewerCount(count);
+          setCountKind(kind);
           setTimeout(() => setIsAnimating(false), 500);
         }
       } catch (error) {
@@ -95,7 +100,7 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
     const interval = setInterval(fetchCount, 30000); // Update every 30 seconds
 
     return () => clearInterval(interval);
-  }, [match.id, viewerCount, previousCount]);
+  }, [match.id, viewerCount, previousCount, countKind]);
 
   // Toggle format preference
   const toggleFormat = () => {
@@ -108,7 +113,7 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
     return null;
   }
 
-  if (viewerCount === null || viewerCount === 0) {
+  if (viewerCount === null || countKind === 'none') {
     return (
       <Card className={cn('p-4 bg-card border-border', className)}>
         <div className="flex items-center gap-2 text-muted-foreground">
@@ -143,14 +148,16 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
               <Users className="w-6 h-6 text-sports-primary" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Live Viewers</p>
+              <p className="text-sm text-muted-foreground">
+                {countKind === 'measured' ? 'Watching on DamiTV' : 'Live Viewers'}
+              </p>
               <div className="flex items-center gap-2">
                 <span 
                   className={cn(
                     'text-3xl font-bold text-foreground transition-all duration-500 animate-counter-up',
                     isAnimating && 'scale-110'
                   )}
-                  title="Live viewers from stream source"
+                  title={getViewerCountLabel(countKind)}
                 >
                   {formatViewerCount(viewerCount, showRounded)}
                 </span>
@@ -197,7 +204,7 @@ export const ViewerStats: React.FC<ViewerStatsProps> = ({ match, className }) =>
 
         {/* Data source info */}
         <p className="text-xs text-muted-foreground">
-          Live viewer count • Updates every 30 seconds
+          {countKind === 'measured' ? 'Measured on DamiTV' : 'Reported by the stream source'} • Updates every 30 seconds
         </p>
       </div>
     </Card>
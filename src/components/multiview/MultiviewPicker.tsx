@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Tv } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useSportsData } from '@/contexts/SportsDataContext';
+import { useFeaturedChannels, useChannelSearch } from '@/hooks/useCDNChannels';
+import { MultiviewTile, getTileKey } from '@/utils/multiviewLayout';
+
+interface MultiviewPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (tile: MultiviewTile) => void;
+  selectedKeys: string[];   // tiles already on the grid
+}
+
+const MAX_RESULTS = 40;
+
+const MultiviewPicker: React.FC<MultiviewPickerProps> = ({ open, onOpenChange, onSelect, selectedKeys }) => {
+  const [query, setQuery] = useState('');
+  const { allMatches, liveMatches } = useSportsData();
+  const { channels: featuredChannels, isLoading: channelsLoading } = useFeaturedChannels(24);
+  const { results: channelResults, isSearching } = useChannelSearch(query);
+
+  // Live first, then what starts soonest
+  const matches = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    const liveIds = new Set(liveMatches.map(m => m.id));
+    const pool = search
+      ? allMatches.filter(m => m.title.toLowerCase().includes(search))
+      : [...liveMatches, ...allMatches.filter(m => !liveIds.has(m.id) && m.date > Date.now())];
+
+    return pool
+      .filter(m => m.sources?.length > 0)
+      .sort((a, b) => Number(liveIds.has(b.id)) - Number(liveIds.has(a.id)) || a.date - b.date)
+      .slice(0, MAX_RESULTS)
+      .map(m => ({ match: m, isLive: liveIds.has(m.id) }));
+  }, [query, allMatches, liveMatches]);
+
+  const channels = (query.trim() ? channelResults : featuredChannels).slice(0, MAX_RESULTS);
+
+  const handleSelect = (tile: MultiviewTile) => {
+    onSelect(tile);
+    onOpenChange(false);
+    setQuery('');
+  };
+
+  const itemClass = (key: string) =>
+    `w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+      selectedKeys.includes(key) ? 'opacity-50 cursor-not-allowed' : 'hover:bg-white/10'
+    }`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-[#0d1220] border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle>Add to multi-view</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Pick a match or a TV channel for this tile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+          <Input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Search matches or channels"
+            className="pl-9 bg-[#151922] border-white/10"
+            aria-label="Search matches or channels"
+          />
+        </div>
+
+        <Tabs defaultValue="matches">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="matches">Matches</TabsTrigger>
+            <TabsTrigger value="channels">Channels</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="matches">
+            <ScrollArea className="h-80">
+              {matches.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-400">No matches found</p>
+              ) : (
+                <div className="space-y-1 pr-3">
+                  {matches.map(({ match, isLive }) => {
+                    const tile: MultiviewTile = {
+                      kind: 'match',
+                      sportId: match.category || match.sportId || 'football',
+                      matchId: match.id
+                    };
+                    const key = getTileKey(tile);
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => handleSelect(tile)}
+                        disabled={selectedKeys.includes(key)}
+                        className={itemClass(key)}
+                      >
+                        <span className="flex-1 min-w-0 truncate">{match.title}</span>
+                        {isLive ? (
+                          <span className="text-xs bg-red-500 text-white px-1.5 py-0.5 rounded">LIVE</span>
+                        ) : (
+                          <span className="text-xs text-gray-400">
+                            {new Date(match.date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="channels">
+            <ScrollArea className="h-80">
+              {channelsLoading || isSearching ? (
+                <p className="py-8 text-center text-sm text-gray-400">Loading channels...</p>
+              ) : channels.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-400">No channels found</p>
+              ) : (
+                <div className="space-y-1 pr-3">
+                  {channels.map(channel => {
+                    const tile: MultiviewTile = { kind: 'channel', country: channel.country, channelId: channel.id };
+                    const key = getTileKey(tile);
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => handleSelect(tile)}
+                        disabled={selectedKeys.includes(key)}
+                        className={itemClass(key)}
+                      >
+                        {channel.logo ? (
+                          <img src={channel.logo} alt="" className="h-6 w-6 object-contain" />
+                        ) : (
+                          <Tv className="h-5 w-5 text-gray-400" />
+                        )}
+                        <span className="flex-1 min-w-0 truncate">{channel.title}</span>
+                        <span className="text-xs text-gray-400 uppercase">{channel.country}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MultiviewPicker;
@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GripVertical, Plus, Volume2, VolumeX, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import SimpleVideoPlayer from '@/components/StreamPlayer/SimpleVideoPlayer';
+import { useStreamPlayer } from '@/hooks/useStreamPlayer';
+import { useAutoFallback } from '@/hooks/useAutoFallback';
+import { useWatchOpenMatch } from '@/hooks/useMatchEventWatcher';
+import { useCDNChannel } from '@/hooks/useCDNChannels';
+import { useSportsData } from '@/contexts/SportsDataContext';
+import { fetchMatch } from '@/api/sportsApi';
+import { findMatchById } from '@/services/matchIdentity';
+import { teamLogoService } from '@/services/teamLogoService';
+import { Match, Stream } from '@/types/sports';
+import { MultiviewTile as MultiviewTileData } from '@/utils/multiviewLayout';
+
+interface MultiviewTileProps {
+  tile: MultiviewTileData | null;
+  index: number;
+  hasAudio: boolean;
+  isDragging: boolean;          // a tile is being dragged somewhere on the grid
+  onClaimAudio: () => void;
+  onPick: () => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+}
+
+interface TilePlayerProps {
+  hasAudio: boolean;
+  onClaimAudio: () => void;
+  header: (title: string, extra?: React.ReactNode) => React.ReactNode;
+}
+
+const streamKey = (stream: Pick<Stream, 'source' | 'id' | 'streamNo'>) =>
+  `${stream.source}/${stream.id}/${stream.streamNo || 1}`;
+
+// Match tile - its own stream player, so every tile switches sources independently
+const MatchTilePlayer: React.FC<TilePlayerProps & { sportId: string; matchId: string }> = ({
+  sportId,
+  matchId,
+  hasAudio,
+  onClaimAudio,
+  header
+}) => {
+  const { allMatches } = useSportsData();
+  const [match, setMatch] = useState<Match | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const { currentStream, allStreams, handleMatchSelect, handleSourceChange } = useStreamPlayer();
+  useWatchOpenMatch(match);
+  const { tryNextSource } = useAutoFallback({ allStreams, onSourceChange: handleSourceChange, currentStream });
+
+  const allMatchesRef = useRef(allMatches);
+  allMatchesRef.current = allMatches;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadMatch = async () => {
+      setLoadError(false);
+      try {
+        const matchData = findMatchById(allMatchesRef.current, matchId) || await fetchMatch(sportId, matchId);
+        if (cancelled) return;
+        const enhancedMatch = teamLogoService.enhanceMatchWithLogos(matchData);
+        setMatch(enhancedMatch);
+        await handleMatchSelect(enhancedMatch);
+      } catch (error) {
+        console.error('📺 Multi-view: error loading match:', error);
+        if (!cancelled) setLoadError(true);
+      }
+    };
+
+    loadMatch();
+    return () => { cancelled = true; };
+  }, [sportId, matchId, handleMatchSelect]);
+
+  const streams = Object.values(allStreams).flat();
+  const title = match
+    ? (match.teams?.home?.name && match.teams?.away?.name
+      ? `${match.teams.home.name} vs ${match.teams.away.name}`
+      : match.title)
+    : 'Loading match...';
+
+  const switchStream = (direction: 1 | -1) => {
+    if (streams.length < 2) return;
+    const currentIndex = currentStream ? streams.findIndex(s => streamKey(s) === streamKey(currentStream)) : -1;
+    const next = streams[(currentIndex + direction + streams.length) % streams.length];
+    handleSourceChange(next.source, next.id, next.streamNo || 1);
+  };
+
+  const sourceSelect = streams.length > 1 && (
+    <Select
+      value={currentStream ? streamKey(currentStream) : undefined}
+      onValueChange={value => {
+        const next = streams.find(s => streamKey(s) === value);
+        if (next) handleSourceChange(next.source, next.id, next.streamNo || 1);
+      }}
+    >
+      <SelectTrigger className="h-7 w-[9.5rem] text-xs bg-black/40 border-white/10" aria-label="Stream source">
+        <SelectValue placeholder="Source" />
+      </SelectTrigger>
+      <SelectContent>
+        {streams.map((stream, index) => (
+          <SelectItem key={streamKey(stream)} value={streamKey(stream)} className="text-xs">
+            {stream.name || `Source ${index + 1}`} ({[stream.language || 'EN', stream.hd ? 'HD' : null].filter(Boolean).join(', ')})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <>
+      {header(loadError ? 'Match unavailable' : title, sourceSelect)}
+      <SimpleVideoPlayer
+        stream={currentStream}
+        isLoading={!match && !loadError}
+        onRetry={match ? () => handleMatchSelect(match) : undefined}
+        isTheaterMode
+        onAutoFallback={() => tryNextSource()}
+        onNextSource={() => switchStream(1)}
+        onPreviousSource={() => switchStream(-1)}
+        shortcutsEnabled={hasAudio}
+        embedSuspended={!hasAudio}
+        onResumeEmbed={onClaimAudio}
+        match={match}
+      />
+    </>
+  );
+};
+
+// Channel tile - same stream shape the channel page builds
+const ChannelTilePlayer: React.FC<TilePlayerProps & { country: string; channelId: string }> = ({
+  country,
+  channelId,
+  hasAudio,
+  onClaimAudio,
+  header
+}) => {
+  const { channel, isLoading, error } = useCDNChannel(country, channelId);
+
+  const stream: Stream | null = channel ? {
+    id: channel.id,
+    streamNo: 1,
+    language: 'English',
+    hd: true,
+    embedUrl: channel.embedUrl,
+    source: 'TV Channel'
+  } : null;
+
+  return (
+    <>
+      {header(channel?.title || (error ? 'Channel unavailable' : 'Loading channel...'))}
+      <SimpleVideoPlayer
+        stream={stream}
+        isLoading={isLoading}
+        isTheaterMode
+        shortcutsEnabled={hasAudio}
+        embedSuspended={!hasAudio}
+        onResumeEmbed={onClaimAudio}
+      />
+    </>
+  );
+};
+
+/**
+ * One multi-view slot: a match or channel player, or an empty slot to fill
+ * Only the tile with audio focus keeps its sound (and keyboard shortcuts); native video in
+ * every other tile is muted. Embedded (iframe) players can't be muted from here, so the
+ * other tiles unload theirs and show a click-to-play poster until they get the focus.
+ */
+const MultiviewTile: React.FC<MultiviewTileProps> = ({
+  tile,
+  index,
+  hasAudio,
+  isDragging,
+  onClaimAudio,
+  onPick,
+  onRemove,
+  onDragStart,
+  onDragEnd,
+  onDrop
+}) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const hasAudioRef = useRef(hasAudio);
+  hasAudioRef.current = hasAudio;
+  const onClaimAudioRef = useRef(onClaimAudio);
+  onClaimAudioRef.current = onClaimAudio;
+
+  // Hand sound over when the audio focus moves
+  useEffect(() => {
+    frameRef.current?.querySelectorAll('video').forEach(video => {
+      video.muted = !hasAudio;
+    });
+  }, [hasAudio, tile]);
+
+  // Media events don't bubble - listen in the capture phase for videos the players (re)create
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+
+    const keepMuted = (event: Event) => {
+      const video = event.target;
+      if (video instanceof HTMLVideoElement && !hasAudioRef.current) video.muted = true;
+    };
+
+    // Unmuting a background tile from its own controls moves the audio focus there
+    const handleVolumeChange = (event: Event) => {
+      const video = event.target;
+      if (video instanceof HTMLVideoElement && !video.muted && !hasAudioRef.current) {
+        onClaimAudioRef.current();
+      }
+    };
+
+    frame.addEventListener('loadedmetadata', keepMuted, true);
+    frame.addEventListener('playing', keepMuted, true);
+    frame.addEventListener('volumechange', handleVolumeChange, true);
+    return () => {
+      frame.removeEventListener('loadedmetadata', keepMuted, true);
+      frame.removeEventListener('playing', keepMuted, true);
+      frame.removeEventListener('volumechange', handleVolumeChange, true);
+    };
+  }, []);
+
+  const header = (title: string, extra?: React.ReactNode) => (
+    <div className="flex items-center gap-2 px-2 py-1.5 bg-[#151922] border-b border-white/10">
+      <span
+        draggable
+        onDragStart={event => {
+          event.dataTransfer.effectAllowed = 'move';
+          event.dataTransfer.setData('text/plain', String(index));
+          onDragStart();
+        }}
+        onDragEnd={onDragEnd}
+        className="cursor-grab active:cursor-grabbing text-gray-500 hover:text-white"
+        title="Drag to reorder"
+        aria-hidden="true"
+      >
+        <GripVertical className="h-4 w-4" />
+      </span>
+      <span className="flex-1 min-w-0 truncate text-sm font-semibold text-white">{title}</span>
+      {extra}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onClaimAudio}
+        className={`h-7 w-7 ${hasAudio ? 'text-primary' : 'text-gray-400'} hover:bg-white/10`}
+        aria-label={hasAudio ? 'Playing sound from this tile' : 'Play sound from this tile'}
+        aria-pressed={hasAudio}
+        title={hasAudio ? 'Sound on' : 'Listen to this tile'}
+      >
+        {hasAudio ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        className="h-7 w-7 text-gray-400 hover:text-white hover:bg-white/10"
+        aria-label={`Remove ${title}`}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div
+      ref={frameRef}
+      className={`relative rounded-2xl overflow-hidden bg-black border transition-colors ${
+        isDropTarget ? 'border-primary' : hasAudio && tile ? 'border-primary/60' : 'border-white/10'
+      }`}
+      onPointerDown={() => tile && !hasAudio && onClaimAudio()}
+      onFocus={() => tile && !hasAudio && onClaimAudio()}
+      onDragOver={event => {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+      }}
+      onDragEnter={() => setIsDropTarget(true)}
+      onDragLeave={event => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDropTarget(false);
+      }}
+      onDrop={event => {
+        event.preventDefault();
+        setIsDropTarget(false);
+        onDrop();
+      }}
+    >
+      {tile?.kind === 'match' && (
+        <MatchTilePlayer sportId={tile.sportId} matchId={tile.matchId} hasAudio={hasAudio} onClaimAudio={onClaimAudio} header={header} />
+      )}
+      {tile?.kind === 'channel' && (
+        <ChannelTilePlayer country={tile.country} channelId={tile.channelId} hasAudio={hasAudio} onClaimAudio={onClaimAudio} header={header} />
+      )}
+      {!tile && (
+        <button
+          onClick={onPick}
+          className="w-full aspect-video flex flex-col items-center justify-center gap-2 text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+        >
+          <Plus className="h-8 w-8" />
+          <span className="text-sm font-medium">Add a match or channel</span>
+        </button>
+      )}
+
+      {/* Iframes swallow drag events - cover them while a tile is dragged */}
+      {isDragging && <div className="absolute inset-0 z-40" />}
+    </div>
+  );
+};
+
+export default MultiviewTile;
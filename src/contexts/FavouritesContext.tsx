@@ -0,0 +1,137 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Favourites,
+  FavouriteTeam,
+  FavouriteLeague,
+  loadLocalFavourites,
+  saveLocalFavourites,
+  loadRemoteFavourites,
+  saveRemoteFavourites,
+  getCurrentUserId,
+  mergeFavourites
+} from '@/services/favouritesService';
+import { teamsMatch } from '@/services/teamIdentity';
+
+interface FavouritesContextType {
+  favourites: Favourites;
+  hasFavourites: boolean;
+  isTeamFollowed: (name: string, sport?: string) => boolean;
+  isLeagueFollowed: (id: string) => boolean;
+  toggleTeam: (team: FavouriteTeam) => void;
+  toggleLeague: (league: FavouriteLeague) => void;
+}
+
+const FavouritesContext = createContext<FavouritesContextType | undefined>(undefined);
+
+const findTeamIndex = (teams: FavouriteTeam[], name: string, sport?: string): number => {
+  return teams.findIndex(t =>
+    (!t.sport || !sport || t.sport === sport) &&
+    (t.name.toLowerCase() === name.toLowerCase() || teamsMatch(t.name, name, t.sport || sport))
+  );
+};
+
+export const FavouritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Local favourites are available synchronously for instant render
+  const [favourites, setFavourites] = useState<Favourites>(() => loadLocalFavourites());
+  const [userId, setUserId] = useState<string | null>(null);
+  const userIdRef = useRef<string | null>(null);
+  // Toggles work out (and save) the next set from here rather than inside a setState
+  // updater, which StrictMode runs twice
+  const favouritesRef = useRef(favourites);
+
+  // Pick up the signed-in user and their profile favourites
+  useEffect(() => {
+    let isMounted = true;
+
+    const syncUser = async (id: string | null) => {
+      userIdRef.current = id;
+      setUserId(id);
+      if (!id) return;
+
+      const remote = await loadRemoteFavourites(id);
+      if (!isMounted || !remote) return;
+
+      // Keep anything followed while anonymous, then write the merged set back to the profile
+      const merged = mergeFavourites(remote, loadLocalFavourites());
+      favouritesRef.current = merged;
+      setFavourites(merged);
+      saveLocalFavourites(merged);
+      saveRemoteFavourites(id, merged);
+    };
+
+    getCurrentUserId().then(id => {
+      if (isMounted) syncUser(id);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event: string, session: { user?: { id: string } } | null) => {
+      const id = session?.user?.id || null;
+      if (id !== userIdRef.current) syncUser(id);
+    });
+
+    return () => {
+      isMounted = false;
+      data?.subscription?.unsubscribe();
+    };
+  }, []);
+
+  const update = useCallback((next: Favourites) => {
+    favouritesRef.current = next;
+    setFavourites(next);
+    saveLocalFavourites(next);
+    if (userId) {
+      saveRemoteFavourites(userId, next);
+    }
+  }, [userId]);
+
+  const toggleTeam = useCallback((team: FavouriteTeam) => {
+    const prev = favouritesRef.current;
+    const index = findTeamIndex(prev.teams, team.name, team.sport);
+    const teams = index >= 0
+      ? prev.teams.filter((_, i) => i !== index)
+      : [...prev.teams, team];
+    update({ ...prev, teams });
+  }, [update]);
+
+  const toggleLeague = useCallback((league: FavouriteLeague) => {
+    const prev = favouritesRef.current;
+    const exists = prev.leagues.some(l => l.id === league.id);
+    const leagues = exists
+      ? prev.leagues.filter(l => l.id !== league.id)
+      : [...prev.leagues, league];
+    update({ ...prev, leagues });
+  }, [update]);
+
+  const isTeamFollowed = useCallback(
+    (name: string, sport?: string) => !!name && findTeamIndex(favourites.teams, name, sport) >= 0,
+    [favourites.teams]
+  );
+
+  const isLeagueFollowed = useCallback(
+    (id: string) => favourites.leagues.some(l => l.id === id),
+    [favourites.leagues]
+  );
+
+  const value = useMemo(() => ({
+    favourites,
+    hasFavourites: favourites.teams.length > 0 || favourites.leagues.length > 0,
+    isTeamFollowed,
+    isLeagueFollowed,
+    toggleTeam,
+    toggleLeague
+  }), [favourites, isTeamFollowed, isLeagueFollowed, toggleTeam, toggleLeague]);
+
+  return (
+    <FavouritesContext.Provider value={value}>
+      {children}
+    </FavouritesContext.Provider>
+  );
+};
+
+export const useFavourites = (): FavouritesContextType => {
+  const context = useContext(FavouritesContext);
+  if (context === undefined) {
+    throw new Error('useFavourites must be used within FavouritesProvider');
+  }
+  return context;
+};
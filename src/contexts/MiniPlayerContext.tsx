@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Match, Stream } from '@/types/sports';
+
+// The stream a Match / ChannelPlayer page is showing, kept alive after the page unmounts
+export interface MiniPlayerSession {
+  stream: Stream;
+  title: string;
+  returnPath: string; // page to expand back to
+  match?: Match;      // keeps the live score going while docked
+}
+
+interface MiniPlayerContextType {
+  session: MiniPlayerSession | null;
+  isDocked: boolean; // user has left the player pages - the mini-player takes over
+  startSession: (session: MiniPlayerSession) => void;
+  closeSession: () => void;
+  expand: () => void;
+}
+
+// Pages with a player of their own (match, channel, multi-view) - docking over one of
+// them would play two streams with sound at once
+const PLAYER_ROUTE = /^\/(match|manual-match|custom-match|m|channel)\/|^\/multiview\/?$/;
+
+const MiniPlayerContext = createContext<MiniPlayerContextType | undefined>(undefined);
+
+const isSameSession = (a: MiniPlayerSession | null, b: MiniPlayerSession) =>
+  !!a &&
+  a.returnPath === b.returnPath &&
+  a.match?.id === b.match?.id &&
+  a.title === b.title &&
+  a.stream.embedUrl === b.stream.embedUrl &&
+  a.stream.source === b.stream.source &&
+  a.stream.id === b.stream.id &&
+  a.stream.streamNo === b.stream.streamNo;
+
+export const MiniPlayerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<MiniPlayerSession | null>(null);
+
+  const startSession = useCallback((next: MiniPlayerSession) => {
+    setSession(prev => (isSameSession(prev, next) ? prev : next));
+  }, []);
+
+  const closeSession = useCallback(() => {
+    setSession(null);
+  }, []);
+
+  const expand = useCallback(() => {
+    if (session) navigate(session.returnPath);
+  }, [session, navigate]);
+
+  const isDocked = !!session && !PLAYER_ROUTE.test(location.pathname);
+
+  const value = useMemo(() => ({
+    session,
+    isDocked,
+    startSession,
+    closeSession,
+    expand
+  }), [session, isDocked, startSession, closeSession, expand]);
+
+  return (
+    <MiniPlayerContext.Provider value={value}>
+      {children}
+    </MiniPlayerContext.Provider>
+  );
+};
+
+export const useMiniPlayer = (): MiniPlayerContextType => {
+  const context = useContext(MiniPlayerContext);
+  if (context === undefined) {
+    throw new Error('useMiniPlayer must be used within MiniPlayerProvider');
+  }
+  return context;
+};
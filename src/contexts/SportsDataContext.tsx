@@ -1,7 +1,10 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Sport, Match } from '@/types/sports';
 import { fetchSports, fetchAllMatches, fetchMatches } from '@/api/sportsApi';
-import { consolidateMatches, filterCleanMatches } from '@/utils/matchUtils';
+import { compareByViewers, consolidateMatches, filterCleanMatches, getViewerReading, isMatchLive } from '@/utils/matchUtils';
+import { createCache } from '@/services/cacheService';
+import { refreshMatchStatuses } from '@/services/matchLifecycle';
+import { useLifecycleClock } from '@/hooks/useMatchLifecycle';
 
 interface SportsDataContextType {
   sports: Sport[];
@@ -14,12 +17,29 @@ interface SportsDataContextType {
 
 const SportsDataContext = createContext<SportsDataContextType | undefined>(undefined);
 
-// Cache duration: 5 minutes for refresh, 2 hours for localStorage
+// Cache duration: 5 minutes for refresh, 2 hours for the persisted cache
 const REFRESH_INTERVAL = 5 * 60 * 1000;
-const CACHE_KEY = 'damitv_matches_cache_v2';
-const SPORTS_CACHE_KEY = 'damitv_sports_cache_v2';
-const CACHE_EXPIRY = 2 * 60 * 60 * 1000; // 2 hours localStorage cache
+const STATUS_REFRESH_INTERVAL = 60 * 1000; // livescore statuses for matches around kickoff
+const CACHE_EXPIRY = 2 * 60 * 60 * 1000; // 2 hours persisted cache
 const STALE_WHILE_REVALIDATE = 30 * 60 * 1000; // Show stale data for 30 mins while fetching
+const LEGACY_CACHE_KEYS = ['damitv_matches_cache_v2', 'damitv_sports_cache_v2'];
+
+const cachePolicy = {
+  ttl: STALE_WHILE_REVALIDATE,
+  staleTtl: CACHE_EXPIRY - STALE_WHILE_REVALIDATE,
+  maxEntries: 1,
+  persist: true
+};
+const matchesCache = createCache<Match[]>('context-matches', cachePolicy);
+const sportsCache = createCache<Sport[]>('context-sports', cachePolicy);
+
+// Last full snapshot, kept much longer so the schedule can still be browsed offline
+const OFFLINE_SNAPSHOT_EXPIRY = 7 * 24 * 60 * 60 * 1000; // 7 days
+const offlineSnapshot = createCache<{ matches: Match[]; sports: Sport[] }>('context-offline-snapshot', {
+  ttl: OFFLINE_SNAPSHOT_EXPIRY,
+  maxEntries: 1,
+  persist: true
+});
 
 // Default sports (instant render, no API call needed)
 const DEFAULT_SPORTS: Sport[] = [
@@ -35,45 +55,71 @@ const DEFAULT_SPORTS: Sport[] = [
   { id: 'motorsport', name: 'Motorsport' }
 ];
 
-// Load cached data from localStorage - returns data even if stale (for instant render)
-const loadFromCache = (): { matches: Match[]; sports: Sport[]; isStale: boolean } | null => {
+type CachedSportsData = { matches: Match[]; sports: Sport[]; isStale: boolean };
+
+const toCachedData = (
+  matchesEntry: { data: Match[]; timestamp: number } | undefined,
+  sportsEntry: { data: Sport[] } | undefined
+): CachedSportsData | null => {
+  // Return cached data even if stale (up to 2 hours) for instant render
+  if (matchesEntry && matchesCache.isServable(matchesEntry) && Array.isArray(matchesEntry.data) && matchesEntry.data.length > 0) {
+    return {
+      matches: matchesEntry.data,
+      sports: sportsEntry?.data || DEFAULT_SPORTS,
+      isStale: !matchesCache.isFresh(matchesEntry)
+    };
+  }
+  return null;
+};
+
+// Cached data already in memory (e.g. provider remounted) - synchronous, no render delay
+const loadFromMemory = (): CachedSportsData | null =>
+  toCachedData(matchesCache.peek('all'), sportsCache.peek('all'));
+
+// Cached data from the persisted tier - returns data even if stale
+const loadFromCache = async (): Promise<CachedSportsData | null> => {
   try {
-    const cached = localStorage.getItem(CACHE_KEY);
-    const sportsCached = localStorage.getItem(SPORTS_CACHE_KEY);
-    
-    if (cached) {
-      const { data, timestamp } = JSON.parse(cached);
-      const sportsData = sportsCached ? JSON.parse(sportsCached).data : DEFAULT_SPORTS;
-      const age = Date.now() - timestamp;
-      
-      // Return cached data even if stale (up to 2 hours) for instant render
-      if (age < CACHE_EXPIRY && Array.isArray(data) && data.length > 0) {
-        const isStale = age > STALE_WHILE_REVALIDATE;
-        console.log(`📦 Loading from cache (${isStale ? 'stale' : 'fresh'}, ${Math.round(age / 60000)}min old)`);
-        return { matches: data, sports: sportsData, isStale };
+    LEGACY_CACHE_KEYS.forEach(key => localStorage.removeItem(key));
+
+    const [matchesEntry, sportsEntry] = await Promise.all([
+      matchesCache.peekAsync('all'),
+      sportsCache.peekAsync('all')
+    ]);
+    const cached = toCachedData(matchesEntry, sportsEntry);
+    if (cached && matchesEntry) {
+      const age = Date.now() - matchesEntry.timestamp;
+      console.log(`📦 Loading from cache (${cached.isStale ? 'stale' : 'fresh'}, ${Math.round(age / 60000)}min old)`);
+      return cached;
+    }
+
+    // Offline with nothing recent - fall back to the last full snapshot
+    if (!navigator.onLine) {
+      const snapshot = await offlineSnapshot.peekAsync('all');
+      if (snapshot && offlineSnapshot.isServable(snapshot) && snapshot.data.matches.length > 0) {
+        console.log(`📴 Offline: loading snapshot from ${new Date(snapshot.timestamp).toLocaleString()}`);
+        return { matches: snapshot.data.matches, sports: snapshot.data.sports, isStale: true };
       }
     }
+    return null;
   } catch (e) {
     console.log('Cache read error:', e);
+    return null;
   }
-  return null;
 };
 
-// Save to localStorage cache
-const saveToCache = (matches: Match[], sports: Sport[]) => {
-  try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify({ data: matches, timestamp: Date.now() }));
-    localStorage.setItem(SPORTS_CACHE_KEY, JSON.stringify({ data: sports, timestamp: Date.now() }));
-    console.log(`💾 Saved ${matches.length} matches to cache`);
-  } catch (e) {
-    console.log('Cache write error:', e);
+// Save to the persisted cache (complete lists also become the offline snapshot)
+const saveToCache = (matches: Match[], sports: Sport[], complete = false) => {
+  matchesCache.set('all', matches);
+  sportsCache.set('all', sports);
+  if (complete) {
+    offlineSnapshot.set('all', { matches, sports });
   }
+  console.log(`💾 Saved ${matches.length} matches to cache`);
 };
 
 export const SportsDataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Load cached data immediately on mount (synchronous, no render delay)
-  const cachedData = useMemo(() => loadFromCache(), []);
-  const needsBackgroundRefresh = useMemo(() => cachedData?.isStale ?? true, []);
+  // Use data already in memory immediately; the persisted cache is read on mount
+  const cachedData = useMemo(() => loadFromMemory(), []);
 
   // Initialize with cached data or defaults for INSTANT render
   const [sports, setSports] = useState<Sport[]>(cachedData?.sports || DEFAULT_SPORTS);
@@ -133,8 +179,8 @@ export const SportsDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setAllMatches(consolidatedMatches);
         setLastFetch(Date.now());
 
-        // Save to localStorage for instant load next time
-        saveToCache(consolidatedMatches, sortedSports);
+        // Save to the persisted cache for instant load next time
+        saveToCache(consolidatedMatches, sortedSports, true);
 
         console.log(
           `✅ SportsDataContext: Loaded ${sortedSports.length} sports, ${consolidatedMatches.length} matches`
@@ -148,28 +194,65 @@ export const SportsDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     [lastFetch, allMatches.length, sports.length]
   );
 
+  // Keep a handle on the latest fetchData for callbacks scheduled before a re-render
+  const fetchDataRef = useRef(fetchData);
+  useEffect(() => {
+    fetchDataRef.current = fetchData;
+  }, [fetchData]);
+
   // Initial fetch - use requestIdleCallback for non-blocking fetch if we have cached data
   useEffect(() => {
-    if (cachedData?.matches?.length && !needsBackgroundRefresh) {
-      // We have fresh cached data, no need to fetch immediately
-      console.log('📦 Using fresh cache, skipping initial fetch');
-      return;
-    }
+    let cancelled = false;
 
-    // If we have stale data, show it immediately and refresh in background
-    if (cachedData?.matches?.length && needsBackgroundRefresh) {
-      console.log('🔄 Stale cache detected, refreshing in background...');
-      // Use requestIdleCallback for non-blocking background refresh
-      if ('requestIdleCallback' in window) {
-        (window as any).requestIdleCallback(() => fetchData(true), { timeout: 2000 });
-      } else {
-        setTimeout(() => fetchData(true), 100);
+    const init = async () => {
+      const cached = cachedData || await loadFromCache();
+      if (cancelled) return;
+
+      if (cached && !cachedData) {
+        setSports(cached.sports);
+        setAllMatches(cached.matches);
+        setLoading(false);
       }
-      return;
-    }
 
-    // No cached data, fetch immediately
-    fetchData();
+      if (cached?.matches?.length && !cached.isStale) {
+        // We have fresh cached data, no need to fetch immediately
+        console.log('📦 Using fresh cache, skipping initial fetch');
+        setLastFetch(Date.now());
+        return;
+      }
+
+      // If we have stale data, show it immediately and refresh in background
+      if (cached?.matches?.length) {
+        console.log('🔄 Stale cache detected, refreshing in background...');
+        // Use requestIdleCallback for non-blocking background refresh
+        if ('requestIdleCallback' in window) {
+          (window as any).requestIdleCallback(() => fetchDataRef.current(true), { timeout: 2000 });
+        } else {
+          setTimeout(() => fetchDataRef.current(true), 100);
+        }
+        return;
+      }
+
+      // No cached data, fetch immediately
+      fetchDataRef.current();
+    };
+
+    init();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Refresh as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      console.log('🌐 Back online, refreshing matches...');
+      fetchDataRef.current(true);
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, []);
 
   // Background refresh every 5 minutes
@@ -186,26 +269,29 @@ export const SportsDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     return () => clearInterval(interval);
   }, [fetchData]);
 
-  // Compute live matches from allMatches
-  const liveMatches = useMemo(() => {
-    const now = Date.now();
-    const sixHoursInMs = 6 * 60 * 60 * 1000;
-    const oneHourInMs = 60 * 60 * 1000;
-
-    return allMatches.filter(match => {
-      const matchTime = match.date;
-      return match.sources && 
-             match.sources.length > 0 && 
-             matchTime - now < oneHourInMs && 
-             now - matchTime < sixHoursInMs;
-    }).sort((a, b) => b.date - a.date);
+  // Feed statuses for matches around kickoff or in play - they override the schedule
+  useEffect(() => {
+    if (allMatches.length === 0) return;
+
+    refreshMatchStatuses(allMatches);
+    const interval = setInterval(() => refreshMatchStatuses(allMatches), STATUS_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
   }, [allMatches]);
 
+  const lifecycleNow = useLifecycleClock();
+
+  // Live (in play or at a break) per the match lifecycle, latest kickoff first
+  const liveMatches = useMemo(() => {
+    return allMatches
+      .filter(match => match.sources && match.sources.length > 0 && isMatchLive(match, lifecycleNow))
+      .sort((a, b) => b.date - a.date);
+  }, [allMatches, lifecycleNow]);
+
   // Compute popular matches (with viewer counts)
   const popularMatches = useMemo(() => {
     return liveMatches
-      .filter(m => (m.viewerCount || 0) > 0)
-      .sort((a, b) => (b.viewerCount || 0) - (a.viewerCount || 0))
+      .filter(m => getViewerReading(m).kind !== 'none')
+      .sort(compareByViewers)
       .slice(0, 12);
   }, [liveMatches]);
 
@@ -1,102 +1,172 @@
-import { useState, useCallback, useEffect } from 'react';
-import { Stream, Source } from '../types/sports';
-
-// Source priority for streamed.pk embed compatibility
-// Higher number = higher priority (best working sources first)
-const SOURCE_PRIORITY: Record<string, number> = {
-  // Primary streamed.pk compatible sources (military phonetic)
-  'alpha': 10,
-  'bravo': 10,
-  'charlie': 10,
-  'delta': 10,
-  'echo': 10,
-  'foxtrot': 10,
-  'golf': 10,
-  // Secondary reliable sources
-  'streamed': 8,
-  'sportsurge': 8,
-  'streameast': 7,
-  'streambtw': 6,
-  'givemereddit': 5,
-  'admin': 4,
-  'topembed': 3,
-  // Fallback sources
-  'default': 1
-};
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Stream } from '../types/sports';
+import { rankSourceKeys } from '../services/sourceRanking';
+
+export type FailoverReason = 'error' | 'stall' | 'timeout';
+
+export interface FallbackCandidate {
+  key: string;        // source/id/streamNo
+  source: string;
+  id: string;
+  streamNo: number;
+  label: string;      // e.g. "Source 3 (EN, HD)"
+}
+
+export interface FailoverResult {
+  from: FallbackCandidate | null;
+  to: FallbackCandidate;
+}
 
 interface UseAutoFallbackProps {
   allStreams: Record<string, Stream[]>;
-  onSourceChange: (source: string, id: string) => void;
+  onSourceChange: (source: string, id: string, streamNo?: number) => void;
   currentStream: Stream | null;
 }
 
+const WATCHDOG_STORAGE_KEY = 'damitv_auto_failover';
+
+const streamKey = (stream: Pick<Stream, 'source' | 'id' | 'streamNo'>) =>
+  `${stream.source}/${stream.id}/${stream.streamNo || 1}`;
+
+const loadWatchdogPreference = () => {
+  try {
+    return localStorage.getItem(WATCHDOG_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
 export const useAutoFallback = ({ allStreams, onSourceChange, currentStream }: UseAutoFallbackProps) => {
   const [attemptedSources, setAttemptedSources] = useState<Set<string>>(new Set());
   const [isAutoRetrying, setIsAutoRetrying] = useState(false);
+  const [watchdogEnabled, setWatchdogEnabledState] = useState(loadWatchdogPreference);
+  // Streams the watchdog saw fail for this match, and the one the user went back to with "Undo"
+  const failedKeysRef = useRef<Set<string>>(new Set());
+  const pinnedKeyRef = useRef<string | null>(null);
+
+  const setWatchdogEnabled = useCallback((enabled: boolean) => {
+    setWatchdogEnabledState(enabled);
+    try {
+      localStorage.setItem(WATCHDOG_STORAGE_KEY, String(enabled));
+    } catch (e) {
+      console.log('Auto-failover preference write error:', e);
+    }
+  }, []);
 
-  // Get prioritized sources
-  const getPrioritizedSources = useCallback(() => {
-    const sources = Object.keys(allStreams)
-      .filter(sourceKey => allStreams[sourceKey]?.length > 0)
-      .map(sourceKey => {
-        const [source, id] = sourceKey.split('/');
-        const priority = SOURCE_PRIORITY[source] || SOURCE_PRIORITY['default'];
-        return { sourceKey, source, id, priority };
-      })
-      .sort((a, b) => b.priority - a.priority); // Higher priority first
-
-    console.log('📊 Prioritized sources:', sources.map(s => `${s.source} (priority: ${s.priority})`));
-    return sources;
+  // Every stream, best-ranked source first (learned from playback on this device)
+  const getCandidates = useCallback((): FallbackCandidate[] => {
+    // Labels follow the order the source buttons are shown in
+    const displayIndex = new Map<string, number>();
+    Object.values(allStreams).flat().forEach((stream, index) => {
+      displayIndex.set(streamKey(stream), index + 1);
+    });
+
+    const candidates = rankSourceKeys(Object.keys(allStreams).filter(sourceKey => allStreams[sourceKey]?.length > 0))
+      .flatMap(sourceKey => allStreams[sourceKey].map(stream => {
+        const key = streamKey(stream);
+        const details = [stream.language || 'EN', stream.hd ? 'HD' : null].filter(Boolean).join(', ');
+        return {
+          key,
+          source: stream.source,
+          id: stream.id,
+          streamNo: stream.streamNo || 1,
+          label: `${stream.name || `Source ${displayIndex.get(key)}`} (${details})`
+        };
+      }));
+
+    console.log('📊 Fallback order:', candidates.map(c => c.key));
+    return candidates;
   }, [allStreams]);
 
-  // Try next available source - only called manually, not automatically
+  const switchTo = useCallback((candidate: FallbackCandidate) => {
+    setIsAutoRetrying(true);
+    setAttemptedSources(prev => new Set([...prev, candidate.key]));
+
+    // Delay slightly to avoid rapid switching
+    setTimeout(() => {
+      onSourceChange(candidate.source, candidate.id, candidate.streamNo);
+      setIsAutoRetrying(false);
+    }, 1000);
+  }, [onSourceChange]);
+
+  // Try the next stream nobody has attempted yet - from the Retry flow or the player giving up
   const tryNextSource = useCallback((force: boolean = false) => {
     if (isAutoRetrying && !force) {
       console.log('⏳ Already retrying, skipping...');
       return false;
     }
 
-    const prioritizedSources = getPrioritizedSources();
-    const unattemptedSource = prioritizedSources.find(
-      s => !attemptedSources.has(s.sourceKey)
-    );
-
-    if (unattemptedSource) {
-      console.log(`🔄 Manual source switch: Trying ${unattemptedSource.source}/${unattemptedSource.id}`);
-      setIsAutoRetrying(true);
-      setAttemptedSources(prev => new Set([...prev, unattemptedSource.sourceKey]));
-      
-      // Delay slightly to avoid rapid switching
-      setTimeout(() => {
-        onSourceChange(unattemptedSource.source, unattemptedSource.id);
-        setIsAutoRetrying(false);
-      }, 1000);
-      
+    const next = getCandidates().find(c => !attemptedSources.has(c.key));
+
+    if (next) {
+      console.log(`🔄 Source switch: Trying ${next.key}`);
+      switchTo(next);
       return true;
     }
 
     console.log('❌ No more sources to try');
     return false;
-  }, [attemptedSources, getPrioritizedSources, onSourceChange, isAutoRetrying]);
+  }, [attemptedSources, getCandidates, switchTo, isAutoRetrying]);
+
+  /**
+   * Watchdog: the current stream errored, stalled or never loaded - move to the next
+   * ranked stream. Streams that already failed for this match are skipped, so it stops
+   * once every option has failed instead of cycling. Returns null when nothing was switched.
+   */
+  const failover = useCallback((reason: FailoverReason): FailoverResult | null => {
+    const currentKey = currentStream ? streamKey(currentStream) : null;
+
+    if (!watchdogEnabled || isAutoRetrying) return null;
+    if (currentKey && currentKey === pinnedKeyRef.current) {
+      console.log(`🐕 Watchdog: ${reason} on pinned stream ${currentKey}, staying`);
+      return null;
+    }
+    if (currentKey) failedKeysRef.current.add(currentKey);
+
+    const candidates = getCandidates();
+    const next = candidates.find(c => c.key !== currentKey && !failedKeysRef.current.has(c.key));
+    if (!next) {
+      console.log(`🐕 Watchdog: ${reason} but every stream has been tried`);
+      return null;
+    }
+
+    console.log(`🐕 Watchdog: ${reason} on ${currentKey}, switching to ${next.key}`);
+    switchTo(next);
+    return { from: candidates.find(c => c.key === currentKey) || null, to: next };
+  }, [watchdogEnabled, isAutoRetrying, currentStream, getCandidates, switchTo]);
+
+  // Go back to the stream the watchdog switched away from, and keep it
+  const undoFailover = useCallback((result: FailoverResult) => {
+    if (!result.from) return;
+    pinnedKeyRef.current = result.from.key;
+    failedKeysRef.current.delete(result.from.key);
+    onSourceChange(result.from.source, result.from.id, result.from.streamNo);
+  }, [onSourceChange]);
 
   // Reset when streams change
   useEffect(() => {
     setAttemptedSources(new Set());
     setIsAutoRetrying(false);
+    failedKeysRef.current = new Set();
+    pinnedKeyRef.current = null;
   }, [Object.keys(allStreams).join(',')]);
 
-  // Mark current source as attempted
+  // Mark current stream as attempted
   useEffect(() => {
     if (currentStream) {
-      const sourceKey = `${currentStream.source}/${currentStream.source}`;
-      setAttemptedSources(prev => new Set([...prev, sourceKey]));
+      const key = streamKey(currentStream);
+      setAttemptedSources(prev => prev.has(key) ? prev : new Set([...prev, key]));
     }
-  }, [currentStream?.source]);
+  }, [currentStream?.source, currentStream?.id, currentStream?.streamNo]);
 
   return {
     tryNextSource,
+    failover,
+    undoFailover,
+    watchdogEnabled,
+    setWatchdogEnabled,
     isAutoRetrying,
     attemptedSourcesCount: attemptedSources.size,
-    totalSourcesCount: Object.keys(allStreams).length
+    totalSourcesCount: Object.values(allStreams).reduce((total, streams) => total + streams.length, 0)
   };
 };
@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react';
+import { CDNChannel } from '../services/cdnChannelsApi';
+import { epgService, EPGChannel } from '../services/epgService';
+
+export interface EPGGuideRow {
+  channel: CDNChannel;
+  epg: EPGChannel;
+}
+
+/**
+ * Hook to load the XMLTV guide for one country's CDN channels
+ * Only channels with programme data are returned, in the same order as the channel list
+ */
+export const useEPGGuide = (country: string, channels: CDNChannel[]) => {
+  const [rows, setRows] = useState<EPGGuideRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!country || channels.length === 0) {
+      setRows([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadGuide = async () => {
+      setIsLoading(true);
+      try {
+        const allEPGData = await epgService.getAllEPGData({ [country]: channels });
+        if (cancelled) return;
+
+        const epgChannels = allEPGData[country] || [];
+        const guideRows = channels
+          .map(channel => {
+            const epg = epgChannels.find(item => item.channelName === channel.title);
+            return epg ? { channel, epg } : null;
+          })
+          .filter((row): row is EPGGuideRow => row !== null);
+
+        setRows(guideRows);
+      } catch (err) {
+        console.error('📺 Error loading TV guide:', err);
+        if (!cancelled) setRows([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadGuide();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [country, channels]);
+
+  return { rows, isLoading };
+};
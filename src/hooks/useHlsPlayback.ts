@@ -0,0 +1,118 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import { HlsPlaybackEngine, PlaybackEngineOptions, PlaybackEvent, QualityLevel } from '@/services/hlsEngine';
+import { qoeCollector, QoEContext } from '@/services/qoeTelemetry';
+
+export type PlaybackStatus = 'idle' | 'loading' | 'ready' | 'playing' | 'recovering' | 'error';
+
+interface UseHlsPlaybackOptions extends PlaybackEngineOptions {
+  enabled?: boolean;                        // set false to keep the engine detached (e.g. iframe fallback)
+  onEvent?: (event: PlaybackEvent) => void;
+  telemetry?: Partial<QoEContext>;          // QoE labels; source/streamId default to the URL host/src
+}
+
+const defaultTelemetryContext = (src: string): QoEContext => {
+  let host = 'unknown';
+  try {
+    host = new URL(src, window.location.href).hostname;
+  } catch {
+    // keep 'unknown'
+  }
+  return { source: host, streamId: src, player: 'unknown' };
+};
+
+/**
+ * Attach the shared HLS playback engine to a <video> element
+ * Handles hls.js / native HLS / direct sources; re-creates the engine when the source changes
+ */
+export const useHlsPlayback = (
+  videoRef: RefObject<HTMLVideoElement>,
+  src: string | null | undefined,
+  { enabled = true, onEvent, telemetry, ...engineOptions }: UseHlsPlaybackOptions = {}
+) => {
+  const [status, setStatus] = useState<PlaybackStatus>('idle');
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [currentLevel, setCurrentLevel] = useState<QualityLevel | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const engineRef = useRef<HlsPlaybackEngine | null>(null);
+
+  // Latest callback/options without re-creating the engine on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const optionsRef = useRef(engineOptions);
+  optionsRef.current = engineOptions;
+  const telemetryRef = useRef(telemetry);
+  telemetryRef.current = telemetry;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !src || !video) {
+      setStatus('idle');
+      return;
+    }
+
+    const engine = new HlsPlaybackEngine(video, optionsRef.current);
+    engineRef.current = engine;
+    setLevels([]);
+    setCurrentLevel(null);
+
+    const unsubscribe = engine.on(event => {
+      switch (event.type) {
+        case 'loading':
+          setStatus('loading');
+          break;
+        case 'ready':
+          setStatus('ready');
+          setLevels(event.levels);
+          break;
+        case 'playing':
+          setStatus('playing');
+          break;
+        case 'recovering':
+          setStatus('recovering');
+          break;
+        case 'levelSwitched':
+          setCurrentLevel(event.level);
+          break;
+        case 'fatal':
+          setStatus('error');
+          break;
+      }
+      onEventRef.current?.(event);
+    });
+
+    const qoeSession = qoeCollector.startSession(engine, video, {
+      ...defaultTelemetryContext(src),
+      ...telemetryRef.current
+    });
+
+    engine.load(src);
+
+    return () => {
+      qoeSession.end();
+      unsubscribe();
+      engine.destroy();
+      if (engineRef.current === engine) engineRef.current = null;
+    };
+  }, [videoRef, src, enabled, attempt]);
+
+  // Tear down and load the same source again
+  const retry = useCallback(() => setAttempt(prev => prev + 1), []);
+
+  const setLevel = useCallback((index: number) => {
+    engineRef.current?.setLevel(index);
+  }, []);
+
+  const setLevelCap = useCallback((index: number) => {
+    engineRef.current?.setLevelCap(index);
+  }, []);
+
+  return {
+    status,
+    levels,
+    currentLevel,
+    setLevel,
+    setLevelCap,
+    retry,
+    engineRef
+  };
+};
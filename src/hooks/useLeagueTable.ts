@@ -0,0 +1,123 @@
+import { useEffect, useMemo, useState } from 'react';
+import { fetchLeagueLiveScores, LiveScoreEvent } from '@/services/liveScoreFeed';
+import {
+  getLeagueInfo,
+  getLeagueTable,
+  getSeasonSplits,
+  LeagueInfo,
+  LeagueTableRow,
+  projectLiveTable,
+  withSplits
+} from '@/services/leagueTableService';
+
+const LIVE_REFRESH_INTERVAL = 30 * 1000; // livescore cache is 30s too
+
+interface LeagueTableState {
+  league: LeagueInfo | null;
+  season: string;
+  rows: LeagueTableRow[];
+  liveEvents: LiveScoreEvent[];
+  loading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+}
+
+/**
+ * League table with home/away splits, kept live: rows in play carry their current score
+ * and, for football, the position they'd be in if it stood.
+ */
+export const useLeagueTable = (leagueId: string | undefined, seasonOverride?: string) => {
+  const [state, setState] = useState<LeagueTableState>({
+    league: null,
+    season: '',
+    rows: [],
+    liveEvents: [],
+    loading: true,
+    error: null,
+    lastUpdated: null
+  });
+
+  useEffect(() => {
+    if (!leagueId) return;
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, league: null, rows: [], liveEvents: [], loading: true, error: null }));
+
+    const load = async () => {
+      try {
+        const league = await getLeagueInfo(leagueId);
+        if (cancelled) return;
+        if (!league) {
+          setState(prev => ({ ...prev, loading: false, error: 'League not found' }));
+          return;
+        }
+
+        const season = seasonOverride || league.currentSeason;
+        const [table, splits] = await Promise.all([
+          getLeagueTable(leagueId, season),
+          // Splits are extra - a table without them is still a table
+          getSeasonSplits(leagueId, season, league.sport).catch(error => {
+            console.warn(`⚠️ No home/away splits for league ${leagueId}:`, error);
+            return {};
+          })
+        ]);
+        if (cancelled) return;
+
+        setState(prev => ({
+          ...prev,
+          league,
+          season,
+          rows: withSplits(table, splits),
+          loading: false,
+          error: table.length === 0 ? 'No table for this season yet' : null,
+          lastUpdated: new Date()
+        }));
+      } catch (error) {
+        console.error(`❌ Error loading table for league ${leagueId}:`, error);
+        if (!cancelled) setState(prev => ({ ...prev, loading: false, error: 'Standings are unavailable right now' }));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [leagueId, seasonOverride]);
+
+  // Live scores only mean something for the current season
+  const sport = state.league?.sport;
+  const isCurrentSeason = !!state.league && state.season === state.league.currentSeason;
+
+  useEffect(() => {
+    if (!leagueId || !sport || !isCurrentSeason) return;
+
+    let cancelled = false;
+    const refresh = async () => {
+      const liveEvents = await fetchLeagueLiveScores(leagueId, sport);
+      if (!cancelled) setState(prev => ({ ...prev, liveEvents, lastUpdated: new Date() }));
+    };
+
+    refresh();
+    const interval = setInterval(refresh, LIVE_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [leagueId, sport, isCurrentSeason]);
+
+  const rows = useMemo(
+    () => (sport ? projectLiveTable(state.rows, state.liveEvents, sport) : state.rows),
+    [state.rows, state.liveEvents, sport]
+  );
+
+  return {
+    league: state.league,
+    season: state.season,
+    rows,
+    hasLive: rows.some(row => row.live),
+    hasSplits: rows.some(row => row.home || row.away),
+    loading: state.loading,
+    error: state.error,
+    lastUpdated: state.lastUpdated
+  };
+};
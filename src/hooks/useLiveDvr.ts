@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback, RefObject, MutableRefObject } from 'react';
+import { HlsPlaybackEngine } from '@/services/hlsEngine';
+
+export interface LiveDvrState {
+  start: number;
+  end: number;
+  liveEdge: number;
+  currentTime: number;
+  behindLive: number;     // seconds behind the live edge
+  atLiveEdge: boolean;
+}
+
+// Within this many seconds of the edge counts as live (one segment plus jitter)
+const LIVE_EDGE_TOLERANCE = 8;
+// Live playlists slide even while paused
+const REFRESH_INTERVAL = 1000;
+
+/**
+ * Catch-up timeline for a live HLS stream played by the shared engine
+ * Null state means nothing to scrub: VOD, not loaded yet, or a window too short to matter.
+ */
+export const useLiveDvr = (
+  videoRef: RefObject<HTMLVideoElement>,
+  engineRef: MutableRefObject<HlsPlaybackEngine | null>,
+  { minWindow = 30 }: { minWindow?: number } = {}
+) => {
+  const [state, setState] = useState<LiveDvrState | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const update = () => {
+      const liveWindow = engineRef.current?.getLiveWindow();
+      if (!liveWindow || liveWindow.end - liveWindow.start < minWindow) {
+        setState(prev => (prev ? null : prev));
+        return;
+      }
+
+      const behindLive = Math.max(0, liveWindow.liveEdge - video.currentTime);
+      setState({
+        ...liveWindow,
+        currentTime: video.currentTime,
+        behindLive,
+        atLiveEdge: behindLive <= LIVE_EDGE_TOLERANCE
+      });
+    };
+
+    const events = ['timeupdate', 'progress', 'durationchange', 'seeked', 'emptied'];
+    events.forEach(event => video.addEventListener(event, update));
+    const interval = setInterval(update, REFRESH_INTERVAL);
+    update();
+
+    return () => {
+      events.forEach(event => video.removeEventListener(event, update));
+      clearInterval(interval);
+    };
+  }, [videoRef, engineRef, minWindow]);
+
+  const seekTo = useCallback((position: number) => {
+    engineRef.current?.seekTo(position);
+  }, [engineRef]);
+
+  const skip = useCallback((seconds: number) => {
+    const video = videoRef.current;
+    if (video) engineRef.current?.seekTo(video.currentTime + seconds);
+  }, [videoRef, engineRef]);
+
+  const goLive = useCallback(() => {
+    engineRef.current?.seekToLiveEdge();
+  }, [engineRef]);
+
+  return { dvr: state, seekTo, skip, goLive };
+};
@@ -1,9 +1,67 @@
-// Live match notifier - disabled (frontend only)
+// Live match notifier - delivers "Remind me" kickoff reminders while the site is open
+// The service worker (public/reminder-sw.js) covers the same reminders when it can;
+// both sides use the same notification tag and notified_matches record, so a reminder
+// is only ever shown once.
+import { useEffect, useRef, useState, useCallback } from 'react';
 import { Match } from '@/types/sports';
+import {
+  deliverDueReminders,
+  updateReminderTimes,
+  syncWithServiceWorker,
+  registerReminderSync
+} from '@/services/reminderService';
+
+const CHECK_INTERVAL = 30 * 1000; // 30 seconds
+const INITIAL_CHECK_DELAY = 5 * 1000; // Give the service worker a moment to report deliveries
 
 export const useLiveMatchNotifier = (matches: Match[]) => {
+  const [notifiedCount, setNotifiedCount] = useState(0);
+  const checkingRef = useRef(false);
+
+  const checkReminders = useCallback(async () => {
+    if (checkingRef.current) return;
+    checkingRef.current = true;
+    try {
+      const delivered = await deliverDueReminders();
+      if (delivered > 0) {
+        setNotifiedCount(count => count + delivered);
+      }
+    } catch (error) {
+      console.error('❌ Error delivering reminders:', error);
+    } finally {
+      checkingRef.current = false;
+    }
+  }, []);
+
+  // Follow kickoff time changes from the latest schedule
+  useEffect(() => {
+    if (matches.length > 0) {
+      updateReminderTimes(matches);
+    }
+  }, [matches]);
+
+  useEffect(() => {
+    syncWithServiceWorker();
+    registerReminderSync();
+
+    const initialTimer = setTimeout(checkReminders, INITIAL_CHECK_DELAY);
+    const interval = setInterval(checkReminders, CHECK_INTERVAL);
+
+    // Timers are throttled in background tabs - check again as soon as the tab is visible
+    const handleVisibilityChange = () => {
+      if (!document.hidden) checkReminders();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearTimeout(initialTimer);
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [checkReminders]);
+
   return {
-    notifiedCount: 0,
-    manualNotify: () => {},
+    notifiedCount,
+    manualNotify: checkReminders,
   };
 };
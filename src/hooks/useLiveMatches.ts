@@ -1,18 +1,29 @@
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useToast } from './use-toast';
 import { Match, Stream, Source, Sport } from '../types/sports';
 import { fetchMatches, fetchStream, fetchSports, fetchLiveMatches, fetchAllMatches } from '../api/sportsApi';
-import { consolidateMatches, filterCleanMatches, isMatchLive } from '../utils/matchUtils';
+import { consolidateMatches, filterCleanMatches, isMatchEnded, isMatchLive } from '../utils/matchUtils';
+import { useLifecycleClock } from './useMatchLifecycle';
 
 export const useLiveMatches = () => {
   const { toast } = useToast();
   const [allMatches, setAllMatches] = useState<Match[]>([]);
-  const [liveMatches, setLiveMatches] = useState<Match[]>([]);
-  const [upcomingMatches, setUpcomingMatches] = useState<Match[]>([]);
   const [sports, setSports] = useState<Sport[]>([]);
   const [loading, setLoading] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
+  const lifecycleNow = useLifecycleClock();
+
+  // Live and upcoming follow each match's lifecycle, so they move on as statuses arrive
+  const liveMatches = useMemo(() => {
+    return allMatches
+      .filter(match => isMatchLive(match, lifecycleNow))
+      .sort((a, b) => b.date - a.date);
+  }, [allMatches, lifecycleNow]);
+
+  const upcomingMatches = useMemo(() => {
+    return allMatches.filter(match => !isMatchLive(match, lifecycleNow) && !isMatchEnded(match, lifecycleNow));
+  }, [allMatches, lifecycleNow]);
 
   const fetchLiveContent = useCallback(async () => {
     try {
@@ -31,30 +42,8 @@ export const useLiveMatches = () => {
       const initialCleanMatches = filterCleanMatches(initialMatchesWithSources);
       const initialConsolidatedMatches = consolidateMatches(initialCleanMatches.map(m => ({ ...m, sportId: 'football' })));
       
-      const initialLive = initialConsolidatedMatches.filter(match => {
-        const matchTime = typeof match.date === 'number' ? match.date : new Date(match.date).getTime();
-        const now = new Date().getTime();
-        const sixHoursInMs = 6 * 60 * 60 * 1000;
-        const oneHourInMs = 60 * 60 * 1000;
-        
-        return match.sources && 
-               match.sources.length > 0 && 
-               matchTime - now < oneHourInMs && 
-               now - matchTime < sixHoursInMs;
-      }).sort((a, b) => {
-        const aTime = typeof a.date === 'number' ? a.date : new Date(a.date).getTime();
-        const bTime = typeof b.date === 'number' ? b.date : new Date(b.date).getTime();
-        return bTime - aTime;
-      });
-      
-      const initialUpcoming = initialConsolidatedMatches.filter(match => 
-        !initialLive.some(liveMatch => liveMatch.id === match.id)
-      );
-      
       // Display immediately - NO loading state blocking
       setAllMatches(initialConsolidatedMatches);
-      setLiveMatches(initialLive);
-      setUpcomingMatches(initialUpcoming);
       setLoading(false);
       console.log('Football matches displayed instantly');
       
@@ -83,32 +72,10 @@ export const useLiveMatches = () => {
       const finalCleanMatches = filterCleanMatches(finalMatchesWithSources);
       const finalConsolidatedMatches = consolidateMatches(finalCleanMatches);
       
-      const finalLive = finalConsolidatedMatches.filter(match => {
-        const matchTime = typeof match.date === 'number' ? match.date : new Date(match.date).getTime();
-        const now = new Date().getTime();
-        const sixHoursInMs = 6 * 60 * 60 * 1000;
-        const oneHourInMs = 60 * 60 * 1000;
-        
-        return match.sources && 
-               match.sources.length > 0 && 
-               matchTime - now < oneHourInMs && 
-               now - matchTime < sixHoursInMs;
-      }).sort((a, b) => {
-        const aTime = typeof a.date === 'number' ? a.date : new Date(a.date).getTime();
-        const bTime = typeof b.date === 'number' ? b.date : new Date(b.date).getTime();
-        return bTime - aTime;
-      });
-      
-      const finalUpcoming = finalConsolidatedMatches.filter(match => 
-        !finalLive.some(liveMatch => liveMatch.id === match.id)
-      );
-      
-      console.log('All matches loaded - Live:', finalLive.length, 'Upcoming:', finalUpcoming.length);
+      console.log('All matches loaded:', finalConsolidatedMatches.length);
       
       // Update with complete data
       setAllMatches(finalConsolidatedMatches);
-      setLiveMatches(finalLive);
-      setUpcomingMatches(finalUpcoming);
       
     } catch (error) {
       console.error('Error fetching live content:', error);
@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef } from 'react';
+import { Match } from '@/types/sports';
+import { findMatchBroadcasts, MatchBroadcast } from '@/services/broadcastResolver';
+
+// Guides only cover the next few days; older matches are no longer listed
+const LOOKAHEAD = 3 * 24 * 60 * 60 * 1000;
+const LOOKBEHIND = 4 * 60 * 60 * 1000;
+
+/**
+ * Hook to find TV channels showing a match ("Also on")
+ */
+export const useMatchBroadcasts = (match: Match | null) => {
+  const [broadcasts, setBroadcasts] = useState<MatchBroadcast[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Re-resolve when the match or its kickoff changes, not on every refreshed match object
+  const matchId = match?.id;
+  const matchDate = match?.date;
+  const matchRef = useRef(match);
+  matchRef.current = match;
+
+  useEffect(() => {
+    setBroadcasts([]);
+    setIsLoading(false);
+
+    const current = matchRef.current;
+    if (!current || !matchId || !matchDate) return;
+    const now = Date.now();
+    if (matchDate > now + LOOKAHEAD || matchDate < now - LOOKBEHIND) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const result = await findMatchBroadcasts(current);
+        if (!cancelled) setBroadcasts(result);
+      } catch (err) {
+        console.error('📺 Error resolving broadcasts:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, matchDate]);
+
+  return { broadcasts, isLoading };
+};
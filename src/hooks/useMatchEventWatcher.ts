@@ -0,0 +1,89 @@
+// Background goal / red card watcher over followed and currently open matches
+// Alerts are emitted through the matchEventWatcher service; MatchEventAlerts turns
+// them into toasts and notifications.
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { Match } from '@/types/sports';
+import { Favourites } from '@/services/favouritesService';
+import { isFavouriteMatch } from '@/utils/favouriteMatches';
+import { isMatchLive } from '@/utils/matchUtils';
+import {
+  checkMatchEvents,
+  getOpenMatches,
+  registerOpenMatch,
+  subscribeOpenMatches
+} from '@/services/matchEventWatcher';
+
+const CHECK_INTERVAL = 30 * 1000; // 30 seconds
+// Every watched match costs TheSportsDB requests - open matches first, then favourites
+const MAX_WATCHED_MATCHES = 8;
+
+export const useMatchEventWatcher = (liveMatches: Match[], favourites: Favourites) => {
+  const [openMatches, setOpenMatches] = useState<Match[]>(getOpenMatches);
+  const checkingRef = useRef(false);
+
+  useEffect(() => subscribeOpenMatches(setOpenMatches), []);
+
+  const watched = useMemo(() => {
+    const candidates = [
+      ...openMatches.filter(match => isMatchLive(match)),
+      ...liveMatches.filter(match => isFavouriteMatch(match, favourites))
+    ];
+    const seen = new Set<string>();
+    return candidates
+      .filter(match => {
+        if (seen.has(match.id)) return false;
+        seen.add(match.id);
+        return true;
+      })
+      .slice(0, MAX_WATCHED_MATCHES);
+  }, [openMatches, liveMatches, favourites]);
+
+  const watchedRef = useRef(watched);
+  watchedRef.current = watched;
+
+  const checkMatches = useCallback(async () => {
+    if (checkingRef.current) return;
+    checkingRef.current = true;
+    try {
+      // One at a time - the livescore cache answers most of them anyway
+      for (const match of watchedRef.current) {
+        await checkMatchEvents(match);
+      }
+    } catch (error) {
+      console.error('❌ Error checking match events:', error);
+    } finally {
+      checkingRef.current = false;
+    }
+  }, []);
+
+  const watchedKey = watched.map(match => match.id).join(',');
+
+  useEffect(() => {
+    if (!watchedKey) return;
+
+    // Baseline straight away, so the first goal after this is the first alert
+    checkMatches();
+    const interval = setInterval(checkMatches, CHECK_INTERVAL);
+
+    // Timers are throttled in background tabs - catch up as soon as the tab is visible
+    const handleVisibilityChange = () => {
+      if (!document.hidden) checkMatches();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [watchedKey, checkMatches]);
+
+  return watched;
+};
+
+// Keep a match on the watch list while the component showing it is mounted
+export const useWatchOpenMatch = (match: Match | null | undefined) => {
+  useEffect(() => {
+    if (!match) return;
+    return registerOpenMatch(match);
+  }, [match]);
+};
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { Match } from '@/types/sports';
+import { getMatchLifecycle, MatchLifecycle, subscribeMatchStatuses } from '@/services/matchLifecycle';
+
+// Schedule-based phases move with the clock, so re-evaluate at least this often
+const LIFECYCLE_TICK = 60 * 1000;
+
+/**
+ * Time of the last moment a match phase may have changed (a new feed status, or a minute
+ * passing). Pass it as `now` to anything derived from match lifecycles.
+ */
+export const useLifecycleClock = (): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const bump = () => setNow(Date.now());
+    const unsubscribe = subscribeMatchStatuses(bump);
+    const interval = setInterval(bump, LIFECYCLE_TICK);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  return now;
+};
+
+/**
+ * Current lifecycle of one match, kept up to date
+ */
+export const useMatchLifecycle = (match: Match | null | undefined): MatchLifecycle | null => {
+  const now = useLifecycleClock();
+  return match ? getMatchLifecycle(match, now) : null;
+};
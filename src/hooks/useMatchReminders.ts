@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Match } from '@/types/sports';
+import {
+  MatchReminder,
+  getReminders,
+  subscribeToReminders,
+  addReminder,
+  cancelReminder,
+  requestNotificationPermission,
+  DEFAULT_LEAD_MINUTES
+} from '@/services/reminderService';
+
+/**
+ * Hook to read and manage kickoff reminders
+ * All components share the same reminder list from reminderService
+ */
+export const useMatchReminders = () => {
+  const [reminders, setReminders] = useState<MatchReminder[]>(getReminders);
+
+  useEffect(() => subscribeToReminders(setReminders), []);
+
+  const remind = useCallback(async (match: Match, leadMinutes: number = DEFAULT_LEAD_MINUTES) => {
+    const permission = await requestNotificationPermission();
+    addReminder(match, leadMinutes);
+    return permission;
+  }, []);
+
+  const cancel = useCallback((matchId: string) => cancelReminder(matchId), []);
+
+  const getReminder = useCallback(
+    (matchId: string) => reminders.find(r => r.matchId === matchId),
+    [reminders]
+  );
+
+  return {
+    reminders,
+    pendingReminders: reminders.filter(r => !r.notifiedAt),
+    getReminder,
+    remind,
+    cancel
+  };
+};
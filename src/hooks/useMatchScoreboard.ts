@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import { Match } from '@/types/sports';
+import { ManualMatch } from '@/types/manualMatch';
+import { useLiveScore } from './useLiveScore';
+import { formatMatchClock } from '@/services/liveScoreFeed';
+import { useMatchTeamLogos } from './useTeamLogo';
+import { isMatchLive } from '@/utils/matchUtils';
+
+export interface Scoreboard {
+  homeName: string;
+  awayName: string;
+  homeLogo?: string;
+  awayLogo?: string;
+  homeScore: string;
+  awayScore: string;
+  clock: string | null;      // "67'", "HT", "FT"...
+  justScored: boolean;       // true for a few seconds after the score changes
+}
+
+const SCORE_FLASH_MS = 4000;
+const OVERLAY_STORAGE_KEY = 'damitv_score_overlay';
+const OVERLAY_CHANGE_EVENT = 'damitv-score-overlay-change';
+
+const isManualMatch = (match: Match | ManualMatch): match is ManualMatch =>
+  typeof match.teams?.home === 'string';
+
+/**
+ * Live score for the match being watched, ready for a scorebug
+ * Null until TheSportsDB reports a score - there's nothing to overlay for matches it doesn't cover.
+ */
+export const useMatchScoreboard = (match: Match | ManualMatch | null | undefined): Scoreboard | null => {
+  const manual = match && isManualMatch(match) ? match : null;
+  const regular = match && !isManualMatch(match) ? match : null;
+
+  const homeName = manual?.teams.home || regular?.teams?.home?.name || '';
+  const awayName = manual?.teams.away || regular?.teams?.away?.name || '';
+  const category = regular?.category || manual?.seo?.category;
+  const isLive = regular ? isMatchLive(regular) : !!manual && new Date(manual.date).getTime() <= Date.now();
+
+  const { homeLogo, awayLogo } = useMatchTeamLogos(regular?.teams?.home || homeName, regular?.teams?.away || awayName);
+  const score = useLiveScore(homeName, awayName, category, isLive);
+
+  // Flash when the score changes - not when it first arrives
+  const [justScored, setJustScored] = useState(false);
+  const lastScoreRef = useRef<string | null>(null);
+  const scoreKey = score.homeScore !== null ? `${score.homeScore}-${score.awayScore}` : null;
+
+  useEffect(() => {
+    if (!scoreKey) return;
+    const previous = lastScoreRef.current;
+    lastScoreRef.current = scoreKey;
+    if (!previous || previous === scoreKey) return;
+
+    setJustScored(true);
+    const timer = setTimeout(() => setJustScored(false), SCORE_FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [scoreKey]);
+
+  if (!match || score.homeScore === null) return null;
+
+  return {
+    homeName,
+    awayName,
+    homeLogo: homeLogo || undefined,
+    awayLogo: awayLogo || undefined,
+    homeScore: score.homeScore,
+    awayScore: score.awayScore ?? '0',
+    clock: formatMatchClock(score.matchTime, score.status),
+    justScored
+  };
+};
+
+const loadOverlayPreference = () => {
+  try {
+    return localStorage.getItem(OVERLAY_STORAGE_KEY) !== 'off';
+  } catch {
+    return true;
+  }
+};
+
+// Scorebug on/off, shared by every player on the page and remembered on this device
+export const useScoreOverlayPreference = () => {
+  const [enabled, setEnabledState] = useState(loadOverlayPreference);
+
+  useEffect(() => {
+    const handleChange = () => setEnabledState(loadOverlayPreference());
+    window.addEventListener(OVERLAY_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(OVERLAY_CHANGE_EVENT, handleChange);
+  }, []);
+
+  const setEnabled = (next: boolean) => {
+    try {
+      localStorage.setItem(OVERLAY_STORAGE_KEY, next ? 'on' : 'off');
+    } catch (e) {
+      console.log('Score overlay preference write error:', e);
+    }
+    setEnabledState(next);
+    window.dispatchEvent(new Event(OVERLAY_CHANGE_EVENT));
+  };
+
+  return [enabled, setEnabled] as const;
+};
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+const isOnline = () => (typeof navigator === 'undefined' ? true : navigator.onLine);
+
+/**
+ * Tracks the browser's connectivity (navigator.onLine + online/offline events)
+ */
+export const useOnlineStatus = (): boolean => {
+  const [online, setOnline] = useState(isOnline);
+
+  useEffect(() => {
+    const update = () => setOnline(isOnline());
+
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    update();
+
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
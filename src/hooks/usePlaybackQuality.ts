@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QualityLevel } from '@/services/hlsEngine';
+import { getConnectionInfo, onConnectionChange, canHandleBitrate } from '@/utils/connectionOptimizer';
+
+// Auto, auto capped for data saving, or a fixed resolution (height) - heights carry over between streams
+export type QualityPreference = 'auto' | 'data-saver' | number;
+
+interface PlaybackQualitySource {
+  levels: QualityLevel[];
+  currentLevel: QualityLevel | null;
+  setLevel: (index: number) => void;
+  setLevelCap: (index: number) => void;
+}
+
+const STORAGE_KEY = 'damitv_quality_preference';
+
+const loadPreference = (): QualityPreference | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'auto' || stored === 'data-saver') return stored;
+    const height = Number(stored);
+    if (stored && Number.isFinite(height)) return height;
+  } catch (e) {
+    console.log('Quality preference read error:', e);
+  }
+  return null;
+};
+
+const savePreference = (preference: QualityPreference) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(preference));
+  } catch (e) {
+    console.log('Quality preference write error:', e);
+  }
+};
+
+// Best level at or below the requested height (highest bitrate wins a tie), else the smallest one
+export const findLevelForHeight = (levels: QualityLevel[], height: number): QualityLevel | undefined => {
+  const fitting = levels.filter(level => level.height <= height);
+  const pool = fitting.length > 0 ? fitting : levels;
+  return [...pool].sort((a, b) =>
+    fitting.length > 0
+      ? (b.height - a.height) || (b.bitrate - a.bitrate)
+      : (a.height - b.height) || (a.bitrate - b.bitrate)
+  )[0];
+};
+
+// Highest level a data-saving connection should use (falls back to the cheapest level)
+export const getDataSaverCap = (levels: QualityLevel[]): QualityLevel | undefined => {
+  const connection = { ...getConnectionInfo(), saveData: true };
+  const affordable = levels.filter(level => canHandleBitrate(level.bitrate, connection));
+  const pool = affordable.length > 0 ? affordable : levels;
+  return [...pool].sort((a, b) => affordable.length > 0 ? b.bitrate - a.bitrate : a.bitrate - b.bitrate)[0];
+};
+
+/**
+ * Apply the device's remembered quality choice to a playback from useHlsPlayback
+ * Defaults to the data saver cap when the browser asks to save data
+ */
+export const usePlaybackQuality = ({ levels, currentLevel, setLevel, setLevelCap }: PlaybackQualitySource) => {
+  const [saveData, setSaveData] = useState(() => getConnectionInfo().saveData);
+  const [storedPreference, setStoredPreference] = useState(loadPreference);
+
+  useEffect(() => onConnectionChange(info => setSaveData(info.saveData)), []);
+
+  const preference: QualityPreference = storedPreference ?? (saveData ? 'data-saver' : 'auto');
+
+  // Re-applied whenever a stream (re)loads its levels or the choice changes
+  useEffect(() => {
+    if (levels.length === 0) return;
+
+    if (preference === 'auto') {
+      setLevelCap(-1);
+      setLevel(-1);
+    } else if (preference === 'data-saver') {
+      setLevelCap(getDataSaverCap(levels)?.index ?? -1);
+      setLevel(-1);
+    } else {
+      setLevelCap(-1);
+      setLevel(findLevelForHeight(levels, preference)?.index ?? -1);
+    }
+  }, [levels, preference, setLevel, setLevelCap]);
+
+  const setPreference = useCallback((next: QualityPreference) => {
+    console.log(`🎚️ Quality preference: ${next}`);
+    setStoredPreference(next);
+    savePreference(next);
+  }, []);
+
+  return {
+    levels,
+    playingLevel: currentLevel,
+    preference,
+    onPreferenceChange: setPreference,
+    saveData
+  };
+};
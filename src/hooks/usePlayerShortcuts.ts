@@ -0,0 +1,168 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+
+export interface PlayerShortcut {
+  keys: string[];
+  description: string;
+}
+
+// Shown in the "?" overlay - keep in sync with handleKey below
+export const PLAYER_SHORTCUTS: PlayerShortcut[] = [
+  { keys: ['Space', 'K'], description: 'Play / pause' },
+  { keys: ['M'], description: 'Mute / unmute' },
+  { keys: ['↑', '↓'], description: 'Volume up / down' },
+  { keys: ['←', '→'], description: 'Back / forward 10 seconds' },
+  { keys: ['F'], description: 'Fullscreen' },
+  { keys: ['P'], description: 'Picture-in-picture' },
+  { keys: ['N'], description: 'Next source' },
+  { keys: ['Shift', 'N'], description: 'Previous source' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' }
+];
+
+interface UsePlayerShortcutsOptions {
+  enabled?: boolean;
+  onNextSource?: () => void;
+  onPreviousSource?: () => void;
+}
+
+const VOLUME_STEP = 0.1;
+const SEEK_STEP = 10;
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+};
+
+/**
+ * Keyboard shortcuts for a player container
+ * Keys act when focus is inside the player or on the page itself, never while typing.
+ * Media keys need a <video> in the container - embedded (iframe) streams only get
+ * fullscreen, source switching and the help overlay.
+ */
+export const usePlayerShortcuts = (
+  containerRef: RefObject<HTMLElement>,
+  { enabled = true, onNextSource, onPreviousSource }: UsePlayerShortcutsOptions = {}
+) => {
+  const [showHelp, setShowHelp] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+
+  // Latest callbacks without re-binding the listener
+  const callbacksRef = useRef({ onNextSource, onPreviousSource });
+  callbacksRef.current = { onNextSource, onPreviousSource };
+
+  const announce = useCallback((message: string) => {
+    // Clear first so repeating the same message is read again
+    setAnnouncement('');
+    requestAnimationFrame(() => setAnnouncement(message));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKey = (event: KeyboardEvent) => {
+      const container = containerRef.current;
+      if (!container || event.defaultPrevented) return;
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return;
+
+      // Only the focused player, or any player when nothing in particular has focus
+      const active = document.activeElement;
+      const focusInside = !!active && container.contains(active);
+      if (!focusInside && active && active !== document.body) return;
+
+      // Buttons keep their own Space behaviour
+      if (event.key === ' ' && active instanceof HTMLButtonElement) return;
+
+      const video = container.querySelector('video');
+      const { onNextSource, onPreviousSource } = callbacksRef.current;
+
+      const handled = (() => {
+        switch (event.key) {
+          case ' ':
+          case 'k':
+          case 'K':
+            if (!video) return false;
+            if (video.paused) {
+              video.play().catch(() => undefined);
+              announce('Playing');
+            } else {
+              video.pause();
+              announce('Paused');
+            }
+            return true;
+          case 'm':
+          case 'M':
+            if (!video) return false;
+            video.muted = !video.muted;
+            announce(video.muted ? 'Muted' : 'Unmuted');
+            return true;
+          case 'ArrowUp':
+          case 'ArrowDown': {
+            // Arrows scroll the page unless the player itself has focus
+            if (!video || !focusInside) return false;
+            const delta = event.key === 'ArrowUp' ? VOLUME_STEP : -VOLUME_STEP;
+            video.volume = Math.min(1, Math.max(0, Math.round((video.volume + delta) * 10) / 10));
+            video.muted = video.volume === 0;
+            announce(`Volume ${Math.round(video.volume * 100)}%`);
+            return true;
+          }
+          case 'ArrowLeft':
+          case 'ArrowRight': {
+            // Only where there's something to seek in - VOD or a live DVR window
+            if (!video || !focusInside || video.seekable.length === 0) return false;
+            const start = video.seekable.start(0);
+            const end = video.seekable.end(video.seekable.length - 1);
+            const delta = event.key === 'ArrowRight' ? SEEK_STEP : -SEEK_STEP;
+            video.currentTime = Math.min(end, Math.max(start, video.currentTime + delta));
+            announce(delta > 0 ? `Forward ${SEEK_STEP} seconds` : `Back ${SEEK_STEP} seconds`);
+            return true;
+          }
+          case 'f':
+          case 'F':
+            if (document.fullscreenElement) {
+              document.exitFullscreen().catch(() => undefined);
+              announce('Exited fullscreen');
+            } else {
+              container.requestFullscreen?.().catch(() => undefined);
+              announce('Fullscreen');
+            }
+            return true;
+          case 'p':
+          case 'P':
+            if (!video || !document.pictureInPictureEnabled) return false;
+            if (document.pictureInPictureElement) {
+              document.exitPictureInPicture().catch(() => undefined);
+              announce('Exited picture-in-picture');
+            } else {
+              video.requestPictureInPicture().catch(() => undefined);
+              announce('Picture-in-picture');
+            }
+            return true;
+          case 'n':
+          case 'N': {
+            // Shift, not caps lock, picks the direction
+            const switchSource = event.shiftKey ? onPreviousSource : onNextSource;
+            if (!switchSource) return false;
+            switchSource();
+            announce(event.shiftKey ? 'Switching to previous source' : 'Switching to next source');
+            return true;
+          }
+          case '?':
+            setShowHelp(prev => !prev);
+            return true;
+          default:
+            return false;
+        }
+      })();
+
+      if (handled) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [containerRef, enabled, announce]);
+
+  return { showHelp, setShowHelp, announcement };
+};
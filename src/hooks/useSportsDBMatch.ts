@@ -8,6 +8,10 @@ import {
   PerplexityMatchData,
   MatchExtras,
 } from '@/services/perplexityMatchService';
+import { findBestFixture, getCanonicalTeamName, teamsMatch } from '@/services/teamIdentity';
+import { fetchEventTimeline, TimelineEvent } from '@/services/liveScoreFeed';
+
+export type { TimelineEvent };
 
 const API_KEY = '751945';
 const BASE_URL = 'https://www.thesportsdb.com/api';
@@ -70,17 +74,6 @@ export interface MatchLineups {
   away: LineupPlayer[];
 }
 
-export interface TimelineEvent {
-  id: string;
-  time: string;
-  type: string;
-  player: string;
-  team: string;
-  isHome: boolean;
-  assist: string;
-  comment: string;
-}
-
 export interface MatchStatistic {
   name: string;
   homeValue: number | string;
@@ -119,37 +112,6 @@ interface UseSportsDBMatchOptions {
   category?: string;
 }
 
-// Normalize team names for comparison
-const normalizeTeamName = (name: string): string => {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/\s+fc$/i, '')
-    .replace(/^fc\s+/i, '')
-    .replace(/\s+cf$/i, '')
-    .replace(/\s+sc$/i, '')
-    .replace(/\s+afc$/i, '')
-    .replace(/[^a-z0-9\s]/g, '')
-    .replace(/\s+/g, ' ');
-};
-
-const teamsMatch = (name1: string, name2: string): boolean => {
-  const n1 = normalizeTeamName(name1);
-  const n2 = normalizeTeamName(name2);
-  if (n1 === n2) return true;
-  if (n1.length >= 4 && n2.length >= 4) {
-    if (n1.includes(n2) || n2.includes(n1)) return true;
-  }
-  const words1 = n1.split(' ').filter(w => w.length > 3);
-  const words2 = n2.split(' ').filter(w => w.length > 3);
-  for (const w1 of words1) {
-    for (const w2 of words2) {
-      if (w1 === w2) return true;
-    }
-  }
-  return false;
-};
-
 // Map sport to TheSportsDB sport slug
 const getSportSlugs = (category?: string): string[] => {
   const mapping: Record<string, string[]> = {
@@ -334,9 +296,13 @@ export const useSportsDBMatch = (options: UseSportsDBMatchOptions) => {
         const data = await response.json();
         if (!data.livescore) continue;
 
-        const found = data.livescore.find((event: any) => {
-          return teamsMatch(event.strHomeTeam, home) && teamsMatch(event.strAwayTeam, away);
-        });
+        const found = findBestFixture(
+          data.livescore as any[],
+          event => [event.strHomeTeam, event.strAwayTeam],
+          home,
+          away,
+          cat
+        );
         if (found) {
           console.log(`✅ Found live match: ${found.strHomeTeam} vs ${found.strAwayTeam} [${sport}]`);
           return found;
@@ -368,20 +334,6 @@ export const useSportsDBMatch = (options: UseSportsDBMatchOptions) => {
     } catch (e) { console.warn('Error fetching lineups:', e); return null; }
   };
 
-  const fetchTimeline = async (eventId: string): Promise<TimelineEvent[] | null> => {
-    try {
-      const response = await fetch(`${BASE_URL}/v1/json/${API_KEY}/lookupeventtimeline.php?id=${eventId}`);
-      if (!response.ok) return null;
-      const data = await response.json();
-      if (!data.timeline) return null;
-      return data.timeline.map((event: any, index: number) => ({
-        id: `${eventId}-${index}`, time: event.strTimeline || '', type: event.strTimelineDetail || '',
-        player: event.strPlayer || '', team: event.strTeam || '', isHome: event.strHome === 'Yes',
-        assist: event.strAssist || '', comment: event.strComment || '',
-      }));
-    } catch (e) { console.warn('Error fetching timeline:', e); return null; }
-  };
-
   const fetchStatistics = async (eventId: string): Promise<MatchStatistic[] | null> => {
     try {
       const response = await fetch(`${BASE_URL}/v1/json/${API_KEY}/lookupeventstats.php?id=${eventId}`);
@@ -394,11 +346,11 @@ export const useSportsDBMatch = (options: UseSportsDBMatchOptions) => {
     } catch (e) { console.warn('Error fetching statistics:', e); return null; }
   };
 
-  const fetchH2H = async (homeTeam: string, awayTeam: string): Promise<H2HMatch[] | null> => {
+  const fetchH2H = async (homeTeam: string, awayTeam: string, cat?: string): Promise<H2HMatch[] | null> => {
     try {
       const [searchHome, searchAway] = await Promise.all([
-        fetch(`${BASE_URL}/v1/json/${API_KEY}/searchteams.php?t=${encodeURIComponent(homeTeam)}`).then(r => r.json()),
-        fetch(`${BASE_URL}/v1/json/${API_KEY}/searchteams.php?t=${encodeURIComponent(awayTeam)}`).then(r => r.json()),
+        fetch(`${BASE_URL}/v1/json/${API_KEY}/searchteams.php?t=${encodeURIComponent(getCanonicalTeamName(homeTeam, cat))}`).then(r => r.json()),
+        fetch(`${BASE_URL}/v1/json/${API_KEY}/searchteams.php?t=${encodeURIComponent(getCanonicalTeamName(awayTeam, cat))}`).then(r => r.json()),
       ]);
       const homeId = searchHome.teams?.[0]?.idTeam;
       const awayId = searchAway.teams?.[0]?.idTeam;
@@ -416,7 +368,7 @@ export const useSportsDBMatch = (options: UseSportsDBMatchOptions) => {
         const altData = await altResponse.json();
         if (altData.results) {
           const h2hMatches = altData.results
-            .filter((e: any) => (teamsMatch(e.strHomeTeam, awayTeam) || teamsMatch(e.strAwayTeam, awayTeam)) && e.intHomeScore !== null)
+            .filter((e: any) => (teamsMatch(e.strHomeTeam, awayTeam, cat) || teamsMatch(e.strAwayTeam, awayTeam, cat)) && e.intHomeScore !== null)
             .slice(0, 10)
             .map((e: any) => ({
               id: e.idEvent, date: e.dateEvent || '', homeTeam: e.strHomeTeam || '',
@@ -438,9 +390,9 @@ export const useSportsDBMatch = (options: UseSportsDBMatchOptions) => {
     } catch (e) { console.warn('Error fetching H2H:', e); return null; }
   };
 
-  const fetchTeamBadge = async (teamName: string): Promise<string> => {
+  const fetchTeamBadge = async (teamName: string, cat?: string): Promise<string> => {
     try {
-      const response = await fetch(`${BASE_URL}/v1/json/${API_KEY}/searchteams.php?t=${encodeURIComponent(teamName)}`);
+      const response = await fetch(`${BASE_URL}/v1/json/${API_KEY}/searchteams.php?t=${encodeURIComponent(getCanonicalTeamName(teamName, cat))}`);
       if (!response.ok) return '';
       const data = await response.json();
       return data.teams?.[0]?.strBadge || data.teams?.[0]?.strTeamBadge || '';
@@ -503,11 +455,11 @@ export const useSportsDBMatch = (options: UseSportsDBMatchOptions) => {
 
         const [lineupsData, timelineData, statsData, h2hData, homeBadge, awayBadge] = await Promise.all([
           fetchLineups(liveEvent.idEvent),
-          fetchTimeline(liveEvent.idEvent),
+          fetchEventTimeline(liveEvent.idEvent),
           fetchStatistics(liveEvent.idEvent),
-          fetchH2H(liveEvent.strHomeTeam, liveEvent.strAwayTeam),
-          needHomeBadge ? fetchTeamBadge(liveEvent.strHomeTeam) : Promise.resolve(''),
-          needAwayBadge ? fetchTeamBadge(liveEvent.strAwayTeam) : Promise.resolve(''),
+          fetchH2H(liveEvent.strHomeTeam, liveEvent.strAwayTeam, cat),
+          needHomeBadge ? fetchTeamBadge(liveEvent.strHomeTeam, cat) : Promise.resolve(''),
+          needAwayBadge ? fetchTeamBadge(liveEvent.strAwayTeam, cat) : Promise.resolve(''),
         ]);
 
         if (isCancelled()) return;
@@ -17,18 +17,6 @@ export interface Fixture {
   status: string;
 }
 
-export interface Standing {
-  pos: number;
-  team: string;
-  pld: number;
-  w: number;
-  d: number;
-  l: number;
-  gf: number;
-  ga: number;
-  pts: number;
-}
-
 export interface NewsArticle {
   title: string;
   summary: string;
@@ -39,10 +27,9 @@ export function useSportsDashboard() {
   const [state] = useState({
     liveMatches: [] as LiveMatch[],
     fixtures: [] as Fixture[],
-    standings: [] as Standing[],
     news: [] as NewsArticle[],
-    loading: { live: false, fixtures: false, standings: false, news: false },
-    error: { live: null, fixtures: null, standings: null, news: null },
+    loading: { live: false, fixtures: false, news: false },
+    error: { live: null, fixtures: null, news: null },
     lastUpdated: null as Date | null
   });
 
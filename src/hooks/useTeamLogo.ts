@@ -1,6 +1,7 @@
 // Team logo hook - uses TheSportsDB API for high-quality logos and images
 import { useState, useEffect } from 'react';
 import { fetchTeamData, TeamData } from '@/services/theSportsDbApi';
+import { normalizeTeamName } from '@/services/teamIdentity';
 
 // Local cache to avoid re-fetching during component re-renders
 const localCache = new Map<string, TeamData | null>();
@@ -55,7 +56,7 @@ export const useTeamLogo = (
     }
 
     // Check local cache
-    const cacheKey = teamName.toLowerCase().trim();
+    const cacheKey = normalizeTeamName(teamName);
     if (localCache.has(cacheKey)) {
       const cached = localCache.get(cacheKey);
       if (cached) {
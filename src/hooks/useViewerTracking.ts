@@ -1,78 +1,46 @@
-import { useEffect, useRef, useState } from 'react';
-import { sendHeartbeat, unregisterViewer, getRealViewerCount } from '@/services/realViewerService';
-
-const HEARTBEAT_INTERVAL = 30000; // 30 seconds
-const COUNT_REFRESH_INTERVAL = 15000; // 15 seconds
+import { useEffect, useState } from 'react';
+import {
+  getPresenceRoom,
+  getPushedViewerCount,
+  subscribeViewerCounts,
+  trackPresence,
+  type PresenceRoom,
+  type PresenceRoomKind
+} from '@/services/realViewerService';
 
 /**
- * Hook to track viewer presence and get real-time viewer count
- * Use this on Match page when user is actively watching
+ * Live viewer count for a room, pushed by the presence service.
+ * null until the service has reported one (or when there's no service to ask).
  */
-export const useViewerTracking = (matchId: string | undefined) => {
-  const [viewerCount, setViewerCount] = useState<number>(0);
-  const heartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const countRefreshRef = useRef<ReturnType<typeof setInterval> | null>(null);
+export const usePresenceCount = (room: PresenceRoom | null): number | null => {
+  const [count, setCount] = useState<number | null>(() => (room ? getPushedViewerCount(room) ?? null : null));
 
   useEffect(() => {
-    if (!matchId) return;
-
-    // Send initial heartbeat (registers viewer)
-    sendHeartbeat(matchId);
+    setCount(room ? getPushedViewerCount(room) ?? null : null);
+    if (!room) return;
 
-    // Get initial count
-    getRealViewerCount(matchId).then(setViewerCount);
+    return subscribeViewerCounts([room], counts => {
+      if (counts[room] !== undefined) setCount(counts[room]);
+    });
+  }, [room]);
 
-    // Start heartbeat interval
-    heartbeatRef.current = setInterval(() => {
-      sendHeartbeat(matchId);
-    }, HEARTBEAT_INTERVAL);
-
-    // Start count refresh interval
-    countRefreshRef.current = setInterval(() => {
-      getRealViewerCount(matchId).then(setViewerCount);
-    }, COUNT_REFRESH_INTERVAL);
+  return count;
+};
 
-    // Cleanup on unmount or match change
-    return () => {
-      if (heartbeatRef.current) {
-        clearInterval(heartbeatRef.current);
-      }
-      if (countRefreshRef.current) {
-        clearInterval(countRefreshRef.current);
-      }
-      unregisterViewer(matchId);
-    };
-  }, [matchId]);
+/**
+ * Hook to track viewer presence and get real-time viewer count
+ * Use this on Match and channel pages when user is actively watching
+ */
+export const useViewerTracking = (id: string | undefined, kind: PresenceRoomKind = 'match') => {
+  const room = id ? getPresenceRoom(kind, id) : null;
 
-  // Handle page visibility changes
   useEffect(() => {
-    if (!matchId) return;
-
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        // Page is hidden, stop heartbeat
-        if (heartbeatRef.current) {
-          clearInterval(heartbeatRef.current);
-          heartbeatRef.current = null;
-        }
-      } else {
-        // Page is visible again, send heartbeat and restart interval
-        sendHeartbeat(matchId);
-        getRealViewerCount(matchId).then(setViewerCount);
-        if (!heartbeatRef.current) {
-          heartbeatRef.current = setInterval(() => {
-            sendHeartbeat(matchId);
-          }, HEARTBEAT_INTERVAL);
-        }
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
+    if (!room) return;
+    // Heartbeats, pausing while hidden, and leaving are handled by the service
+    return trackPresence(room);
+  }, [room]);
 
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [matchId]);
+  const viewerCount = usePresenceCount(room) ?? 0;
 
   return { viewerCount };
 };
@@ -233,6 +233,7 @@ export type Database = {
           created_at: string
           display_name: string | null
           email: string | null
+          favourites: Json | null
           id: string
           updated_at: string
         }
@@ -241,6 +242,7 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           email?: string | null
+          favourites?: Json | null
           id: string
           updated_at?: string
         }
@@ -249,6 +251,7 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           email?: string | null
+          favourites?: Json | null
           id?: string
           updated_at?: string
         }
@@ -372,6 +375,13 @@ export type Database = {
     Functions: {
       cleanup_old_notifications: { Args: never; Returns: undefined }
       cleanup_stale_viewer_sessions: { Args: never; Returns: undefined }
+      count_viewer_sessions: {
+        Args: { room_ids_param?: string[]; since_param: string }
+        Returns: {
+          match_id: string
+          viewers: number
+        }[]
+      }
       get_page_views_stats: {
         Args: { end_date?: string; start_date?: string }
         Returns: {
@@ -4,23 +4,15 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 
-// Register PWA service worker (production only)
-if ('serviceWorker' in navigator) {
-  if (import.meta.env.PROD) {
-    window.addEventListener('load', () => {
-      navigator.serviceWorker.register('/sw.js').catch(() => {
-        console.log('Service worker registration failed');
-      });
-    });
-  } else {
-    // In dev, ensure no stale SW/caches break module loading (can cause duplicate context instances)
-    navigator.serviceWorker.getRegistrations().then((regs) => {
-      regs.forEach((r) => r.unregister());
-    }).catch(() => undefined);
+// The PWA service worker is registered by <UpdatePrompt /> in production builds
+if ('serviceWorker' in navigator && !import.meta.env.PROD) {
+  // In dev, ensure no stale SW/caches break module loading (can cause duplicate context instances)
+  navigator.serviceWorker.getRegistrations().then((regs) => {
+    regs.forEach((r) => r.unregister());
+  }).catch(() => undefined);
 
-    if ('caches' in window) {
-      caches.keys().then((keys) => Promise.all(keys.map((k) => caches.delete(k)))).catch(() => undefined);
-    }
+  if ('caches' in window) {
+    caches.keys().then((keys) => Promise.all(keys.map((k) => caches.delete(k)))).catch(() => undefined);
   }
 }
 
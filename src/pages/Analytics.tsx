@@ -3,6 +3,7 @@ import PageLayout from '@/components/PageLayout';
 import PageHeader from '@/components/PageHeader';
 import AnalyticsDashboard from '@/components/AnalyticsDashboard';
 import MonetizationDashboard from '@/components/MonetizationDashboard';
+import SourceRankingPanel from '@/components/SourceRankingPanel';
 import SEOMetaTags from '@/components/SEOMetaTags';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
@@ -22,9 +23,10 @@ const Analytics: React.FC = () => {
       <PageHeader title="Analytics Dashboard" subtitle="Track your website's performance, visitor statistics, and ad revenue" />
       <div className="container mx-auto px-4 py-8">
         <Tabs defaultValue="traffic" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-8">
+          <TabsList className="grid w-full grid-cols-3 mb-8">
             <TabsTrigger value="traffic">Traffic Analytics</TabsTrigger>
             <TabsTrigger value="monetization">Ad Performance</TabsTrigger>
+            <TabsTrigger value="sources">Stream Sources</TabsTrigger>
           </TabsList>
           
           <TabsContent value="traffic" className="space-y-4">
@@ -34,6 +36,10 @@ const Analytics: React.FC = () => {
           <TabsContent value="monetization" className="space-y-4">
             <MonetizationDashboard />
           </TabsContent>
+
+          <TabsContent value="sources" className="space-y-4">
+            <SourceRankingPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </PageLayout>
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import ChannelPlayerSelector, { PlayerType } from '@/components/StreamPlayer/ChannelPlayerSelector';
 import { useCDNChannel } from '@/hooks/useCDNChannels';
 import { useViewerTracking } from '@/hooks/useViewerTracking';
+import { useMiniPlayer } from '@/contexts/MiniPlayerContext';
 import { ArrowLeft, Share, Star, ChevronRight, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -16,9 +17,11 @@ import BannerAd from '@/components/BannerAd';
 const ChannelPlayer = () => {
   const { country, channelId } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { startSession } = useMiniPlayer();
   
   // Track viewer count for this channel
-  useViewerTracking(channelId);
+  useViewerTracking(channelId, 'channel');
   
   // Use CDN channels API
   const { channel, otherChannels, isLoading, error } = useCDNChannel(country, channelId);
@@ -38,6 +41,23 @@ const ChannelPlayer = () => {
   }, [channel?.embedUrl]);
   const [showPlayerSettings, setShowPlayerSettings] = useState(false);
 
+  // Hand the channel to the mini-player so it keeps playing if the user navigates away
+  useEffect(() => {
+    if (!channel?.embedUrl) return;
+    startSession({
+      stream: {
+        id: channel.id,
+        streamNo: 1,
+        language: 'English',
+        hd: true,
+        embedUrl: channel.embedUrl,
+        source: 'TV Channel'
+      },
+      title: channel.title,
+      returnPath: location.pathname
+    });
+  }, [channel?.id, channel?.embedUrl, channel?.title, location.pathname, startSession]);
+
   // Navigate to channels if not found
   useEffect(() => {
     if (!isLoading && error) {
@@ -4,6 +4,7 @@ import PageLayout from '../components/PageLayout';
 import { generateCompetitorTitle, generateCompetitorDescription } from '../utils/competitorSEO';
 import CompetitorSEOContent from '../components/CompetitorSEOContent';
 import ChannelsGrid from '../components/ChannelsGrid';
+import ChannelGuide from '../components/ChannelGuide';
 import Advertisement from '../components/Advertisement';
 import NewsSection from '../components/NewsSection';
 import { useIsMobile } from '../hooks/use-mobile';
@@ -25,7 +26,7 @@ const Channels = () => {
   // Log when the Channels page loads
   useEffect(() => {
     console.log('Channels page loaded', new Date().toISOString());
-    console.log('EPG data will be loaded for all available countries');
+    console.log('EPG data will be loaded for the selected guide country');
   }, []);
   
   return (
@@ -170,6 +171,9 @@ const Channels = () => {
 
         <ChannelsGrid />
 
+        {/* TV Guide - what's on across the channels above */}
+        <ChannelGuide />
+
         {/* Leaderboard Ad - After Channels Grid (Natural Break) */}
         <LeaderboardAd className="my-6" />
 
@@ -3,7 +3,9 @@ import { useParams, Link } from 'react-router-dom';
 import { ArrowLeft, Maximize2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import PageLayout from '@/components/PageLayout';
-import Hls from 'hls.js';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { usePlaybackQuality } from '@/hooks/usePlaybackQuality';
+import StreamQualitySelector from '@/components/StreamQualitySelector';
 import { CustomMatch } from './AdminCustomMatch';
 
 const STORAGE_KEY = 'damitv_custom_matches';
@@ -11,7 +13,6 @@ const STORAGE_KEY = 'damitv_custom_matches';
 const CustomMatchPlayer = () => {
   const { matchId } = useParams<{ matchId: string }>();
   const videoRef = useRef<HTMLVideoElement>(null);
-  const hlsRef = useRef<Hls | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [match, setMatch] = useState<CustomMatch | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -34,75 +35,6 @@ const CustomMatchPlayer = () => {
     setIsLoading(false);
   }, [matchId]);
 
-  // Initialize video player
-  useEffect(() => {
-    if (!match || !videoRef.current) return;
-
-    const video = videoRef.current;
-    const streamUrl = match.streamUrl;
-
-    // Check if it's an HLS stream
-    const isHls = streamUrl.includes('.m3u8');
-
-    if (isHls) {
-      if (Hls.isSupported()) {
-        console.log('Initializing HLS.js player');
-        const hls = new Hls({
-          enableWorker: true,
-          lowLatencyMode: true,
-          backBufferLength: 90,
-          maxBufferLength: 30,
-          maxMaxBufferLength: 60,
-        });
-
-        hls.loadSource(streamUrl);
-        hls.attachMedia(video);
-
-        hls.on(Hls.Events.MANIFEST_PARSED, () => {
-          console.log('HLS manifest loaded');
-          video.play().catch(err => console.error('Playback error:', err));
-        });
-
-        hls.on(Hls.Events.ERROR, (event, data) => {
-          console.error('HLS error:', data);
-          if (data.fatal) {
-            switch (data.type) {
-              case Hls.ErrorTypes.NETWORK_ERROR:
-                hls.startLoad();
-                break;
-              case Hls.ErrorTypes.MEDIA_ERROR:
-                hls.recoverMediaError();
-                break;
-              default:
-                setError('Stream error occurred');
-                hls.destroy();
-                break;
-            }
-          }
-        });
-
-        hlsRef.current = hls;
-      } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-        // Native HLS support (Safari)
-        video.src = streamUrl;
-        video.play().catch(err => console.error('Playback error:', err));
-      } else {
-        setError('HLS not supported in this browser');
-      }
-    } else {
-      // Direct video or iframe handling
-      video.src = streamUrl;
-      video.play().catch(err => console.error('Playback error:', err));
-    }
-
-    return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
-    };
-  }, [match]);
-
   const handleFullscreen = () => {
     const element = containerRef.current;
     if (element?.requestFullscreen) {
@@ -113,6 +45,17 @@ const CustomMatchPlayer = () => {
   const isIframeStream = match?.streamUrl && !match.streamUrl.includes('.m3u8') && 
     !match.streamUrl.includes('.mp4') && !match.streamUrl.includes('.webm');
 
+  // Initialize video player (shared playback engine)
+  const playback = useHlsPlayback(videoRef, match && !isIframeStream ? match.streamUrl : null, {
+    telemetry: match ? { source: 'custom', streamId: match.id, player: 'custom-match' } : undefined,
+    onEvent: (event) => {
+      if (event.type === 'fatal') {
+        setError(event.kind === 'unsupported' ? 'HLS not supported in this browser' : 'Stream error occurred');
+      }
+    }
+  });
+  const quality = usePlaybackQuality(playback);
+
   if (isLoading) {
     return (
       <PageLayout>
@@ -203,6 +146,8 @@ const CustomMatchPlayer = () => {
           >
             <Maximize2 size={20} />
           </Button>
+
+          {!isIframeStream && <StreamQualitySelector {...quality} className="absolute top-4 right-16" />}
         </div>
 
         {/* Match Image Preview */}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { format } from 'date-fns';
+import { AlertCircle, Trophy } from 'lucide-react';
+import PageLayout from '../components/PageLayout';
+import FeaturedLeagues from '../components/FeaturedLeagues';
+import LeagueTable, { LeagueTableView } from '../components/league/LeagueTable';
+import { Card, CardContent } from '../components/ui/card';
+import { Skeleton } from '../components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { useLeagueTable } from '../hooks/useLeagueTable';
+
+const League = () => {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { league, season, rows, hasLive, hasSplits, loading, error, lastUpdated } = useLeagueTable(leagueId);
+  const [view, setView] = useState<LeagueTableView>('overall');
+
+  const title = league ? `${league.name} Table ${season}` : 'League Table';
+  // Projections are only worked out where a score maps straight onto points
+  const hasProjection = rows.some(row => row.projectedRank !== null);
+
+  return (
+    <>
+      <Helmet>
+        <title>{`${title} - Live Standings | DamiTV`}</title>
+        <meta
+          name="description"
+          content={`${league?.name || 'League'} standings with form guide, home and away tables, and live positions while matches are in play.`}
+        />
+      </Helmet>
+
+      <PageLayout>
+        <header className="mb-6 flex flex-wrap items-center gap-4">
+          {league?.badge ? (
+            <img src={league.badge} alt={`${league.name} logo`} className="w-14 h-14 object-contain" />
+          ) : (
+            <Trophy className="w-10 h-10 text-yellow-500" />
+          )}
+          <div className="flex-1 min-w-0">
+            <h1 className="text-3xl sm:text-4xl font-bold text-foreground">{league?.name || 'League Table'}</h1>
+            <p className="text-muted-foreground">
+              {[league?.country, season && `Season ${season}`].filter(Boolean).join(' • ')}
+            </p>
+          </div>
+          {hasLive && (
+            <span className="inline-flex items-center gap-1.5 rounded bg-destructive px-2 py-1 text-xs font-bold uppercase text-destructive-foreground">
+              <span className="w-1.5 h-1.5 bg-current rounded-full animate-pulse" />
+              Live table
+            </span>
+          )}
+        </header>
+
+        <Card className="mb-8">
+          <CardContent className="p-4 sm:p-6">
+            {loading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 10 }, (_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : error && rows.length === 0 ? (
+              <div className="flex flex-col items-center gap-3 py-10 text-center">
+                <AlertCircle className="w-8 h-8 text-muted-foreground" />
+                <p className="text-foreground font-semibold">{error}</p>
+                <p className="text-muted-foreground text-sm">
+                  Browse <Link to="/live" className="text-primary hover:underline">live matches</Link> or
+                  the <Link to="/schedule" className="text-primary hover:underline">schedule</Link> instead.
+                </p>
+              </div>
+            ) : (
+              <>
+                <Tabs value={view} onValueChange={value => setView(value as LeagueTableView)} className="mb-4">
+                  <TabsList>
+                    <TabsTrigger value="overall">Overall</TabsTrigger>
+                    <TabsTrigger value="home" disabled={!hasSplits}>Home</TabsTrigger>
+                    <TabsTrigger value="away" disabled={!hasSplits}>Away</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                <LeagueTable rows={rows} view={view} />
+
+                <div className="mt-4 space-y-1 text-xs text-muted-foreground">
+                  {hasProjection && view === 'overall' && (
+                    <p>Arrows show where a team would be if the live scores stood.</p>
+                  )}
+                  {view !== 'overall' && (
+                    <p>Home and away tables are built from this season's finished results.</p>
+                  )}
+                  {lastUpdated && <p>Updated {format(lastUpdated, 'HH:mm:ss')}</p>}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <FeaturedLeagues />
+      </PageLayout>
+    </>
+  );
+};
+
+export default League;
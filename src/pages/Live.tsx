@@ -14,6 +14,7 @@ import { Helmet } from 'react-helmet-async';
 import MatchDetails from '../components/MatchDetails';
 
 import { useLiveMatches } from '../hooks/useLiveMatches';
+import { isMatchLive } from '../utils/matchUtils';
 import { useStreamPlayer } from '../hooks/useStreamPlayer';
 import LiveHeader from '../components/live/LiveHeader';
 import FeaturedPlayer from '../components/live/FeaturedPlayer';
@@ -423,7 +424,7 @@ const Live = () => {
         <div className="mt-8">
           <MatchDetails
             match={featuredMatch}
-            isLive={featuredMatch.date ? Date.now() - featuredMatch.date > -30 * 60 * 1000 && Date.now() - featuredMatch.date < 3 * 60 * 60 * 1000 : false}
+            isLive={isMatchLive(featuredMatch)}
             showCompact={false}
           />
         </div>
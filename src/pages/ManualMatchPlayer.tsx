@@ -240,6 +240,7 @@ const ManualMatchPlayer = () => {
                       videoRef={videoRef}
                       title={`${match.title} Stream`}
                       isManualChannel={true}
+                      stream={{ source: 'manual', id: match.id, streamNo: match.links.indexOf(selectedLink) + 1 }}
                     />
                   ) : (
                     <div className="flex items-center justify-center h-full text-white">
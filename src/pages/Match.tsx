@@ -1,14 +1,17 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { Match as MatchType } from '@/types/sports';
 import { fetchMatch, getBohoImageUrl } from '@/api/sportsApi';
+import { findMatchById } from '@/services/matchIdentity';
 import { useStreamPlayer } from '@/hooks/useStreamPlayer';
 import { useViewerTracking } from '@/hooks/useViewerTracking';
+import { useWatchOpenMatch } from '@/hooks/useMatchEventWatcher';
 import { Helmet } from 'react-helmet-async';
 import { isTrendingMatch } from '@/utils/popularLeagues';
 import { generateMatchSlug } from '@/utils/matchSlug';
 import { useSportsData } from '@/contexts/SportsDataContext';
+import { useMiniPlayer } from '@/contexts/MiniPlayerContext';
 import { ChevronLeft, Home, Share2 } from 'lucide-react';
 
 import { teamLogoService } from '@/services/teamLogoService';
@@ -33,13 +36,16 @@ import PopunderAd from '@/components/PopunderAd';
 const Match = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
   const { sportId, matchId } = useParams();
   const [match, setMatch] = useState<MatchType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const { allMatches: cachedMatches } = useSportsData();
+  const { startSession } = useMiniPlayer();
 
   useViewerTracking(matchId);
+  useWatchOpenMatch(match);
 
   const {
     currentStream: stream,
@@ -70,12 +76,7 @@ const Match = () => {
         setIsLoading(true);
         let matchData: MatchType | null = null;
 
-        const cachedMatch = cachedMatchesRef.current.find(m => {
-          if (m.id === matchId) return true;
-          const matchNumeric = matchId.match(/-(\d+)$/)?.[1] || matchId.match(/(\d+)/)?.[0];
-          const cachedNumeric = m.id.match(/-(\d+)$/)?.[1] || m.id.match(/(\d+)/)?.[0];
-          return matchNumeric && cachedNumeric && matchNumeric === cachedNumeric;
-        });
+        const cachedMatch = findMatchById(cachedMatchesRef.current, matchId);
 
         if (cachedMatch) {
           matchData = cachedMatch;
@@ -108,6 +109,19 @@ const Match = () => {
     loadMatchData();
   }, [sportId, matchId, toast, handleMatchSelect]);
 
+  // Hand the playing stream to the mini-player so it keeps going if the user navigates away
+  useEffect(() => {
+    if (!match || !stream?.embedUrl) return;
+    const home = match.teams?.home?.name;
+    const away = match.teams?.away?.name;
+    startSession({
+      stream,
+      title: home && away ? `${home} vs ${away}` : match.title,
+      returnPath: location.pathname,
+      match
+    });
+  }, [match, stream, location.pathname, startSession]);
+
   if (isLoading) return <LoadingState />;
   if (!match) return <NotFoundState />;
 
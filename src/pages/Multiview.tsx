@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { Columns2, Grid2x2, Share2, Square } from 'lucide-react';
+import PageLayout from '../components/PageLayout';
+import { Button } from '../components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '../components/ui/toggle-group';
+import { useToast } from '../hooks/use-toast';
+import MultiviewTile from '../components/multiview/MultiviewTile';
+import MultiviewPicker from '../components/multiview/MultiviewPicker';
+import {
+  MultiviewLayoutId,
+  MultiviewState,
+  MultiviewTile as MultiviewTileData,
+  MULTIVIEW_LAYOUTS,
+  buildMultiviewParams,
+  fitTilesToLayout,
+  getTileKey,
+  parseMultiviewParams
+} from '../utils/multiviewLayout';
+
+const LAYOUT_ICONS: Record<MultiviewLayoutId, React.ElementType> = {
+  '1': Square,
+  '2': Columns2,
+  '2x2': Grid2x2
+};
+
+const GRID_CLASSES: Record<MultiviewLayoutId, string> = {
+  '1': 'grid-cols-1 max-w-5xl mx-auto',
+  '2': 'grid-cols-1 lg:grid-cols-2',
+  '2x2': 'grid-cols-1 md:grid-cols-2'
+};
+
+const Multiview = () => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // The URL is the layout - sharing it shares exactly this screen
+  const state = parseMultiviewParams(searchParams);
+  const { layout, tiles, audioIndex } = state;
+
+  const update = (next: Partial<MultiviewState>) => {
+    setSearchParams(buildMultiviewParams({ ...state, ...next }), { replace: true });
+  };
+
+  const handleLayoutChange = (value: string) => {
+    if (!value || !(value in MULTIVIEW_LAYOUTS)) return;
+    const nextLayout = value as MultiviewLayoutId;
+    const nextTiles = fitTilesToLayout(tiles, nextLayout);
+    // Audio stays with the same tile if it survived the resize
+    const audioTile = tiles[audioIndex];
+    const nextAudio = audioTile ? nextTiles.findIndex(tile => tile && getTileKey(tile) === getTileKey(audioTile)) : -1;
+    update({ layout: nextLayout, tiles: nextTiles, audioIndex: Math.max(0, nextAudio) });
+  };
+
+  const handleSelect = (tile: MultiviewTileData) => {
+    if (pickerIndex === null) return;
+    const nextTiles = [...tiles];
+    nextTiles[pickerIndex] = tile;
+    // The first tile added gets the sound
+    const nextAudio = tiles.some(Boolean) ? audioIndex : pickerIndex;
+    update({ tiles: nextTiles, audioIndex: nextAudio });
+  };
+
+  const handleRemove = (index: number) => {
+    const nextTiles = [...tiles];
+    nextTiles[index] = null;
+    const nextAudio = index === audioIndex ? Math.max(0, nextTiles.findIndex(Boolean)) : audioIndex;
+    update({ tiles: nextTiles, audioIndex: nextAudio });
+  };
+
+  // Swap the dragged tile with the one it was dropped on; audio focus travels with its tile
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+    const nextTiles = [...tiles];
+    [nextTiles[dragIndex], nextTiles[targetIndex]] = [nextTiles[targetIndex], nextTiles[dragIndex]];
+    const nextAudio =
+      audioIndex === dragIndex ? targetIndex
+        : audioIndex === targetIndex ? dragIndex
+          : audioIndex;
+    update({ tiles: nextTiles, audioIndex: nextAudio });
+    setDragIndex(null);
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied!",
+        description: "Anyone with the link gets this multi-view layout.",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Please copy the URL from the address bar.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedKeys = tiles.filter((tile): tile is MultiviewTileData => !!tile).map(getTileKey);
+
+  return (
+    <PageLayout>
+      <Helmet>
+        <title>Multi-view - Watch Several Matches at Once | DamiTV</title>
+        <meta name="description" content="Watch up to four live matches or TV channels side by side on DamiTV." />
+      </Helmet>
+
+      <div className="container mx-auto px-4 py-4 pb-24 md:pb-8">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Multi-view</h1>
+            <p className="text-sm text-muted-foreground">
+              Click a tile to hear it. Drag tiles by their handle to reorder.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <ToggleGroup type="single" value={layout} onValueChange={handleLayoutChange} aria-label="Layout">
+              {(Object.keys(MULTIVIEW_LAYOUTS) as MultiviewLayoutId[]).map(id => {
+                const Icon = LAYOUT_ICONS[id];
+                return (
+                  <ToggleGroupItem key={id} value={id} aria-label={MULTIVIEW_LAYOUTS[id].label} title={MULTIVIEW_LAYOUTS[id].label}>
+                    <Icon className="h-4 w-4" />
+                  </ToggleGroupItem>
+                );
+              })}
+            </ToggleGroup>
+            <Button variant="outline" size="sm" onClick={handleShare} disabled={selectedKeys.length === 0}>
+              <Share2 className="h-4 w-4 mr-2" />
+              Share layout
+            </Button>
+          </div>
+        </div>
+
+        <div className={`grid gap-3 ${GRID_CLASSES[layout]}`}>
+          {tiles.map((tile, index) => (
+            <MultiviewTile
+              key={tile ? getTileKey(tile) : `empty-${index}`}
+              tile={tile}
+              index={index}
+              hasAudio={index === audioIndex}
+              isDragging={dragIndex !== null}
+              onClaimAudio={() => update({ audioIndex: index })}
+              onPick={() => setPickerIndex(index)}
+              onRemove={() => handleRemove(index)}
+              onDragStart={() => setDragIndex(index)}
+              onDragEnd={() => setDragIndex(null)}
+              onDrop={() => handleDrop(index)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <MultiviewPicker
+        open={pickerIndex !== null}
+        onOpenChange={open => !open && setPickerIndex(null)}
+        onSelect={handleSelect}
+        selectedKeys={selectedKeys}
+      />
+    </PageLayout>
+  );
+};
+
+export default Multiview;
@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { Star, X } from 'lucide-react';
+import PageLayout from '../components/PageLayout';
+import MatchSection from '../components/MatchSection';
+import FeaturedLeagues from '../components/FeaturedLeagues';
+import LoadingGrid from '../components/LoadingGrid';
+import MyRemindersPanel from '../components/MyRemindersPanel';
+import { useSportsData } from '../contexts/SportsDataContext';
+import { useFavourites } from '../contexts/FavouritesContext';
+import { filterActiveMatches, isMatchLive } from '../utils/matchUtils';
+import { groupMatchesByFavourites, isFavouriteMatch } from '../utils/favouriteMatches';
+
+const MyMatches = () => {
+  const { allMatches, loading } = useSportsData();
+  const { favourites, hasFavourites, toggleTeam, toggleLeague } = useFavourites();
+
+  // Only upcoming and in-progress matches are relevant here
+  const activeMatches = useMemo(() => filterActiveMatches(allMatches), [allMatches]);
+
+  const liveFavourites = useMemo(
+    () => activeMatches.filter(match => isMatchLive(match) && isFavouriteMatch(match, favourites)),
+    [activeMatches, favourites]
+  );
+
+  const groups = useMemo(
+    () => groupMatchesByFavourites(activeMatches, favourites),
+    [activeMatches, favourites]
+  );
+
+  return (
+    <>
+      <Helmet>
+        <title>My Matches - Followed Teams & Leagues | DamiTV</title>
+        <meta name="description" content="Live and upcoming matches for the teams and leagues you follow on DamiTV." />
+        <meta name="robots" content="noindex, follow" />
+      </Helmet>
+
+      <PageLayout>
+        <header className="mb-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl sm:text-4xl font-bold text-foreground mb-2">My Matches</h1>
+            <p className="text-muted-foreground">Live and upcoming matches for the teams and leagues you follow</p>
+          </div>
+          <MyRemindersPanel />
+        </header>
+
+        {hasFavourites && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            {favourites.teams.map(team => (
+              <span
+                key={`team-${team.sport || 'any'}-${team.name}`}
+                className="inline-flex items-center gap-1.5 rounded-full border border-border bg-card px-3 py-1 text-sm text-foreground"
+              >
+                <Star className="h-3.5 w-3.5 text-yellow-400" fill="currentColor" />
+                {team.name}
+                <button
+                  onClick={() => toggleTeam(team)}
+                  aria-label={`Unfollow ${team.name}`}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            ))}
+            {favourites.leagues.map(league => (
+              <span
+                key={`league-${league.id}`}
+                className="inline-flex items-center gap-1.5 rounded-full border border-primary/40 bg-card px-3 py-1 text-sm text-foreground"
+              >
+                <Star className="h-3.5 w-3.5 text-yellow-400" fill="currentColor" />
+                {league.name}
+                <button
+                  onClick={() => toggleLeague(league)}
+                  aria-label={`Unfollow ${league.name}`}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {!hasFavourites ? (
+          <div className="bg-card border border-border rounded-xl p-6 text-center mb-8">
+            <Star className="h-8 w-8 text-muted-foreground mx-auto mb-3" />
+            <p className="text-foreground font-semibold mb-1">You're not following anything yet</p>
+            <p className="text-muted-foreground text-sm">
+              Tap the star next to a team on any match card, or follow a league below.
+              Browse <Link to="/live" className="text-primary hover:underline">live matches</Link> or
+              the <Link to="/schedule" className="text-primary hover:underline">schedule</Link> to get started.
+            </p>
+          </div>
+        ) : loading && allMatches.length === 0 ? (
+          <LoadingGrid />
+        ) : (
+          <>
+            <MatchSection
+              matches={liveFavourites}
+              sportId=""
+              title="Live Now"
+              isLive={true}
+            />
+
+            {groups.map(group => (
+              <MatchSection
+                key={group.key}
+                matches={group.matches}
+                sportId=""
+                title={group.label}
+                showEmptyMessage={true}
+                emptyMessage={`No upcoming ${group.type === 'league' ? 'matches in this league' : 'matches for this team'} right now.`}
+              />
+            ))}
+          </>
+        )}
+
+        <FeaturedLeagues />
+      </PageLayout>
+    </>
+  );
+};
+
+export default MyMatches;
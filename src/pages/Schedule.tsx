@@ -12,9 +12,11 @@ import PageHeader from '../components/PageHeader';
 import DatePagination from '../components/DatePagination';
 import PopularGames from '../components/PopularGames';
 import { isPopularLeague } from '../utils/popularLeagues';
+import { consolidateMatches } from '../utils/matchUtils';
 import { Helmet } from 'react-helmet-async';
 import BannerAd from '../components/BannerAd';
 import LeaderboardAd from '../components/LeaderboardAd';
+import MyRemindersPanel from '../components/MyRemindersPanel';
 
 const Schedule = () => {
   const { toast } = useToast();
@@ -29,31 +31,6 @@ const Schedule = () => {
   const [loadingSports, setLoadingSports] = useState(true);
   const [loadingMatches, setLoadingMatches] = useState(false);
 
-  // Helper function to remove duplicates more strictly
-  const removeDuplicatesFromMatches = (matches: Match[]): Match[] => {
-    const seen = new Set<string>();
-    const uniqueMatches: Match[] = [];
-    
-    matches.forEach(match => {
-      // Create a unique key based on teams and date
-      const homeTeam = match.teams?.home?.name || '';
-      const awayTeam = match.teams?.away?.name || '';
-      const matchDate = new Date(match.date).toISOString().split('T')[0];
-      
-      // Use teams and date for uniqueness, fallback to title if no teams
-      const uniqueKey = homeTeam && awayTeam 
-        ? `${homeTeam}-vs-${awayTeam}-${matchDate}`.toLowerCase()
-        : `${match.title}-${matchDate}`.toLowerCase();
-      
-      if (!seen.has(uniqueKey)) {
-        seen.add(uniqueKey);
-        uniqueMatches.push(match);
-      }
-    });
-    
-    return uniqueMatches;
-  };
-
   // Fetch sports on mount
   useEffect(() => {
     const loadSports = async () => {
@@ -96,7 +73,7 @@ const Schedule = () => {
       const matchesData = await fetchMatches(sportId);
       
       // Remove duplicates from API data first
-      const uniqueMatches = removeDuplicatesFromMatches(matchesData);
+      const uniqueMatches = consolidateMatches(matchesData);
       
       // Filter matches by date
       const dateStr = format(currentDate, 'yyyy-MM-dd');
@@ -187,9 +164,12 @@ const Schedule = () => {
       </Helmet>
       
       <PageLayout searchTerm={searchTerm} onSearch={handleSearch}>
-        <header className="mb-6">
-          <h1 className="text-3xl sm:text-4xl font-bold text-foreground mb-2">Sports Schedule</h1>
-          <p className="text-muted-foreground">Find upcoming matches and events across all sports</p>
+        <header className="mb-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl sm:text-4xl font-bold text-foreground mb-2">Sports Schedule</h1>
+            <p className="text-muted-foreground">Find upcoming matches and events across all sports</p>
+          </div>
+          <MyRemindersPanel />
         </header>
         
         <PageHeader 
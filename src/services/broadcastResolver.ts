@@ -0,0 +1,124 @@
+// Match-to-broadcast resolver
+// Scans EPG programmes for TV channels showing a match, so the match page can
+// point users at a channel when the match's own sources fail.
+import { Match } from '@/types/sports';
+import { CDNChannel, getCDNChannelsByCountry } from './cdnChannelsApi';
+import { epgService, EPGProgram } from './epgService';
+import { textMentionsTeam } from './teamIdentity';
+
+export interface MatchBroadcast {
+  channel: CDNChannel;
+  country: string;
+  program: EPGProgram;
+  channelPath: string; // ChannelPlayer route
+}
+
+// Countries whose guides carry the bulk of live sport - scanned in this order
+const BROADCAST_COUNTRIES = [
+  'United Kingdom',
+  'United States',
+  'Canada',
+  'Australia',
+  'Spain',
+  'France',
+  'Germany',
+  'Italy',
+  'Portugal',
+  'Netherlands'
+];
+
+const KICKOFF_TOLERANCE = 90 * 60 * 1000; // programmes may start with the pre-match build-up
+const MATCH_DURATION = 3 * 60 * 60 * 1000;
+const MAX_BROADCASTS = 6;
+
+// Cache per match for the page session
+const broadcastCache = new Map<string, { data: MatchBroadcast[]; timestamp: number }>();
+const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
+
+// Scans in flight, so a second caller for the same match waits on the first
+const pendingScans = new Map<string, Promise<MatchBroadcast[]>>();
+
+const getTeamNames = (match: Match): [string, string] | null => {
+  const home = match.teams?.home?.name;
+  const away = match.teams?.away?.name;
+  if (home && away) return [home, away];
+
+  // Fall back to "Home vs Away" style titles
+  const parts = match.title.split(/\s+(?:vs\.?|v|-|@)\s+/i);
+  return parts.length === 2 ? [parts[0].trim(), parts[1].trim()] : null;
+};
+
+const isAroundKickoff = (program: EPGProgram, kickoff: number): boolean => {
+  const start = new Date(program.startTime).getTime();
+  const end = new Date(program.endTime).getTime();
+  return start <= kickoff + KICKOFF_TOLERANCE && end >= kickoff && start >= kickoff - MATCH_DURATION;
+};
+
+const isBroadcastOf = (program: EPGProgram, home: string, away: string, sport?: string): boolean => {
+  const text = `${program.title} ${program.description || ''}`;
+  return textMentionsTeam(text, home, sport) && textMentionsTeam(text, away, sport);
+};
+
+// Every country's guide, in order, until enough channels are found
+const scanGuides = async (match: Match, home: string, away: string): Promise<MatchBroadcast[]> => {
+  const channelsByCountry = await getCDNChannelsByCountry();
+  const broadcasts: MatchBroadcast[] = [];
+
+  for (const country of BROADCAST_COUNTRIES) {
+    const channels = channelsByCountry[country];
+    if (!channels || channels.length === 0) continue;
+
+    try {
+      const epgChannels = await epgService.getEPGForCountry(country, channels);
+
+      for (const epgChannel of epgChannels) {
+        const program = epgChannel.programs.find(
+          p => isAroundKickoff(p, match.date) && isBroadcastOf(p, home, away, match.category)
+        );
+        const channel = channels.find(ch => ch.title === epgChannel.channelName);
+
+        if (program && channel) {
+          broadcasts.push({
+            channel,
+            country,
+            program,
+            channelPath: `/channel/${country}/${channel.id}`
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`📺 Error scanning ${country} guide for ${match.title}:`, error);
+    }
+
+    if (broadcasts.length >= MAX_BROADCASTS) break;
+  }
+
+  const result = broadcasts.slice(0, MAX_BROADCASTS);
+  broadcastCache.set(match.id, { data: result, timestamp: Date.now() });
+
+  if (result.length > 0) {
+    console.log(`📺 ${match.title} also on: ${result.map(b => b.channel.title).join(', ')}`);
+  }
+
+  return result;
+};
+
+/**
+ * Find TV channels whose guide lists this match around kickoff
+ */
+export const findMatchBroadcasts = async (match: Match): Promise<MatchBroadcast[]> => {
+  const teams = getTeamNames(match);
+  if (!teams || !match.date) return [];
+
+  const cached = broadcastCache.get(match.id);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+
+  const pending = pendingScans.get(match.id);
+  if (pending) return pending;
+
+  const scan = scanGuides(match, teams[0], teams[1]).finally(() => pendingScans.delete(match.id));
+  pendingScans.set(match.id, scan);
+  return scan;
+};
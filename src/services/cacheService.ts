@@ -0,0 +1,364 @@
+// Unified cache - memory tier backed by IndexedDB
+// Each service creates its own namespace with a TTL policy:
+//   fresh  (age < ttl)             -> served straight from cache
+//   stale  (age < ttl + staleTtl)  -> served immediately, revalidated in the background
+//   expired                        -> refetched; only used as a fallback if the fetch fails
+// Persistent namespaces survive reloads, so large payloads (EPG, match lists) aren't
+// re-downloaded on every visit.
+
+export interface CachePolicy {
+  ttl: number;            // ms an entry is fresh
+  staleTtl?: number;      // extra ms a stale entry may be served while revalidating
+  maxEntries?: number;    // oldest entries are evicted beyond this
+  persist?: boolean;      // also store in IndexedDB
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  revalidations: number;
+  errors: number;
+  size: number;
+}
+
+const DB_NAME = 'damitv-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const DEFAULT_MAX_ENTRIES = 200;
+const PRUNE_DELAY = 10 * 1000;
+
+// ============================================
+// IndexedDB tier
+// ============================================
+
+interface StoredEntry<T = unknown> extends CacheEntry<T> {
+  id: string;
+  namespace: string;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('namespace', 'namespace', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('💾 Cache: IndexedDB unavailable, using memory only', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('💾 Cache: IndexedDB unavailable, using memory only', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <R>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<R> | void
+): Promise<R | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise(resolve => {
+    try {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = action(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => resolve(undefined);
+      tx.onabort = () => resolve(undefined);
+    } catch (error) {
+      console.warn('💾 Cache: IndexedDB transaction failed', error);
+      resolve(undefined);
+    }
+  });
+};
+
+// ============================================
+// Namespaces
+// ============================================
+
+export class CacheNamespace<T> {
+  private memory = new Map<string, CacheEntry<T>>();
+  private inflight = new Map<string, Promise<T>>();
+  // Bumped by invalidate() - a fetch started under an older generation isn't stored
+  private generation = 0;
+  private policy: Required<CachePolicy>;
+  readonly stats: Omit<CacheStats, 'size'> = { hits: 0, staleHits: 0, misses: 0, revalidations: 0, errors: 0 };
+
+  constructor(readonly name: string, policy: CachePolicy) {
+    this.policy = {
+      staleTtl: 0,
+      maxEntries: DEFAULT_MAX_ENTRIES,
+      persist: false,
+      ...policy
+    };
+
+    if (this.policy.persist && typeof window !== 'undefined') {
+      // Entries from earlier visits never pass through memory - tidy them once per load
+      setTimeout(() => this.prunePersisted(), PRUNE_DELAY);
+    }
+  }
+
+  private storageId(key: string) {
+    return `${this.name}:${key}`;
+  }
+
+  private age(entry: CacheEntry<T>) {
+    return Date.now() - entry.timestamp;
+  }
+
+  isFresh(entry: CacheEntry<T>) {
+    return this.age(entry) < this.policy.ttl;
+  }
+
+  isServable(entry: CacheEntry<T>) {
+    return this.age(entry) < this.policy.ttl + this.policy.staleTtl;
+  }
+
+  private remember(key: string, entry: CacheEntry<T>) {
+    // Re-insert so Map order doubles as least-recently-used order
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+
+    while (this.memory.size > this.policy.maxEntries) {
+      const oldestKey = this.memory.keys().next().value as string;
+      this.memory.delete(oldestKey);
+      if (this.policy.persist) {
+        runTransaction('readwrite', store => { store.delete(this.storageId(oldestKey)); });
+      }
+    }
+  }
+
+  /**
+   * Entry from memory only, whatever its age
+   */
+  peek(key: string): CacheEntry<T> | undefined {
+    return this.memory.get(key);
+  }
+
+  /**
+   * Entry from memory or IndexedDB, whatever its age
+   */
+  async peekAsync(key: string): Promise<CacheEntry<T> | undefined> {
+    const inMemory = this.memory.get(key);
+    if (inMemory || !this.policy.persist) return inMemory;
+
+    const stored = await runTransaction<StoredEntry<T> | undefined>('readonly', store => store.get(this.storageId(key)));
+    if (!stored) return undefined;
+
+    const entry = { data: stored.data, timestamp: stored.timestamp };
+    this.remember(key, entry);
+    return entry;
+  }
+
+  /**
+   * Fresh data from memory only (synchronous)
+   */
+  getSync(key: string): T | undefined {
+    const entry = this.memory.get(key);
+    if (entry && this.isFresh(entry)) {
+      this.stats.hits++;
+      return entry.data;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  /**
+   * Fresh data from memory or IndexedDB
+   */
+  async get(key: string): Promise<T | undefined> {
+    const entry = await this.peekAsync(key);
+    if (entry && this.isFresh(entry)) {
+      this.stats.hits++;
+      return entry.data;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  set(key: string, data: T) {
+    const entry = { data, timestamp: Date.now() };
+    this.remember(key, entry);
+
+    if (this.policy.persist) {
+      const stored: StoredEntry<T> = { id: this.storageId(key), namespace: this.name, ...entry };
+      runTransaction('readwrite', store => { store.put(stored); });
+    }
+  }
+
+  delete(key: string) {
+    this.memory.delete(key);
+    if (this.policy.persist) {
+      runTransaction('readwrite', store => { store.delete(this.storageId(key)); });
+    }
+  }
+
+  /**
+   * Drop every entry, or only those whose key matches the predicate
+   * Returns the number of in-memory entries removed
+   */
+  invalidate(predicate?: (key: string) => boolean): number {
+    const keys = Array.from(this.memory.keys()).filter(key => !predicate || predicate(key));
+    keys.forEach(key => this.memory.delete(key));
+
+    // Requests already on their way can't know about this - their answers are discarded,
+    // and the next read starts a new request instead of joining one of them
+    this.generation++;
+    Array.from(this.inflight.keys())
+      .filter(key => !predicate || predicate(key))
+      .forEach(key => this.inflight.delete(key));
+
+    if (this.policy.persist) {
+      runTransaction('readwrite', store => {
+        const request = store.index('namespace').openCursor(IDBKeyRange.only(this.name));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          const { id } = cursor.value as StoredEntry;
+          if (!predicate || predicate(id.slice(this.name.length + 1))) {
+            cursor.delete();
+          }
+          cursor.continue();
+        };
+      });
+    }
+
+    return keys.length;
+  }
+
+  /**
+   * Remove expired and over-limit entries from IndexedDB
+   */
+  private async prunePersisted() {
+    const stored = await runTransaction<StoredEntry<T>[]>('readonly', store =>
+      store.index('namespace').getAll(IDBKeyRange.only(this.name))
+    );
+    if (!stored || stored.length === 0) return;
+
+    const toDelete = stored
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .filter((entry, index) => index >= this.policy.maxEntries || !this.isServable(entry))
+      .map(entry => entry.id);
+
+    if (toDelete.length > 0) {
+      await runTransaction('readwrite', store => { toDelete.forEach(id => store.delete(id)); });
+      console.log(`🗑️ Cache: pruned ${toDelete.length} stored ${this.name} entries`);
+    }
+  }
+
+  private revalidate(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const generation = this.generation;
+    const request: Promise<T> = fetcher()
+      .then(data => {
+        if (generation === this.generation) this.set(key, data);
+        return data;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === request) this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Stale-while-revalidate read:
+   * fresh -> cached data; stale -> cached data + background refresh;
+   * missing/expired -> fetch, falling back to any old entry if the fetch fails
+   */
+  async fetch(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const entry = await this.peekAsync(key);
+
+    if (entry && this.isFresh(entry)) {
+      this.stats.hits++;
+      return entry.data;
+    }
+
+    if (entry && this.isServable(entry)) {
+      this.stats.staleHits++;
+      this.stats.revalidations++;
+      this.revalidate(key, fetcher).catch(error => {
+        this.stats.errors++;
+        console.warn(`💾 Cache: background refresh failed for ${this.name}:${key}`, error);
+      });
+      return entry.data;
+    }
+
+    this.stats.misses++;
+    try {
+      return await this.revalidate(key, fetcher);
+    } catch (error) {
+      this.stats.errors++;
+      if (entry) {
+        console.warn(`💾 Cache: serving expired ${this.name}:${key} after fetch error`);
+        return entry.data;
+      }
+      throw error;
+    }
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats, size: this.memory.size };
+  }
+}
+
+const namespaces = new Map<string, CacheNamespace<unknown>>();
+
+/**
+ * Create (or reuse) a cache namespace
+ */
+export const createCache = <T>(name: string, policy: CachePolicy): CacheNamespace<T> => {
+  const existing = namespaces.get(name);
+  if (existing) return existing as CacheNamespace<T>;
+
+  const cache = new CacheNamespace<T>(name, policy);
+  namespaces.set(name, cache as CacheNamespace<unknown>);
+  return cache;
+};
+
+/**
+ * Hit/miss stats for every namespace
+ */
+export const getCacheStats = (): Record<string, CacheStats> => {
+  const stats: Record<string, CacheStats> = {};
+  namespaces.forEach((cache, name) => {
+    stats[name] = cache.getStats();
+  });
+  return stats;
+};
+
+/**
+ * Clear every namespace, including persisted entries
+ */
+export const clearAllCaches = () => {
+  namespaces.forEach(cache => cache.invalidate());
+  console.log('🗑️ Cleared all caches');
+};
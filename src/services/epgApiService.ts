@@ -1,3 +1,4 @@
+import { resolveEPGChannelId, ChannelMatchSource } from './epgChannelMatcher';
 
 interface EPGProgram {
   id: string;
@@ -12,6 +13,8 @@ interface EPGChannel {
   channelId: string;
   channelName: string;
   programs: EPGProgram[];
+  matchConfidence?: number; // 0-1, how sure the matcher is this is the right guide
+  matchSource?: ChannelMatchSource;
 }
 
 interface EPGApiResponse {
@@ -32,22 +35,6 @@ class EPGApiService {
   private baseUrl = 'https://epg.pw/api';
   private cache: Map<string, { data: EPGApiResponse; timestamp: number }> = new Map();
   private cacheExpiry = 5 * 60 * 1000; // 5 minutes
-  
-  // Map channel names to their EPG API IDs
-  private channelIdMap: Record<string, string> = {
-    'TSN1': '404784',
-    'TSN2': '404785', 
-    'TSN3': '404786',
-    'TSN4': '404787',
-    'TSN5': '404788',
-    'Sportsnet One': '404789',
-    'Sportsnet Pacific': '404790',
-    'Sportsnet East': '404791',
-    'Sportsnet West': '404792',
-    'Sportsnet World': '404793',
-    'Sportsnet 360': '404794',
-    'Sportsnet Ontario': '404795'
-  };
 
   private async fetchChannelEPG(channelId: string): Promise<EPGApiResponse | null> {
     try {
@@ -101,7 +88,8 @@ class EPGApiService {
     const epgChannels: EPGChannel[] = [];
     
     for (const channel of channels) {
-      const channelId = this.channelIdMap[channel.title];
+      const match = resolveEPGChannelId(channel.title, 'Canada');
+      const channelId = match?.epgChannelId;
       
       if (channelId) {
         console.log(`Loading EPG for ${channel.title} (ID: ${channelId})`);
@@ -109,7 +97,11 @@ class EPGApiService {
         
         if (apiData) {
           const epgChannel = this.convertToOurFormat(apiData, channel.title);
-          epgChannels.push(epgChannel);
+          epgChannels.push({
+            ...epgChannel,
+            matchConfidence: match.confidence,
+            matchSource: match.source
+          });
         }
       }
     }
@@ -0,0 +1,231 @@
+import overrideFile from '../data/epgChannelOverrides.json';
+
+// EPG channel matcher
+// Pairs our channel names with epg.pw channels. Manual overrides from
+// src/data/epgChannelOverrides.json always win; otherwise candidates are scored
+// on their normalised names and the best one above MIN_CONFIDENCE is used.
+
+export type ChannelMatchSource = 'override' | 'auto';
+
+export interface EPGCandidate {
+  id: string;
+  names: string[];
+}
+
+export interface ChannelMatch {
+  epgChannelId: string;
+  epgChannelName?: string;
+  confidence: number; // 0-1
+  source: ChannelMatchSource;
+}
+
+export interface ChannelMatchAuditEntry extends ChannelMatch {
+  channelName: string;
+  country?: string;
+  matchedAt: number;
+}
+
+export const MIN_CONFIDENCE = 0.6;
+const LOW_CONFIDENCE = 0.8;
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', ten: '10'
+};
+
+// Quality tags that never distinguish two channels
+const QUALITY_TOKENS = new Set(['hd', 'fhd', 'uhd', 'sd', '4k', 'hevc', 'tv']);
+const RESOLUTION_TOKEN = /^(480|576|720|1080|2160)[pi]?$/;
+
+// Words that appear in so many channel names that sharing them says nothing
+const GENERIC_TOKENS = new Set(['sport', 'channel', 'network', 'and', 'the', 'de', 'la', 'el']);
+
+// Country suffixes used by CDN titles and XMLTV display names
+const COUNTRY_TOKENS = new Set([
+  'uk', 'gb', 'us', 'usa', 'ca', 'au', 'nz', 'ie', 'es', 'fr', 'de', 'it', 'pt', 'nl',
+  'ar', 'br', 'mx', 'in', 'za', 'mena', 'me', 'asia', 'english', 'en'
+]);
+
+/**
+ * Normalise a channel name so that spelling variants compare equal:
+ * "beIN SPORTS MAX 4 HD (FR)" -> "bein sport 4", "Sky Sports Two" -> "sky sport 2"
+ */
+export const normalizeChannelName = (name: string): string => {
+  const words = name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[()[\]{}|:,.'"+_/-]/g, ' ')
+    // "espn2" -> "espn 2", but short tags like "f1" stay one token
+    .replace(/\b([a-z]{3,})(\d+)\b/g, '$1 $2')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => NUMBER_WORDS[word] || word)
+    .map(word => (word === 'sports' ? 'sport' : word === 'extra' ? 'xtra' : word))
+    .filter(word => !QUALITY_TOKENS.has(word) && !RESOLUTION_TOKEN.test(word));
+
+  // "max 4" is the same feed as "4"; a bare "max" stays a distinct channel
+  const collapsed = words.filter((word, i) => !(word === 'max' && /^\d+$/.test(words[i + 1] || '')));
+
+  // Drop trailing country suffixes, but never reduce the name to nothing
+  while (collapsed.length > 1 && COUNTRY_TOKENS.has(collapsed[collapsed.length - 1])) {
+    collapsed.pop();
+  }
+
+  return collapsed.join(' ');
+};
+
+// Channel numbers and numbered tags ("2", "f1") - these identify a feed
+const getNumbers = (tokens: string[]) => tokens.filter(token => /\d/.test(token));
+
+const getDistinctiveWords = (tokens: string[]) =>
+  tokens.filter(token => !/\d/.test(token) && !GENERIC_TOKENS.has(token));
+
+/**
+ * Score how likely two channel names refer to the same channel (0-1)
+ */
+export const scoreChannelMatch = (a: string, b: string): number => {
+  const normA = normalizeChannelName(a);
+  const normB = normalizeChannelName(b);
+
+  if (!normA || !normB) return 0;
+  if (normA === normB) return 1;
+  if (normA.replace(/\s+/g, '') === normB.replace(/\s+/g, '')) return 0.95;
+
+  const tokensA = normA.split(' ');
+  const tokensB = normB.split(' ');
+
+  // The brand has to agree: "Sky Sports 2" is never "Sport TV 2"
+  const distinctiveB = new Set(getDistinctiveWords(tokensB));
+  if (!getDistinctiveWords(tokensA).some(token => distinctiveB.has(token))) {
+    return 0;
+  }
+
+  // Channel numbers must agree: "Sky Sports 1" is never "Sky Sports 2", nor "Sky Sports F1"
+  const numbersA = getNumbers(tokensA);
+  const numbersB = getNumbers(tokensB);
+  if (numbersA.length > 0 && numbersB.length > 0 && numbersA.join() !== numbersB.join()) {
+    return 0;
+  }
+
+  const setB = new Set(tokensB);
+  const shared = tokensA.filter(token => setB.has(token)).length;
+  let score = (2 * shared) / (tokensA.length + tokensB.length);
+
+  // "beIN Sports" vs "beIN Sports 1" - likely the same feed, but not certain
+  if (numbersA.length !== numbersB.length) {
+    score *= 0.85;
+  }
+
+  return Math.round(score * 100) / 100;
+};
+
+// Overrides keyed by normalised name
+const overrides = new Map<string, string>(
+  Object.entries((overrideFile as { channels: Record<string, string> }).channels)
+    .map(([name, id]) => [normalizeChannelName(name), id] as [string, string])
+);
+
+/**
+ * Look up a manual override for a channel name
+ */
+export const getOverrideChannelId = (channelName: string): string | null =>
+  overrides.get(normalizeChannelName(channelName)) || null;
+
+// Record of every match made this session, for auditing mismatches
+const matchAudit = new Map<string, ChannelMatchAuditEntry>();
+
+const recordMatch = (channelName: string, country: string | undefined, match: ChannelMatch | null) => {
+  const key = `${country || '*'}:${channelName}`;
+
+  if (!match) {
+    matchAudit.delete(key);
+    return;
+  }
+
+  matchAudit.set(key, { ...match, channelName, country, matchedAt: Date.now() });
+
+  if (match.source === 'auto' && match.confidence < LOW_CONFIDENCE) {
+    console.warn(`📺 Low confidence EPG match (${match.confidence}): "${channelName}" -> "${match.epgChannelName}" [${match.epgChannelId}]`);
+  }
+};
+
+/**
+ * Find the best EPG channel for one of our channels among the given candidates
+ * (e.g. the <channel> list from an XMLTV file)
+ */
+export const matchChannel = (
+  channelName: string,
+  candidates: EPGCandidate[],
+  country?: string
+): ChannelMatch | null => {
+  const overrideId = getOverrideChannelId(channelName);
+  const overrideCandidate = overrideId ? candidates.find(candidate => candidate.id === overrideId) : undefined;
+
+  if (overrideCandidate) {
+    const match: ChannelMatch = {
+      epgChannelId: overrideCandidate.id,
+      epgChannelName: overrideCandidate.names[0],
+      confidence: 1,
+      source: 'override'
+    };
+    recordMatch(channelName, country, match);
+    return match;
+  }
+
+  let best: ChannelMatch | null = null;
+
+  for (const candidate of candidates) {
+    for (const name of candidate.names) {
+      const confidence = scoreChannelMatch(channelName, name);
+      if (confidence >= MIN_CONFIDENCE && (!best || confidence > best.confidence)) {
+        best = { epgChannelId: candidate.id, epgChannelName: name, confidence, source: 'auto' };
+      }
+    }
+    if (best?.confidence === 1) break;
+  }
+
+  recordMatch(channelName, country, best);
+  return best;
+};
+
+// Override-file resolutions by channel name - the file can't change while the page is open,
+// so each name is scored (and audited) once however often it's rendered
+const resolvedChannels = new Map<string, ChannelMatch | null>();
+
+/**
+ * Resolve an epg.pw channel ID from the override file alone
+ * Used by the per-channel APIs, which have no candidate list to score against
+ */
+export const resolveEPGChannelId = (channelName: string, country?: string): ChannelMatch | null => {
+  const resolved = resolvedChannels.get(channelName);
+  if (resolved !== undefined) return resolved;
+
+  const normalized = normalizeChannelName(channelName);
+  const exact = overrides.get(normalized);
+
+  let match: ChannelMatch | null = exact
+    ? { epgChannelId: exact, epgChannelName: normalized, confidence: 1, source: 'override' }
+    : null;
+
+  if (!match) {
+    for (const [name, id] of overrides.entries()) {
+      const confidence = scoreChannelMatch(normalized, name);
+      if (confidence >= MIN_CONFIDENCE && (!match || confidence > match.confidence)) {
+        match = { epgChannelId: id, epgChannelName: name, confidence, source: 'auto' };
+      }
+    }
+  }
+
+  resolvedChannels.set(channelName, match);
+  recordMatch(channelName, country, match);
+  return match;
+};
+
+/**
+ * All matches made so far, lowest confidence first - use this to spot mismatches
+ * and add the correct ID to the override file
+ */
+export const getChannelMatchAudit = (): ChannelMatchAuditEntry[] =>
+  Array.from(matchAudit.values()).sort((a, b) => a.confidence - b.confidence);
@@ -1,144 +1,6 @@
 import { XMLParser } from 'fast-xml-parser';
-
-// Channel name to epg.pw channel ID mapping for "Now Playing" feature
-const CHANNEL_EPG_ID_MAP: Record<string, string> = {
-  // Sky Sports (UK)
-  'sky sports main event': '7673',
-  'sky sports premier league': '6320',
-  'sky sports football': '6318',
-  'sky sports f1': '6317',
-  'sky sports arena': '6316',
-  'sky sports action': '6315',
-  'sky sports cricket': '6319',
-  'sky sports golf': '6321',
-  'sky sports mix': '10785',
-  'sky sports news': '12337',
-  'sky sports nfl': '6322',
-  'sky sports tennis': '381885',
-  'sky sports racing': '219098',
-
-  // ESPN (US)
-  'espn': '465198',
-  'espn 2': '465373',
-  'espn news': '465410',
-  'espn u': '465108',
-  'espn deportes': '464949',
-
-  // Fox Sports (US)
-  'fox sports': '465291',
-  'fox sports 1': '465291',
-  'fox sports 2': '465355',
-  'fox soccer plus': '465214',
-  'fox deportes': '465156',
-
-  // beIN Sports
-  'bein sports': '55773',
-  'bein sports 1': '55773',
-  'bein sports 2': '443147',
-  'bein sports 3': '54963',
-  'bein sports 4': '443239',
-  'bein sports 5': '443103',
-  'bein sports 6': '55982',
-  'bein sports 7': '55920',
-  'bein sports 8': '443213',
-  'bein sports 9': '55983',
-  'bein sports max 4': '443239',
-  'bein sports max 5': '443103',
-  'bein sports max 6': '55982',
-  'bein sports max 7': '55920',
-  'bein sports max 8': '443213',
-  'bein sports max 9': '55983',
-  'bein sports max 10': '443150',
-  'bein sports xtra': '443151',
-  'bein sports mena 1': '55773',
-  'bein sports mena 2': '443147',
-
-  // TNT Sports (UK) - formerly BT Sport
-  'tnt sports': '12233',
-  'tnt sports 1': '12233',
-  'tnt sports 2': '12235',
-  'tnt sports 3': '12268',
-  'tnt sports 4': '12050',
-
-  // CBS Sports
-  'cbs sports network': '464937',
-  'cbs sports golazo': '464937',
-
-  // Other US Sports
-  'nba tv': '465322',
-  'nfl network': '465336',
-  'nfl redzone': '465337',
-  'acc network': '464879',
-  'big ten network': '465073',
-  'golf channel': '464783',
-
-  // Eurosport
-  'euro sport 1': '6326',
-  'euro sport 2': '6327',
-  'eurosport 1': '6326',
-  'eurosport 2': '6327',
-
-  // DAZN (International)
-  'dazn 1': '7502',
-  'dazn 2': '448573',
-  'dazn 3': '448574',
-  'dazn 4': '448575',
-  'dazn 5': '448576',
-  'dazn 6': '448577',
-  'dazn f1': '406540',
-  'dazn laliga': '409254',
-  'dazn laliga 2': '409254',
-
-  // Spanish Sports Channels
-  'laliga tv': '409254',
-  'laliga tv hypermotion': '409254',
-  'movistar laliga': '409254',
-  'movistar liga de campeones': '409255',
-  'movistar deportes': '409256',
-  'movistar deportes 1': '409256',
-  'movistar deportes 2': '409257',
-  'gol': '409258',
-  'gol tv': '409258',
-  'teledeporte': '409259',
-  'la 1': '409260',
-  'la 2': '409261',
-
-  // RMC Sport (France)
-  'rmc sport 1': '54815',
-  'rmc sport 2': '448570',
-
-  // Canal+ Sport
-  'canal sport': '459266',
-
-  // SuperSport (South Africa)
-  'supersport football': '7689',
-  'supersport premier league': '7690',
-  'supersport action': '7687',
-  'supersport variety 1': '7691',
-  'supersport cricket': '7688',
-  'supersport rugby': '7692',
-  'supersport golf': '7693',
-
-  // Sport TV (Portugal)
-  'sport tv 1': '7701',
-  'sport tv 2': '7702',
-  'sport tv 3': '7703',
-
-  // Other International
-  'eleven sports 1': '448575',
-  'eleven sports 2': '448576',
-  'premier sports 1': '219100',
-  'premier sports 2': '219104',
-  'viaplay sports 1': '448577',
-  'viaplay sports 2': '448578',
-  'sportsnet ontario': '465401',
-  'sportsnet east': '465400',
-  'sportsnet west': '465402',
-  'nova sports 1': '448580',
-  'nova sports premier league': '448581',
-  'polsat sport': '448582',
-  'arena sport 1': '448583',
-};
+import { createCache } from './cacheService';
+import { matchChannel, resolveEPGChannelId, EPGCandidate, ChannelMatchSource } from './epgChannelMatcher';
 
 // Now Playing data structure
 export interface NowPlaying {
@@ -161,6 +23,8 @@ interface EPGChannel {
   channelId: string;
   channelName: string;
   programs: EPGProgram[];
+  matchConfidence?: number; // 0-1, how sure the matcher is this is the right guide
+  matchSource?: ChannelMatchSource;
 }
 
 interface XMLTVProgram {
@@ -184,9 +48,30 @@ interface XMLTVData {
   };
 }
 
+// How much of the schedule the guide keeps per channel
+const EPG_WINDOW_PAST = 3 * 60 * 60 * 1000; // 3 hours back
+const EPG_WINDOW_DAYS = 3; // today plus the next two days
+
+// A guide is built for one channel list - key it on the channels as well as the country.
+// FNV-1a of the sorted channel IDs keeps the persisted key short.
+const getChannelsKey = (channels: { id?: string; title?: string }[]): string => {
+  const key = channels.map(channel => channel.id || channel.title || '').sort().join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
 class EPGService {
-  private cache: Map<string, any> = new Map();
-  private cacheExpiry = 60 * 60 * 1000; // 1 hour
+  // Parsed guides are kept across reloads so the XMLTV file isn't downloaded on every visit
+  private cache = createCache<EPGChannel[]>('epg-xmltv', {
+    ttl: 60 * 60 * 1000, // 1 hour
+    staleTtl: 5 * 60 * 60 * 1000, // serve up to 6 hours old while refreshing
+    maxEntries: 40,
+    persist: true
+  });
   private baseUrl = 'https://epg.pw/xmltv';
   private parser = new XMLParser({
     ignoreAttributes: false,
@@ -194,31 +79,12 @@ class EPGService {
     textNodeName: '#text'
   });
 
-  private async fetchWithCache<T>(key: string, fetchFn: () => Promise<T>): Promise<T> {
-    const cached = this.cache.get(key);
-    
-    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
-      return cached.data;
-    }
-
-    try {
-      const data = await fetchFn();
-      this.cache.set(key, { data, timestamp: Date.now() });
-      return data;
-    } catch (error) {
-      console.error(`Error fetching ${key}:`, error);
-      // Return cached data if available, even if expired
-      if (cached) {
-        return cached.data;
-      }
-      throw error;
-    }
-  }
-
   private getCountryCode(country: string): string {
     const countryMapping: Record<string, string> = {
       'UK': 'GB',
+      'United Kingdom': 'GB',
       'USA': 'US',
+      'United States': 'US',
       'France': 'FR',
       'Germany': 'DE',
       'Italy': 'IT',
@@ -277,43 +143,48 @@ class EPGService {
     return value['#text'];
   }
 
-  private convertXMLTVToOurFormat(xmltvData: XMLTVData, channels: any[]): EPGChannel[] {
+  private convertXMLTVToOurFormat(xmltvData: XMLTVData, channels: any[], country?: string): EPGChannel[] {
     const epgChannels: EPGChannel[] = [];
     
     if (!xmltvData.tv || !xmltvData.tv.channel || !xmltvData.tv.programme) {
       return epgChannels;
     }
 
-    // Create a map of XMLTV channels
-    const xmltvChannelMap = new Map<string, string>();
-    xmltvData.tv.channel.forEach(channel => {
-      const displayName = this.extractText(channel['display-name']).toLowerCase();
-      xmltvChannelMap.set(channel['@_id'], displayName);
+    // Candidate XMLTV channels with every display name they list
+    const xmltvChannels = Array.isArray(xmltvData.tv.channel) ? xmltvData.tv.channel : [xmltvData.tv.channel];
+    const candidates: EPGCandidate[] = xmltvChannels.map(channel => {
+      const displayNames = channel['display-name'];
+      return {
+        id: String(channel['@_id']),
+        names: (Array.isArray(displayNames) ? displayNames : [displayNames])
+          .map(name => this.extractText(name))
+          .filter(Boolean)
+      };
     });
 
-    // Try to match our channels with XMLTV channels
-    for (const channel of channels) {
-      const channelNameLower = channel.title.toLowerCase();
-      
-      // Find matching XMLTV channel
-      let matchingChannelId: string | null = null;
-      
-      for (const [xmltvId, displayName] of xmltvChannelMap.entries()) {
-        if (
-          displayName.includes(channelNameLower.replace(/\s+/g, '')) ||
-          channelNameLower.includes(displayName.replace(/\s+/g, '')) ||
-          displayName.replace(/\s+/g, '').includes(channelNameLower.replace(/\s+/g, ''))
-        ) {
-          matchingChannelId = xmltvId;
-          break;
-        }
+    // Group programmes by channel once instead of scanning the full list per channel
+    const programmesByChannel = new Map<string, XMLTVProgram[]>();
+    const programmes = Array.isArray(xmltvData.tv.programme) ? xmltvData.tv.programme : [xmltvData.tv.programme];
+    programmes.forEach(program => {
+      const list = programmesByChannel.get(program['@_channel']);
+      if (list) {
+        list.push(program);
+      } else {
+        programmesByChannel.set(program['@_channel'], [program]);
       }
+    });
+
+    const windowStart = Date.now() - EPG_WINDOW_PAST;
+    const windowEnd = Date.now() + EPG_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    // Match our channels with XMLTV channels
+    for (const channel of channels) {
+      const match = matchChannel(channel.title, candidates, country);
+      const matchingChannelId = match?.epgChannelId;
 
       if (matchingChannelId) {
-        // Get programs for this channel
-        const channelPrograms = xmltvData.tv.programme
-          .filter(program => program['@_channel'] === matchingChannelId)
-          .slice(0, 12) // Limit to 12 programs for performance
+        // Keep every programme inside the guide window, in start order
+        const channelPrograms = (programmesByChannel.get(matchingChannelId) || [])
           .map((program, index) => ({
             id: `${matchingChannelId}-${index}`,
             title: this.extractText(program.title) || 'Unknown Program',
@@ -321,13 +192,21 @@ class EPGService {
             endTime: this.parseXMLTVTime(program['@_stop']),
             description: program.desc ? this.extractText(program.desc) : undefined,
             category: program.category ? this.extractText(program.category) : undefined
-          }));
+          }))
+          .filter(program => {
+            const start = new Date(program.startTime).getTime();
+            const end = new Date(program.endTime).getTime();
+            return end > windowStart && start < windowEnd;
+          })
+          .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
 
         if (channelPrograms.length > 0) {
           epgChannels.push({
             channelId: matchingChannelId,
             channelName: channel.title,
-            programs: channelPrograms
+            programs: channelPrograms,
+            matchConfidence: match.confidence,
+            matchSource: match.source
           });
         }
       }
@@ -338,35 +217,46 @@ class EPGService {
 
   private parseXMLTVTime(xmltvTime: string): string {
     // XMLTV time format: YYYYMMDDHHmmss +HHMM
-    const dateStr = xmltvTime.substring(0, 14);
-    const year = dateStr.substring(0, 4);
-    const month = dateStr.substring(4, 6);
-    const day = dateStr.substring(6, 8);
-    const hour = dateStr.substring(8, 10);
-    const minute = dateStr.substring(10, 12);
-    const second = dateStr.substring(12, 14);
-    
-    const isoString = `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
-    return new Date(isoString).toISOString();
+    const match = xmltvTime.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\s*([+-])?(\d{2})?(\d{2})?/);
+    if (!match) {
+      return new Date().toISOString();
+    }
+
+    const [, year, month, day, hour, minute, second, sign, offsetHours, offsetMinutes] = match;
+    const utcTime = Date.UTC(
+      parseInt(year),
+      parseInt(month) - 1,
+      parseInt(day),
+      parseInt(hour),
+      parseInt(minute),
+      parseInt(second)
+    );
+
+    // Times are local to the listed offset - shift them back to UTC
+    const offset = sign
+      ? (sign === '-' ? -1 : 1) * (parseInt(offsetHours || '0') * 60 + parseInt(offsetMinutes || '0'))
+      : 0;
+
+    return new Date(utcTime - offset * 60 * 1000).toISOString();
   }
 
   async getEPGForCountry(countryName: string, channels: any[]): Promise<EPGChannel[]> {
-    const cacheKey = `epg-xmltv-${countryName}`;
+    const cacheKey = `epg-xmltv-${countryName}-${getChannelsKey(channels)}`;
     
-    return this.fetchWithCache(cacheKey, async () => {
-      console.log(`Fetching XMLTV EPG data for ${countryName} with ${channels.length} channels`);
-      
-      try {
+    try {
+      return await this.cache.fetch(cacheKey, async () => {
+        console.log(`Fetching XMLTV EPG data for ${countryName} with ${channels.length} channels`);
+
         const xmltvData = await this.fetchXMLTVData(countryName);
-        const epgData = this.convertXMLTVToOurFormat(xmltvData, channels);
-        
+        const epgData = this.convertXMLTVToOurFormat(xmltvData, channels, countryName);
+
         console.log(`XMLTV EPG for ${countryName}: ${epgData.length} channels with real EPG data found`);
         return epgData;
-      } catch (error) {
-        console.error(`Error fetching XMLTV data for ${countryName}:`, error);
-        return [];
-      }
-    });
+      });
+    } catch (error) {
+      console.error(`Error fetching XMLTV data for ${countryName}:`, error);
+      return [];
+    }
   }
 
   async getAllEPGData(channelsByCountry: Record<string, any[]>): Promise<Record<string, EPGChannel[]>> {
@@ -396,27 +286,16 @@ export type { EPGProgram, EPGChannel };
 // NOW PLAYING FEATURE - Uses epg.pw API
 // ============================================
 
-// Cache for Now Playing data
-const nowPlayingCache: Map<string, { data: NowPlaying | null; timestamp: number }> = new Map();
+// Cache for Now Playing data (null = nothing on / no guide, also cached)
 const NOW_PLAYING_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const nowPlayingCache = createCache<NowPlaying | null>('epg-now-playing', {
+  ttl: NOW_PLAYING_CACHE_DURATION,
+  maxEntries: 200
+});
 
 // Get epg.pw channel ID from channel name
 export function getEPGChannelId(channelName: string): string | null {
-  const normalized = channelName.toLowerCase().trim();
-
-  // Direct match
-  if (CHANNEL_EPG_ID_MAP[normalized]) {
-    return CHANNEL_EPG_ID_MAP[normalized];
-  }
-
-  // Partial match - try to find closest match
-  for (const [key, value] of Object.entries(CHANNEL_EPG_ID_MAP)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return value;
-    }
-  }
-
-  return null;
+  return resolveEPGChannelId(channelName)?.epgChannelId || null;
 }
 
 // Check if channel has EPG support
@@ -450,11 +329,10 @@ export async function getNowPlaying(channelName: string): Promise<NowPlaying | n
 
   // Check cache
   const cacheKey = epgId;
-  const cached = nowPlayingCache.get(cacheKey);
-  const now = Date.now();
+  const cached = nowPlayingCache.getSync(cacheKey);
 
-  if (cached && now - cached.timestamp < NOW_PLAYING_CACHE_DURATION) {
-    return cached.data;
+  if (cached !== undefined) {
+    return cached;
   }
 
   try {
@@ -471,7 +349,7 @@ export async function getNowPlaying(channelName: string): Promise<NowPlaying | n
 
     if (!response.ok) {
       console.warn(`EPG fetch failed for channel ${channelName}`);
-      nowPlayingCache.set(cacheKey, { data: null, timestamp: now });
+      nowPlayingCache.set(cacheKey, null);
       return null;
     }
 
@@ -506,18 +384,18 @@ export async function getNowPlaying(channelName: string): Promise<NowPlaying | n
             progress
           };
 
-          nowPlayingCache.set(cacheKey, { data: nowPlaying, timestamp: now });
+          nowPlayingCache.set(cacheKey, nowPlaying);
           return nowPlaying;
         }
       }
     }
 
     // No current program found
-    nowPlayingCache.set(cacheKey, { data: null, timestamp: now });
+    nowPlayingCache.set(cacheKey, null);
     return null;
   } catch (error) {
     console.error(`EPG fetch error for ${channelName}:`, error);
-    nowPlayingCache.set(cacheKey, { data: null, timestamp: now });
+    nowPlayingCache.set(cacheKey, null);
     return null;
   }
 }
@@ -547,5 +425,5 @@ export async function getMultipleNowPlaying(channelNames: string[]): Promise<Map
 
 // Clear Now Playing cache
 export function clearNowPlayingCache(): void {
-  nowPlayingCache.clear();
+  nowPlayingCache.invalidate();
 }
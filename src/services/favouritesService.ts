@@ -0,0 +1,127 @@
+// Favourites Service - persists followed teams and leagues
+// Anonymous users are stored in localStorage, signed-in users in the Supabase profiles table
+// (profiles.favourites jsonb, see supabase/migrations/20261019120000_add_profiles_favourites.sql)
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface FavouriteTeam {
+  name: string;
+  sport?: string;   // Sport category (e.g. "football") - narrows matching when set
+  badge?: string;
+}
+
+export interface FavouriteLeague {
+  id: string;
+  name: string;
+  sport?: string;
+  keywords?: string[];  // Extra title keywords that identify the competition (e.g. "epl")
+}
+
+export interface Favourites {
+  teams: FavouriteTeam[];
+  leagues: FavouriteLeague[];
+}
+
+const STORAGE_KEY = 'damitv_favourites_v1';
+
+export const EMPTY_FAVOURITES: Favourites = { teams: [], leagues: [] };
+
+// Guard against malformed data from storage or the database
+const sanitizeFavourites = (value: unknown): Favourites => {
+  if (!value || typeof value !== 'object') return EMPTY_FAVOURITES;
+
+  const { teams, leagues } = value as Partial<Favourites>;
+
+  return {
+    teams: Array.isArray(teams)
+      ? teams.filter(t => t && typeof t.name === 'string' && t.name.trim())
+      : [],
+    leagues: Array.isArray(leagues)
+      ? leagues.filter(l => l && typeof l.id === 'string' && typeof l.name === 'string')
+      : []
+  };
+};
+
+// Load favourites saved on this device
+export const loadLocalFavourites = (): Favourites => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return sanitizeFavourites(JSON.parse(stored));
+    }
+  } catch (e) {
+    console.log('Favourites read error:', e);
+  }
+  return EMPTY_FAVOURITES;
+};
+
+// Save favourites on this device
+export const saveLocalFavourites = (favourites: Favourites) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favourites));
+  } catch (e) {
+    console.log('Favourites write error:', e);
+  }
+};
+
+// Get the signed-in user's id, or null for anonymous visitors
+export const getCurrentUserId = async (): Promise<string | null> => {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data?.user?.id || null;
+  } catch {
+    return null;
+  }
+};
+
+// Load favourites from the user's profile row
+export const loadRemoteFavourites = async (userId: string): Promise<Favourites | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('favourites')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return sanitizeFavourites(data.favourites);
+  } catch (error) {
+    console.error('❌ Error loading favourites from profile:', error);
+    return null;
+  }
+};
+
+// Save favourites to the user's profile row
+export const saveRemoteFavourites = async (userId: string, favourites: Favourites): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ favourites: favourites as unknown as Json, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('❌ Error saving favourites to profile:', error);
+    }
+  } catch (error) {
+    console.error('❌ Error saving favourites to profile:', error);
+  }
+};
+
+// Combine two favourite lists without duplicates (used when an anonymous user signs in)
+export const mergeFavourites = (a: Favourites, b: Favourites): Favourites => {
+  const teams = [...a.teams];
+  b.teams.forEach(team => {
+    if (!teams.some(t => t.name.toLowerCase() === team.name.toLowerCase() && t.sport === team.sport)) {
+      teams.push(team);
+    }
+  });
+
+  const leagues = [...a.leagues];
+  b.leagues.forEach(league => {
+    if (!leagues.some(l => l.id === league.id)) {
+      leagues.push(league);
+    }
+  });
+
+  return { teams, leagues };
+};
@@ -0,0 +1,363 @@
+// HLS playback engine
+// One place that owns hls.js for every player: instance lifecycle, native HLS fallback
+// (Safari/iOS), connection-aware buffering and error recovery. Players subscribe to typed
+// events instead of wiring hls.js themselves.
+import Hls, { ErrorData, HlsConfig } from 'hls.js';
+import { getConnectionInfo, detectCasting, getOptimizedHLSConfig } from '@/utils/connectionOptimizer';
+
+export interface QualityLevel {
+  index: number;
+  height: number;
+  bitrate: number;
+  name: string;
+}
+
+// Seekable part of a live stream, in media time (seconds)
+export interface LiveWindow {
+  start: number;      // oldest position still in the playlist
+  end: number;        // newest buffered-able position
+  liveEdge: number;   // where "LIVE" plays from (hls.js keeps a few segments of safety margin)
+}
+
+export type PlaybackErrorKind = 'network' | 'media' | 'unsupported' | 'other';
+
+export type PlaybackEvent =
+  | { type: 'loading'; src: string; mode: PlaybackMode }
+  | { type: 'ready'; levels: QualityLevel[] }
+  | { type: 'playing' }
+  | { type: 'autoplayBlocked' }
+  | { type: 'levelSwitched'; level: QualityLevel | null }
+  | { type: 'recovering'; kind: 'network' | 'media'; attempt: number; details: string }
+  | { type: 'stalled'; durationMs: number }
+  | { type: 'fatal'; kind: PlaybackErrorKind; details: string };
+
+export type PlaybackMode = 'hlsjs' | 'native' | 'direct';
+
+export interface PlaybackEngineOptions {
+  autoPlay?: boolean;              // start playback once the stream is ready (default true)
+  lowLatency?: boolean;            // hls.js low-latency mode (default true)
+  isHls?: boolean;                 // override detection for HLS URLs without a .m3u8 extension
+  config?: Partial<HlsConfig>;     // per-player overrides, applied last
+  stallTimeout?: number;           // ms of continuous buffering before a 'stalled' event (default 15s)
+  dvr?: boolean;                   // let viewers fall behind live instead of snapping back to the edge
+}
+
+type Listener = (event: PlaybackEvent) => void;
+
+// Recovery escalation before giving up
+const MAX_NETWORK_RETRIES = 3;
+const NETWORK_RETRY_DELAY = 1000; // doubled on every attempt
+const MAX_MEDIA_RECOVERIES = 2;   // recoverMediaError, then swapAudioCodec + recoverMediaError
+const RECOVERY_RESET_AFTER = 30 * 1000; // a stream that plays this long gets a fresh budget
+const DEFAULT_STALL_TIMEOUT = 15 * 1000;
+
+export const isHlsSource = (src: string): boolean => /\.m3u8(\?|$)/i.test(src);
+
+const toHttps = (src: string) => src.replace(/^http:\/\//i, 'https://');
+
+const toQualityLevel = (level: { height: number; bitrate: number }, index: number): QualityLevel => ({
+  index,
+  height: level.height,
+  bitrate: level.bitrate,
+  name: level.height ? `${level.height}p` : `${Math.round(level.bitrate / 1000)} kbps`
+});
+
+/**
+ * hls.js config for the current connection (and casting state), plus player overrides
+ */
+export const buildHlsConfig = (
+  video: HTMLVideoElement | null,
+  options: PlaybackEngineOptions = {}
+): Partial<HlsConfig> => ({
+  enableWorker: true,
+  lowLatencyMode: options.lowLatency ?? true,
+  startLevel: -1,
+  autoStartLoad: true,
+  xhrSetup: (xhr: XMLHttpRequest) => {
+    xhr.withCredentials = false;
+  },
+  ...getOptimizedHLSConfig(getConnectionInfo(), detectCasting(video)),
+  // hls.js jumps back to live once latency passes this - DVR viewers chose to be behind
+  ...(options.dvr ? { liveMaxLatencyDurationCount: Infinity } : {}),
+  ...options.config
+});
+
+export class HlsPlaybackEngine {
+  private hls: Hls | null = null;
+  private listeners = new Set<Listener>();
+  private networkRetries = 0;
+  private mediaRecoveries = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private resetTimer: ReturnType<typeof setTimeout> | null = null;
+  private stallTimer: ReturnType<typeof setTimeout> | null = null;
+  private detachVideoListeners: (() => void) | null = null;
+  private _mode: PlaybackMode = 'direct';
+  private _levels: QualityLevel[] = [];
+  private _live = false;
+
+  constructor(private video: HTMLVideoElement, private options: PlaybackEngineOptions = {}) {}
+
+  get mode(): PlaybackMode {
+    return this._mode;
+  }
+
+  get levels(): QualityLevel[] {
+    return this._levels;
+  }
+
+  /** The underlying hls.js instance (null for native/direct playback) */
+  get instance(): Hls | null {
+    return this.hls;
+  }
+
+  /** Current level index, -1 for automatic selection */
+  get currentLevel(): number {
+    return this.hls ? this.hls.currentLevel : -1;
+  }
+
+  get autoLevelEnabled(): boolean {
+    return this.hls ? this.hls.autoLevelEnabled : true;
+  }
+
+  /** Live stream (sliding playlist or endless native source) rather than VOD */
+  get isLive(): boolean {
+    return this._mode === 'hlsjs' ? this._live : this.video.duration === Infinity;
+  }
+
+  /**
+   * The window a live viewer can seek in, or null for VOD / before the first playlist
+   */
+  getLiveWindow(): LiveWindow | null {
+    const seekable = this.video.seekable;
+    if (!this.isLive || seekable.length === 0) return null;
+
+    const start = seekable.start(0);
+    const end = seekable.end(seekable.length - 1);
+    if (!(end > start)) return null;
+
+    const syncPosition = this.hls?.liveSyncPosition;
+    const liveEdge = syncPosition != null ? Math.min(Math.max(syncPosition, start), end) : end;
+    return { start, end, liveEdge };
+  }
+
+  /** Seek within the live window - never past the live edge, where there's nothing buffered yet */
+  seekTo(position: number) {
+    const liveWindow = this.getLiveWindow();
+    this.video.currentTime = liveWindow ? Math.min(Math.max(position, liveWindow.start), liveWindow.liveEdge) : position;
+  }
+
+  /** Back to the live edge, resuming if paused */
+  seekToLiveEdge() {
+    const liveWindow = this.getLiveWindow();
+    if (!liveWindow) return;
+    this.video.currentTime = liveWindow.liveEdge;
+    if (this.video.paused) this.video.play().catch(() => undefined);
+  }
+
+  on(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(event: PlaybackEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('🎬 Playback listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Switch quality: a level index, or -1 for automatic
+   */
+  setLevel(index: number) {
+    if (!this.hls) return;
+    this.hls.currentLevel = index;
+  }
+
+  /**
+   * Highest level automatic selection may use, or -1 for no cap
+   */
+  setLevelCap(index: number) {
+    if (!this.hls) return;
+    this.hls.autoLevelCapping = index;
+  }
+
+  load(rawSrc: string) {
+    this.teardown();
+
+    const src = toHttps(rawSrc);
+    const video = this.video;
+
+    if (!(this.options.isHls ?? isHlsSource(src))) {
+      this._mode = 'direct';
+    } else if (Hls.isSupported()) {
+      this._mode = 'hlsjs';
+    } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      this._mode = 'native';
+    } else {
+      console.error('❌ HLS is not supported in this browser');
+      this.emit({ type: 'fatal', kind: 'unsupported', details: 'hls-unsupported' });
+      return;
+    }
+
+    this.emit({ type: 'loading', src, mode: this._mode });
+    this.attachVideoListeners();
+
+    if (this._mode === 'hlsjs') {
+      this.startHls(src);
+    } else {
+      video.src = src;
+      video.load();
+    }
+  }
+
+  private startHls(src: string) {
+    const hls = new Hls(buildHlsConfig(this.video, this.options));
+    this.hls = hls;
+
+    hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+      this._levels = data.levels.map(toQualityLevel);
+      console.log(`🎬 HLS manifest parsed: ${this._levels.length} quality levels`);
+      this.handleReady();
+    });
+
+    hls.on(Hls.Events.LEVEL_LOADED, (_event, data) => {
+      this._live = data.details.live;
+    });
+
+    hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+      this.emit({ type: 'levelSwitched', level: this._levels[data.level] || null });
+    });
+
+    hls.on(Hls.Events.ERROR, (_event, data) => this.handleHlsError(data));
+
+    hls.loadSource(src);
+    hls.attachMedia(this.video);
+  }
+
+  private attachVideoListeners() {
+    const video = this.video;
+
+    const handleLoadedMetadata = () => {
+      // hls.js reports readiness through MANIFEST_PARSED
+      if (this._mode !== 'hlsjs') this.handleReady();
+    };
+    const clearStall = () => {
+      if (this.stallTimer) clearTimeout(this.stallTimer);
+      this.stallTimer = null;
+    };
+    const handleWaiting = () => {
+      // Buffering that outlasts the timeout is reported once; hls.js keeps trying underneath
+      if (this.stallTimer) return;
+      const timeout = this.options.stallTimeout ?? DEFAULT_STALL_TIMEOUT;
+      this.stallTimer = setTimeout(() => {
+        console.warn(`⏳ Playback stalled for ${timeout / 1000}s`);
+        this.emit({ type: 'stalled', durationMs: timeout });
+      }, timeout);
+    };
+    const handlePlaying = () => {
+      clearStall();
+      this.emit({ type: 'playing' });
+      // Playing steadily - forget earlier recoveries
+      if (this.resetTimer) clearTimeout(this.resetTimer);
+      this.resetTimer = setTimeout(() => {
+        this.networkRetries = 0;
+        this.mediaRecoveries = 0;
+      }, RECOVERY_RESET_AFTER);
+    };
+    const handleVideoError = () => {
+      // hls.js surfaces its own errors; this covers native and direct playback
+      if (this._mode === 'hlsjs') return;
+      const code = video.error?.code;
+      const kind: PlaybackErrorKind = code === MediaError.MEDIA_ERR_NETWORK ? 'network' : 'media';
+      this.emit({ type: 'fatal', kind, details: video.error?.message || `media-error-${code ?? 'unknown'}` });
+    };
+
+    video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('pause', clearStall);
+    video.addEventListener('error', handleVideoError);
+
+    this.detachVideoListeners = () => {
+      clearStall();
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('pause', clearStall);
+      video.removeEventListener('error', handleVideoError);
+    };
+  }
+
+  private handleReady() {
+    this.emit({ type: 'ready', levels: this._levels });
+
+    if (this.options.autoPlay === false) return;
+    this.video.play().catch(error => {
+      console.log('▶️ Autoplay blocked:', error?.name || error);
+      this.emit({ type: 'autoplayBlocked' });
+    });
+  }
+
+  // Escalate: retry the network with backoff, recover media errors (then swap codecs), then give up
+  private handleHlsError(data: ErrorData) {
+    if (!data.fatal || !this.hls) return;
+    const hls = this.hls;
+
+    if (data.type === Hls.ErrorTypes.NETWORK_ERROR && this.networkRetries < MAX_NETWORK_RETRIES) {
+      this.networkRetries++;
+      const delay = NETWORK_RETRY_DELAY * 2 ** (this.networkRetries - 1);
+      console.log(`🔄 HLS network error (${data.details}), retry ${this.networkRetries}/${MAX_NETWORK_RETRIES} in ${delay}ms`);
+      this.emit({ type: 'recovering', kind: 'network', attempt: this.networkRetries, details: data.details });
+      this.retryTimer = setTimeout(() => hls.startLoad(), delay);
+      return;
+    }
+
+    if (data.type === Hls.ErrorTypes.MEDIA_ERROR && this.mediaRecoveries < MAX_MEDIA_RECOVERIES) {
+      this.mediaRecoveries++;
+      console.log(`🔄 HLS media error (${data.details}), recovery ${this.mediaRecoveries}/${MAX_MEDIA_RECOVERIES}`);
+      this.emit({ type: 'recovering', kind: 'media', attempt: this.mediaRecoveries, details: data.details });
+      if (this.mediaRecoveries > 1) hls.swapAudioCodec();
+      hls.recoverMediaError();
+      return;
+    }
+
+    const kind: PlaybackErrorKind =
+      data.type === Hls.ErrorTypes.NETWORK_ERROR ? 'network'
+        : data.type === Hls.ErrorTypes.MEDIA_ERROR ? 'media'
+          : 'other';
+    console.error(`💥 Fatal HLS error (${data.details}), giving up`);
+    this.teardown();
+    this.emit({ type: 'fatal', kind, details: data.details });
+  }
+
+  private teardown() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.resetTimer) clearTimeout(this.resetTimer);
+    this.retryTimer = null;
+    this.resetTimer = null;
+    this.detachVideoListeners?.();
+    this.detachVideoListeners = null;
+    this.networkRetries = 0;
+    this.mediaRecoveries = 0;
+    this._levels = [];
+    this._live = false;
+
+    if (this.hls) {
+      this.hls.destroy();
+      this.hls = null;
+    }
+  }
+
+  destroy() {
+    this.teardown();
+    if (this._mode !== 'hlsjs') {
+      this.video.removeAttribute('src');
+      this.video.load();
+    }
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,343 @@
+// League tables from TheSportsDB
+// Table, season results for home/away splits, and "projected" positions: the table as
+// it would stand if every match in play ended at its current score.
+import { createCache } from './cacheService';
+import { teamsMatch } from './teamIdentity';
+import { resolveStatusPhase, isLivePhase } from './matchLifecycle';
+import { formatMatchClock, LiveScoreEvent } from './liveScoreFeed';
+
+const API_KEY = '751945';
+const BASE_URL = 'https://www.thesportsdb.com/api/v1/json';
+
+export type TableZone = 'champions' | 'europe' | 'conference' | 'promotion' | 'playoff' | 'relegation';
+
+export interface LeagueInfo {
+  id: string;
+  name: string;
+  sport: string;            // TheSportsDB's name - "Soccer", "Basketball"
+  country: string;
+  badge: string | null;
+  currentSeason: string;
+}
+
+export interface SplitRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number | null;    // null where the sport doesn't award table points per result
+}
+
+export interface LiveTableFixture {
+  opponent: string;
+  isHome: boolean;
+  goalsFor: number;
+  goalsAgainst: number;
+  clock: string | null;
+}
+
+export interface LeagueTableRow {
+  rank: number;
+  teamId: string;
+  team: string;
+  badge: string | null;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  form: string;             // "WWDLW", as TheSportsDB gives it
+  zone: TableZone | null;
+  zoneLabel: string | null; // TheSportsDB's description, e.g. "Promotion - Champions League (League phase: )"
+  home: SplitRecord | null;
+  away: SplitRecord | null;
+  live: LiveTableFixture | null;
+  projectedRank: number | null;
+}
+
+// TheSportsDB payloads, only the fields used here
+interface SportsDBTableEntry {
+  intRank?: string;
+  idTeam?: string;
+  strTeam?: string;
+  strBadge?: string;
+  strTeamBadge?: string;
+  intPlayed?: string;
+  intWin?: string;
+  intDraw?: string;
+  intLoss?: string;
+  intGoalsFor?: string;
+  intGoalsAgainst?: string;
+  intGoalDifference?: string;
+  intPoints?: string;
+  strForm?: string;
+  strDescription?: string;
+}
+
+interface SportsDBSeasonEvent {
+  idHomeTeam: string;
+  idAwayTeam: string;
+  intHomeScore: string | null;
+  intAwayScore: string | null;
+  strStatus: string | null;
+}
+
+interface PointsRule {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+// Only sports whose tables are plain points per result can be projected from a score
+const POINTS_RULES: Record<string, PointsRule> = {
+  'soccer': { win: 3, draw: 1, loss: 0 }
+};
+
+// Position ranges for leagues whose table rows come without a description.
+// Negative positions count from the bottom (-1 is last).
+const ZONE_FALLBACKS: Record<string, Array<{ from: number; to: number; zone: TableZone }>> = {
+  '4328': [{ from: 1, to: 4, zone: 'champions' }, { from: 5, to: 5, zone: 'europe' }, { from: 6, to: 6, zone: 'conference' }, { from: -3, to: -1, zone: 'relegation' }],
+  '4335': [{ from: 1, to: 4, zone: 'champions' }, { from: 5, to: 5, zone: 'europe' }, { from: 6, to: 6, zone: 'conference' }, { from: -3, to: -1, zone: 'relegation' }],
+  '4332': [{ from: 1, to: 4, zone: 'champions' }, { from: 5, to: 5, zone: 'europe' }, { from: 6, to: 6, zone: 'conference' }, { from: -3, to: -1, zone: 'relegation' }],
+  '4331': [{ from: 1, to: 4, zone: 'champions' }, { from: 5, to: 5, zone: 'europe' }, { from: 6, to: 6, zone: 'conference' }, { from: -3, to: -3, zone: 'playoff' }, { from: -2, to: -1, zone: 'relegation' }],
+  '4334': [{ from: 1, to: 4, zone: 'champions' }, { from: 5, to: 5, zone: 'europe' }, { from: 6, to: 6, zone: 'conference' }, { from: -3, to: -3, zone: 'playoff' }, { from: -2, to: -1, zone: 'relegation' }],
+  '4356': [{ from: 1, to: 6, zone: 'playoff' }]
+};
+
+const leagueCache = createCache<LeagueInfo | null>('league-info', { ttl: 24 * 60 * 60 * 1000, maxEntries: 50, persist: true });
+const tableCache = createCache<LeagueTableRow[]>('league-tables', { ttl: 15 * 60 * 1000, staleTtl: 60 * 60 * 1000, maxEntries: 50, persist: true });
+const splitsCache = createCache<Record<string, { home: SplitRecord; away: SplitRecord }>>('league-splits', {
+  ttl: 60 * 60 * 1000,
+  staleTtl: 6 * 60 * 60 * 1000,
+  maxEntries: 50,
+  persist: true
+});
+
+const getPointsRule = (sport: string): PointsRule | null =>
+  POINTS_RULES[sport.toLowerCase().replace(/\s+/g, '_')] || null;
+
+const toNumber = (value: unknown): number => parseInt(String(value ?? ''), 10) || 0;
+
+/**
+ * Zone for a table row, from TheSportsDB's description when it has one
+ */
+export const resolveZone = (description: string | null | undefined): TableZone | null => {
+  const text = (description || '').toLowerCase();
+  if (!text) return null;
+
+  if (/^relegation\b/.test(text)) return 'relegation';
+  // "Promotion - Bundesliga (Relegation: )" is the relegation play-off
+  if (/\(relegation/.test(text) || /play[\s-]?offs?/.test(text)) return 'playoff';
+  if (text.includes('champions league')) return 'champions';
+  if (text.includes('europa league')) return 'europe';
+  if (text.includes('conference league')) return 'conference';
+  if (text.includes('promotion')) return 'promotion';
+  return null;
+};
+
+const getFallbackZone = (leagueId: string, rank: number, total: number): TableZone | null => {
+  const ranges = ZONE_FALLBACKS[leagueId];
+  if (!ranges || total === 0) return null;
+
+  const position = (value: number) => (value < 0 ? total + 1 + value : value);
+  return ranges.find(range => rank >= position(range.from) && rank <= position(range.to))?.zone || null;
+};
+
+/**
+ * League name, sport and current season
+ */
+export const getLeagueInfo = async (leagueId: string): Promise<LeagueInfo | null> => {
+  return leagueCache.fetch(leagueId, async () => {
+    const response = await fetch(`${BASE_URL}/${API_KEY}/lookupleague.php?id=${encodeURIComponent(leagueId)}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    const league = data.leagues?.[0];
+    if (!league) return null;
+
+    return {
+      id: league.idLeague,
+      name: league.strLeague,
+      sport: league.strSport || 'Soccer',
+      country: league.strCountry || '',
+      badge: league.strBadge || null,
+      currentSeason: league.strCurrentSeason || ''
+    };
+  });
+};
+
+/**
+ * League table for a season, without splits or live data
+ */
+export const getLeagueTable = async (leagueId: string, season: string): Promise<LeagueTableRow[]> => {
+  return tableCache.fetch(`${leagueId}_${season}`, async () => {
+    const response = await fetch(
+      `${BASE_URL}/${API_KEY}/lookuptable.php?l=${encodeURIComponent(leagueId)}&s=${encodeURIComponent(season)}`
+    );
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    const table: SportsDBTableEntry[] = Array.isArray(data.table) ? data.table : [];
+    console.log(`🏆 ${leagueId} ${season}: ${table.length} table rows`);
+
+    return table
+      .map((entry): LeagueTableRow => ({
+        rank: toNumber(entry.intRank),
+        teamId: entry.idTeam || '',
+        team: entry.strTeam || '',
+        badge: entry.strBadge || entry.strTeamBadge || null,
+        played: toNumber(entry.intPlayed),
+        wins: toNumber(entry.intWin),
+        draws: toNumber(entry.intDraw),
+        losses: toNumber(entry.intLoss),
+        goalsFor: toNumber(entry.intGoalsFor),
+        goalsAgainst: toNumber(entry.intGoalsAgainst),
+        goalDifference: toNumber(entry.intGoalDifference),
+        points: toNumber(entry.intPoints),
+        form: entry.strForm || '',
+        zone: resolveZone(entry.strDescription),
+        zoneLabel: entry.strDescription || null,
+        home: null,
+        away: null,
+        live: null,
+        projectedRank: null
+      }))
+      .sort((a, b) => a.rank - b.rank)
+      .map((row, _index, rows) => ({
+        ...row,
+        zone: row.zone || getFallbackZone(leagueId, row.rank, rows.length)
+      }));
+  });
+};
+
+const emptySplit = (rule: PointsRule | null): SplitRecord => ({
+  played: 0, wins: 0, draws: 0, losses: 0, goalsFor: 0, goalsAgainst: 0, points: rule ? 0 : null
+});
+
+const addResult = (record: SplitRecord, goalsFor: number, goalsAgainst: number, rule: PointsRule | null) => {
+  record.played++;
+  record.goalsFor += goalsFor;
+  record.goalsAgainst += goalsAgainst;
+
+  const outcome = goalsFor > goalsAgainst ? 'win' : goalsFor < goalsAgainst ? 'loss' : 'draw';
+  if (outcome === 'win') record.wins++;
+  else if (outcome === 'loss') record.losses++;
+  else record.draws++;
+
+  if (rule && record.points !== null) record.points += rule[outcome];
+};
+
+/**
+ * Home and away records per team ID, built from the season's finished results
+ */
+export const getSeasonSplits = async (
+  leagueId: string,
+  season: string,
+  sport: string
+): Promise<Record<string, { home: SplitRecord; away: SplitRecord }>> => {
+  return splitsCache.fetch(`${leagueId}_${season}`, async () => {
+    const response = await fetch(
+      `${BASE_URL}/${API_KEY}/eventsseason.php?id=${encodeURIComponent(leagueId)}&s=${encodeURIComponent(season)}`
+    );
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    const events: SportsDBSeasonEvent[] = Array.isArray(data.events) ? data.events : [];
+    const rule = getPointsRule(sport);
+    const splits: Record<string, { home: SplitRecord; away: SplitRecord }> = {};
+
+    const splitFor = (teamId: string) => {
+      if (!splits[teamId]) splits[teamId] = { home: emptySplit(rule), away: emptySplit(rule) };
+      return splits[teamId];
+    };
+
+    events.forEach(event => {
+      if (event.intHomeScore === null || event.intHomeScore === '' || event.intAwayScore === null || event.intAwayScore === '') return;
+      if (resolveStatusPhase(event.strStatus) !== 'finished') return;
+
+      const homeScore = toNumber(event.intHomeScore);
+      const awayScore = toNumber(event.intAwayScore);
+      addResult(splitFor(event.idHomeTeam).home, homeScore, awayScore, rule);
+      addResult(splitFor(event.idAwayTeam).away, awayScore, homeScore, rule);
+    });
+
+    return splits;
+  });
+};
+
+/**
+ * Attach home/away records to table rows
+ */
+export const withSplits = (
+  rows: LeagueTableRow[],
+  splits: Record<string, { home: SplitRecord; away: SplitRecord }>
+): LeagueTableRow[] =>
+  rows.map(row => ({
+    ...row,
+    home: splits[row.teamId]?.home || null,
+    away: splits[row.teamId]?.away || null
+  }));
+
+const isInPlay = (event: LiveScoreEvent): boolean => {
+  if (event.intHomeScore === null || event.intAwayScore === null) return false;
+  // Unknown statuses count as in play, as in the match lifecycle
+  const phase = resolveStatusPhase(event.strStatus);
+  return phase === null || isLivePhase(phase);
+};
+
+const findRowIndex = (rows: LeagueTableRow[], teamId: string | undefined, teamName: string, sport: string): number => {
+  const byId = teamId ? rows.findIndex(row => row.teamId === teamId) : -1;
+  return byId !== -1 ? byId : rows.findIndex(row => teamsMatch(row.team, teamName, sport));
+};
+
+const compareStanding = (a: LeagueTableRow, b: LeagueTableRow): number =>
+  b.points - a.points ||
+  b.goalDifference - a.goalDifference ||
+  b.goalsFor - a.goalsFor ||
+  a.rank - b.rank;
+
+/**
+ * Mark teams in play and, where the sport allows, work out where every team would
+ * finish the day if the live scores stood. Rows keep their official order.
+ */
+export const projectLiveTable = (rows: LeagueTableRow[], events: LiveScoreEvent[], sport: string): LeagueTableRow[] => {
+  const rule = getPointsRule(sport);
+  const projected = rows.map(row => ({ ...row, live: null as LiveTableFixture | null, projectedRank: null as number | null }));
+  let anyLive = false;
+
+  events.filter(isInPlay).forEach(event => {
+    const homeIndex = findRowIndex(projected, event.idHomeTeam, event.strHomeTeam, sport);
+    const awayIndex = findRowIndex(projected, event.idAwayTeam, event.strAwayTeam, sport);
+    if (homeIndex === -1 || awayIndex === -1 || homeIndex === awayIndex) return;
+
+    const homeScore = toNumber(event.intHomeScore);
+    const awayScore = toNumber(event.intAwayScore);
+    const clock = formatMatchClock(event.strProgress, event.strStatus);
+    projected[homeIndex].live = { opponent: event.strAwayTeam, isHome: true, goalsFor: homeScore, goalsAgainst: awayScore, clock };
+    projected[awayIndex].live = { opponent: event.strHomeTeam, isHome: false, goalsFor: awayScore, goalsAgainst: homeScore, clock };
+    anyLive = true;
+  });
+
+  if (!anyLive || !rule) return projected;
+
+  const standings = projected.map(row => {
+    if (!row.live) return row;
+    const { goalsFor, goalsAgainst } = row.live;
+    const outcome = goalsFor > goalsAgainst ? 'win' : goalsFor < goalsAgainst ? 'loss' : 'draw';
+    return {
+      ...row,
+      played: row.played + 1,
+      goalsFor: row.goalsFor + goalsFor,
+      goalsAgainst: row.goalsAgainst + goalsAgainst,
+      goalDifference: row.goalDifference + goalsFor - goalsAgainst,
+      points: row.points + rule[outcome]
+    };
+  });
+
+  const projectedRanks = new Map(
+    [...standings].sort(compareStanding).map((row, index) => [row.teamId || row.team, index + 1])
+  );
+  return projected.map(row => ({ ...row, projectedRank: projectedRanks.get(row.teamId || row.team) ?? null }));
+};
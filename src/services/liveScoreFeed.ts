@@ -0,0 +1,210 @@
+// Live score feed
+// TheSportsDB v2 livescore, one request per sport, plus per-event timelines. Livescore
+// responses are cached per sport, so score badges, the scoreboard, league tables and
+// the match lifecycle share them.
+import { createCache } from './cacheService';
+import { findBestFixture } from './teamIdentity';
+
+const API_KEY = '751945';
+const CACHE_DURATION = 30 * 1000; // 30 seconds cache for live scores
+
+export interface LiveScoreEvent {
+  idEvent: string;
+  strSport: string;
+  strHomeTeam: string;
+  strAwayTeam: string;
+  intHomeScore: string | null;
+  intAwayScore: string | null;
+  strProgress: string | null;
+  strStatus: string | null;
+  idLeague?: string;
+  idHomeTeam?: string;
+  idAwayTeam?: string;
+}
+
+export interface TimelineEvent {
+  id: string;
+  time: string;
+  type: string;
+  player: string;
+  team: string;
+  isHome: boolean;
+  assist: string;
+  comment: string;
+}
+
+export interface LiveScoreFixture {
+  homeTeam: string;
+  awayTeam: string;
+  category?: string;
+}
+
+// Global cache for live scores - store all sports
+// Older scores are only used when the API fails
+const liveScoresCache = createCache<LiveScoreEvent[]>('live-scores', {
+  ttl: CACHE_DURATION,
+  staleTtl: 5 * 60 * 1000
+});
+
+// All sports to fetch
+const SPORTS_TO_FETCH = ['soccer', 'basketball', 'tennis', 'cricket', 'ice_hockey', 'baseball', 'rugby', 'american_football', 'fighting'];
+
+// strProgress is minutes for most sports, free text ("HT", "Q3 5:12") otherwise
+export const formatMatchClock = (progress: string | null, status: string | null): string | null => {
+  if (progress && /^\d+$/.test(progress)) return `${progress}'`;
+  return progress || status;
+};
+
+// Map sport category to TheSportsDB sport slug
+const getSportSlug = (category: string): string => {
+  const mapping: Record<string, string> = {
+    'football': 'soccer',
+    'soccer': 'soccer',
+    'basketball': 'basketball',
+    'nba': 'basketball',
+    'tennis': 'tennis',
+    'cricket': 'cricket',
+    'hockey': 'ice_hockey',
+    'ice-hockey': 'ice_hockey',
+    'baseball': 'baseball',
+    'mlb': 'baseball',
+    'rugby': 'rugby',
+    'american-football': 'american_football',
+    'nfl': 'american_football',
+    'mma': 'fighting',
+    'ufc': 'fighting',
+    'boxing': 'fighting',
+    'motorsport': 'motorsport',
+    'golf': 'golf'
+  };
+
+  return mapping[category?.toLowerCase()] || 'soccer';
+};
+
+// Fetch live scores for a specific sport
+const fetchLiveScoresForSport = async (sport: string): Promise<LiveScoreEvent[]> => {
+  // Check cache
+  const fresh = liveScoresCache.getSync(sport);
+  if (fresh) {
+    return fresh;
+  }
+
+  const cached = liveScoresCache.peek(sport);
+  const fallback = cached && liveScoresCache.isServable(cached) ? cached.data : [];
+
+  try {
+    const response = await fetch(
+      `https://www.thesportsdb.com/api/v2/json/livescore/${sport}`,
+      {
+        headers: {
+          'X_API_KEY': API_KEY
+        }
+      }
+    );
+
+    if (!response.ok) {
+      return fallback;
+    }
+
+    const data = await response.json();
+
+    // No livescore key means nothing is on - cached like any other answer
+    // Drop NS (Not Started) - postponed and cancelled stay, the match lifecycle needs them
+    const liveMatches: LiveScoreEvent[] = Array.isArray(data?.livescore)
+      ? data.livescore.filter((m: LiveScoreEvent) => m.strStatus !== 'NS')
+      : [];
+
+    liveScoresCache.set(sport, liveMatches);
+
+    console.log(`📊 ${sport}: ${liveMatches.length} live matches`);
+    return liveMatches;
+  } catch (error) {
+    console.error(`Error fetching ${sport} live scores:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Livescore entries for many fixtures at once. Each sport's feed is fetched once, and
+ * fixtures missing from their own sport are looked for across every sport (categories
+ * upstream aren't always right). Results line up with the fixtures passed in.
+ */
+export const findLiveScoreEvents = async (
+  fixtures: LiveScoreFixture[]
+): Promise<Array<LiveScoreEvent | undefined>> => {
+  const feeds = new Map<string, LiveScoreEvent[]>();
+  const loadFeeds = async (sports: string[]) => {
+    const missing = [...new Set(sports)].filter(sport => !feeds.has(sport));
+    const results = await Promise.all(missing.map(sport => fetchLiveScoresForSport(sport)));
+    missing.forEach((sport, index) => feeds.set(sport, results[index]));
+  };
+  const findFixture = (events: LiveScoreEvent[], fixture: LiveScoreFixture) =>
+    findBestFixture(
+      events,
+      event => [event.strHomeTeam, event.strAwayTeam],
+      fixture.homeTeam,
+      fixture.awayTeam,
+      fixture.category
+    );
+
+  const sports = fixtures.map(fixture => getSportSlug(fixture.category || 'football'));
+  await loadFeeds(sports);
+  const found = fixtures.map((fixture, index) => findFixture(feeds.get(sports[index]) || [], fixture));
+  if (found.every(Boolean)) return found;
+
+  await loadFeeds(SPORTS_TO_FETCH);
+  const allEvents = [...feeds.values()].flat();
+  return found.map((event, index) => event || findFixture(allEvents, fixtures[index]));
+};
+
+// Find the livescore entry for a fixture - its own sport first, then every sport
+export const findLiveScoreEvent = async (
+  homeTeam: string,
+  awayTeam: string,
+  category?: string
+): Promise<LiveScoreEvent | undefined> => {
+  const [event] = await findLiveScoreEvents([{ homeTeam, awayTeam, category }]);
+  return event;
+};
+
+// Livescore entries for one league. sport is TheSportsDB's own name ("Soccer", "Ice Hockey").
+export const fetchLeagueLiveScores = async (leagueId: string, sport: string): Promise<LiveScoreEvent[]> => {
+  const events = await fetchLiveScoresForSport(sport.toLowerCase().replace(/\s+/g, '_'));
+  return events.filter(event => event.idLeague === leagueId);
+};
+
+// Timeline entry as TheSportsDB sends it
+interface RawTimelineEntry {
+  idTimeline?: string;
+  strTimeline?: string;
+  strTimelineDetail?: string;
+  strPlayer?: string;
+  strTeam?: string;
+  strHome?: string;
+  strAssist?: string;
+  strComment?: string;
+}
+
+// Timeline (goals, cards, substitutions) for a TheSportsDB event
+export const fetchEventTimeline = async (eventId: string): Promise<TimelineEvent[] | null> => {
+  try {
+    const response = await fetch(`https://www.thesportsdb.com/api/v1/json/${API_KEY}/lookupeventtimeline.php?id=${eventId}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (!Array.isArray(data?.timeline)) return null;
+    return (data.timeline as RawTimelineEntry[]).map((event, index) => ({
+      // idTimeline survives entries being added or removed around it; the index doesn't
+      id: event.idTimeline ? String(event.idTimeline) : `${eventId}-${index}`,
+      time: event.strTimeline || '',
+      type: event.strTimelineDetail || '',
+      player: event.strPlayer || '',
+      team: event.strTeam || '',
+      isHome: event.strHome === 'Yes',
+      assist: event.strAssist || '',
+      comment: event.strComment || ''
+    }));
+  } catch (error) {
+    console.warn('Error fetching timeline:', error);
+    return null;
+  }
+};
@@ -0,0 +1,208 @@
+// Match Event Watcher - goal and red card alerts for matches the user isn't looking at
+// Each check diffs TheSportsDB livescore (and, when something changed, the event
+// timeline) against the last snapshot of that match. The first sighting of a match is
+// only a baseline, so opening the site mid-game doesn't replay every earlier goal.
+import { Match } from '../types/sports';
+import { fetchEventTimeline, findLiveScoreEvent, formatMatchClock, TimelineEvent } from './liveScoreFeed';
+import { generateMatchUrl } from '../utils/matchSlug';
+import { recordMatchStatus } from './matchLifecycle';
+
+export type MatchAlertKind = 'goal' | 'red-card';
+
+export interface MatchAlert {
+  id: string;            // Stable per event, so the same goal is never announced twice
+  kind: MatchAlertKind;
+  matchId: string;
+  title: string;         // "GOAL – Arsenal 2-1 Chelsea 67'"
+  description?: string;  // Scorer or carded player when the timeline has them
+  path: string;
+}
+
+interface MatchSnapshot {
+  homeScore: number;
+  awayScore: number;
+  scoreIncreases: number;            // Times the total went up since the baseline
+  seenEventIds: Set<string> | null;  // null until the timeline has been read once
+  timelineCheckedAt: number;
+}
+
+type AlertListener = (alert: MatchAlert) => void;
+type OpenMatchesListener = (matches: Match[]) => void;
+
+const NOTIFICATION_ICON = '/favicon.png';
+// Without a score change the timeline only matters for red cards - no need to ask every poll
+const TIMELINE_REFRESH = 2 * 60 * 1000; // 2 minutes
+
+const snapshots = new Map<string, MatchSnapshot>();
+const deliveredAlerts = new Set<string>();
+const alertListeners: AlertListener[] = [];
+
+// Matches on screen right now (match page, multi-view tiles), counted per mount
+const openMatches = new Map<string, { match: Match; count: number }>();
+const openMatchesListeners: OpenMatchesListener[] = [];
+
+const notifyOpenMatches = () => {
+  const matches = getOpenMatches();
+  openMatchesListeners.forEach(listener => listener(matches));
+};
+
+export const getOpenMatches = (): Match[] => Array.from(openMatches.values()).map(entry => entry.match);
+
+export const subscribeOpenMatches = (listener: OpenMatchesListener): (() => void) => {
+  openMatchesListeners.push(listener);
+  return () => {
+    const index = openMatchesListeners.indexOf(listener);
+    if (index > -1) openMatchesListeners.splice(index, 1);
+  };
+};
+
+// Watch a match while it's on screen. Returns the unregister function.
+export const registerOpenMatch = (match: Match): (() => void) => {
+  const entry = openMatches.get(match.id);
+  openMatches.set(match.id, { match, count: (entry?.count || 0) + 1 });
+  notifyOpenMatches();
+
+  return () => {
+    const current = openMatches.get(match.id);
+    if (!current) return;
+    if (current.count > 1) {
+      openMatches.set(match.id, { ...current, count: current.count - 1 });
+    } else {
+      openMatches.delete(match.id);
+    }
+    notifyOpenMatches();
+  };
+};
+
+export const subscribeMatchAlerts = (listener: AlertListener): (() => void) => {
+  alertListeners.push(listener);
+  return () => {
+    const index = alertListeners.indexOf(listener);
+    if (index > -1) alertListeners.splice(index, 1);
+  };
+};
+
+const emitAlert = (alert: MatchAlert) => {
+  if (deliveredAlerts.has(alert.id)) return;
+  deliveredAlerts.add(alert.id);
+  console.log(`🚨 ${alert.title}`);
+  alertListeners.forEach(listener => listener(alert));
+};
+
+const parseScore = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const score = parseInt(value, 10);
+  return isNaN(score) ? null : score;
+};
+
+const isGoalEvent = (event: TimelineEvent) => /goal/i.test(`${event.time} ${event.type}`) && !/missed|disallowed/i.test(event.type);
+const isRedCardEvent = (event: TimelineEvent) => /red card/i.test(event.type);
+
+const describePlayer = (event: TimelineEvent | undefined, teamName: string): string | undefined => {
+  if (!event?.player) return undefined;
+  return `${event.player} (${event.team || teamName})`;
+};
+
+// Check one live match for new goals and red cards
+export const checkMatchEvents = async (match: Match): Promise<void> => {
+  const home = match.teams?.home?.name;
+  const away = match.teams?.away?.name;
+  if (!home || !away) return;
+
+  const event = await findLiveScoreEvent(home, away, match.category);
+  if (!event) return;
+  recordMatchStatus(match.id, event);
+
+  const homeScore = parseScore(event.intHomeScore);
+  const awayScore = parseScore(event.intAwayScore) ?? 0;
+  if (homeScore === null) return;
+
+  const previous = snapshots.get(match.id);
+  // A goal ruled out and scored again brings back an earlier scoreline, so goals are
+  // counted rather than named after the score
+  const scoreRose = !!previous && homeScore + awayScore > previous.homeScore + previous.awayScore;
+  const scoreIncreases = (previous?.scoreIncreases ?? 0) + (scoreRose ? 1 : 0);
+  const scoreChanged = !!previous && (homeScore !== previous.homeScore || awayScore !== previous.awayScore);
+  const wantTimeline = !previous || scoreChanged || Date.now() - previous.timelineCheckedAt > TIMELINE_REFRESH;
+  const timeline = wantTimeline ? await fetchEventTimeline(event.idEvent) : null;
+
+  const seenEventIds = timeline
+    ? new Set(timeline.map(item => item.id))
+    : previous?.seenEventIds ?? null;
+  // Events we hadn't seen before - only meaningful once there is a baseline to compare to
+  const newEvents = timeline && previous?.seenEventIds
+    ? timeline.filter(item => !previous.seenEventIds!.has(item.id))
+    : [];
+
+  snapshots.set(match.id, {
+    homeScore,
+    awayScore,
+    scoreIncreases,
+    seenEventIds,
+    timelineCheckedAt: timeline ? Date.now() : previous?.timelineCheckedAt ?? 0
+  });
+
+  if (!previous) return;
+
+  const clock = formatMatchClock(event.strProgress, event.strStatus);
+  const scoreline = `${home} ${homeScore}-${awayScore} ${away}${clock ? ` ${clock}` : ''}`;
+  const path = generateMatchUrl(match.category, match.id, home, away, match.title);
+
+  // Only announce the score going up - corrections downwards are silent
+  if (scoreRose) {
+    const homeScored = homeScore > previous.homeScore;
+    const scorer = [...newEvents].reverse().find(item => isGoalEvent(item) && item.isHome === homeScored);
+    emitAlert({
+      id: scorer ? `${match.id}:goal:${scorer.id}` : `${match.id}:goal:#${scoreIncreases}`,
+      kind: 'goal',
+      matchId: match.id,
+      title: `GOAL – ${scoreline}`,
+      description: describePlayer(scorer, homeScored ? home : away),
+      path
+    });
+  }
+
+  newEvents.filter(isRedCardEvent).forEach(card => {
+    emitAlert({
+      id: `${match.id}:red:${card.id}`,
+      kind: 'red-card',
+      matchId: match.id,
+      title: `RED CARD – ${scoreline}`,
+      description: describePlayer(card, card.isHome ? home : away),
+      path
+    });
+  });
+};
+
+// System notification for an alert - used when the tab is in the background
+export const showMatchAlertNotification = async (alert: MatchAlert, onClick: () => void) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const options: NotificationOptions = {
+    body: alert.description ? `${alert.description}. Tap to watch on DamiTV.` : 'Tap to watch on DamiTV.',
+    icon: NOTIFICATION_ICON,
+    badge: NOTIFICATION_ICON,
+    tag: `match-alert-${alert.id}`,
+    data: { url: alert.path }
+  };
+
+  try {
+    // The service worker's click handler opens the match even if this tab has gone
+    const registration = 'serviceWorker' in navigator
+      ? await navigator.serviceWorker.getRegistration().catch(() => undefined)
+      : undefined;
+
+    if (registration) {
+      await registration.showNotification(alert.title, options);
+    } else {
+      const notification = new Notification(alert.title, options);
+      notification.onclick = () => {
+        window.focus();
+        onClick();
+        notification.close();
+      };
+    }
+  } catch (error) {
+    console.error('❌ Error showing match alert:', error);
+  }
+};
@@ -0,0 +1,223 @@
+// Match identity service
+// The same event often appears several times - from different sources, or filed under
+// different categories. This clusters those duplicates, merges their sources and gives
+// every event a stable canonical ID, used for routing, viewer counts, reminders and favourites.
+import { Match, Source } from '@/types/sports';
+import { foldTeamName, normalizeTeamName, teamsMatch } from './teamIdentity';
+
+// Listings for the same event can disagree on kickoff by a little
+const SAME_EVENT_WINDOW = 2 * 60 * 60 * 1000; // 2 hours
+
+const getTeamNames = (match: Match): [string, string] | null => {
+  const home = match.teams?.home?.name;
+  const away = match.teams?.away?.name;
+  if (home && away) return [home, away];
+
+  const parts = match.title?.split(/\s+(?:vs\.?|v)\s+/i) || [];
+  return parts.length === 2 && parts[0].trim() && parts[1].trim()
+    ? [parts[0].trim(), parts[1].trim()]
+    : null;
+};
+
+// Kickoffs are keyed by their UTC calendar day: upstream moving a kickoff by a few hours,
+// or a listing filed under another category, keeps the same ID
+const getKickoffDay = (kickoff: number | undefined): string =>
+  kickoff ? new Date(kickoff).toISOString().slice(0, 10) : 'tbc';
+
+/**
+ * Identity key for an event: normalised team names (order-independent) plus the kickoff day.
+ * Clusters pass their earliest kickoff, so listings that disagree on the time share one key.
+ */
+export const getMatchIdentityKey = (match: Match, kickoff: number | undefined = match.date): string => {
+  const teams = getTeamNames(match);
+  const subject = teams
+    ? teams.map(name => normalizeTeamName(name, match.category)).sort().join('|')
+    : foldTeamName(match.title || match.id);
+
+  return `${subject}@${getKickoffDay(kickoff)}`;
+};
+
+// FNV-1a - short, stable, numeric (match URLs only carry the numeric part of an ID)
+const hashKey = (key: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return String(hash >>> 0);
+};
+
+/**
+ * Stable canonical ID for an event
+ */
+export const getCanonicalMatchId = (match: Match, kickoff: number | undefined = match.date): string =>
+  hashKey(getMatchIdentityKey(match, kickoff));
+
+/**
+ * Whether two listings describe the same event
+ */
+export const isSameEvent = (a: Match, b: Match): boolean => {
+  if (Math.abs((a.date || 0) - (b.date || 0)) > SAME_EVENT_WINDOW) return false;
+
+  const teamsA = getTeamNames(a);
+  const teamsB = getTeamNames(b);
+
+  if (teamsA && teamsB) {
+    const [homeA, awayA] = teamsA;
+    const [homeB, awayB] = teamsB;
+    const sport = a.category || b.category;
+    return (teamsMatch(homeA, homeB, sport) && teamsMatch(awayA, awayB, sport)) ||
+      (teamsMatch(homeA, awayB, sport) && teamsMatch(awayA, homeB, sport));
+  }
+
+  if (!teamsA && !teamsB) {
+    return foldTeamName(a.title || '') === foldTeamName(b.title || '');
+  }
+
+  return false;
+};
+
+const mergeSources = (matches: Match[]): Source[] => {
+  const seen = new Set<string>();
+  const sources: Source[] = [];
+
+  matches.forEach(match => {
+    (match.sources || []).forEach(source => {
+      const key = `${source.source}/${source.id}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        sources.push(source);
+      }
+    });
+  });
+
+  return sources;
+};
+
+// Merge a cluster into one match - the primary listing provides the display fields
+const mergeCluster = (cluster: Match[]): Match => {
+  // Deterministic primary: lowest identity key, then most sources
+  const ranked = [...cluster].sort((a, b) => {
+    const keyOrder = getMatchIdentityKey(a).localeCompare(getMatchIdentityKey(b));
+    return keyOrder !== 0 ? keyOrder : (b.sources?.length || 0) - (a.sources?.length || 0);
+  });
+  const primary = ranked[0];
+
+  const kickoffs = cluster.map(match => match.date).filter(date => !!date);
+  const earliestKickoff = kickoffs.length > 0 ? Math.min(...kickoffs) : undefined;
+  const id = getCanonicalMatchId(primary, earliestKickoff);
+  const aliases = Array.from(new Set(
+    cluster.flatMap(match => [match.id, ...(match.aliases || [])])
+  )).filter(alias => alias !== id);
+
+  const withBadge = (side: 'home' | 'away') => {
+    const team = primary.teams?.[side];
+    if (!team) return team;
+    const donor = cluster.find(match => match.teams?.[side]?.badge)?.teams?.[side];
+    return { ...team, badge: team.badge || donor?.badge };
+  };
+
+  // Largest count of the best kind - a measured count isn't comparable with an upstream one
+  const counted = cluster.filter(match => (match.viewerCount || 0) > 0);
+  const measured = counted.filter(match => match.viewerCountKind === 'measured');
+  const viewerSource = (measured.length > 0 ? measured : counted)
+    .reduce<Match | undefined>((best, match) => (!best || match.viewerCount! > best.viewerCount! ? match : best), undefined);
+
+  return {
+    ...primary,
+    id,
+    aliases,
+    poster: primary.poster || cluster.find(match => match.poster)?.poster,
+    popular: cluster.some(match => match.popular),
+    teams: primary.teams ? { home: withBadge('home'), away: withBadge('away') } : primary.teams,
+    sources: mergeSources(ranked),
+    viewerCount: viewerSource?.viewerCount ?? primary.viewerCount,
+    viewerCountKind: viewerSource?.viewerCountKind ?? primary.viewerCountKind
+  };
+};
+
+/**
+ * Cluster duplicate listings and merge each cluster into one match with a canonical ID
+ * Keeps the order in which events first appear
+ */
+export const dedupeMatches = (matches: Match[]): Match[] => {
+  if (matches.length === 0) return matches;
+
+  // Union-find over listings, only comparing those with nearby kickoffs
+  const parent = matches.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const byDate = matches.map((_, i) => i).sort((a, b) => (matches[a].date || 0) - (matches[b].date || 0));
+
+  for (let x = 0; x < byDate.length; x++) {
+    const i = byDate[x];
+    for (let y = x + 1; y < byDate.length; y++) {
+      const j = byDate[y];
+      if ((matches[j].date || 0) - (matches[i].date || 0) > SAME_EVENT_WINDOW) break;
+      if (find(i) !== find(j) && isSameEvent(matches[i], matches[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, Match[]>();
+  matches.forEach((match, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(match);
+    } else {
+      clusters.set(root, [match]);
+    }
+  });
+
+  const merged = Array.from(clusters.values()).map(mergeCluster);
+
+  // Separate clusters must never share an ID - it keys routes, reminders, viewer rooms and alerts.
+  // The same teams twice in a day (a doubleheader) are told apart by kickoff order, which
+  // every listing of that day agrees on, so the second game is always "#2".
+  const byId = new Map<string, Match[]>();
+  merged.forEach(match => {
+    const group = byId.get(match.id);
+    if (group) {
+      group.push(match);
+    } else {
+      byId.set(match.id, [match]);
+    }
+  });
+
+  byId.forEach((group, id) => {
+    if (group.length < 2) return;
+    group
+      .sort((a, b) => (a.date || 0) - (b.date || 0) || (a.aliases?.[0] || '').localeCompare(b.aliases?.[0] || ''))
+      .forEach((match, index) => {
+        if (index > 0) match.id = hashKey(`${id}#${index + 1}`);
+      });
+    console.log(`🔗 ${group.length} events on the same day share ${id}, numbered by kickoff`);
+  });
+
+  const duplicates = matches.length - merged.length;
+  if (duplicates > 0) {
+    console.log(`🔗 Merged ${duplicates} duplicate listings into ${merged.length} matches`);
+  }
+
+  return merged;
+};
+
+const numericPart = (id: string) => id.match(/-(\d+)$/)?.[1] || id.match(/(\d+)/)?.[0];
+
+/**
+ * Find a match by canonical ID or by any of the upstream IDs it was merged from
+ * (old links carry upstream IDs, sometimes only their numeric part)
+ */
+export const findMatchById = (matches: Match[], matchId: string): Match | undefined => {
+  const exact = matches.find(match => match.id === matchId || match.aliases?.includes(matchId));
+  if (exact) return exact;
+
+  const wanted = numericPart(matchId);
+  if (!wanted) return undefined;
+
+  return matches.find(match =>
+    [match.id, ...(match.aliases || [])].some(id => numericPart(id) === wanted)
+  );
+};
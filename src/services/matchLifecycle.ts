@@ -0,0 +1,268 @@
+// Match lifecycle
+// One answer to "what state is this match in" for badges, sorting, the Live page and
+// the carousel. A status from TheSportsDB livescore feed wins; without one, kickoff
+// time and a per-sport duration model decide.
+//
+//   scheduled -> pre-match -> live <-> break -> finished
+//   postponed / cancelled only ever come from the feed
+import { Match } from '@/types/sports';
+import { findLiveScoreEvents, LiveScoreEvent } from './liveScoreFeed';
+
+export type MatchPhase = 'scheduled' | 'pre-match' | 'live' | 'break' | 'finished' | 'postponed' | 'cancelled';
+
+export interface MatchLifecycle {
+  phase: MatchPhase;
+  source: 'status' | 'schedule';
+  statusLabel?: string;  // The feed's own wording ("HT", "Q3") when source is 'status'
+}
+
+interface StatusEntry {
+  phase: MatchPhase;
+  label: string | null;
+  seenAt: number;
+}
+
+type StatusListener = () => void;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Streams usually open around half an hour before kickoff
+const PRE_MATCH_WINDOW = 30 * MINUTE;
+
+// Kickoff to final whistle, with room for stoppages, overtime and late starts
+const SPORT_DURATIONS: Record<string, number> = {
+  'football': 2.5 * HOUR,
+  'basketball': 2.5 * HOUR,
+  'american-football': 3.5 * HOUR,
+  'hockey': 3 * HOUR,
+  'baseball': 3.5 * HOUR,
+  'tennis': 4 * HOUR,
+  'rugby': 2 * HOUR,
+  'afl': 3 * HOUR,
+  'cricket': 8 * HOUR,         // one-day; Tests and T20s are picked out by title
+  'fight': 12 * HOUR,          // whole card, prelims to main event
+  'motorsport': 3 * HOUR,
+  'golf': 10 * HOUR,
+  'darts': 4 * HOUR,
+  'billiards': 4 * HOUR
+};
+const DEFAULT_DURATION = 3 * HOUR;
+
+// Without a feed status the schedule only ends a match once it's surely over: extra
+// time, weather and late kickoffs all run past the expected length, and an ended badge
+// on a game still in play hides it from the Live page. Same floor as the old 8h window.
+const MIN_SCHEDULE_WINDOW = 8 * HOUR;
+
+// A feed status older than this no longer says anything about now...
+const STATUS_TTL = 15 * MINUTE;
+// ...except an ending, which doesn't change
+const TERMINAL_STATUS_TTL = DAY;
+
+// Most status refreshes only look at matches around their scheduled time
+const MAX_STATUS_CHECKS = 60;
+
+const TERMINAL_PHASES = new Set<MatchPhase>(['finished', 'postponed', 'cancelled']);
+
+// TheSportsDB strStatus codes and wordings
+const STATUS_PHASES: Record<string, MatchPhase> = {
+  'ns': 'scheduled',
+  'not started': 'scheduled',
+  'tbd': 'scheduled',
+  'ht': 'break',
+  'half time': 'break',
+  'halftime': 'break',
+  'bt': 'break',
+  'break': 'break',
+  'break time': 'break',
+  'int': 'break',
+  'interrupted': 'break',
+  'susp': 'break',
+  'suspended': 'break',
+  'ft': 'finished',
+  'aet': 'finished',
+  'pen': 'finished',
+  'aot': 'finished',
+  'ap': 'finished',
+  'awd': 'finished',
+  'wo': 'finished',
+  'finished': 'finished',
+  'match finished': 'finished',
+  'ended': 'finished',
+  'after over time': 'finished',
+  'after penalties': 'finished',
+  'pst': 'postponed',
+  'post': 'postponed',
+  'postponed': 'postponed',
+  'canc': 'cancelled',
+  'cancelled': 'cancelled',
+  'canceled': 'cancelled',
+  'abd': 'cancelled',
+  'abandoned': 'cancelled'
+};
+
+// Halves, quarters, periods, innings, extra time, shootouts
+const LIVE_STATUS = /^(1h|2h|et|p|pt|live|in ?play|q[1-4]|ot|p[1-3]|in\d+|\d+(st|nd|rd|th)? ?(half|quarter|period|inning|set))$/;
+
+const statuses = new Map<string, StatusEntry>();
+const statusListeners = new Set<StatusListener>();
+
+/**
+ * Phase for a livescore status code, or null when the code means nothing to us
+ */
+export const resolveStatusPhase = (status: string | null | undefined): MatchPhase | null => {
+  const key = (status || '').trim().toLowerCase();
+  if (!key) return null;
+  return STATUS_PHASES[key] || (LIVE_STATUS.test(key) ? 'live' : null);
+};
+
+/**
+ * Expected length of a match from kickoff, by sport and (for cricket) format
+ */
+export const getExpectedDuration = (match: Match): number => {
+  const sport = (match.sportId || match.category || '').toLowerCase();
+  const title = (match.title || '').toLowerCase();
+
+  if (sport === 'cricket') {
+    if (/\btest\b/.test(title)) return 5 * DAY;
+    if (/\bt(20|10)\b|twenty20|the hundred/.test(title)) return 4 * HOUR;
+  }
+  if (/\b(ufc|mma|boxing|bellator)\b/.test(`${sport} ${title}`)) return SPORT_DURATIONS.fight;
+
+  return SPORT_DURATIONS[sport] || DEFAULT_DURATION;
+};
+
+// Kickoff to when the schedule alone calls a match finished
+const getScheduleWindow = (match: Match): number =>
+  Math.max(getExpectedDuration(match), MIN_SCHEDULE_WINDOW);
+
+const getSchedulePhase = (match: Match, now: number): MatchPhase => {
+  const start = typeof match.date === 'number' ? match.date : new Date(match.date).getTime();
+  // No kickoff time - nothing to go on, so it isn't claimed to be live or over
+  if (!start || isNaN(start)) return 'scheduled';
+
+  if (now < start - PRE_MATCH_WINDOW) return 'scheduled';
+  if (now < start) return 'pre-match';
+  if (now < start + getScheduleWindow(match)) return 'live';
+  return 'finished';
+};
+
+/**
+ * Where a match is in its lifecycle right now
+ */
+export const getMatchLifecycle = (match: Match, now: number = Date.now()): MatchLifecycle => {
+  const entry = statuses.get(match.id);
+  if (entry) {
+    const ttl = TERMINAL_PHASES.has(entry.phase) ? TERMINAL_STATUS_TTL : STATUS_TTL;
+    if (now - entry.seenAt < ttl) {
+      return { phase: entry.phase, source: 'status', statusLabel: entry.label || undefined };
+    }
+  }
+
+  return { phase: getSchedulePhase(match, now), source: 'schedule' };
+};
+
+export const isLivePhase = (phase: MatchPhase): boolean => phase === 'live' || phase === 'break';
+
+export const isOverPhase = (phase: MatchPhase): boolean => phase === 'finished' || phase === 'cancelled';
+
+// Live first, then what's about to start, then later fixtures, then what's done
+const PHASE_ORDER: Record<MatchPhase, number> = {
+  'live': 0,
+  'break': 0,
+  'pre-match': 1,
+  'scheduled': 2,
+  'postponed': 3,
+  'finished': 4,
+  'cancelled': 5
+};
+
+/**
+ * Sort comparator by lifecycle: live (latest kickoff first), then upcoming (soonest first),
+ * then postponed, finished and cancelled
+ */
+export const compareByLifecycle = (a: Match, b: Match, now: number = Date.now()): number => {
+  const phaseA = getMatchLifecycle(a, now).phase;
+  const phaseB = getMatchLifecycle(b, now).phase;
+  const orderDiff = PHASE_ORDER[phaseA] - PHASE_ORDER[phaseB];
+  if (orderDiff !== 0) return orderDiff;
+
+  return isLivePhase(phaseA) || isOverPhase(phaseA) ? b.date - a.date : a.date - b.date;
+};
+
+/**
+ * Short badge text for a phase ("LIVE", "HALF-TIME", "FT")
+ */
+export const getPhaseLabel = (lifecycle: MatchLifecycle): string => {
+  switch (lifecycle.phase) {
+    case 'live': return 'LIVE';
+    case 'break': return lifecycle.statusLabel?.toUpperCase() === 'HT' ? 'HALF-TIME' : 'BREAK';
+    case 'pre-match': return 'STARTING SOON';
+    case 'scheduled': return 'UPCOMING';
+    case 'postponed': return 'POSTPONED';
+    case 'cancelled': return 'CANCELLED';
+    case 'finished': return 'FT';
+  }
+};
+
+// ============================================
+// Feed statuses
+// ============================================
+
+const notifyStatusListeners = () => statusListeners.forEach(listener => listener());
+
+export const subscribeMatchStatuses = (listener: StatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+/**
+ * Record what the livescore feed says about a match. Entries in the feed without a
+ * status we know are live - the feed only lists matches that have started or ended.
+ */
+export const recordMatchStatus = (matchId: string, event: LiveScoreEvent, now: number = Date.now()): MatchPhase => {
+  const phase = resolveStatusPhase(event.strStatus) ?? 'live';
+  const previous = statuses.get(matchId);
+  statuses.set(matchId, { phase, label: event.strStatus, seenAt: now });
+
+  if (previous?.phase !== phase || previous?.label !== event.strStatus) {
+    notifyStatusListeners();
+  }
+  return phase;
+};
+
+// Around kickoff or while the schedule still says live - where a feed status can change the answer
+const needsStatusCheck = (match: Match, now: number): boolean => {
+  if (!match.teams?.home?.name || !match.teams?.away?.name) return false;
+
+  const entry = statuses.get(match.id);
+  if (entry && TERMINAL_PHASES.has(entry.phase) && now - entry.seenAt < TERMINAL_STATUS_TTL) return false;
+
+  const start = match.date;
+  return !!start && now >= start - PRE_MATCH_WINDOW && now < start + getScheduleWindow(match);
+};
+
+/**
+ * Look up feed statuses for the matches where one matters. Each sport's feed is
+ * fetched at most once per refresh and every match is looked up in memory.
+ */
+export const refreshMatchStatuses = async (matches: Match[], now: number = Date.now()): Promise<void> => {
+  const candidates = matches.filter(match => needsStatusCheck(match, now)).slice(0, MAX_STATUS_CHECKS);
+  if (candidates.length === 0) return;
+
+  try {
+    const events = await findLiveScoreEvents(candidates.map(match => ({
+      homeTeam: match.teams!.home!.name,
+      awayTeam: match.teams!.away!.name,
+      category: match.category
+    })));
+    events.forEach((event, index) => {
+      if (event) recordMatchStatus(candidates[index].id, event);
+    });
+  } catch (error) {
+    console.warn(`⚠️ Status check failed for ${candidates.length} matches:`, error);
+  }
+};
@@ -0,0 +1,29 @@
+// Match provider registry
+// Picks the listing source from VITE_MATCH_PROVIDER ("streamed" by default, "fixtures" for offline work)
+import { MatchProvider } from '@/types/matchProvider';
+import { streamedProvider } from './providers/streamedProvider';
+import { fixtureProvider } from './providers/fixtureProvider';
+
+const providers: Record<string, MatchProvider> = {
+  [streamedProvider.id]: streamedProvider,
+  [fixtureProvider.id]: fixtureProvider
+};
+
+const DEFAULT_PROVIDER = streamedProvider.id;
+
+const resolveProvider = (): MatchProvider => {
+  const configured = import.meta.env.VITE_MATCH_PROVIDER || DEFAULT_PROVIDER;
+  const provider = providers[configured];
+
+  if (!provider) {
+    console.warn(`⚠️ Unknown match provider "${configured}", falling back to ${DEFAULT_PROVIDER}`);
+    return providers[DEFAULT_PROVIDER];
+  }
+
+  if (provider.id !== DEFAULT_PROVIDER) {
+    console.log(`🧪 Using match provider: ${provider.name}`);
+  }
+  return provider;
+};
+
+export const matchProvider: MatchProvider = resolveProvider();
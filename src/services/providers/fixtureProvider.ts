@@ -0,0 +1,79 @@
+// Local fixture match provider - runs the whole UI offline
+// Data lives in src/data/fixtures/matches.json; kickoff times are relative to load time
+import { Sport, Match, Stream } from '@/types/sports';
+import { MatchProvider } from '@/types/matchProvider';
+import fixtureFile from '@/data/fixtures/matches.json';
+
+interface FixtureMatch extends Omit<Match, 'date'> {
+  kickoffOffsetMinutes: number;
+}
+
+interface FixtureFile {
+  sports: Sport[];
+  matches: FixtureMatch[];
+  stream: Omit<Stream, 'id' | 'streamNo' | 'source'>;
+}
+
+const fixtures = fixtureFile as FixtureFile;
+const loadedAt = Date.now();
+
+const LIVE_BEFORE = 60 * 60 * 1000; // same live window as the streamed.pk client
+const LIVE_AFTER = 6 * 60 * 60 * 1000;
+
+const toMatch = ({ kickoffOffsetMinutes, ...fixture }: FixtureMatch): Match => ({
+  ...fixture,
+  date: loadedAt + kickoffOffsetMinutes * 60 * 1000
+});
+
+const allMatches = (): Match[] => fixtures.matches.map(toMatch);
+
+const isLive = (match: Match) => {
+  const now = Date.now();
+  return match.date - now < LIVE_BEFORE && now - match.date < LIVE_AFTER;
+};
+
+const fetchStreams = async (source: string, id: string): Promise<Stream[]> => [{
+  ...fixtures.stream,
+  id,
+  streamNo: 1,
+  source,
+  timestamp: Date.now(),
+  name: `${source.toUpperCase()} 1`
+}];
+
+export const fixtureProvider: MatchProvider = {
+  id: 'fixtures',
+  name: 'Local fixtures',
+
+  fetchSports: async () => fixtures.sports,
+
+  fetchAllMatches: async () => allMatches(),
+
+  fetchMatches: async (sportId: string) => allMatches().filter(match => match.category === sportId),
+
+  fetchLiveMatches: async () => allMatches().filter(isLive).sort((a, b) => b.date - a.date),
+
+  fetchPopularMatches: async () => allMatches().filter(match => match.popular),
+
+  fetchMatch: async (_sportId: string, matchId: string) => {
+    const match = allMatches().find(m => m.id === matchId);
+    if (!match) {
+      throw new Error(`Match ${matchId} not found`);
+    }
+    return match;
+  },
+
+  fetchStreams,
+
+  fetchMatchStreams: async (match: Match) => {
+    const streams = (await Promise.all(match.sources.map(src => fetchStreams(src.source, src.id)))).flat();
+    const sourceNames = Array.from(new Set(streams.map(stream => stream.source)));
+
+    return {
+      streams,
+      sourcesChecked: match.sources.length,
+      sourcesWithStreams: sourceNames.length,
+      sourceNames
+    };
+  }
+};
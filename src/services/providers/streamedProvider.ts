@@ -0,0 +1,27 @@
+// streamed.pk match provider - the production listing source
+import { MatchProvider } from '@/types/matchProvider';
+import {
+  clearStreamCache,
+  fetchSports,
+  fetchAllMatches,
+  fetchMatches,
+  fetchLiveMatches,
+  fetchPopularMatches,
+  fetchMatch,
+  fetchSimpleStream,
+  fetchAllMatchStreams
+} from '../streamedApi';
+
+export const streamedProvider: MatchProvider = {
+  id: 'streamed',
+  name: 'Streamed.pk',
+  fetchSports,
+  fetchAllMatches,
+  fetchMatches,
+  fetchLiveMatches,
+  fetchPopularMatches,
+  fetchMatch,
+  fetchStreams: fetchSimpleStream,
+  fetchMatchStreams: fetchAllMatchStreams,
+  clearCache: clearStreamCache
+};
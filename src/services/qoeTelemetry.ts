@@ -0,0 +1,409 @@
+// Playback quality-of-experience (QoE) telemetry
+// Every stream played through the shared HLS engine gets a session that measures
+// time-to-first-frame, stalls, rebuffer ratio, bitrate and dropped frames. Finished
+// sessions are batched to pluggable sinks (console, GA4, a local endpoint) so we can
+// compare how well each `source` actually plays. Sessions still running when the page
+// is hidden are snapshotted, and ended when it is closed, so watching to the end counts.
+import { HlsPlaybackEngine, PlaybackErrorKind, PlaybackMode } from './hlsEngine';
+
+export interface QoEContext {
+  source: string;     // stream source (alpha, bravo, TV Channel...) or host for bare URLs
+  streamId: string;
+  streamNo?: number;
+  player: string;     // which player component produced the session
+}
+
+export interface QoEReport {
+  sessionId: string;
+  context: QoEContext;
+  mode: PlaybackMode | null;
+  startedAt: number;
+  endedAt: number;
+  timeToFirstFrameMs: number | null;  // null if the stream never rendered a frame
+  stallCount: number;
+  stallDurationMs: number;
+  watchTimeMs: number;
+  rebufferRatio: number;              // stall time / (watch time + stall time)
+  averageBitrate: number | null;      // time-weighted, bits per second
+  bitrates: number[];                 // distinct bitrates played, in order
+  bitrateSwitches: number;
+  droppedFrames: number;
+  totalFrames: number;
+  recoveries: number;
+  fatalErrors: { kind: PlaybackErrorKind; details: string }[];
+  outcome: 'played' | 'failed' | 'abandoned';
+  final: boolean;                     // false for a snapshot of a session still playing - a later report
+                                      // with the same sessionId supersedes it
+}
+
+export interface QoESink {
+  name: string;
+  send: (reports: QoEReport[], unloading: boolean) => void | Promise<void>;
+}
+
+const BATCH_SIZE = 10;
+const FLUSH_INTERVAL = 30 * 1000; // 30 seconds
+const MIN_REPORTABLE_SESSION = 1000; // ignore sessions torn down immediately (re-renders, strict mode)
+
+// ============================================
+// Sinks
+// ============================================
+
+export const consoleSink: QoESink = {
+  name: 'console',
+  send: (reports) => {
+    reports.forEach(report => {
+      const { context, timeToFirstFrameMs, stallCount, rebufferRatio, averageBitrate, outcome } = report;
+      console.log(
+        `📊 QoE ${context.source}/${context.streamId}${context.streamNo ? `/${context.streamNo}` : ''} [${context.player}] ${outcome}: ` +
+        `TTFF ${timeToFirstFrameMs ?? '-'}ms, ${stallCount} stalls, rebuffer ${(rebufferRatio * 100).toFixed(1)}%, ` +
+        `${averageBitrate ? `${Math.round(averageBitrate / 1000)} kbps` : 'bitrate n/a'}` +
+        (report.final ? '' : ' (snapshot)')
+      );
+    });
+  }
+};
+
+export const ga4Sink: QoESink = {
+  name: 'ga4',
+  send: (reports) => {
+    if (typeof window === 'undefined' || !window.gtag) return;
+    reports.forEach(report => {
+      window.gtag('event', 'video_qoe', {
+        event_category: 'video_performance',
+        event_label: report.outcome,
+        stream_source: report.context.source,
+        stream_id: report.context.streamId,
+        stream_no: report.context.streamNo,
+        player: report.context.player,
+        playback_mode: report.mode,
+        ttff_ms: report.timeToFirstFrameMs ?? undefined,
+        stall_count: report.stallCount,
+        stall_ms: Math.round(report.stallDurationMs),
+        watch_ms: Math.round(report.watchTimeMs),
+        rebuffer_ratio: Number(report.rebufferRatio.toFixed(4)),
+        avg_bitrate: report.averageBitrate ?? undefined,
+        bitrate_switches: report.bitrateSwitches,
+        dropped_frames: report.droppedFrames,
+        fatal_errors: report.fatalErrors.length,
+        final: report.final
+      });
+    });
+  }
+};
+
+/**
+ * Sink that POSTs report batches as JSON (sendBeacon while the page is closing)
+ */
+export const createEndpointSink = (url: string): QoESink => ({
+  name: `endpoint:${url}`,
+  send: async (reports, unloading) => {
+    const body = JSON.stringify({ reports });
+
+    if ((unloading || document.visibilityState === 'hidden') && navigator.sendBeacon) {
+      navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }));
+      return;
+    }
+
+    await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true
+    });
+  }
+});
+
+// Sinks from VITE_QOE_SINKS ("console,ga4,endpoint"), endpoint URL from VITE_QOE_ENDPOINT
+const resolveDefaultSinks = (): QoESink[] => {
+  const configured = import.meta.env.VITE_QOE_SINKS as string | undefined;
+  const names = configured
+    ? configured.split(',').map(name => name.trim()).filter(Boolean)
+    : [import.meta.env.PROD ? 'ga4' : 'console'];
+
+  return names.flatMap(name => {
+    if (name === 'console') return [consoleSink];
+    if (name === 'ga4') return [ga4Sink];
+    if (name === 'endpoint') {
+      const endpoint = import.meta.env.VITE_QOE_ENDPOINT as string | undefined;
+      if (endpoint) return [createEndpointSink(endpoint)];
+      console.warn('⚠️ QoE endpoint sink configured without VITE_QOE_ENDPOINT');
+      return [];
+    }
+    console.warn(`⚠️ Unknown QoE sink "${name}"`);
+    return [];
+  });
+};
+
+// ============================================
+// Sessions
+// ============================================
+
+let sessionCounter = 0;
+
+export class QoESession {
+  readonly id = `${Date.now().toString(36)}-${++sessionCounter}`;
+  private startedAt = performance.now();
+  private startedAtWall = Date.now();
+  private mode: PlaybackMode | null = null;
+  private firstFrameAt: number | null = null;
+  private playingSince: number | null = null;
+  private watchTime = 0;
+  private stallSince: number | null = null;
+  private stallCount = 0;
+  private stallDuration = 0;
+  private currentBitrate: number | null = null;
+  private bitrateSince: number | null = null;
+  private bitrateWeighted = 0;
+  private bitrateTime = 0;
+  private bitrates: number[] = [];
+  private bitrateSwitches = 0;
+  private recoveries = 0;
+  private fatalErrors: QoEReport['fatalErrors'] = [];
+  private cleanup: (() => void)[] = [];
+  private ended = false;
+
+  constructor(
+    private engine: HlsPlaybackEngine,
+    private video: HTMLVideoElement,
+    readonly context: QoEContext,
+    private onEnd: (report: QoEReport | null) => void
+  ) {
+    this.cleanup.push(engine.on(event => {
+      switch (event.type) {
+        case 'loading':
+          this.mode = event.mode;
+          break;
+        case 'levelSwitched':
+          if (event.level) this.switchBitrate(event.level.bitrate);
+          break;
+        case 'recovering':
+          this.recoveries++;
+          break;
+        case 'fatal':
+          this.fatalErrors.push({ kind: event.kind, details: event.details });
+          this.pausePlayback();
+          break;
+      }
+    }));
+
+    this.listen('playing', this.handlePlaying);
+    this.listen('waiting', this.handleWaiting);
+    this.listen('pause', this.handlePause);
+    this.listen('ended', this.handlePause);
+  }
+
+  private listen(type: keyof HTMLMediaElementEventMap, handler: () => void) {
+    this.video.addEventListener(type, handler);
+    this.cleanup.push(() => this.video.removeEventListener(type, handler));
+  }
+
+  private handlePlaying = () => {
+    const now = performance.now();
+    if (this.firstFrameAt === null) this.firstFrameAt = now;
+    this.endStall(now);
+    if (this.playingSince === null) this.playingSince = now;
+  };
+
+  private handleWaiting = () => {
+    // Only count stalls once playback has started (startup waiting is TTFF)
+    if (this.firstFrameAt === null || this.video.seeking) return;
+    const now = performance.now();
+    this.pausePlayback(now);
+    if (this.stallSince === null) {
+      this.stallSince = now;
+      this.stallCount++;
+    }
+  };
+
+  private handlePause = () => {
+    const now = performance.now();
+    this.endStall(now);
+    this.pausePlayback(now);
+  };
+
+  private pausePlayback(now = performance.now()) {
+    if (this.playingSince !== null) {
+      this.watchTime += now - this.playingSince;
+      this.playingSince = null;
+    }
+  }
+
+  private endStall(now: number) {
+    if (this.stallSince !== null) {
+      this.stallDuration += now - this.stallSince;
+      this.stallSince = null;
+    }
+  }
+
+  private accumulateBitrate(now: number) {
+    if (this.currentBitrate !== null && this.bitrateSince !== null) {
+      const elapsed = now - this.bitrateSince;
+      this.bitrateWeighted += this.currentBitrate * elapsed;
+      this.bitrateTime += elapsed;
+    }
+    this.bitrateSince = now;
+  }
+
+  private switchBitrate(bitrate: number) {
+    if (bitrate === this.currentBitrate) return;
+    this.accumulateBitrate(performance.now());
+    if (this.currentBitrate !== null) this.bitrateSwitches++;
+    this.currentBitrate = bitrate;
+    if (!this.bitrates.includes(bitrate)) this.bitrates.push(bitrate);
+  }
+
+  /**
+   * Report so far without ending the session - null while there's nothing worth reporting
+   */
+  snapshot(): QoEReport | null {
+    if (this.ended) return null;
+    const now = performance.now();
+    // Fold the running stretches in, then carry on measuring from here
+    const stalled = this.stallSince !== null;
+    const playing = this.playingSince !== null;
+    this.endStall(now);
+    this.pausePlayback(now);
+    this.accumulateBitrate(now);
+    if (stalled) this.stallSince = now;
+    if (playing) this.playingSince = now;
+
+    return this.buildReport(now, false);
+  }
+
+  /**
+   * Stop measuring and hand the report to the collector
+   */
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+
+    const now = performance.now();
+    this.endStall(now);
+    this.pausePlayback(now);
+    this.accumulateBitrate(now);
+    this.cleanup.forEach(fn => fn());
+
+    const report = this.buildReport(now, true);
+    this.onEnd(report);
+  }
+
+  private buildReport(now: number, final: boolean): QoEReport | null {
+    const quality = typeof this.video.getVideoPlaybackQuality === 'function'
+      ? this.video.getVideoPlaybackQuality()
+      : null;
+    const totalTime = this.watchTime + this.stallDuration;
+
+    const report: QoEReport = {
+      sessionId: this.id,
+      context: this.context,
+      mode: this.mode,
+      startedAt: this.startedAtWall,
+      endedAt: Date.now(),
+      timeToFirstFrameMs: this.firstFrameAt !== null ? Math.round(this.firstFrameAt - this.startedAt) : null,
+      stallCount: this.stallCount,
+      stallDurationMs: Math.round(this.stallDuration),
+      watchTimeMs: Math.round(this.watchTime),
+      rebufferRatio: totalTime > 0 ? this.stallDuration / totalTime : 0,
+      averageBitrate: this.bitrateTime > 0 ? Math.round(this.bitrateWeighted / this.bitrateTime) : this.currentBitrate,
+      bitrates: [...this.bitrates],
+      bitrateSwitches: this.bitrateSwitches,
+      droppedFrames: quality?.droppedVideoFrames ?? 0,
+      totalFrames: quality?.totalVideoFrames ?? 0,
+      recoveries: this.recoveries,
+      fatalErrors: [...this.fatalErrors],
+      outcome: this.fatalErrors.length > 0 ? 'failed' : this.firstFrameAt !== null ? 'played' : 'abandoned',
+      final
+    };
+
+    if (report.outcome === 'abandoned' && now - this.startedAt < MIN_REPORTABLE_SESSION) return null;
+    return report;
+  }
+}
+
+// ============================================
+// Collector
+// ============================================
+
+class QoECollector {
+  private sinks: QoESink[] = resolveDefaultSinks();
+  private queue: QoEReport[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Sessions only end when their player unmounts - closing the tab never gets that far
+  private live = new Set<QoESession>();
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    // Closing: end whatever is still playing and ship it by beacon
+    window.addEventListener('pagehide', () => {
+      this.live.forEach(session => session.end());
+      this.flush(true);
+    });
+    // Hidden: the page may come back, or be discarded without a pagehide - snapshot and ship
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState !== 'hidden') return;
+      this.live.forEach(session => {
+        const report = session.snapshot();
+        if (report) this.queue.push(report);
+      });
+      this.flush(true);
+    });
+  }
+
+  /**
+   * Start measuring a playback - call before engine.load()
+   */
+  startSession(engine: HlsPlaybackEngine, video: HTMLVideoElement, context: QoEContext): QoESession {
+    const session: QoESession = new QoESession(engine, video, context, report => {
+      this.live.delete(session);
+      if (report) this.enqueue(report);
+    });
+    this.live.add(session);
+    return session;
+  }
+
+  addSink(sink: QoESink) {
+    this.sinks = [...this.sinks.filter(s => s.name !== sink.name), sink];
+  }
+
+  removeSink(name: string) {
+    this.sinks = this.sinks.filter(s => s.name !== name);
+  }
+
+  getSinks(): string[] {
+    return this.sinks.map(s => s.name);
+  }
+
+  private enqueue(report: QoEReport) {
+    this.queue.push(report);
+
+    if (this.queue.length >= BATCH_SIZE) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+    }
+  }
+
+  flush(unloading = false) {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    const batch = this.queue;
+    this.queue = [];
+
+    this.sinks.forEach(sink => {
+      try {
+        Promise.resolve(sink.send(batch, unloading)).catch(error => {
+          console.warn(`📊 QoE sink ${sink.name} failed:`, error);
+        });
+      } catch (error) {
+        console.warn(`📊 QoE sink ${sink.name} failed:`, error);
+      }
+    });
+  }
+}
+
+export const qoeCollector = new QoECollector();
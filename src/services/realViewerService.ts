@@ -1,4 +1,36 @@
-const API_BASE = '/api/viewers';
+import { createCache } from './cacheService';
+import type { ViewerCountReading } from '@/types/sports';
+import { extractNumericId } from '@/utils/matchSlug';
+
+// Presence service (server/presence) - proxied under /api/viewers in dev
+const API_BASE = (import.meta.env.VITE_PRESENCE_URL as string | undefined) || '/api/viewers';
+
+export type PresenceRoomKind = 'match' | 'channel';
+export type PresenceRoom = `${PresenceRoomKind}:${string}`;
+
+type CountsListener = (counts: Record<string, number>) => void;
+
+const HEARTBEAT_INTERVAL = 30000;    // server accepts one per room every 10s
+const RECONNECT_DEBOUNCE = 300;      // batch subscribe/unsubscribe bursts (a page of cards mounting)
+const SERVICE_RETRY_DELAY = 60000;   // after the presence service turned out to be missing
+const MAX_ROOMS_PER_REQUEST = 100;   // server limit
+
+// room -> how many components are tracking it, and its heartbeat timer
+const trackedRooms = new Map<PresenceRoom, { refs: number; timer: ReturnType<typeof setInterval> | null }>();
+
+const countListeners = new Map<CountsListener, Set<PresenceRoom>>();
+const latestCounts = new Map<PresenceRoom, number>();
+let eventSource: EventSource | null = null;
+let eventSourceRooms = '';
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let serviceUnavailableUntil = 0;
+
+/**
+ * Room ID for a match or channel. Matches use the numeric ID so every slug
+ * variant of a match URL lands in the same room.
+ */
+export const getPresenceRoom = (kind: PresenceRoomKind, id: string): PresenceRoom =>
+  `${kind}:${kind === 'match' ? extractNumericId(id) : id}`;
 
 // Generate a unique session ID for this browser tab
 const getSessionId = (): string => {
@@ -10,90 +42,71 @@ const getSessionId = (): string => {
   return sessionId;
 };
 
-// Cache for viewer counts
-const viewerCountCache = new Map<string, { count: number; timestamp: number }>();
+// Cache for measured counts
 const CACHE_DURATION = 10000; // 10 seconds
+const viewerCountCache = createCache<number>('viewer-counts', { ttl: CACHE_DURATION, maxEntries: 500 });
 
-// Cache for estimated counts (longer duration for consistency)
-const estimatedCountCache = new Map<string, { count: number; timestamp: number }>();
-const ESTIMATED_CACHE_DURATION = 60000; // 1 minute
-
-// Popular teams/leagues get higher base viewers
-const POPULAR_KEYWORDS = [
-  'manchester', 'liverpool', 'arsenal', 'chelsea', 'real madrid', 'barcelona',
-  'bayern', 'juventus', 'psg', 'milan', 'inter', 'dortmund', 'atletico',
-  'premier league', 'champions league', 'la liga', 'serie a', 'bundesliga',
-  'nba', 'nfl', 'ufc', 'f1', 'formula'
-];
-
-/**
- * Generate a consistent hash from string for seeding random
- */
-const hashCode = (str: string): number => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash);
-};
+// ============================================
+// Presence (heartbeats)
+// ============================================
 
 /**
- * Generate estimated viewer count for a match
+ * Start counting this tab as a viewer of a room. Heartbeats pause while the tab is
+ * hidden; the returned function leaves. Safe to call for the same room from several
+ * components - the tab is counted once and leaves when the last one releases.
  */
-const getEstimatedViewerCount = (matchId: string): number => {
-  // Check cache first
-  const cached = estimatedCountCache.get(matchId);
-  if (cached && Date.now() - cached.timestamp < ESTIMATED_CACHE_DURATION) {
-    return cached.count;
-  }
-
-  const matchIdLower = matchId.toLowerCase();
-
-  // Base count between 500-2000
-  const seed = hashCode(matchId);
-  const baseCount = 500 + (seed % 1500);
-
-  // Multiplier for popular teams/leagues
-  let multiplier = 1;
-  for (const keyword of POPULAR_KEYWORDS) {
-    if (matchIdLower.includes(keyword)) {
-      multiplier += 0.5 + Math.random() * 0.5;
-    }
+export const trackPresence = (room: PresenceRoom): (() => void) => {
+  const tracked = trackedRooms.get(room);
+  if (tracked) {
+    tracked.refs++;
+  } else {
+    trackedRooms.set(room, { refs: 1, timer: null });
+    ensureVisibilityListener();
+    if (!document.hidden) startHeartbeat(room);
   }
 
-  // Time-based variation (more viewers during peak hours)
-  const hour = new Date().getHours();
-  const isPeakHour = (hour >= 18 && hour <= 23) || (hour >= 12 && hour <= 15);
-  if (isPeakHour) {
-    multiplier *= 1.3;
-  }
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
 
-  // Add some randomness for realism (±15%)
-  const randomFactor = 0.85 + Math.random() * 0.3;
+    const entry = trackedRooms.get(room);
+    if (!entry || --entry.refs > 0) return;
+    if (entry.timer) clearInterval(entry.timer);
+    trackedRooms.delete(room);
+    sendLeave(room);
+  };
+};
 
-  // Calculate final count
-  let count = Math.round(baseCount * multiplier * randomFactor);
+const startHeartbeat = (room: PresenceRoom) => {
+  const entry = trackedRooms.get(room);
+  if (!entry || entry.timer) return;
+  sendHeartbeat(room);
+  entry.timer = setInterval(() => sendHeartbeat(room), HEARTBEAT_INTERVAL);
+};
 
-  // Cap at reasonable numbers
-  count = Math.min(count, 25000);
-  count = Math.max(count, 200);
+let visibilityListenerAdded = false;
 
-  // Cache the result
-  estimatedCountCache.set(matchId, { count, timestamp: Date.now() });
+const ensureVisibilityListener = () => {
+  if (visibilityListenerAdded) return;
+  visibilityListenerAdded = true;
 
-  return count;
+  document.addEventListener('visibilitychange', () => {
+    trackedRooms.forEach((entry, room) => {
+      if (document.hidden) {
+        // Hidden tabs stop heartbeating and drop out after the server's session timeout
+        if (entry.timer) clearInterval(entry.timer);
+        entry.timer = null;
+      } else {
+        startHeartbeat(room);
+      }
+    });
+  });
 };
 
-/**
- * Send heartbeat to register/keep viewer alive
- */
-export const sendHeartbeat = async (matchId: string): Promise<void> => {
-  const sessionId = getSessionId();
-
+const sendHeartbeat = async (room: PresenceRoom): Promise<void> => {
   try {
-    await fetch(`${API_BASE}/heartbeat?match=${encodeURIComponent(matchId)}&session=${encodeURIComponent(sessionId)}`, {
+    await fetch(`${API_BASE}/heartbeat?room=${encodeURIComponent(room)}&session=${encodeURIComponent(getSessionId())}`, {
       method: 'POST'
     });
   } catch (error) {
@@ -101,79 +114,179 @@ export const sendHeartbeat = async (matchId: string): Promise<void> => {
   }
 };
 
-/**
- * Unregister viewer when leaving match page
- */
-export const unregisterViewer = async (matchId: string): Promise<void> => {
-  const sessionId = getSessionId();
-
+const sendLeave = async (room: PresenceRoom): Promise<void> => {
   try {
-    await fetch(`${API_BASE}/leave?match=${encodeURIComponent(matchId)}&session=${encodeURIComponent(sessionId)}`, {
-      method: 'POST'
+    // keepalive lets the request finish when the tab is closing
+    await fetch(`${API_BASE}/leave?room=${encodeURIComponent(room)}&session=${encodeURIComponent(getSessionId())}`, {
+      method: 'POST',
+      keepalive: true
     });
   } catch (error) {
     // Silent fail
   }
 };
 
+// ============================================
+// Live counts (server push)
+// ============================================
+
 /**
- * Get viewer count for a match (real + estimated)
+ * Get pushed viewer counts for a set of rooms. All subscribers share one SSE
+ * connection over the union of their rooms. The listener gets the counts already
+ * known straight away, then every change.
  */
-export const getRealViewerCount = async (matchId: string): Promise<number> => {
-  // Check cache first
-  const cached = viewerCountCache.get(matchId);
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.count > 0 ? cached.count : getEstimatedViewerCount(matchId);
-  }
+export const subscribeViewerCounts = (rooms: PresenceRoom[], listener: CountsListener): (() => void) => {
+  countListeners.set(listener, new Set(rooms));
 
-  try {
-    const response = await fetch(`${API_BASE}/count?match=${encodeURIComponent(matchId)}`);
-    const data = await response.json();
-    const realCount = data.count || 0;
+  const known: Record<string, number> = {};
+  rooms.forEach(room => {
+    const count = latestCounts.get(room);
+    if (count !== undefined) known[room] = count;
+  });
+  if (Object.keys(known).length > 0) listener(known);
 
-    // Cache the real count
-    viewerCountCache.set(matchId, { count: realCount, timestamp: Date.now() });
+  scheduleReconnect();
 
-    // Return real count if available, otherwise estimated
-    if (realCount > 0) {
-      return realCount;
+  return () => {
+    countListeners.delete(listener);
+    scheduleReconnect();
+  };
+};
+
+/**
+ * Last pushed count for a room, if any
+ */
+export const getPushedViewerCount = (room: PresenceRoom): number | undefined => latestCounts.get(room);
+
+const scheduleReconnect = (delay: number = RECONNECT_DEBOUNCE) => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connectEventStream();
+  }, delay);
+};
+
+const connectEventStream = () => {
+  const rooms = Array.from(new Set(Array.from(countListeners.values()).flatMap(set => Array.from(set))))
+    .sort()
+    .slice(0, MAX_ROOMS_PER_REQUEST);
+  const key = rooms.join(',');
+
+  if (eventSource && key === eventSourceRooms) return;
+
+  eventSource?.close();
+  eventSource = null;
+  eventSourceRooms = '';
+  if (rooms.length === 0) return;
+
+  // No presence server here (static hosting, dev without it running) - don't keep knocking
+  const wait = serviceUnavailableUntil - Date.now();
+  if (wait > 0) {
+    scheduleReconnect(wait);
+    return;
+  }
+
+  const source = new EventSource(`${API_BASE}/events?rooms=${rooms.map(encodeURIComponent).join(',')}`);
+  eventSource = source;
+  eventSourceRooms = key;
+
+  source.addEventListener('counts', event => {
+    let changed: Record<string, number>;
+    try {
+      changed = JSON.parse((event as MessageEvent<string>).data);
+    } catch {
+      return;
     }
 
-    return getEstimatedViewerCount(matchId);
+    Object.entries(changed).forEach(([room, count]) => latestCounts.set(room as PresenceRoom, count));
+    countListeners.forEach((listenerRooms, listener) => {
+      const relevant: Record<string, number> = {};
+      let hasRelevant = false;
+      Object.entries(changed).forEach(([room, count]) => {
+        if (listenerRooms.has(room as PresenceRoom)) {
+          relevant[room] = count;
+          hasRelevant = true;
+        }
+      });
+      if (hasRelevant) listener(relevant);
+    });
+  });
+
+  source.onerror = () => {
+    // CONNECTING means the browser is already retrying a dropped stream itself
+    if (source.readyState !== EventSource.CLOSED || eventSource !== source) return;
+    console.warn('👀 Presence service unavailable, retrying in 60s');
+    eventSource = null;
+    eventSourceRooms = '';
+    serviceUnavailableUntil = Date.now() + SERVICE_RETRY_DELAY;
+    scheduleReconnect(SERVICE_RETRY_DELAY);
+  };
+};
+
+// ============================================
+// Counts (on demand)
+// ============================================
+
+const toReading = (count: number): ViewerCountReading =>
+  count > 0 ? { count, kind: 'measured' } : { count: 0, kind: 'none' };
+
+const fetchCounts = async (rooms: PresenceRoom[]): Promise<Record<string, number> | null> => {
+  if (Date.now() < serviceUnavailableUntil) return null;
+
+  try {
+    const response = await fetch(`${API_BASE}/counts?rooms=${rooms.map(encodeURIComponent).join(',')}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
   } catch (error) {
-    // On error, return estimated count
-    return getEstimatedViewerCount(matchId);
+    // Static hosting answers with index.html or a 404 - stop asking for a while
+    serviceUnavailableUntil = Date.now() + SERVICE_RETRY_DELAY;
+    return null;
   }
 };
 
 /**
- * Get viewer counts for multiple matches
+ * Measured viewer count for a match: people watching it here, per the presence service.
+ * 'none' when nobody is or the service can't be reached - never an estimate.
  */
-export const getBatchViewerCounts = async (matchIds: string[]): Promise<Map<string, number>> => {
-  const counts = new Map<string, number>();
+export const getMeasuredViewerCount = async (matchId: string): Promise<ViewerCountReading> => {
+  const pushed = getPushedViewerCount(getPresenceRoom('match', matchId));
+  if (pushed !== undefined) return toReading(pushed);
 
-  if (matchIds.length === 0) {
-    return counts;
+  const counts = await getMeasuredViewerCounts([matchId]);
+  return counts.get(matchId) || toReading(0);
+};
+
+/**
+ * Measured viewer counts for multiple matches
+ */
+export const getMeasuredViewerCounts = async (matchIds: string[]): Promise<Map<string, ViewerCountReading>> => {
+  const readings = new Map<string, ViewerCountReading>();
+  const missing: string[] = [];
+
+  for (const matchId of matchIds) {
+    const cached = viewerCountCache.getSync(matchId);
+    if (cached !== undefined) readings.set(matchId, toReading(cached));
+    else missing.push(matchId);
   }
 
-  try {
-    const response = await fetch(`${API_BASE}/counts?matches=${matchIds.map(encodeURIComponent).join(',')}`);
-    const data = await response.json();
-
-    for (const matchId of matchIds) {
-      const realCount = (data[matchId] as number) || 0;
-      const finalCount = realCount > 0 ? realCount : getEstimatedViewerCount(matchId);
-      counts.set(matchId, finalCount);
-      viewerCountCache.set(matchId, { count: realCount, timestamp: Date.now() });
-    }
-  } catch (error) {
-    // On error, use estimated counts for all
-    for (const matchId of matchIds) {
-      counts.set(matchId, getEstimatedViewerCount(matchId));
-    }
+  for (let i = 0; i < missing.length; i += MAX_ROOMS_PER_REQUEST) {
+    const batch = missing.slice(i, i + MAX_ROOMS_PER_REQUEST);
+    const rooms = batch.map(matchId => getPresenceRoom('match', matchId));
+    const data = await fetchCounts(rooms);
+    if (!data) break;
+
+    batch.forEach((matchId, index) => {
+      const count = Number(data[rooms[index]]) || 0;
+      viewerCountCache.set(matchId, count);
+      readings.set(matchId, toReading(count));
+    });
   }
 
-  return counts;
+  matchIds.forEach(matchId => {
+    if (!readings.has(matchId)) readings.set(matchId, toReading(0));
+  });
+
+  return readings;
 };
 
 /**
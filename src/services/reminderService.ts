@@ -0,0 +1,313 @@
+// Match Reminder Service - "Remind me" notifications before kickoff
+// Reminders live in localStorage (so they survive reloads) and are mirrored to the
+// service worker, which can fire them while the tab is closed. Every delivery is
+// recorded in the notified_matches table so the same user isn't pinged twice.
+import { Match } from '../types/sports';
+import { supabase } from '@/integrations/supabase/client';
+import { generateMatchUrl } from '../utils/matchSlug';
+import { getCurrentUserId } from './favouritesService';
+
+export interface MatchReminder {
+  matchId: string;
+  title: string;
+  url: string;
+  matchDate: number;     // Kickoff, Unix timestamp in milliseconds
+  leadMinutes: number;   // How long before kickoff to notify
+  fireAt: number;        // matchDate - leadMinutes
+  createdAt: number;
+  notifiedAt?: number;   // Set once the reminder has been delivered
+}
+
+export const REMINDER_LEAD_OPTIONS = [5, 15, 30, 60];
+export const DEFAULT_LEAD_MINUTES = 15;
+
+const STORAGE_KEY = 'damitv_match_reminders_v1';
+const DEVICE_ID_KEY = 'damitv_device_id';
+const NOTIFICATION_ICON = '/favicon.png';
+
+// Keep delivered reminders around briefly so the panel can show them, then drop them
+const DELIVERED_RETENTION = 6 * 60 * 60 * 1000; // 6 hours
+
+type Listener = (reminders: MatchReminder[]) => void;
+
+const listeners: Listener[] = [];
+let reminders: MatchReminder[] = loadReminders();
+
+function loadReminders(): MatchReminder[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const cutoff = Date.now() - DELIVERED_RETENTION;
+        return parsed.filter((r: MatchReminder) => r && r.matchId && r.fireAt && (!r.notifiedAt || r.notifiedAt > cutoff));
+      }
+    }
+  } catch (e) {
+    console.log('Reminders read error:', e);
+  }
+  return [];
+}
+
+const setReminders = (next: MatchReminder[]) => {
+  reminders = next.sort((a, b) => a.fireAt - b.fireAt);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(reminders));
+  } catch (e) {
+    console.log('Reminders write error:', e);
+  }
+  listeners.forEach(listener => listener(reminders));
+  syncWithServiceWorker();
+};
+
+export const getReminders = (): MatchReminder[] => reminders;
+
+export const subscribeToReminders = (listener: Listener): (() => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+};
+
+export const getReminder = (matchId: string): MatchReminder | undefined => {
+  return reminders.find(r => r.matchId === matchId);
+};
+
+// Ask for notification permission if we don't have it yet
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!('Notification' in window)) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return 'denied';
+  }
+};
+
+export const addReminder = (match: Match, leadMinutes: number = DEFAULT_LEAD_MINUTES): MatchReminder => {
+  const reminder: MatchReminder = {
+    matchId: match.id,
+    title: match.teams?.home?.name && match.teams?.away?.name
+      ? `${match.teams.home.name} vs ${match.teams.away.name}`
+      : match.title,
+    url: generateMatchUrl(
+      match.sportId || match.category,
+      match.id,
+      match.teams?.home?.name,
+      match.teams?.away?.name,
+      match.title
+    ),
+    matchDate: match.date,
+    leadMinutes,
+    fireAt: match.date - leadMinutes * 60 * 1000,
+    createdAt: Date.now()
+  };
+
+  setReminders([...reminders.filter(r => r.matchId !== match.id), reminder]);
+  console.log(`⏰ Reminder set: ${reminder.title} (${leadMinutes}min before)`);
+  return reminder;
+};
+
+export const cancelReminder = (matchId: string) => {
+  setReminders(reminders.filter(r => r.matchId !== matchId));
+  closeDisplayedNotification(matchId);
+};
+
+export const clearDeliveredReminders = () => {
+  setReminders(reminders.filter(r => !r.notifiedAt));
+};
+
+// Keep reminders in step with the latest schedule (kickoff times do move)
+export const updateReminderTimes = (matches: Match[]) => {
+  let changed = false;
+  const next = reminders.map(reminder => {
+    if (reminder.notifiedAt) return reminder;
+    const match = matches.find(m => m.id === reminder.matchId);
+    if (!match || !match.date || match.date === reminder.matchDate) return reminder;
+    changed = true;
+    return {
+      ...reminder,
+      matchDate: match.date,
+      fireAt: match.date - reminder.leadMinutes * 60 * 1000
+    };
+  });
+  if (changed) setReminders(next);
+};
+
+// Stable per-device identifier for anonymous visitors
+const getDeviceId = (): string => {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = `device_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return 'device_unknown';
+  }
+};
+
+// notified_matches has no user column, so the recipient is encoded in notification_type
+const getNotificationType = async (): Promise<string> => {
+  const userId = await getCurrentUserId();
+  return `reminder:${userId || getDeviceId()}`;
+};
+
+const wasAlreadyNotified = async (matchId: string, notificationType: string): Promise<boolean> => {
+  try {
+    // Older deliveries could leave several rows, so don't insist on exactly one
+    const { data } = await supabase
+      .from('notified_matches')
+      .select('id')
+      .eq('match_id', matchId)
+      .eq('notification_type', notificationType)
+      .limit(1);
+    return !!data && data.length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const recordNotified = async (reminder: MatchReminder, notificationType: string) => {
+  try {
+    await supabase.from('notified_matches').insert({
+      match_id: reminder.matchId,
+      match_title: reminder.title,
+      notification_type: notificationType
+    });
+  } catch (error) {
+    console.error('❌ Error recording notified match:', error);
+  }
+};
+
+const formatLead = (minutes: number): string => {
+  if (minutes >= 60) return `${Math.round(minutes / 60)}h`;
+  return `${minutes} minutes`;
+};
+
+const showReminderNotification = async (reminder: MatchReminder) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const title = `⏰ Starting soon: ${reminder.title}`;
+  const options: NotificationOptions = {
+    body: `Kicks off in ${formatLead(reminder.leadMinutes)}. Tap to watch on DamiTV.`,
+    icon: NOTIFICATION_ICON,
+    badge: NOTIFICATION_ICON,
+    tag: `reminder-${reminder.matchId}`, // Same tag as the service worker, so it never shows twice
+    data: { url: reminder.url }
+  };
+
+  // Prefer the service worker so the click handler works after the tab is closed
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration().catch(() => undefined)
+    : undefined;
+
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      window.location.href = reminder.url;
+    };
+  }
+};
+
+const closeDisplayedNotification = async (matchId: string) => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const notifications = await registration?.getNotifications({ tag: `reminder-${matchId}` });
+    notifications?.forEach(n => n.close());
+  } catch {
+    // Nothing to close
+  }
+};
+
+// Deliver every reminder that is due. Returns the number of notifications shown.
+export const deliverDueReminders = async (now: number = Date.now()): Promise<number> => {
+  const due = reminders.filter(r => !r.notifiedAt && r.fireAt <= now && r.matchDate > now - DELIVERED_RETENTION);
+  if (due.length === 0) return 0;
+
+  const notificationType = await getNotificationType();
+  let delivered = 0;
+
+  for (const reminder of due) {
+    const alreadyNotified = await wasAlreadyNotified(reminder.matchId, notificationType);
+    if (!alreadyNotified) {
+      await showReminderNotification(reminder);
+      await recordNotified(reminder, notificationType);
+      delivered++;
+    }
+  }
+
+  const dueIds = new Set(due.map(r => r.matchId));
+  setReminders(reminders.map(r => dueIds.has(r.matchId) ? { ...r, notifiedAt: now } : r));
+  return delivered;
+};
+
+// Let an installed app wake the service worker to deliver reminders while closed
+export const registerReminderSync = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const periodicSync = (registration as ServiceWorkerRegistration & {
+      periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+    })?.periodicSync;
+    if (periodicSync) {
+      await periodicSync.register('match-reminders', { minInterval: 15 * 60 * 1000 });
+    }
+  } catch {
+    // Periodic sync needs an installed app and permission - timers still cover open tabs
+  }
+};
+
+// Mirror pending reminders to the service worker (see public/reminder-sw.js)
+export const syncWithServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const worker = registration?.active;
+    if (!worker) return;
+
+    worker.postMessage({
+      type: 'REMINDERS_SYNC',
+      reminders: reminders
+        .filter(r => !r.notifiedAt)
+        .map(r => ({
+          matchId: r.matchId,
+          title: r.title,
+          url: r.url,
+          leadMinutes: r.leadMinutes,
+          fireAt: r.fireAt
+        }))
+    });
+  } catch (error) {
+    console.error('❌ Error syncing reminders with service worker:', error);
+  }
+};
+
+// The service worker tells open tabs when it has delivered a reminder itself, and picks
+// one of them to record it
+const handleServiceWorkerDelivery = async (matchId: string, record: boolean) => {
+  const reminder = reminders.find(r => r.matchId === matchId && !r.notifiedAt);
+  if (!reminder) return;
+
+  setReminders(reminders.map(r => r.matchId === matchId ? { ...r, notifiedAt: Date.now() } : r));
+  if (!record) return;
+
+  const notificationType = await getNotificationType();
+  if (!(await wasAlreadyNotified(matchId, notificationType))) {
+    await recordNotified(reminder, notificationType);
+  }
+};
+
+if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    if (event.data?.type === 'REMINDER_DELIVERED' && event.data.matchId) {
+      handleServiceWorkerDelivery(event.data.matchId, event.data.record !== false);
+    }
+  });
+}
@@ -0,0 +1,230 @@
+// Source Ranking Service - learns which stream sources actually play on this device
+// Each source keeps decayed success/failure weights and an average load time in localStorage.
+// The static priority table is only a prior: it decides the order until real outcomes exist.
+import { qoeCollector, QoESink } from './qoeTelemetry';
+
+// Cold-start prior (0-10) - higher = expected to work better
+const SOURCE_PRIORS: Record<string, number> = {
+  // Primary streamed.pk compatible sources (military phonetic)
+  'alpha': 10,
+  'bravo': 10,
+  'charlie': 10,
+  'delta': 10,
+  'echo': 10,
+  'foxtrot': 10,
+  'golf': 10,
+  // Secondary reliable sources
+  'streamed': 8,
+  'sportsurge': 8,
+  'streameast': 7,
+  'streambtw': 6,
+  'givemereddit': 5,
+  'admin': 4,
+  'topembed': 3,
+  // Fallback sources
+  'default': 1
+};
+
+export interface SourceStats {
+  successes: number;          // decayed weight of successful plays
+  failures: number;           // decayed weight of failed plays
+  avgLoadMs: number | null;   // moving average of time until the stream showed up
+  lastFailureAt?: number;
+  lastFailureReason?: string;
+  updatedAt: number;
+}
+
+export interface SourceRankingEntry {
+  source: string;
+  prior: number;
+  score: number;
+  successRate: number;
+  stats: SourceStats | null;
+}
+
+const STORAGE_KEY = 'damitv_source_ranking_v1';
+const HALF_LIFE = 3 * 24 * 60 * 60 * 1000; // an outcome counts half after 3 days
+const PRIOR_WEIGHT = 3;                     // the prior is worth this many observations
+const LOAD_TIME_ALPHA = 0.3;                // weight of the newest load time in the average
+const FAST_LOAD_MS = 5 * 1000;              // loads faster than this are not penalised
+const SLOW_LOAD_MS = 30 * 1000;             // load time that halves the score
+const FORGET_BELOW = 0.05;                  // drop sources whose evidence has decayed away
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const getPrior = (source: string) => SOURCE_PRIORS[source] ?? SOURCE_PRIORS['default'];
+
+const loadStats = (): Record<string, SourceStats> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === 'object') return parsed;
+    }
+  } catch (e) {
+    console.log('Source ranking read error:', e);
+  }
+  return {};
+};
+
+const saveStats = (stats: Record<string, SourceStats>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.log('Source ranking write error:', e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Scale old evidence down by the time since it was last touched
+const decay = (stats: SourceStats, now = Date.now()): SourceStats => {
+  const factor = 0.5 ** (Math.max(0, now - stats.updatedAt) / HALF_LIFE);
+  return {
+    ...stats,
+    successes: stats.successes * factor,
+    failures: stats.failures * factor,
+    updatedAt: now
+  };
+};
+
+const scoreSource = (source: string, stats: SourceStats | null) => {
+  const prior = getPrior(source);
+  const current = stats ? decay(stats) : null;
+  const successes = current?.successes ?? 0;
+  const failures = current?.failures ?? 0;
+
+  // Success rate with the prior blended in as pseudo-observations
+  const successRate = (successes + PRIOR_WEIGHT * (prior / 10)) / (successes + failures + PRIOR_WEIGHT);
+  const speed = current?.avgLoadMs != null
+    ? Math.max(0.5, 1 - Math.max(0, current.avgLoadMs - FAST_LOAD_MS) / (2 * (SLOW_LOAD_MS - FAST_LOAD_MS)))
+    : 1;
+
+  return { prior, successRate, score: successRate * speed * 10 };
+};
+
+const updateSource = (source: string, update: (stats: SourceStats) => SourceStats) => {
+  if (!source) return;
+  const all = loadStats();
+  const existing = all[source]
+    ? decay(all[source])
+    : { successes: 0, failures: 0, avgLoadMs: null, updatedAt: Date.now() };
+  all[source] = update(existing);
+
+  // Keep storage small - forget sources nobody has played in weeks
+  Object.keys(all).forEach(key => {
+    const decayed = decay(all[key]);
+    if (decayed.successes + decayed.failures < FORGET_BELOW) delete all[key];
+  });
+
+  saveStats(all);
+};
+
+/**
+ * Record a source that started playing
+ * rebufferRatio (0-1) turns part of the success into a failure for choppy streams
+ */
+export const recordSourceSuccess = (source: string, loadTimeMs?: number | null, rebufferRatio = 0) => {
+  const choppiness = Math.min(Math.max(rebufferRatio, 0), 0.5);
+
+  updateSource(source, stats => ({
+    ...stats,
+    successes: stats.successes + (1 - choppiness),
+    failures: stats.failures + choppiness,
+    avgLoadMs: loadTimeMs == null
+      ? stats.avgLoadMs
+      : stats.avgLoadMs == null
+        ? loadTimeMs
+        : stats.avgLoadMs * (1 - LOAD_TIME_ALPHA) + loadTimeMs * LOAD_TIME_ALPHA
+  }));
+};
+
+/**
+ * Record a source that failed to play
+ */
+export const recordSourceFailure = (source: string, reason: string) => {
+  console.log(`📉 Source ${source} failed (${reason})`);
+  updateSource(source, stats => ({
+    ...stats,
+    failures: stats.failures + 1,
+    lastFailureAt: Date.now(),
+    lastFailureReason: reason
+  }));
+};
+
+/**
+ * Current score of each source - stats are read once for the whole set, so sort on the result
+ */
+export const getSourceScores = (sources: string[]): Map<string, number> => {
+  const stats = loadStats();
+  return new Map(sources.map(source => [source, scoreSource(source, stats[source] ?? null).score]));
+};
+
+/**
+ * Order `allStreams` keys ("source/id") best first
+ */
+export const rankSourceKeys = (sourceKeys: string[]): string[] => {
+  const stats = loadStats();
+  const scores = new Map(sourceKeys.map(key => {
+    const source = key.split('/')[0];
+    return [key, scoreSource(source, stats[source] ?? null).score];
+  }));
+  // Array.sort is stable, so equal scores keep their original order
+  return [...sourceKeys].sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0));
+};
+
+/**
+ * Every known source (priors and anything observed) with its current score
+ */
+export const getSourceRanking = (): SourceRankingEntry[] => {
+  const stats = loadStats();
+  const sources = new Set([
+    ...Object.keys(SOURCE_PRIORS).filter(source => source !== 'default'),
+    ...Object.keys(stats)
+  ]);
+
+  return [...sources]
+    .map(source => {
+      const current = stats[source] ? decay(stats[source]) : null;
+      return { source, stats: current, ...scoreSource(source, current) };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+export const resetSourceRanking = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.log('Source ranking reset error:', e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeSourceRanking = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Sessions already learned from - a snapshot and the final report of one session
+// count once, as whichever first showed it played or failed
+const learnedSessions = new Set<string>();
+
+// Learn from native-video playback QoE. Only catalogue streams carry a streamNo -
+// bare URLs (TV channels, extracted streams) are labelled by host and not ranked.
+const sourceRankingSink: QoESink = {
+  name: 'source-ranking',
+  send: (reports) => {
+    reports.forEach(report => {
+      if (report.context.streamNo === undefined || learnedSessions.has(report.sessionId)) return;
+      if (report.outcome === 'played') {
+        learnedSessions.add(report.sessionId);
+        recordSourceSuccess(report.context.source, report.timeToFirstFrameMs, report.rebufferRatio);
+      } else if (report.outcome === 'failed') {
+        learnedSessions.add(report.sessionId);
+        recordSourceFailure(report.context.source, report.fatalErrors[0]?.details || 'playback-error');
+      }
+    });
+  }
+};
+
+qoeCollector.addSink(sourceRankingSink);
@@ -1,6 +1,7 @@
 // TheSportsDB API Service for enriching match previews with real data
 // Falls back to Perplexity AI when TheSportsDB doesn't have data
 import { getTeamInfoFromAI, getMatchContextFromAI, AITeamInfo, AIMatchContext } from './perplexityService';
+import { getCanonicalTeamName, normalizeTeamName, teamsMatch } from './teamIdentity';
 
 const API_KEY = '751945';
 const BASE_URL = 'https://www.thesportsdb.com/api/v1/json';
@@ -75,7 +76,9 @@ const sportMappings: Record<string, string> = {
 // Search for a team by name and sport
 export const searchTeam = async (teamName: string, sport?: string): Promise<TeamInfo | null> => {
   const sportKey = sport?.toLowerCase() || '';
-  const cacheKey = `team_${teamName.toLowerCase().replace(/\s+/g, '_')}_${sportKey}`;
+  const cacheKey = `team_${normalizeTeamName(teamName, sport).replace(/\s+/g, '_')}_${sportKey}`;
+  // TheSportsDB knows "Manchester United", not "Man Utd"
+  const searchName = getCanonicalTeamName(teamName, sport);
   const cached = getCached(cacheKey, CACHE_DURATION_TEAM);
   if (cached) {
     console.log(`📦 Cache hit: ${teamName} (${sport || 'any sport'})`);
@@ -85,10 +88,10 @@ export const searchTeam = async (teamName: string, sport?: string): Promise<Team
 
   try {
     // For cricket, append "Cricket" to get the right team
-    let searchQuery = teamName;
-    if (sportKey === 'cricket' && !teamName.toLowerCase().includes('cricket')) {
+    let searchQuery = searchName;
+    if (sportKey === 'cricket' && !searchName.toLowerCase().includes('cricket')) {
       // Try searching with sport suffix first for national teams
-      searchQuery = `${teamName} Cricket`;
+      searchQuery = `${searchName} Cricket`;
     }
 
     const response = await fetch(`${BASE_URL}/${API_KEY}/searchteams.php?t=${encodeURIComponent(searchQuery)}`);
@@ -131,9 +134,9 @@ export const searchTeam = async (teamName: string, sport?: string): Promise<Team
     }
 
     // If cricket search with suffix failed, try original name
-    if (searchQuery !== teamName) {
-      console.log(`🌐 Retrying search with original name: ${teamName}`);
-      const response2 = await fetch(`${BASE_URL}/${API_KEY}/searchteams.php?t=${encodeURIComponent(teamName)}`);
+    if (searchQuery !== searchName) {
+      console.log(`🌐 Retrying search with original name: ${searchName}`);
+      const response2 = await fetch(`${BASE_URL}/${API_KEY}/searchteams.php?t=${encodeURIComponent(searchName)}`);
       const data2 = await response2.json();
 
       if (data2.teams && data2.teams.length > 0) {
@@ -314,16 +317,14 @@ export const getMatchPreviewData = async (
 
   // Calculate head-to-head from TheSportsDB matches
   const h2hMatches = [...homeLastMatches, ...awayLastMatches].filter(m =>
-    (m.homeTeam.toLowerCase().includes(homeTeamName.toLowerCase().split(' ')[0]) &&
-     m.awayTeam.toLowerCase().includes(awayTeamName.toLowerCase().split(' ')[0])) ||
-    (m.homeTeam.toLowerCase().includes(awayTeamName.toLowerCase().split(' ')[0]) &&
-     m.awayTeam.toLowerCase().includes(homeTeamName.toLowerCase().split(' ')[0]))
+    (teamsMatch(m.homeTeam, homeTeamName, sport) && teamsMatch(m.awayTeam, awayTeamName, sport)) ||
+    (teamsMatch(m.homeTeam, awayTeamName, sport) && teamsMatch(m.awayTeam, homeTeamName, sport))
   );
 
   // Calculate form (W/D/L from last 5)
   const calculateForm = (matches: MatchResult[], teamName: string) => {
     return matches.slice(0, 5).map(m => {
-      const isHome = m.homeTeam.toLowerCase().includes(teamName.toLowerCase().split(' ')[0]);
+      const isHome = teamsMatch(m.homeTeam, teamName, sport);
       const teamScore = isHome ? m.homeScore : m.awayScore;
       const oppScore = isHome ? m.awayScore : m.homeScore;
       if (teamScore > oppScore) return 'W';
@@ -1,6 +1,8 @@
 // Sports API Service - fetches from streamed.pk/su API
 import { Sport, Match, Stream, Source } from '../types/sports';
 import { getEmbedDomainSync, buildEmbedUrl } from '../utils/embedDomains';
+import { createCache } from './cacheService';
+import { getMatchLifecycle, isLivePhase } from './matchLifecycle';
 
 // API endpoints to try (direct calls)
 const API_BASES = [
@@ -16,10 +18,19 @@ const CORS_PROXIES = [
 // Legacy stream base URL
 const STREAM_BASE = 'https://streamed.pk';
 
-// In-memory cache with TTL
-const cache = new Map<string, { data: any; timestamp: number }>();
+// Cached API responses - match data is kept across reloads, stream URLs for the session only
 const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes for match data
 const STREAM_CACHE_DURATION = 15 * 60 * 1000; // 15 minutes for stream data
+const apiCache = createCache<any>('streamed-api', {
+  ttl: CACHE_DURATION,
+  staleTtl: 50 * 60 * 1000, // served while a refresh runs, up to an hour old
+  maxEntries: 100,
+  persist: true
+});
+const streamCache = createCache<Stream[]>('streamed-streams', {
+  ttl: STREAM_CACHE_DURATION,
+  maxEntries: 200
+});
 
 // Track working endpoints for faster subsequent requests
 let workingApiBase: string | null = null;
@@ -27,47 +38,16 @@ let workingProxy: string | null = null;
 
 // Helper function to clear cache
 export const clearStreamCache = (matchId?: string) => {
+  const streamEntries = streamCache.invalidate();
+
   if (matchId) {
-    const keysToDelete: string[] = [];
-    cache.forEach((_, key) => {
-      if (key.includes(matchId) || key.includes('stream')) {
-        keysToDelete.push(key);
-      }
-    });
-    keysToDelete.forEach(key => cache.delete(key));
-    console.log(`🗑️ Cleared ${keysToDelete.length} cache entries for match: ${matchId}`);
+    const matchEntries = apiCache.invalidate(key => key.includes(matchId));
+    console.log(`🗑️ Cleared ${streamEntries + matchEntries} cache entries for match: ${matchId}`);
   } else {
-    const keysToDelete: string[] = [];
-    cache.forEach((_, key) => {
-      if (key.includes('stream')) {
-        keysToDelete.push(key);
-      }
-    });
-    keysToDelete.forEach(key => cache.delete(key));
-    console.log(`🗑️ Cleared ${keysToDelete.length} stream cache entries`);
+    console.log(`🗑️ Cleared ${streamEntries} stream cache entries`);
   }
 };
 
-// Helper function to get cached data
-const getCachedData = (key: string, customTtl?: number) => {
-  const cached = cache.get(key);
-  const ttl = customTtl || CACHE_DURATION;
-  if (cached && Date.now() - cached.timestamp < ttl) {
-    console.log(`📦 Cache HIT: ${key}`);
-    return cached.data;
-  }
-  if (cached) {
-    cache.delete(key); // Clean expired
-  }
-  return null;
-};
-
-// Helper function to set cached data
-const setCachedData = (key: string, data: any) => {
-  cache.set(key, { data, timestamp: Date.now() });
-  console.log(`💾 Cache SET: ${key}`);
-};
-
 // Direct API fetch with CORS proxy fallback + request timeout + smart endpoint caching
 const fetchFromApi = async (endpoint: string): Promise<any> => {
   const timeout = 3000; // 3 second timeout
@@ -293,6 +273,9 @@ const parseMatchData = (item: any): Match | null => {
             : `${STREAM_BASE}/api/images/badge/${awayBadgeRaw}.webp`)
       : '';
 
+    // Upstream audience figure - absent or zero means unknown, not nobody watching
+    const viewers = Number(item.viewers || item.viewerCount) || 0;
+
     return {
       id: String(item.id),
       title: title || `${homeTeam} vs ${awayTeam}`,
@@ -312,7 +295,8 @@ const parseMatchData = (item: any): Match | null => {
         }
       },
       sources: sources,
-      viewerCount: item.viewers || item.viewerCount || 0
+      viewerCount: viewers,
+      viewerCountKind: viewers > 0 ? 'upstream' : 'none'
     };
   } catch (error) {
     console.error('Error parsing match data:', error, item);
@@ -322,46 +306,43 @@ const parseMatchData = (item: any): Match | null => {
 
 // Fetch all sports categories
 export const fetchSports = async (): Promise<Sport[]> => {
-  const cacheKey = 'streamed-sports';
-  const cached = getCachedData(cacheKey);
-  if (cached) return cached;
-
   try {
-    const data = await fetchFromApi('sports');
-
-    let sports: Sport[] = [];
-
-    if (Array.isArray(data)) {
-      sports = data.map((item: any) => ({
-        id: mapCategoryToSportId(item.id || item.name || item.slug || ''),
-        name: item.name || item.title || item.id || ''
-      })).filter(s => s.id && s.name);
-    } else if (data.sports && Array.isArray(data.sports)) {
-      sports = data.sports.map((item: any) => ({
-        id: mapCategoryToSportId(item.id || item.name || item.slug || ''),
-        name: item.name || item.title || item.id || ''
-      })).filter(s => s.id && s.name);
-    }
+    return await apiCache.fetch('streamed-sports', async () => {
+      const data = await fetchFromApi('sports');
 
-    // If API doesn't return sports, use predefined list
-    if (sports.length === 0) {
-      sports = [
-        { id: 'football', name: 'Football' },
-        { id: 'basketball', name: 'Basketball' },
-        { id: 'american-football', name: 'American Football' },
-        { id: 'cricket', name: 'Cricket' },
-        { id: 'tennis', name: 'Tennis' },
-        { id: 'fight', name: 'Fight' },
-        { id: 'hockey', name: 'Hockey' },
-        { id: 'baseball', name: 'Baseball' },
-        { id: 'rugby', name: 'Rugby' },
-        { id: 'motorsport', name: 'Motorsport' }
-      ];
-    }
+      let sports: Sport[] = [];
+
+      if (Array.isArray(data)) {
+        sports = data.map((item: any) => ({
+          id: mapCategoryToSportId(item.id || item.name || item.slug || ''),
+          name: item.name || item.title || item.id || ''
+        })).filter(s => s.id && s.name);
+      } else if (data.sports && Array.isArray(data.sports)) {
+        sports = data.sports.map((item: any) => ({
+          id: mapCategoryToSportId(item.id || item.name || item.slug || ''),
+          name: item.name || item.title || item.id || ''
+        })).filter(s => s.id && s.name);
+      }
 
-    setCachedData(cacheKey, sports);
-    console.log(`✅ Loaded ${sports.length} sports categories`);
-    return sports;
+      // If API doesn't return sports, use predefined list
+      if (sports.length === 0) {
+        sports = [
+          { id: 'football', name: 'Football' },
+          { id: 'basketball', name: 'Basketball' },
+          { id: 'american-football', name: 'American Football' },
+          { id: 'cricket', name: 'Cricket' },
+          { id: 'tennis', name: 'Tennis' },
+          { id: 'fight', name: 'Fight' },
+          { id: 'hockey', name: 'Hockey' },
+          { id: 'baseball', name: 'Baseball' },
+          { id: 'rugby', name: 'Rugby' },
+          { id: 'motorsport', name: 'Motorsport' }
+        ];
+      }
+
+      console.log(`✅ Loaded ${sports.length} sports categories`);
+      return sports;
+    });
   } catch (error) {
     console.error('❌ Error fetching sports:', error);
     // Return fallback sports on error
@@ -382,31 +363,28 @@ export const fetchSports = async (): Promise<Sport[]> => {
 
 // Fetch all matches
 export const fetchAllMatches = async (): Promise<Match[]> => {
-  const cacheKey = 'streamed-matches-all';
-  const cached = getCachedData(cacheKey);
-  if (cached) return cached;
-
   try {
-    console.log('🔄 Fetching matches from Sports API...');
+    return await apiCache.fetch('streamed-matches-all', async () => {
+      console.log('🔄 Fetching matches from Sports API...');
 
-    const data = await fetchFromApi('matches/all');
+      const data = await fetchFromApi('matches/all');
 
-    let matches: Match[] = [];
+      let matches: Match[] = [];
 
-    // Handle different response formats
-    if (Array.isArray(data)) {
-      matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
-    } else if (data.matches && Array.isArray(data.matches)) {
-      matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
-    } else if (data.data && Array.isArray(data.data)) {
-      matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
-    } else if (data.events && Array.isArray(data.events)) {
-      matches = data.events.map(parseMatchData).filter((m): m is Match => m !== null);
-    }
+      // Handle different response formats
+      if (Array.isArray(data)) {
+        matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
+      } else if (data.matches && Array.isArray(data.matches)) {
+        matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
+      } else if (data.data && Array.isArray(data.data)) {
+        matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
+      } else if (data.events && Array.isArray(data.events)) {
+        matches = data.events.map(parseMatchData).filter((m): m is Match => m !== null);
+      }
 
-    setCachedData(cacheKey, matches);
-    console.log(`✅ Loaded - Fetched ${matches.length} matches`);
-    return matches;
+      console.log(`✅ Loaded - Fetched ${matches.length} matches`);
+      return matches;
+    });
   } catch (error) {
     console.error('❌ Error fetching matches:', error);
     return [];
@@ -415,46 +393,42 @@ export const fetchAllMatches = async (): Promise<Match[]> => {
 
 // Fetch matches by sport category
 export const fetchMatches = async (sportId: string): Promise<Match[]> => {
-  const cacheKey = `streamed-matches-${sportId}`;
-  const cached = getCachedData(cacheKey);
-  if (cached) return cached;
-
   try {
-    console.log(`🔄 Fetching ${sportId} matches from Sports API...`);
+    return await apiCache.fetch(`streamed-matches-${sportId}`, async () => {
+      console.log(`🔄 Fetching ${sportId} matches from Sports API...`);
 
-    // Try sport-specific endpoint first
-    try {
-      const data = await fetchFromApi(`matches/${sportId}`);
+      // Try sport-specific endpoint first
+      try {
+        const data = await fetchFromApi(`matches/${sportId}`);
+
+        let matches: Match[] = [];
+        if (Array.isArray(data)) {
+          matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
+        } else if (data.matches && Array.isArray(data.matches)) {
+          matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
+        } else if (data.data && Array.isArray(data.data)) {
+          matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
+        }
 
-      let matches: Match[] = [];
-      if (Array.isArray(data)) {
-        matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
-      } else if (data.matches && Array.isArray(data.matches)) {
-        matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
-      } else if (data.data && Array.isArray(data.data)) {
-        matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
+        if (matches.length > 0) {
+          console.log(`✅ Loaded - ${matches.length} ${sportId} matches`);
+          return matches;
+        }
+      } catch {
+        // Fall through to filter from all matches
       }
 
-      if (matches.length > 0) {
-        setCachedData(cacheKey, matches);
-        console.log(`✅ Loaded - ${matches.length} ${sportId} matches`);
-        return matches;
-      }
-    } catch {
-      // Fall through to filter from all matches
-    }
+      // Fallback: fetch all matches and filter by sport
+      const allMatches = await fetchAllMatches();
+      const sportMatches = allMatches.filter(match =>
+        match.sportId === sportId ||
+        match.category === sportId ||
+        mapCategoryToSportId(match.category) === sportId
+      );
 
-    // Fallback: fetch all matches and filter by sport
-    const allMatches = await fetchAllMatches();
-    const sportMatches = allMatches.filter(match =>
-      match.sportId === sportId ||
-      match.category === sportId ||
-      mapCategoryToSportId(match.category) === sportId
-    );
-
-    setCachedData(cacheKey, sportMatches);
-    console.log(`✅ Filtered ${sportMatches.length} ${sportId} matches from all`);
-    return sportMatches;
+      console.log(`✅ Filtered ${sportMatches.length} ${sportId} matches from all`);
+      return sportMatches;
+    });
   } catch (error) {
     console.error(`❌ Error fetching ${sportId} matches:`, error);
     throw error;
@@ -463,52 +437,44 @@ export const fetchMatches = async (sportId: string): Promise<Match[]> => {
 
 // Fetch live matches
 export const fetchLiveMatches = async (): Promise<Match[]> => {
-  const cacheKey = 'streamed-matches-live';
-  const cached = getCachedData(cacheKey);
-  if (cached) return cached;
-
   try {
-    console.log('🔄 Fetching live matches from Sports API...');
+    return await apiCache.fetch('streamed-matches-live', async () => {
+      console.log('🔄 Fetching live matches from Sports API...');
 
-    // Try live endpoint first
-    try {
-      const data = await fetchFromApi('matches/live');
+      // Try live endpoint first
+      try {
+        const data = await fetchFromApi('matches/live');
+
+        let matches: Match[] = [];
+        if (Array.isArray(data)) {
+          matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
+        } else if (data.matches && Array.isArray(data.matches)) {
+          matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
+        } else if (data.data && Array.isArray(data.data)) {
+          matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
+        }
 
-      let matches: Match[] = [];
-      if (Array.isArray(data)) {
-        matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
-      } else if (data.matches && Array.isArray(data.matches)) {
-        matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
-      } else if (data.data && Array.isArray(data.data)) {
-        matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
+        if (matches.length > 0) {
+          console.log(`✅ Loaded - ${matches.length} live matches`);
+          return matches;
+        }
+      } catch {
+        // Fall through to filter from all matches
       }
 
-      if (matches.length > 0) {
-        setCachedData(cacheKey, matches);
-        console.log(`✅ Loaded - ${matches.length} live matches`);
-        return matches;
-      }
-    } catch {
-      // Fall through to filter from all matches
-    }
+      // Fallback: filter from all matches by lifecycle
+      const allMatches = await fetchAllMatches();
+      const now = Date.now();
 
-    // Fallback: filter from all matches based on time
-    const allMatches = await fetchAllMatches();
-    const now = Date.now();
-    const sixHoursInMs = 6 * 60 * 60 * 1000;
-    const oneHourInMs = 60 * 60 * 1000;
-
-    const liveMatches = allMatches.filter(match => {
-      const matchTime = match.date;
-      return match.sources &&
-             match.sources.length > 0 &&
-             matchTime - now < oneHourInMs &&
-             now - matchTime < sixHoursInMs;
-    }).sort((a, b) => b.date - a.date);
-
-    setCachedData(cacheKey, liveMatches);
-    console.log(`✅ Found ${liveMatches.length} live matches`);
-    return liveMatches;
+      const liveMatches = allMatches.filter(match => {
+        return match.sources &&
+               match.sources.length > 0 &&
+               isLivePhase(getMatchLifecycle(match, now).phase);
+      }).sort((a, b) => b.date - a.date);
+
+      console.log(`✅ Found ${liveMatches.length} live matches`);
+      return liveMatches;
+    });
   } catch (error) {
     console.error('❌ Error fetching live matches:', error);
     throw error;
@@ -517,27 +483,24 @@ export const fetchLiveMatches = async (): Promise<Match[]> => {
 
 // Fetch popular matches
 export const fetchPopularMatches = async (): Promise<Match[]> => {
-  const cacheKey = 'streamed-matches-popular';
-  const cached = getCachedData(cacheKey);
-  if (cached) return cached;
-
   try {
-    console.log('🔄 Fetching popular matches from Sports API...');
+    return await apiCache.fetch('streamed-matches-popular', async () => {
+      console.log('🔄 Fetching popular matches from Sports API...');
 
-    const data = await fetchFromApi('matches/popular');
+      const data = await fetchFromApi('matches/popular');
 
-    let matches: Match[] = [];
-    if (Array.isArray(data)) {
-      matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
-    } else if (data.matches && Array.isArray(data.matches)) {
-      matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
-    } else if (data.data && Array.isArray(data.data)) {
-      matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
-    }
+      let matches: Match[] = [];
+      if (Array.isArray(data)) {
+        matches = data.map(parseMatchData).filter((m): m is Match => m !== null);
+      } else if (data.matches && Array.isArray(data.matches)) {
+        matches = data.matches.map(parseMatchData).filter((m): m is Match => m !== null);
+      } else if (data.data && Array.isArray(data.data)) {
+        matches = data.data.map(parseMatchData).filter((m): m is Match => m !== null);
+      }
 
-    setCachedData(cacheKey, matches);
-    console.log(`✅ Loaded - ${matches.length} popular matches`);
-    return matches;
+      console.log(`✅ Loaded - ${matches.length} popular matches`);
+      return matches;
+    });
   } catch (error) {
     console.error('❌ Error fetching popular matches:', error);
     // Fallback: return all matches marked as popular
@@ -548,49 +511,45 @@ export const fetchPopularMatches = async (): Promise<Match[]> => {
 
 // Fetch a specific match by ID
 export const fetchMatch = async (sportId: string, matchId: string): Promise<Match> => {
-  const cacheKey = `streamed-match-${matchId}`;
-  const cached = getCachedData(cacheKey);
-  if (cached) return cached;
-
   try {
-    console.log(`🔄 Fetching match ${matchId} from Sports API...`);
+    return await apiCache.fetch(`streamed-match-${matchId}`, async () => {
+      console.log(`🔄 Fetching match ${matchId} from Sports API...`);
 
-    // Try match detail endpoint first
-    try {
-      const data = await fetchFromApi(`match/${matchId}`);
-
-      if (data) {
-        const match = parseMatchData(data.match || data.data || data);
-        if (match) {
-          setCachedData(cacheKey, match);
-          console.log(`✅ Found match: ${match.title}`);
-          return match;
+      // Try match detail endpoint first
+      try {
+        const data = await fetchFromApi(`match/${matchId}`);
+
+        if (data) {
+          const match = parseMatchData(data.match || data.data || data);
+          if (match) {
+            console.log(`✅ Found match: ${match.title}`);
+            return match;
+          }
         }
+      } catch {
+        // Fall through to search in all matches
       }
-    } catch {
-      // Fall through to search in all matches
-    }
-
-    // Fallback: search in all matches
-    const allMatches = await fetchAllMatches();
 
-    const match = allMatches.find(m => {
-      if (m.id === matchId) return true;
-      // Check if the matchId is just the numeric part
-      const numericMatch = m.id.match(/-(\d+)$/);
-      if (numericMatch && numericMatch[1] === matchId) return true;
-      const anyNumeric = m.id.match(/(\d+)/);
-      if (anyNumeric && anyNumeric[1] === matchId) return true;
-      return false;
+      // Fallback: search in all matches
+      const allMatches = await fetchAllMatches();
+
+      const match = allMatches.find(m => {
+        if (m.id === matchId) return true;
+        // Check if the matchId is just the numeric part
+        const numericMatch = m.id.match(/-(\d+)$/);
+        if (numericMatch && numericMatch[1] === matchId) return true;
+        const anyNumeric = m.id.match(/(\d+)/);
+        if (anyNumeric && anyNumeric[1] === matchId) return true;
+        return false;
     });
 
     if (!match) {
       throw new Error(`Match ${matchId} not found`);
     }
 
-    setCachedData(cacheKey, match);
     console.log(`✅ Found match: ${match.title}`);
     return match;
+    });
   } catch (error) {
     console.error(`❌ Error fetching match ${matchId}:`, error);
     throw error;
@@ -610,7 +569,7 @@ const buildAdFreeEmbedUrl = (
 // Fetch stream for a match - uses ad-free embed player
 export const fetchSimpleStream = async (source: string, id: string, category?: string): Promise<Stream[]> => {
   const cacheKey = `streamed-stream-${source}-${id}`;
-  const cached = getCachedData(cacheKey, STREAM_CACHE_DURATION);
+  const cached = streamCache.getSync(cacheKey);
   if (cached) return cached;
 
   try {
@@ -629,7 +588,7 @@ export const fetchSimpleStream = async (source: string, id: string, category?: s
     };
 
     console.log(`✅ Embed URL: ${adFreeUrl}`);
-    setCachedData(cacheKey, [primaryStream]);
+    streamCache.set(cacheKey, [primaryStream]);
     return [primaryStream];
   } catch (error) {
     console.error(`❌ Error building URL for ${source}/${id}:`, error);
@@ -748,22 +707,6 @@ export const fetchAllMatchStreams = async (match: Match): Promise<{
   };
 };
 
-// Fetch all streams (legacy compatibility)
-export const fetchAllStreams = async (match: Match): Promise<Record<string, Stream[]>> => {
-  const result = await fetchAllMatchStreams(match);
-  const streamsRecord: Record<string, Stream[]> = {};
-
-  result.streams.forEach(stream => {
-    const key = `${stream.source}/${stream.id}`;
-    if (!streamsRecord[key]) {
-      streamsRecord[key] = [];
-    }
-    streamsRecord[key].push(stream);
-  });
-
-  return streamsRecord;
-};
-
 // Get image URL
 export const getBohoImageUrl = (path: string): string => {
   if (!path) return '';
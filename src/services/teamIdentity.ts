@@ -0,0 +1,255 @@
+import aliasFile from '../data/teamAliases.json';
+
+// Team identity
+// One place that decides whether two team names mean the same team, whichever
+// source they came from (streamed.pk, TheSportsDB, logo mappings, EPG listings).
+// Names are folded (case, accents, punctuation, club suffixes), resolved through
+// src/data/teamAliases.json to a canonical name, then scored against each other.
+
+type AliasTable = Record<string, string[]>;
+
+interface AliasFile {
+  national: AliasTable;
+  sports: Record<string, AliasTable>;
+}
+
+export const MIN_TEAM_CONFIDENCE = 0.6;
+
+// Letters NFD doesn't split into base letter + accent
+const TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'ø': 'o', 'æ': 'ae', 'œ': 'oe', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+// Club prefixes/suffixes that never tell two teams apart: "FC Porto" is "Porto"
+const CLUB_AFFIXES = new Set(['fc', 'cf', 'afc', 'sc', 'bc', 'sfc', 'fk', 'sk']);
+
+// Abbreviations spelled out, so "Man Utd" and "Man United" fold the same
+const TOKEN_EXPANSIONS: Record<string, string> = { utd: 'united', st: 'saint' };
+
+// Words shared by many unrelated clubs - a match on these alone proves nothing,
+// and "Manchester United" vs "Manchester City" differ only in them
+const GENERIC_TOKENS = new Set([
+  'united', 'city', 'town', 'county', 'athletic', 'albion', 'rovers', 'wanderers', 'hotspur',
+  'real', 'sporting', 'atletico', 'inter', 'olympique', 'borussia', 'dynamo', 'club',
+  'new', 'york', 'los', 'angeles', 'san', 'saint', 'la', 'de', 'del', 'al', 'women', 'reserves'
+]);
+
+// Words that name a different squad of the same club: "Arsenal Women" is never "Arsenal",
+// "Boca Juniors II" is never "Boca Juniors". Age groups ("u21", "u23") are matched separately.
+const SQUAD_TOKENS = new Set([
+  'women', 'womens', 'ladies', 'wfc', 'reserves', 'reserve', 'ii', 'iii', 'b', 'youth', 'academy'
+]);
+
+const isSquadToken = (token: string) => SQUAD_TOKENS.has(token) || /^u\d{2}$/.test(token);
+
+// Our sport categories -> alias table keys
+const SPORT_KEYS: Record<string, string> = {
+  'football': 'football',
+  'soccer': 'football',
+  'basketball': 'basketball',
+  'nba': 'basketball',
+  'american-football': 'american-football',
+  'american_football': 'american-football',
+  'nfl': 'american-football',
+  'hockey': 'hockey',
+  'ice-hockey': 'hockey',
+  'ice_hockey': 'hockey',
+  'nhl': 'hockey',
+  'baseball': 'baseball',
+  'mlb': 'baseball',
+  'cricket': 'cricket',
+  'rugby': 'rugby'
+};
+
+/**
+ * Fold a team name for comparison:
+ * "Atlético de Madrid" -> "atletico de madrid", "Man Utd F.C." -> "man united"
+ */
+export const foldTeamName = (name: string): string => {
+  const tokens = (name || '')
+    .toLowerCase()
+    .replace(/[ßøæœłđðþı]/g, char => TRANSLITERATIONS[char] || char)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/\b(\w)\.(?=\w\.)/g, '$1')   // "F.C." -> "FC."
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map(token => TOKEN_EXPANSIONS[token] || token);
+
+  // Drop club affixes at either end, but never reduce the name to nothing
+  while (tokens.length > 1 && CLUB_AFFIXES.has(tokens[0])) tokens.shift();
+  while (tokens.length > 1 && CLUB_AFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+
+  return tokens.join(' ');
+};
+
+// folded alias -> canonical display name
+type AliasIndex = Map<string, string>;
+
+const addAliases = (index: AliasIndex, table: AliasTable, conflicts?: Set<string>) => {
+  for (const [canonical, aliases] of Object.entries(table)) {
+    for (const alias of [canonical, ...aliases]) {
+      const folded = foldTeamName(alias);
+      if (!folded) continue;
+      const existing = index.get(folded);
+      if (existing && existing !== canonical) {
+        conflicts?.add(folded);
+        continue;
+      }
+      index.set(folded, canonical);
+    }
+  }
+};
+
+const { national, sports } = aliasFile as AliasFile;
+
+// National team codes ("USA", "ENG") are how guides write fixtures, unlike club codes
+const nationalAliases = new Set(Object.values(national).flat().map(foldTeamName));
+
+// Per sport: that sport's aliases plus national teams
+const sportIndexes = new Map<string, AliasIndex>(
+  Object.entries(sports).map(([sport, table]) => {
+    const index: AliasIndex = new Map();
+    addAliases(index, table);
+    addAliases(index, national);
+    return [sport, index];
+  })
+);
+
+// Sport unknown: national teams plus every alias that means the same team in every sport
+// ("Wolves" is Wolverhampton or Minnesota depending on the sport, so it's left out)
+const globalIndex: AliasIndex = (() => {
+  const index: AliasIndex = new Map();
+  const conflicts = new Set<string>();
+  addAliases(index, national);
+  Object.values(sports).forEach(table => addAliases(index, table, conflicts));
+  conflicts.forEach(alias => index.delete(alias));
+  return index;
+})();
+
+const getAliasIndex = (sport?: string): AliasIndex =>
+  (sport && sportIndexes.get(SPORT_KEYS[sport.toLowerCase()])) || globalIndex;
+
+/**
+ * Canonical display name for a team ("Man Utd" -> "Manchester United"),
+ * or the name as given when there's no alias for it
+ */
+export const getCanonicalTeamName = (name: string, sport?: string): string =>
+  getAliasIndex(sport).get(foldTeamName(name)) || (name || '').trim();
+
+/**
+ * Comparison key for a team: folded canonical name. Equal keys mean the same team.
+ */
+export const normalizeTeamName = (name: string, sport?: string): string => {
+  const folded = foldTeamName(name);
+  const canonical = getAliasIndex(sport).get(folded);
+  return canonical ? foldTeamName(canonical) : folded;
+};
+
+const containsWords = (haystack: string, needle: string) => ` ${haystack} `.includes(` ${needle} `);
+
+const isDistinctive = (token: string) => token.length >= 3 && !GENERIC_TOKENS.has(token);
+
+// Long enough and specific enough to be part of a club's name ("Jets", "Western")
+const isNamed = (token: string) => token.length >= 4 && !GENERIC_TOKENS.has(token);
+
+const getSquad = (tokens: string[]) => tokens.filter(isSquadToken).sort().join(' ');
+
+/**
+ * Score how likely two team names refer to the same team (0-1)
+ */
+export const scoreTeamMatch = (a: string, b: string, sport?: string): number => {
+  const normA = normalizeTeamName(a, sport);
+  const normB = normalizeTeamName(b, sport);
+
+  if (!normA || !normB) return 0;
+  if (normA === normB) return 1;
+  if (normA.replace(/\s+/g, '') === normB.replace(/\s+/g, '')) return 0.95;
+
+  const tokensA = normA.split(' ');
+  const tokensB = normB.split(' ');
+
+  // First team vs women's, reserve or youth side - same club, different team
+  if (getSquad(tokensA) !== getSquad(tokensB)) return 0;
+
+  // "Tottenham" vs "Tottenham Hotspur" - whole words only, so "Inter" isn't inside "Internacional".
+  // Extra words that name something ("Sydney" vs "Western Sydney Wanderers") make it another club.
+  const [shorter, longer] = normA.length <= normB.length ? [normA, normB] : [normB, normA];
+  if (shorter.length >= 4 && containsWords(longer, shorter)) {
+    const extras = longer.split(' ').filter(token => !containsWords(shorter, token));
+    return extras.some(isNamed) ? 0.4 : 0.85;
+  }
+
+  const setB = new Set(tokensB);
+  const shared = tokensA.filter(token => setB.has(token));
+
+  if (!shared.some(isDistinctive)) return 0;
+
+  const restA = tokensA.filter(token => !shared.includes(token));
+  const restB = tokensB.filter(token => !shared.includes(token));
+
+  if (restA.length > 0 && restB.length > 0) {
+    // "Manchester United" vs "Manchester City"
+    if (!restA.some(isDistinctive) && !restB.some(isDistinctive)) return 0;
+    // "Los Angeles Lakers" vs "Los Angeles Clippers", "Newcastle United" vs "Newcastle Jets"
+    if (restA.some(isNamed) || restB.some(isNamed)) return 0;
+  }
+
+  const dice = (2 * shared.length) / (tokensA.length + tokensB.length);
+  return Math.round((MIN_TEAM_CONFIDENCE + 0.3 * dice) * 100) / 100;
+};
+
+/**
+ * Whether two team names refer to the same team
+ */
+export const teamsMatch = (a: string, b: string, sport?: string): boolean =>
+  scoreTeamMatch(a, b, sport) >= MIN_TEAM_CONFIDENCE;
+
+/**
+ * Whether free text (an EPG title, a match title) mentions a team by any of its names
+ */
+export const textMentionsTeam = (text: string, team: string, sport?: string): boolean => {
+  const foldedText = foldTeamName(text);
+  const folded = foldTeamName(team);
+  if (!foldedText || !folded) return false;
+
+  const index = getAliasIndex(sport);
+  const canonical = index.get(folded);
+  const names = new Set([folded]);
+  if (canonical) {
+    index.forEach((target, alias) => {
+      // Short club codes ("was", "min", "bar") are too easy to hit by accident in running text
+      if (target === canonical && (alias.length > 3 || nationalAliases.has(alias))) names.add(alias);
+    });
+  }
+
+  return Array.from(names).some(name => containsWords(foldedText, name));
+};
+
+/**
+ * Best candidate for a fixture - home has to match home and away away
+ */
+export const findBestFixture = <T>(
+  candidates: T[],
+  getTeams: (candidate: T) => [string, string],
+  home: string,
+  away: string,
+  sport?: string
+): T | undefined => {
+  let best: T | undefined;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    const [candidateHome, candidateAway] = getTeams(candidate);
+    const score = Math.min(scoreTeamMatch(candidateHome, home, sport), scoreTeamMatch(candidateAway, away, sport));
+    if (score >= MIN_TEAM_CONFIDENCE && score > bestScore) {
+      best = candidate;
+      bestScore = score;
+      if (score === 1) break;
+    }
+  }
+
+  return best;
+};
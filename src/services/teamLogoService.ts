@@ -1,4 +1,5 @@
 // Service to provide team and country logos for matches
+import { foldTeamName, normalizeTeamName, teamsMatch, textMentionsTeam } from './teamIdentity';
 
 interface TeamLogoMapping {
   [key: string]: string;
@@ -65,33 +66,37 @@ const COUNTRY_LOGO_MAPPINGS: CountryLogoMapping = {
   'china': 'https://flagpedia.net/data/flags/w580/cn.webp',
 };
 
+// Key a name -> URL mapping by team identity, so "Man Utd" finds "manchester united"
+const indexByTeam = (mapping: TeamLogoMapping | CountryLogoMapping): Map<string, string> =>
+  new Map(Object.entries(mapping).map(([name, url]) => [normalizeTeamName(name), url]));
+
 class TeamLogoService {
-  private normalizeTeamName(name: string): string {
-    return name.toLowerCase().trim();
-  }
+  private teamLogos = indexByTeam(TEAM_LOGO_MAPPINGS);
+  private countryFlags = indexByTeam(COUNTRY_LOGO_MAPPINGS);
 
   private extractCountryFromTeamName(teamName: string): string | null {
-    const normalized = this.normalizeTeamName(teamName);
+    const words = ` ${foldTeamName(teamName)} `;
+    const mentions = (...phrases: string[]) => phrases.some(phrase => words.includes(` ${phrase} `));
     
     // Check if team name contains a country name
-    for (const country of Object.keys(COUNTRY_LOGO_MAPPINGS)) {
-      if (normalized.includes(country.toLowerCase())) {
+    for (const country of this.countryFlags.keys()) {
+      if (textMentionsTeam(teamName, country)) {
         return country;
       }
     }
     
     // Check for common patterns
-    if (normalized.includes('england') || normalized.includes('premier league')) return 'england';
-    if (normalized.includes('spain') || normalized.includes('la liga')) return 'spain';
-    if (normalized.includes('germany') || normalized.includes('bundesliga')) return 'germany';
-    if (normalized.includes('italy') || normalized.includes('serie a')) return 'italy';
-    if (normalized.includes('france') || normalized.includes('ligue 1')) return 'france';
-    if (normalized.includes('usa') || normalized.includes('mls') || normalized.includes('nfl') || normalized.includes('nba')) return 'usa';
+    if (mentions('england', 'premier league')) return 'england';
+    if (mentions('spain', 'la liga')) return 'spain';
+    if (mentions('germany', 'bundesliga')) return 'germany';
+    if (mentions('italy', 'serie a')) return 'italy';
+    if (mentions('france', 'ligue 1')) return 'france';
+    if (mentions('usa', 'mls', 'nfl', 'nba')) return 'usa';
     
     return null;
   }
 
-  public getTeamLogo(teamName: string, teamBadge?: string): string | null {
+  public getTeamLogo(teamName: string, teamBadge?: string, sport?: string): string | null {
     if (!teamName) return null;
 
     // First priority: Use official API badge if it's already a full URL
@@ -109,24 +114,26 @@ class TeamLogoService {
       return `https://streamed.pk/api/images/badge/${teamBadge}.webp`;
     }
     
-    const normalized = this.normalizeTeamName(teamName);
+    const normalized = normalizeTeamName(teamName, sport);
     
     // Second priority: Direct team mapping
-    if (TEAM_LOGO_MAPPINGS[normalized]) {
-      return TEAM_LOGO_MAPPINGS[normalized];
+    const mapped = this.teamLogos.get(normalized);
+    if (mapped) {
+      return mapped;
     }
     
-    // Third priority: Partial matches for team names
-    for (const [mappedName, logo] of Object.entries(TEAM_LOGO_MAPPINGS)) {
-      if (normalized.includes(mappedName) || mappedName.includes(normalized)) {
+    // Third priority: Close matches for team names
+    for (const [mappedName, logo] of this.teamLogos) {
+      if (teamsMatch(normalized, mappedName, sport)) {
         return logo;
       }
     }
     
     // Fallback: Country flag if we can determine the country
     const country = this.extractCountryFromTeamName(teamName);
-    if (country && COUNTRY_LOGO_MAPPINGS[country]) {
-      return COUNTRY_LOGO_MAPPINGS[country];
+    const flag = country && this.countryFlags.get(normalizeTeamName(country));
+    if (flag) {
+      return flag;
     }
     
     return null;
@@ -135,8 +142,7 @@ class TeamLogoService {
   public getCountryFlag(countryName: string): string | null {
     if (!countryName) return null;
     
-    const normalized = this.normalizeTeamName(countryName);
-    return COUNTRY_LOGO_MAPPINGS[normalized] || null;
+    return this.countryFlags.get(normalizeTeamName(countryName)) || null;
   }
 
   // Method to enhance match data with logos
@@ -146,7 +152,7 @@ class TeamLogoService {
     const enhancedMatch = { ...match };
     
     if (match.teams.home?.name && !match.teams.home.logo) {
-      const logo = this.getTeamLogo(match.teams.home.name, match.teams.home.badge);
+      const logo = this.getTeamLogo(match.teams.home.name, match.teams.home.badge, match.category);
       if (logo) {
         console.log(`Enhanced home team "${match.teams.home.name}" with logo:`, logo);
         enhancedMatch.teams.home.logo = logo;
@@ -154,7 +160,7 @@ class TeamLogoService {
     }
     
     if (match.teams.away?.name && !match.teams.away.logo) {
-      const logo = this.getTeamLogo(match.teams.away.name, match.teams.away.badge);
+      const logo = this.getTeamLogo(match.teams.away.name, match.teams.away.badge, match.category);
       if (logo) {
         console.log(`Enhanced away team "${match.teams.away.name}" with logo:`, logo);
         enhancedMatch.teams.away.logo = logo;
@@ -166,12 +172,12 @@ class TeamLogoService {
 
   // Method to add more team mappings dynamically
   public addTeamMapping(teamName: string, logoUrl: string): void {
-    TEAM_LOGO_MAPPINGS[this.normalizeTeamName(teamName)] = logoUrl;
+    this.teamLogos.set(normalizeTeamName(teamName), logoUrl);
   }
 
   // Method to add more country mappings dynamically
   public addCountryMapping(countryName: string, flagUrl: string): void {
-    COUNTRY_LOGO_MAPPINGS[this.normalizeTeamName(countryName)] = flagUrl;
+    this.countryFlags.set(normalizeTeamName(countryName), flagUrl);
   }
 }
 
@@ -1,4 +1,6 @@
 // TheSportsDB API Service - Premium Key
+import { getCanonicalTeamName, normalizeTeamName } from './teamIdentity';
+
 const API_KEY = '751945';
 const API_BASE = `https://www.thesportsdb.com/api/v1/json/${API_KEY}`;
 
@@ -48,20 +50,6 @@ const recordRequest = () => {
   requestTimestamps.push(Date.now());
 };
 
-// Normalize team name for searching
-const normalizeTeamName = (name: string): string => {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/\s+fc$/i, '')
-    .replace(/^fc\s+/i, '')
-    .replace(/\s+cf$/i, '')
-    .replace(/\s+sc$/i, '')
-    .replace(/\s+afc$/i, '')
-    .replace(/\s+united$/i, ' united')
-    .replace(/\s+city$/i, ' city');
-};
-
 // Search for team and get all data (logo, badge, fanart)
 export const fetchTeamData = async (teamName: string): Promise<TeamData | null> => {
   if (!teamName) return null;
@@ -88,7 +76,8 @@ export const fetchTeamData = async (teamName: string): Promise<TeamData | null>
   const requestPromise = (async () => {
     try {
       recordRequest();
-      const searchUrl = `${API_BASE}/searchteams.php?t=${encodeURIComponent(teamName)}`;
+      // Search by canonical name - TheSportsDB knows "Manchester United", not "Man Utd"
+      const searchUrl = `${API_BASE}/searchteams.php?t=${encodeURIComponent(getCanonicalTeamName(teamName))}`;
       const response = await fetch(searchUrl);
 
       // Handle rate limit error
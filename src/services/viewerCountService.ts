@@ -1,4 +1,6 @@
-import { Match } from '@/types/sports';
+import { Match, ViewerCountKind, ViewerCountReading } from '@/types/sports';
+import { getMeasuredViewerCount, getMeasuredViewerCounts } from './realViewerService';
+import { getViewerReading, isMatchLive } from '@/utils/matchUtils';
 
 // Fetch viewer counts directly from streamed.pk stream API
 const STREAM_API_BASE = 'https://streamed.pk/api';
@@ -64,21 +66,8 @@ const fetchViewersFromStreamAPI = async (source: string, id: string): Promise<nu
   return null;
 };
 
-/**
- * Check if a match is currently live
- */
-export const isMatchLive = (match: Match): boolean => {
-  if (!match.date) return false;
-
-  const matchTime = new Date(match.date).getTime();
-  const now = Date.now();
-
-  const hasStarted = matchTime <= now;
-  const maxDuration = 3 * 60 * 60 * 1000;
-  const hasEnded = now > matchTime + maxDuration;
-
-  return hasStarted && !hasEnded;
-};
+// Re-exported for existing imports - the match lifecycle decides what is live
+export { isMatchLive };
 
 const validateViewerCount = (viewers: any): number | null => {
   if (typeof viewers !== 'number' || viewers < 0 || !isFinite(viewers)) {
@@ -90,12 +79,12 @@ const validateViewerCount = (viewers: any): number | null => {
 // Preferred sources for viewer counts (these have accurate data)
 const PREFERRED_SOURCES = ['admin', 'alpha', 'charlie'];
 
+const NO_VIEWERS: ViewerCountReading = { count: 0, kind: 'none' };
+
 /**
- * Fetch viewer count for a match from streamed.pk
+ * Fetch the upstream viewer count for a match from streamed.pk
  */
-export const fetchMatchViewerCount = async (match: Match): Promise<number | null> => {
-  if (!isMatchLive(match)) return null;
-
+const fetchUpstreamViewerCount = async (match: Match): Promise<number | null> => {
   // Check cache
   const cacheKey = match.id;
   const cached = viewerCountCache.get(cacheKey);
@@ -124,6 +113,20 @@ export const fetchMatchViewerCount = async (match: Match): Promise<number | null
   }
 };
 
+/**
+ * Viewer count for a match: measured by our presence service when anyone is watching
+ * here, otherwise the stream source's own figure, otherwise 'none'
+ */
+export const fetchMatchViewerCount = async (match: Match): Promise<ViewerCountReading> => {
+  if (!isMatchLive(match)) return NO_VIEWERS;
+
+  const measured = await getMeasuredViewerCount(match.id);
+  if (measured.kind === 'measured') return measured;
+
+  const upstream = await fetchUpstreamViewerCount(match);
+  return upstream !== null && upstream > 0 ? { count: upstream, kind: 'upstream' } : NO_VIEWERS;
+};
+
 /**
  * Fetch viewer count from a specific source
  */
@@ -140,31 +143,40 @@ export const fetchViewerCountFromSource = async (
 };
 
 /**
- * Fetch viewer counts for multiple matches - batch with limited concurrency
+ * Fetch viewer counts for multiple matches - one presence request for measured counts,
+ * then upstream for the rest with limited concurrency. Matches without either are left out.
  */
 export const fetchBatchViewerCounts = async (
   matches: Match[]
-): Promise<Map<string, number>> => {
-  const viewerCounts = new Map<string, number>();
-  const liveMatches = matches.filter(isMatchLive);
+): Promise<Map<string, ViewerCountReading>> => {
+  const viewerCounts = new Map<string, ViewerCountReading>();
+  const liveMatches = matches.filter(match => isMatchLive(match));
 
   if (liveMatches.length === 0) return viewerCounts;
 
   console.log(`🔄 Fetching viewer counts for ${liveMatches.length} live matches`);
 
-  // Check cache first
+  const measured = await getMeasuredViewerCounts(liveMatches.map(match => match.id));
+
+  // Upstream for the rest - cached ones first
   const uncachedMatches: Match[] = [];
   for (const match of liveMatches) {
+    const reading = measured.get(match.id);
+    if (reading?.kind === 'measured') {
+      viewerCounts.set(match.id, reading);
+      continue;
+    }
+
     const cached = viewerCountCache.get(match.id);
     if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      viewerCounts.set(match.id, cached.count);
+      viewerCounts.set(match.id, { count: cached.count, kind: 'upstream' });
     } else {
       uncachedMatches.push(match);
     }
   }
 
   if (uncachedMatches.length === 0) {
-    console.log(`✅ All ${viewerCounts.size} matches served from cache`);
+    console.log(`✅ All ${viewerCounts.size} matches served from presence or cache`);
     return viewerCounts;
   }
 
@@ -175,9 +187,9 @@ export const fetchBatchViewerCounts = async (
     const batch = limitedMatches.slice(i, i + concurrentLimit);
 
     const promises = batch.map(async (match) => {
-      const count = await fetchMatchViewerCount(match);
+      const count = await fetchUpstreamViewerCount(match);
       if (count !== null && count > 0) {
-        viewerCounts.set(match.id, count);
+        viewerCounts.set(match.id, { count, kind: 'upstream' });
       }
     });
 
@@ -190,16 +202,18 @@ export const fetchBatchViewerCounts = async (
 
 /**
  * Enrich matches with viewer counts
+ * A match nothing new was found for keeps the count it was listed with, if any.
  */
 export const enrichMatchesWithViewers = async (matches: Match[]): Promise<Match[]> => {
   const viewerCounts = await fetchBatchViewerCounts(matches);
 
   return matches.map(match => {
-    const viewerCount = viewerCounts.get(match.id);
+    const reading = viewerCounts.get(match.id) ?? getViewerReading(match);
     return {
       ...match,
-      viewerCount: viewerCount ?? undefined,
-      popular: viewerCount !== undefined ? true : match.popular
+      viewerCount: reading.kind !== 'none' ? reading.count : undefined,
+      viewerCountKind: reading.kind,
+      popular: reading.kind !== 'none' ? true : match.popular
     };
   });
 };
@@ -215,6 +229,17 @@ export const formatViewerCount = (count: number, rounded: boolean = false): stri
   return count.toLocaleString();
 };
 
+/**
+ * Where a count came from, for tooltips and labels next to it
+ */
+export const getViewerCountLabel = (kind: ViewerCountKind): string => {
+  switch (kind) {
+    case 'measured': return 'Watching on DamiTV right now';
+    case 'upstream': return 'Viewers reported by the stream source';
+    default: return 'Viewer count unavailable';
+  }
+};
+
 /**
  * Clear cache
  */
@@ -0,0 +1,24 @@
+import { Sport, Match, Stream } from './sports';
+
+export interface MatchStreamsResult {
+  streams: Stream[];
+  sourcesChecked: number;
+  sourcesWithStreams: number;
+  sourceNames: string[];
+}
+
+// A source of match listings and streams (streamed.pk, local fixtures, ...)
+// Pages never talk to a provider directly - they go through src/api/sportsApi.ts
+export interface MatchProvider {
+  id: string;
+  name: string;
+  fetchSports: () => Promise<Sport[]>;
+  fetchAllMatches: () => Promise<Match[]>;
+  fetchMatches: (sportId: string) => Promise<Match[]>;
+  fetchLiveMatches: () => Promise<Match[]>;
+  fetchPopularMatches: () => Promise<Match[]>;
+  fetchMatch: (sportId: string, matchId: string) => Promise<Match>;
+  fetchStreams: (source: string, id: string, category?: string) => Promise<Stream[]>;
+  fetchMatchStreams: (match: Match) => Promise<MatchStreamsResult>;
+  clearCache?: (matchId?: string) => void;
+}
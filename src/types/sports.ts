@@ -15,6 +15,15 @@ export interface Source {
   id: string;
 }
 
+// Where a viewer count came from: our own presence service, the stream source, or nowhere.
+// 'none' means unknown - never render it as zero or rank it as if it were a count.
+export type ViewerCountKind = 'measured' | 'upstream' | 'none';
+
+export interface ViewerCountReading {
+  count: number;
+  kind: ViewerCountKind;
+}
+
 export interface Match {
   id: string;
   title: string;
@@ -30,6 +39,8 @@ export interface Match {
   related?: Match[];       // Related matches
   sportId?: string;        // Added for compatibility - maps to category
   viewerCount?: number;    // Number of current viewers
+  viewerCountKind?: ViewerCountKind; // Where viewerCount came from
+  aliases?: string[];      // Upstream IDs merged into this match (id is the canonical ID)
 }
 
 export interface Stream {
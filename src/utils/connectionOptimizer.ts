@@ -87,15 +87,23 @@ export const getRecommendedQuality = (connectionInfo: ConnectionInfo): StreamQua
 };
 
 // Detect if user is casting (AirPlay, Chromecast, etc.)
-export const detectCasting = (): boolean => {
-  // Check for AirPlay
-  if ('webkitDisplayingFullscreen' in HTMLVideoElement.prototype) {
-    return true;
-  }
-  
-  // Check for Remote Playback API (Chromecast)
-  if ('remote' in HTMLVideoElement.prototype) {
-    return true;
+// Checks the video element's actual playback target when one is given
+export const detectCasting = (video?: HTMLVideoElement | null): boolean => {
+  if (video) {
+    const target = video as HTMLVideoElement & {
+      webkitCurrentPlaybackTargetIsWireless?: boolean;
+      remote?: { state?: string };
+    };
+
+    // AirPlay
+    if (target.webkitCurrentPlaybackTargetIsWireless) {
+      return true;
+    }
+
+    // Remote Playback API (Chromecast)
+    if (target.remote?.state === 'connected') {
+      return true;
+    }
   }
   
   // Check user agent for casting indicators
@@ -0,0 +1,70 @@
+import { Match } from '../types/sports';
+import { FavouriteLeague, FavouriteTeam, Favourites } from '../services/favouritesService';
+import { foldTeamName, normalizeTeamName, teamsMatch, textMentionsTeam } from '../services/teamIdentity';
+
+export interface FavouriteMatchGroup {
+  key: string;
+  type: 'team' | 'league';
+  label: string;
+  matches: Match[];
+}
+
+const sameSport = (match: Match, sport?: string): boolean => {
+  if (!sport) return true;
+  const category = (match.category || match.sportId || '').toLowerCase();
+  return !category || category === sport.toLowerCase();
+};
+
+// Check if a match involves a followed team (same team identity matching as live scores)
+export const matchHasTeam = (match: Match, team: FavouriteTeam): boolean => {
+  if (!sameSport(match, team.sport)) return false;
+
+  const home = match.teams?.home?.name || '';
+  const away = match.teams?.away?.name || '';
+
+  if (home || away) {
+    return (!!home && teamsMatch(home, team.name, team.sport)) || (!!away && teamsMatch(away, team.name, team.sport));
+  }
+
+  // No team data - fall back to the title (e.g. "Arsenal vs Chelsea")
+  return textMentionsTeam(match.title || '', team.name, team.sport);
+};
+
+// Check if a match belongs to a followed league by its title keywords
+export const matchInLeague = (match: Match, league: FavouriteLeague): boolean => {
+  if (!sameSport(match, league.sport)) return false;
+
+  const title = foldTeamName(`${match.title || ''} ${match.id || ''}`);
+  const keywords = [league.name, ...(league.keywords || [])]
+    .map(foldTeamName)
+    .filter(k => k.length >= 3);
+
+  return keywords.some(keyword => title.includes(keyword));
+};
+
+// Check if a match involves any followed team or league
+export const isFavouriteMatch = (match: Match, favourites: Favourites): boolean => {
+  return favourites.teams.some(team => matchHasTeam(match, team)) ||
+    favourites.leagues.some(league => matchInLeague(match, league));
+};
+
+// Group matches by followed team/league - a match can appear under more than one group
+export const groupMatchesByFavourites = (matches: Match[], favourites: Favourites): FavouriteMatchGroup[] => {
+  const byDate = [...matches].sort((a, b) => a.date - b.date);
+
+  const teamGroups: FavouriteMatchGroup[] = favourites.teams.map(team => ({
+    key: `team:${team.sport || 'any'}:${normalizeTeamName(team.name, team.sport)}`,
+    type: 'team',
+    label: team.name,
+    matches: byDate.filter(match => matchHasTeam(match, team))
+  }));
+
+  const leagueGroups: FavouriteMatchGroup[] = favourites.leagues.map(league => ({
+    key: `league:${league.id}`,
+    type: 'league',
+    label: league.name,
+    matches: byDate.filter(match => matchInLeague(match, league))
+  }));
+
+  return [...teamGroups, ...leagueGroups];
+};
@@ -1,5 +1,5 @@
 import { Match } from '@/types/sports';
-import { isMatchLive } from './matchUtils';
+import { isMatchEnded, isMatchLive } from './matchUtils';
 
 // Top priority: International football (country matches)
 const INTERNATIONAL_FOOTBALL = [
@@ -262,7 +262,7 @@ export const getFeaturedMatches = (matches: Match[], limit: number = 10): Match[
   const liveMatches = featuredWithPosters.filter(match => isMatchLive(match));
   
   const upcomingMatches = featuredWithPosters
-    .filter(match => !isMatchLive(match))
+    .filter(match => !isMatchLive(match) && !isMatchEnded(match))
     .sort((a, b) => {
       // Sort upcoming matches by date (soonest first)
       return a.date - b.date;
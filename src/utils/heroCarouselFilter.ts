@@ -1,10 +1,8 @@
 import { Match } from '@/types/sports';
-import { isMatchLive } from './matchUtils';
+import { getViewerHeat, getViewerReading, isMatchLive } from './matchUtils';
+import { getMatchLifecycle } from '../services/matchLifecycle';
 import { enrichMatchesWithViewers } from '@/services/viewerCountService';
 
-// Minimum viewer count to qualify as "hot" (500+)
-const HOT_VIEWER_THRESHOLD = 500;
-
 // Top-tier leagues and competitions (highest priority)
 const ELITE_COMPETITIONS = [
   // Top 5 European leagues
@@ -108,8 +106,8 @@ const calculateCarouselPriority = (match: Match): number => {
   const title = match.title.toLowerCase();
   
   // 1. Viewer count boost (highest priority)
-  if (match.viewerCount && match.viewerCount >= HOT_VIEWER_THRESHOLD) {
-    score += 100 + (match.viewerCount / 100); // Massive boost for high viewers
+  if (isHotMatch(match)) {
+    score += 100 + getViewerHeat(getViewerReading(match)) * 5; // Massive boost for high viewers
   }
   
   // 2. Live status
@@ -152,10 +150,12 @@ export const getCarouselMatches = async (
   // 2. Filter for elite matches only
   const eliteMatches = matchesWithPosters.filter(isEliteMatch);
   
-  // 3. Filter for live or upcoming within 14 days
+  // 3. Filter for live or upcoming within 14 days - nothing finished, postponed or cancelled
   const now = Date.now();
   const fourteenDaysFromNow = now + (14 * 24 * 60 * 60 * 1000);
   const relevantMatches = eliteMatches.filter(match => {
+    const { phase } = getMatchLifecycle(match, now);
+    if (phase === 'finished' || phase === 'postponed' || phase === 'cancelled') return false;
     const matchTime = new Date(match.date).getTime();
     return matchTime <= fourteenDaysFromNow;
   });
@@ -165,9 +165,7 @@ export const getCarouselMatches = async (
   
   // 5. Filter for high-profile matches (elite OR high viewers)
   const carouselCandidates = enrichedMatches.filter(match => {
-    const hasHighViewers = match.viewerCount && match.viewerCount >= HOT_VIEWER_THRESHOLD;
-    const isTopTier = isEliteMatch(match);
-    return hasHighViewers || isTopTier;
+    return isHotMatch(match) || isEliteMatch(match);
   });
   
   // 6. Sort by priority score
@@ -183,7 +181,7 @@ export const getCarouselMatches = async (
  * Check if match should show "HOT" badge
  */
 export const isHotMatch = (match: Match): boolean => {
-  return (match.viewerCount && match.viewerCount >= HOT_VIEWER_THRESHOLD) || false;
+  return getViewerHeat(getViewerReading(match)) >= 1;
 };
 
 /**
@@ -1,9 +1,10 @@
-import { Match } from '../types/sports';
+import { Match, ViewerCountKind, ViewerCountReading } from '../types/sports';
+import { dedupeMatches } from '../services/matchIdentity';
+import { compareByLifecycle, getMatchLifecycle, isLivePhase, isOverPhase } from '../services/matchLifecycle';
 
-// No consolidation - use matches directly from API with all their sources
+// Merge duplicate listings of the same event (all their sources kept) under a canonical ID
 export const consolidateMatches = (matches: Match[]): Match[] => {
-  // Return matches as-is from API without merging or consolidation
-  return matches;
+  return dedupeMatches(matches);
 };
 
 // Filter matches that have stream sources available
@@ -29,94 +30,68 @@ export const filterCleanMatches = (matches: Match[]): Match[] => {
   });
 };
 
-export const isMatchLive = (match: Match): boolean => {
-  // Primary check: If match has viewer count data, it's definitely live
-  if (match.viewerCount && match.viewerCount > 0) {
-    return true;
-  }
-  
-  // Fallback to time-based check for matches without viewer data yet
-  const matchTime = typeof match.date === 'number' ? match.date : new Date(match.date).getTime();
-  const now = new Date().getTime();
-  const fiveMinutesBeforeMs = 5 * 60 * 1000;
-  
-  // Extended live windows for all sports (generous to avoid marking live events as ended)
-  const isCricket = match.category === 'cricket' || match.sportId === 'cricket';
-  const title = match.title.toLowerCase();
-  const category = (match.category || '').toLowerCase();
-  const matchId = (match.id || '').toLowerCase();
-  const isUFC = title.includes('ufc') || title.includes('mma') || title.includes('boxing') ||
-                category.includes('ufc') || category.includes('mma') || category.includes('boxing') ||
-                matchId.includes('ufc') || matchId.includes('mma') || matchId.includes('boxing');
-  
-  let liveWindowMs;
-  if (isCricket) {
-    liveWindowMs = 7 * 24 * 60 * 60 * 1000;  // 7 days for cricket (test matches)
-  } else if (isUFC) {
-    liveWindowMs = 12 * 60 * 60 * 1000;      // 12 hours for UFC/MMA/Boxing events
-  } else {
-    liveWindowMs = 8 * 60 * 60 * 1000;       // 8 hours for all other sports (generous window)
-  }
-  
-  // Match is live if:
-  // 1. It has sources available
-  // 2. Current time is between 5 minutes before match time and live window after match time
-  return match.sources && 
-         match.sources.length > 0 && 
-         now >= matchTime - fiveMinutesBeforeMs && 
-         now <= matchTime + liveWindowMs;
+// Live includes half-time and other breaks - see services/matchLifecycle
+export const isMatchLive = (match: Match, now: number = Date.now()): boolean => {
+  return isLivePhase(getMatchLifecycle(match, now).phase);
 };
 
-export const isMatchEnded = (match: Match): boolean => {
-  const matchTime = typeof match.date === 'number' ? match.date : new Date(match.date).getTime();
-  const now = new Date().getTime();
-  
-  const title = match.title.toLowerCase();
-  const category = (match.category || '').toLowerCase();
-  const matchId = (match.id || '').toLowerCase();
-  
-  // Different sports have different durations
-  const isCricket = category === 'cricket' || match.sportId === 'cricket';
-  const isUFC = title.includes('ufc') || title.includes('mma') || title.includes('boxing') ||
-                category.includes('ufc') || category.includes('mma') || category.includes('boxing') ||
-                matchId.includes('ufc') || matchId.includes('mma') || matchId.includes('boxing');
-  
-  let endedThresholdMs;
-  if (isCricket) {
-    endedThresholdMs = 7 * 24 * 60 * 60 * 1000;  // 7 days for cricket
-  } else if (isUFC) {
-    endedThresholdMs = 8 * 60 * 60 * 1000;       // 8 hours for UFC/MMA events
-  } else {
-    endedThresholdMs = 4 * 60 * 60 * 1000;       // 4 hours for other sports
-  }
-  
-  // Match is ended if it's past the threshold and not live
-  return now - matchTime > endedThresholdMs && !isMatchLive(match);
+// Finished or cancelled - postponed matches stay listed with their badge
+export const isMatchEnded = (match: Match, now: number = Date.now()): boolean => {
+  return isOverPhase(getMatchLifecycle(match, now).phase);
 };
 
 export const filterActiveMatches = (matches: Match[]): Match[] => {
   return matches.filter(match => !isMatchEnded(match));
 };
 
+// Minimum viewer count to qualify as "hot", by where the count came from -
+// our own audience is a fraction of a stream source's, and unknown is never hot
+export const HOT_VIEWER_THRESHOLDS: Record<ViewerCountKind, number> = {
+  measured: 50,
+  upstream: 500,
+  none: Infinity
+};
+
+// Ties between equal-sized audiences go to the count we measured ourselves
+const VIEWER_KIND_RANK: Record<ViewerCountKind, number> = { measured: 2, upstream: 1, none: 0 };
+
+/**
+ * A match's viewer count and where it came from. Counts cached before kinds
+ * existed could only have come from upstream.
+ */
+export const getViewerReading = (match: Match): ViewerCountReading => {
+  const count = match.viewerCount || 0;
+  if (count <= 0) return { count: 0, kind: 'none' };
+  return { count, kind: match.viewerCountKind && match.viewerCountKind !== 'none' ? match.viewerCountKind : 'upstream' };
+};
+
+/**
+ * A viewer count as a multiple of its kind's hot threshold, so measured and upstream
+ * counts compare: 1 is hot either way, and unknown is always 0
+ */
+export const getViewerHeat = ({ count, kind }: ViewerCountReading): number =>
+  count / HOT_VIEWER_THRESHOLDS[kind];
+
+/**
+ * Sort comparator: biggest audience first whichever source counted it, unknown last
+ */
+export const compareByViewers = (a: Match, b: Match): number => {
+  const readingA = getViewerReading(a);
+  const readingB = getViewerReading(b);
+  return getViewerHeat(readingB) - getViewerHeat(readingA) ||
+    VIEWER_KIND_RANK[readingB.kind] - VIEWER_KIND_RANK[readingA.kind];
+};
+
 export const sortMatchesByViewers = (matches: Match[]): Match[] => {
+  const now = Date.now();
   return [...matches].sort((a, b) => {
-    // Sort by viewer count (highest first), then by live status, then by date
-    const aViewers = a.viewerCount || 0;
-    const bViewers = b.viewerCount || 0;
-    
-    if (aViewers !== bViewers) {
-      return bViewers - aViewers; // Higher viewers first
-    }
-    
-    // If viewer counts are equal, prioritize live matches
-    const aIsLive = isMatchLive(a);
-    const bIsLive = isMatchLive(b);
-    
-    if (aIsLive !== bIsLive) {
-      return bIsLive ? 1 : -1; // Live matches first
+    // Sort by viewer count (measured and upstream on one scale, unknown last), then by lifecycle
+    const byViewers = compareByViewers(a, b);
+    if (byViewers !== 0) {
+      return byViewers;
     }
     
-    // Finally sort by date (earliest first)
-    return a.date - b.date;
+    // If viewer counts are equal: live, starting soon, later, then postponed/finished/cancelled
+    return compareByLifecycle(a, b, now);
   });
 };
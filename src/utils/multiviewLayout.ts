@@ -0,0 +1,97 @@
+/**
+ * Multi-view layout <-> URL
+ * e.g. /multiview?layout=2x2&tiles=m:football:abc123,c:uk:sky-sports-main-event,,&audio=1
+ */
+
+export type MultiviewLayoutId = '1' | '2' | '2x2';
+
+export type MultiviewTile =
+  | { kind: 'match'; sportId: string; matchId: string }
+  | { kind: 'channel'; country: string; channelId: string };
+
+export interface MultiviewState {
+  layout: MultiviewLayoutId;
+  tiles: Array<MultiviewTile | null>;  // one slot per tile, null when empty
+  audioIndex: number;                  // tile that plays sound
+}
+
+export const MULTIVIEW_LAYOUTS: Record<MultiviewLayoutId, { label: string; slots: number }> = {
+  '1': { label: 'Single', slots: 1 },
+  '2': { label: 'Side by side', slots: 2 },
+  '2x2': { label: '2 × 2', slots: 4 }
+};
+
+export const MAX_MULTIVIEW_TILES = 4;
+
+const isLayoutId = (value: string | null): value is MultiviewLayoutId =>
+  !!value && value in MULTIVIEW_LAYOUTS;
+
+export const getTileKey = (tile: MultiviewTile): string =>
+  tile.kind === 'match' ? `m:${tile.sportId}:${tile.matchId}` : `c:${tile.country}:${tile.channelId}`;
+
+const encodeTile = (tile: MultiviewTile | null): string => {
+  if (!tile) return '';
+  const parts = tile.kind === 'match'
+    ? ['m', tile.sportId, tile.matchId]
+    : ['c', tile.country, tile.channelId];
+  return parts.map(encodeURIComponent).join(':');
+};
+
+const decodeTile = (value: string): MultiviewTile | null => {
+  const [kind, first, second] = value.split(':').map(part => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      return '';
+    }
+  });
+  if (!first || !second) return null;
+  if (kind === 'm') return { kind: 'match', sportId: first, matchId: second };
+  if (kind === 'c') return { kind: 'channel', country: first, channelId: second };
+  return null;
+};
+
+// Smallest layout that fits the given number of tiles
+export const layoutForCount = (count: number): MultiviewLayoutId =>
+  count <= 1 ? '1' : count === 2 ? '2' : '2x2';
+
+// Resize the slot list to a layout, keeping filled tiles first when shrinking
+export const fitTilesToLayout = (tiles: Array<MultiviewTile | null>, layout: MultiviewLayoutId) => {
+  const slots = MULTIVIEW_LAYOUTS[layout].slots;
+  const filled = tiles.filter((tile): tile is MultiviewTile => !!tile);
+  const source = tiles.length > slots ? filled : tiles;
+  return Array.from({ length: slots }, (_, index) => source[index] ?? null);
+};
+
+export const parseMultiviewParams = (params: URLSearchParams): MultiviewState => {
+  const tiles = (params.get('tiles') || '')
+    .split(',')
+    .slice(0, MAX_MULTIVIEW_TILES)
+    .map(decodeTile);
+
+  const requestedLayout = params.get('layout');
+  const layout = isLayoutId(requestedLayout)
+    ? requestedLayout
+    : layoutForCount(tiles.filter(Boolean).length);
+
+  const fitted = fitTilesToLayout(tiles, layout);
+  const audio = Number(params.get('audio'));
+  const audioIndex = Number.isInteger(audio) && audio >= 0 && audio < fitted.length ? audio : 0;
+
+  return { layout, tiles: fitted, audioIndex };
+};
+
+export const buildMultiviewParams = ({ layout, tiles, audioIndex }: MultiviewState): URLSearchParams => {
+  const params = new URLSearchParams({ layout });
+  if (tiles.some(Boolean)) {
+    // Trailing empty slots are implied by the layout
+    const encoded = tiles.map(encodeTile);
+    while (encoded.length > 0 && !encoded[encoded.length - 1]) encoded.pop();
+    params.set('tiles', encoded.join(','));
+  }
+  if (audioIndex > 0) params.set('audio', String(audioIndex));
+  return params;
+};
+
+export const buildMultiviewPath = (state: MultiviewState): string =>
+  `/multiview?${buildMultiviewParams(state).toString()}`;
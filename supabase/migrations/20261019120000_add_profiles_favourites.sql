@@ -0,0 +1,6 @@
+-- Followed teams and leagues for signed-in users: { "teams": [...], "leagues": [...] }
+-- Read and written by src/services/favouritesService.ts.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS favourites jsonb;
+
+COMMENT ON COLUMN public.profiles.favourites IS 'Followed teams and leagues ({ teams, leagues }), merged with the device copy on sign-in';
@@ -0,0 +1,16 @@
+-- Live viewers per room in one query, for the presence server's counts and stats.
+-- room_ids null means every room. Called by server/presence/supabaseStore.ts.
+CREATE OR REPLACE FUNCTION public.count_viewer_sessions(since_param timestamptz, room_ids_param text[] DEFAULT NULL)
+RETURNS TABLE (match_id text, viewers bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT vs.match_id, count(*) AS viewers
+  FROM public.viewer_sessions vs
+  WHERE vs.last_heartbeat >= since_param
+    AND (room_ids_param IS NULL OR vs.match_id = ANY (room_ids_param))
+  GROUP BY vs.match_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_viewer_sessions(timestamptz, text[]) FROM PUBLIC, anon, authenticated;
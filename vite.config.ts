@@ -9,14 +9,22 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Presence service - `npm run presence:build && npm run presence:start`
+      '/api/viewers': {
+        target: 'http://localhost:3005',
+        changeOrigin: true,
+      },
+    },
   },
   plugins: [
     react(),
     mode === 'development' &&
     componentTagger(),
     VitePWA({
-      registerType: 'autoUpdate',
-      includeAssets: ['favicon.png', 'robots.txt', 'sitemap.xml'],
+      registerType: 'prompt', // new builds wait for the user - see UpdatePrompt
+      injectRegister: false,
+      includeAssets: ['favicon.png', 'favicon.ico', 'robots.txt', 'sitemap.xml'],
       manifest: {
         name: 'DamiTV - Free Live Sports Streaming',
         short_name: 'DamiTV',
@@ -29,23 +37,60 @@ export default defineConfig(({ mode }) => ({
         start_url: '/',
         icons: [
           {
-            src: '/favicon.png',
+            src: '/pwa-192x192.png',
             sizes: '192x192',
             type: 'image/png',
-            purpose: 'any maskable'
+            purpose: 'any'
           },
           {
-            src: '/favicon.png',
+            src: '/pwa-512x512.png',
             sizes: '512x512',
             type: 'image/png',
-            purpose: 'any maskable'
+            purpose: 'any'
+          },
+          {
+            src: '/pwa-maskable-512x512.png',
+            sizes: '512x512',
+            type: 'image/png',
+            purpose: 'maskable'
           }
         ]
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2}'],
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // 5 MB - increased for larger bundle
+        importScripts: ['/reminder-sw.js'], // Match kickoff reminders
+        // App shell - client-side routes resolve to index.html when offline
+        navigateFallback: '/index.html',
+        navigateFallbackDenylist: [/^\/api\//, /\.[a-z0-9]+$/i],
         runtimeCaching: [
+          {
+            // Team badges - kept for offline browsing of the schedule
+            urlPattern: /^https:\/\/streamed\.(?:pk|su)\/api\/images\//i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'team-badges',
+              expiration: {
+                maxEntries: 300,
+                maxAgeSeconds: 60 * 60 * 24 * 30 // 30 days
+              },
+              cacheableResponse: { statuses: [0, 200] }
+            }
+          },
+          {
+            // Schedule and match listings - network first, last snapshot when offline
+            urlPattern: /^https:\/\/streamed\.(?:pk|su)\/api\/(?:matches|sports)(?:\/|$)/i,
+            handler: 'NetworkFirst',
+            options: {
+              cacheName: 'match-listings',
+              networkTimeoutSeconds: 8,
+              expiration: {
+                maxEntries: 40,
+                maxAgeSeconds: 60 * 60 * 24 * 2 // 2 days
+              },
+              cacheableResponse: { statuses: [0, 200] }
+            }
+          },
           {
             urlPattern: /^https:\/\/.*\.(?:png|jpg|jpeg|svg|gif|webp)$/i,
             handler: 'CacheFirst',